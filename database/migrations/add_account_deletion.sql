@@ -0,0 +1,86 @@
+-- Account deletion: orders and reviews outlive the account they were made
+-- from, but without anything that identifies the person.
+
+-- =====================================================
+-- 1. Reviews survive account deletion, unattributed
+-- =====================================================
+ALTER TABLE wholesale_product_reviews
+  ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE wholesale_product_reviews
+  DROP CONSTRAINT IF EXISTS wholesale_product_reviews_user_id_fkey;
+
+ALTER TABLE wholesale_product_reviews
+  ADD CONSTRAINT wholesale_product_reviews_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL;
+
+-- =====================================================
+-- 2. Mark anonymised orders
+-- =====================================================
+ALTER TABLE wholesale_orders
+  ADD COLUMN IF NOT EXISTS customer_anonymized_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE retail_orders
+  ADD COLUMN IF NOT EXISTS customer_anonymized_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN wholesale_orders.customer_anonymized_at IS 'Set when the customer deleted their account and their personal details were removed';
+COMMENT ON COLUMN retail_orders.customer_anonymized_at IS 'Set when the customer deleted their account and their personal details were removed';
+
+-- =====================================================
+-- 3. Strip personal data ahead of deleting the auth user
+-- Orders keep amounts, items, status history and the city/country of the
+-- delivery (needed for reporting); contact details and street addresses go.
+-- Returns the number of orders anonymised.
+-- =====================================================
+CREATE OR REPLACE FUNCTION anonymize_user_data(p_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_email TEXT := 'deleted-' || p_user_id || '@deleted.invalid';
+  v_wholesale INTEGER;
+  v_retail INTEGER;
+BEGIN
+  UPDATE wholesale_orders
+  SET user_id = NULL,
+      customer_email = v_email,
+      customer_name = 'Deleted user',
+      customer_phone = NULL,
+      shipping_address_line1 = 'Redacted',
+      shipping_address_line2 = NULL,
+      shipping_postal_code = 'Redacted',
+      billing_address_line1 = NULL,
+      billing_address_line2 = NULL,
+      billing_postal_code = NULL,
+      shipping_address_id = NULL,
+      billing_address_id = NULL,
+      notes = NULL,
+      customer_anonymized_at = NOW()
+  WHERE user_id = p_user_id;
+  GET DIAGNOSTICS v_wholesale = ROW_COUNT;
+
+  UPDATE retail_orders
+  SET user_id = NULL,
+      customer_email = v_email,
+      customer_name = 'Deleted user',
+      customer_phone = NULL,
+      shipping_address_line1 = 'Redacted',
+      shipping_address_line2 = NULL,
+      shipping_postal_code = 'Redacted',
+      billing_address_line1 = NULL,
+      billing_address_line2 = NULL,
+      billing_postal_code = NULL,
+      shipping_address_id = NULL,
+      billing_address_id = NULL,
+      notes = NULL,
+      customer_anonymized_at = NOW()
+  WHERE user_id = p_user_id;
+  GET DIAGNOSTICS v_retail = ROW_COUNT;
+
+  UPDATE wholesale_product_reviews
+  SET user_id = NULL
+  WHERE user_id = p_user_id;
+
+  RETURN v_wholesale + v_retail;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION anonymize_user_data IS 'Removes personal details from a user''s orders and detaches their reviews before the account is deleted';
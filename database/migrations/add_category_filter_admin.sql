@@ -0,0 +1,239 @@
+-- Migration: Admin-managed category filters and subcategory inheritance
+-- This migration adds:
+-- 1. category_filter_config.subcategory_id: filters of a single subcategory. A subcategory
+--    inherits its category's filters; a row of its own with the same filter_key replaces
+--    the inherited one (an inactive row hides it)
+-- 2. Checks on filter_type and data_source, and an updated_at trigger
+-- 3. effective_category_filters(): the filters of a category or subcategory after inheritance
+-- 4. Listing facets (wholesale_product_filter_sources and its callers) read the effective
+--    filters of the selected subcategory
+-- 5. get_category_filter_paths(): the data paths products of a category actually have,
+--    used to validate filters when they are created or edited
+--
+-- Note: the unique key now includes subcategory_id, so the one-off seed in
+-- create_category_filter_config.sql (ON CONFLICT (category_id, filter_key)) is not re-runnable.
+
+-- =====================================================
+-- 1. Subcategory filters
+-- =====================================================
+ALTER TABLE category_filter_config
+ADD COLUMN IF NOT EXISTS subcategory_id UUID REFERENCES subcategories(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_category_filter_config_subcategory_id
+  ON category_filter_config(subcategory_id)
+  WHERE subcategory_id IS NOT NULL;
+
+-- One filter per key on each level (the category itself, or one of its subcategories)
+ALTER TABLE category_filter_config
+DROP CONSTRAINT IF EXISTS category_filter_config_category_id_filter_key_key;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'unique_category_filter_key') THEN
+        ALTER TABLE category_filter_config ADD CONSTRAINT unique_category_filter_key
+          UNIQUE NULLS NOT DISTINCT (category_id, subcategory_id, filter_key);
+    END IF;
+END $$;
+
+COMMENT ON COLUMN category_filter_config.subcategory_id IS 'NULL for a category filter (inherited by its subcategories); set for a filter of one subcategory, which replaces an inherited filter with the same key';
+
+-- =====================================================
+-- 2. Checks and updated_at
+-- =====================================================
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'valid_category_filter_type') THEN
+        ALTER TABLE category_filter_config ADD CONSTRAINT valid_category_filter_type
+          CHECK (filter_type IN ('multi-select', 'single-select', 'range', 'checkbox', 'text'));
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'valid_category_filter_data_source') THEN
+        ALTER TABLE category_filter_config ADD CONSTRAINT valid_category_filter_data_source
+          CHECK (data_source IN ('product_details', 'field', 'variation', 'pack_variant'));
+    END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS update_category_filter_config_updated_at ON category_filter_config;
+CREATE TRIGGER update_category_filter_config_updated_at
+  BEFORE UPDATE ON category_filter_config
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- =====================================================
+-- 3. Effective filters
+-- =====================================================
+-- The category's filters, each replaced by the subcategory's own row for the same key,
+-- plus the subcategory's other filters. Inactive rows are included: callers filter on
+-- is_active, so an inactive subcategory row hides the inherited filter
+CREATE OR REPLACE FUNCTION effective_category_filters(p_category_id UUID, p_subcategory_id UUID DEFAULT NULL)
+RETURNS SETOF category_filter_config AS $$
+  SELECT DISTINCT ON (c.filter_key) c.*
+  FROM category_filter_config c
+  WHERE c.category_id = p_category_id
+    AND (c.subcategory_id IS NULL OR c.subcategory_id = p_subcategory_id)
+  ORDER BY c.filter_key, (c.subcategory_id IS NOT NULL) DESC;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION effective_category_filters IS 'Filters of a category, or of a subcategory with the inherited category filters applied';
+
+-- =====================================================
+-- 4. Listing facets
+-- =====================================================
+-- Same as in add_wholesale_product_facets.sql, with the subcategory's effective filters
+DROP FUNCTION IF EXISTS wholesale_product_filter_sources(UUID, TEXT[]);
+
+CREATE OR REPLACE FUNCTION wholesale_product_filter_sources(
+  p_category_id UUID,
+  p_keys TEXT[] DEFAULT '{}',
+  p_subcategory_id UUID DEFAULT NULL
+)
+RETURNS TABLE (filter_key TEXT, data_source TEXT, data_path TEXT) AS $$
+  WITH builtin (key, source, path) AS (
+    VALUES
+      ('brandIds', 'field', 'wholesale_brand_id'),
+      ('colors', 'pack_variant', 'color'),
+      ('sizes', 'pack_variant', 'size'),
+      ('materials', 'variation', 'material')
+  ),
+  candidates AS (
+    SELECT e.filter_key, e.data_source, e.data_path, e.filter_type, e.is_active, e.display_order, true AS in_category
+    FROM effective_category_filters(p_category_id, p_subcategory_id) e
+    UNION ALL
+    SELECT c.filter_key, c.data_source, c.data_path, c.filter_type, c.is_active, c.display_order, false
+    FROM category_filter_config c
+    WHERE c.filter_key = ANY(p_keys)
+      AND c.subcategory_id IS NULL
+  ),
+  configured AS (
+    SELECT DISTINCT ON (c.filter_key)
+      c.filter_key::TEXT AS key,
+      c.data_source::TEXT AS source,
+      COALESCE(c.data_path, c.filter_key)::TEXT AS path
+    FROM candidates c
+    WHERE c.is_active = true
+      AND c.filter_type IN ('multi-select', 'single-select', 'checkbox')
+      AND c.data_source IN ('product_details', 'field', 'variation', 'pack_variant')
+      AND c.filter_key NOT IN (SELECT b.key FROM builtin b)
+    ORDER BY c.filter_key, c.in_category DESC, c.display_order
+  )
+  SELECT b.key, b.source, b.path FROM builtin b
+  UNION ALL
+  SELECT c.key, c.source, c.path FROM configured c
+  UNION ALL
+  SELECT k, 'product_details', upper(left(k, 1)) || substr(k, 2)
+  FROM unnest(p_keys) k
+  WHERE k NOT IN (SELECT b.key FROM builtin b)
+    AND k NOT IN (SELECT c.key FROM configured c);
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION resolve_wholesale_product_selection(p_filters JSONB)
+RETURNS JSONB AS $$
+  SELECT COALESCE(
+    jsonb_object_agg(f.filter_key, jsonb_build_object('source', f.data_source, 'path', f.data_path, 'values', s.value)),
+    '{}'::jsonb
+  )
+  FROM jsonb_each(COALESCE(p_filters -> 'selected', '{}'::jsonb)) s
+  JOIN wholesale_product_filter_sources(
+    NULLIF(p_filters ->> 'categoryId', '')::uuid,
+    ARRAY(SELECT jsonb_object_keys(COALESCE(p_filters -> 'selected', '{}'::jsonb))),
+    NULLIF(p_filters ->> 'subcategoryId', '')::uuid
+  ) f ON f.filter_key = s.key
+  WHERE jsonb_typeof(s.value) = 'array'
+    AND jsonb_array_length(s.value) > 0;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION get_wholesale_product_facets(p_filters JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_selection JSONB := resolve_wholesale_product_selection(p_filters);
+  v_facets JSONB;
+BEGIN
+  WITH base AS MATERIALIZED (
+    SELECT b AS product
+    FROM filter_wholesale_products(p_filters - 'selected') b
+  ),
+  facets AS (
+    SELECT f.filter_key, f.data_source, f.data_path
+    FROM wholesale_product_filter_sources(
+      NULLIF(p_filters ->> 'categoryId', '')::uuid,
+      ARRAY(SELECT jsonb_object_keys(v_selection)),
+      NULLIF(p_filters ->> 'subcategoryId', '')::uuid
+    ) f
+  ),
+  counts AS (
+    SELECT f.filter_key, v.value, count(*) AS product_count
+    FROM facets f
+    CROSS JOIN base
+    CROSS JOIN LATERAL wholesale_product_filter_values(base.product, f.data_source, f.data_path) v (value)
+    WHERE wholesale_product_matches_selection(base.product, v_selection - f.filter_key)
+    GROUP BY f.filter_key, v.value
+  )
+  SELECT COALESCE(jsonb_object_agg(o.filter_key, o.options), '{}'::jsonb)
+  INTO v_facets
+  FROM (
+    SELECT
+      c.filter_key,
+      jsonb_agg(jsonb_build_object('value', c.value, 'count', c.product_count) ORDER BY c.product_count DESC, c.value) AS options
+    FROM counts c
+    GROUP BY c.filter_key
+  ) o;
+
+  RETURN v_facets;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION wholesale_product_filter_sources IS 'Where each wholesale listing filter key reads its values from (data_source and data_path)';
+
+-- =====================================================
+-- 5. Available data paths
+-- =====================================================
+-- Every path products of the category (or subcategory) have, per data source, with the
+-- number of products having it. Fields are the columns of active_wholesale_products
+CREATE OR REPLACE FUNCTION get_category_filter_paths(p_category_id UUID, p_subcategory_id UUID DEFAULT NULL)
+RETURNS TABLE (data_source TEXT, data_path TEXT, product_count BIGINT) AS $$
+  WITH products AS (
+    SELECT p.id, p.product_details
+    FROM wholesale_products p
+    WHERE p.category_id = p_category_id
+      AND (p_subcategory_id IS NULL OR p.subcategory_id = p_subcategory_id)
+  ),
+  paths (source, path, product_id) AS (
+    SELECT 'product_details', k, p.id
+    FROM products p
+    CROSS JOIN LATERAL jsonb_object_keys(
+      CASE WHEN jsonb_typeof(p.product_details) = 'object' THEN p.product_details ELSE '{}'::jsonb END
+    ) k
+    UNION ALL
+    SELECT 'variation', v.variation_type::TEXT, v.product_id
+    FROM wholesale_product_variations v
+    JOIN products p ON p.id = v.product_id
+    UNION ALL
+    SELECT 'pack_variant', x.key, ps.product_id
+    FROM wholesale_pack_variations v
+    JOIN wholesale_product_pack_sizes ps ON ps.id = v.pack_size_id
+    JOIN products p ON p.id = ps.product_id
+    CROSS JOIN LATERAL (
+      SELECT 'color' WHERE v.color IS NOT NULL
+      UNION ALL
+      SELECT 'size' WHERE v.size IS NOT NULL
+      UNION ALL
+      SELECT jsonb_object_keys(
+        CASE WHEN jsonb_typeof(v.custom_values) = 'object' THEN v.custom_values ELSE '{}'::jsonb END
+      )
+    ) x (key)
+  )
+  SELECT p.source, p.path, count(DISTINCT p.product_id)
+  FROM paths p
+  GROUP BY p.source, p.path
+  UNION ALL
+  SELECT 'field', col.column_name::TEXT, (SELECT count(*) FROM products)
+  FROM information_schema.columns col
+  WHERE col.table_schema = 'public'
+    AND col.table_name = 'active_wholesale_products';
+$$ LANGUAGE sql STABLE;
+
+-- Only the API (service role) lists paths, for the admin panel
+REVOKE EXECUTE ON FUNCTION get_category_filter_paths(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_category_filter_paths(UUID, UUID) TO service_role;
+
+COMMENT ON FUNCTION get_category_filter_paths IS 'Data paths (per data source) that products of a category or subcategory have, with product counts';
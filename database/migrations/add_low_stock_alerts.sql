@@ -0,0 +1,401 @@
+-- Migration: Low-stock alerts for wholesale brands
+-- This migration adds:
+-- 1. wholesale_pack_stock_matrix.low_stock_threshold: per-combination threshold,
+--    falling back to wholesale_products.low_stock_threshold
+-- 2. wholesale_low_stock_items: everything of a brand that is at or below its threshold
+-- 3. wholesale_stock_alerts: a notification per product / combination / variant when its
+--    stock crosses the threshold, resolved when it is replenished
+-- 4. Triggers that keep wholesale_stock_alerts up to date on every stock change
+--
+-- Stock is read from the same place place_wholesale_order() takes it from: per-combination
+-- rows (stock matrix, or color/size variants) when a pack has them, otherwise
+-- wholesale_products.stock_quantity. Products with track_inventory = false, archived
+-- and deleted products are left out.
+
+-- =====================================================
+-- 1. Per-combination thresholds
+-- =====================================================
+ALTER TABLE wholesale_pack_stock_matrix
+  ADD COLUMN IF NOT EXISTS low_stock_threshold INTEGER;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'positive_matrix_low_stock_threshold') THEN
+        ALTER TABLE wholesale_pack_stock_matrix ADD CONSTRAINT positive_matrix_low_stock_threshold
+          CHECK (low_stock_threshold IS NULL OR low_stock_threshold >= 0);
+    END IF;
+END $$;
+
+COMMENT ON COLUMN wholesale_pack_stock_matrix.low_stock_threshold IS 'Low-stock threshold for this combination; NULL = use the product''s low_stock_threshold';
+
+-- Does any pack of the product keep stock per combination?
+CREATE OR REPLACE FUNCTION wholesale_product_has_combination_stock(p_product_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT
+    EXISTS (
+      SELECT 1 FROM wholesale_pack_stock_matrix m
+      JOIN wholesale_product_pack_sizes ps ON ps.id = m.pack_size_id
+      WHERE ps.product_id = p_product_id
+    )
+    OR EXISTS (
+      SELECT 1 FROM wholesale_pack_variations v
+      JOIN wholesale_product_pack_sizes ps ON ps.id = v.pack_size_id
+      WHERE ps.product_id = p_product_id AND v.color IS NOT NULL
+    );
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- 2. Items at or below their threshold
+-- =====================================================
+CREATE OR REPLACE VIEW wholesale_low_stock_items AS
+-- Products without per-combination stock
+SELECT
+  'product'::VARCHAR(20) AS source,
+  p.id AS source_id,
+  p.wholesale_brand_id,
+  p.id AS product_id,
+  p.name AS product_name,
+  p.slug AS product_slug,
+  p.sku,
+  p.status AS product_status,
+  NULL::UUID AS pack_size_id,
+  NULL::VARCHAR AS pack_label,
+  NULL::VARCHAR AS combination_key,
+  p.stock_quantity,
+  p.low_stock_threshold AS threshold
+FROM wholesale_products p
+WHERE p.track_inventory = true
+  AND p.status <> 'archived'
+  AND p.deleted_at IS NULL
+  AND p.low_stock_threshold IS NOT NULL
+  AND p.stock_quantity <= p.low_stock_threshold
+  AND NOT wholesale_product_has_combination_stock(p.id)
+
+UNION ALL
+
+-- Stock matrix combinations
+SELECT
+  'matrix',
+  m.id,
+  p.wholesale_brand_id,
+  p.id,
+  p.name,
+  p.slug,
+  p.sku,
+  p.status,
+  ps.id,
+  ps.label,
+  m.combination_key,
+  m.stock_quantity,
+  COALESCE(m.low_stock_threshold, p.low_stock_threshold)
+FROM wholesale_pack_stock_matrix m
+JOIN wholesale_product_pack_sizes ps ON ps.id = m.pack_size_id
+JOIN wholesale_products p ON p.id = ps.product_id
+WHERE p.track_inventory = true
+  AND p.status <> 'archived'
+  AND p.deleted_at IS NULL
+  AND COALESCE(m.low_stock_threshold, p.low_stock_threshold) IS NOT NULL
+  AND m.stock_quantity <= COALESCE(m.low_stock_threshold, p.low_stock_threshold)
+
+UNION ALL
+
+-- Trendyol-style color/size variants (packs without a stock matrix)
+SELECT
+  'variant',
+  v.id,
+  p.wholesale_brand_id,
+  p.id,
+  p.name,
+  p.slug,
+  p.sku,
+  p.status,
+  ps.id,
+  ps.label,
+  'color:' || v.color || COALESCE('|size:' || v.size, ''),
+  COALESCE(v.stock, 0),
+  p.low_stock_threshold
+FROM wholesale_pack_variations v
+JOIN wholesale_product_pack_sizes ps ON ps.id = v.pack_size_id
+JOIN wholesale_products p ON p.id = ps.product_id
+WHERE v.color IS NOT NULL
+  AND v.is_available = true
+  AND p.track_inventory = true
+  AND p.status <> 'archived'
+  AND p.deleted_at IS NULL
+  AND p.low_stock_threshold IS NOT NULL
+  AND COALESCE(v.stock, 0) <= p.low_stock_threshold
+  AND NOT EXISTS (
+    SELECT 1 FROM wholesale_pack_stock_matrix m WHERE m.pack_size_id = v.pack_size_id
+  );
+
+COMMENT ON VIEW wholesale_low_stock_items IS 'Products, stock matrix combinations and color/size variants whose stock is at or below the low-stock threshold';
+
+-- Stock levels are brand-internal - only the API (service role) reads the view
+REVOKE ALL ON wholesale_low_stock_items FROM anon, authenticated;
+
+-- =====================================================
+-- 3. Create wholesale_stock_alerts table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS wholesale_stock_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wholesale_brand_id UUID NOT NULL REFERENCES wholesale_brands(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES wholesale_products(id) ON DELETE CASCADE,
+  pack_size_id UUID REFERENCES wholesale_product_pack_sizes(id) ON DELETE CASCADE,
+
+  -- What ran low: 'product', 'matrix' or 'variant' (same as wholesale_low_stock_items)
+  source VARCHAR(20) NOT NULL,
+  stock_matrix_id UUID REFERENCES wholesale_pack_stock_matrix(id) ON DELETE CASCADE,
+  pack_variation_id UUID REFERENCES wholesale_pack_variations(id) ON DELETE CASCADE,
+  combination_key VARCHAR(500),
+
+  alert_type VARCHAR(20) NOT NULL DEFAULT 'low_stock',
+  -- Latest stock while the alert is open
+  stock_quantity INTEGER NOT NULL,
+  threshold INTEGER NOT NULL,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  read_at TIMESTAMP WITH TIME ZONE,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+
+  -- Constraints
+  CONSTRAINT valid_stock_alert_source CHECK (source IN ('product', 'matrix', 'variant')),
+  CONSTRAINT valid_stock_alert_type CHECK (alert_type IN ('low_stock', 'out_of_stock'))
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_wholesale_stock_alerts_brand
+  ON wholesale_stock_alerts(wholesale_brand_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_wholesale_stock_alerts_unread
+  ON wholesale_stock_alerts(wholesale_brand_id)
+  WHERE read_at IS NULL;
+
+-- One open alert per product / combination / variant
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wholesale_stock_alerts_open
+  ON wholesale_stock_alerts(source, COALESCE(stock_matrix_id, pack_variation_id, product_id))
+  WHERE resolved_at IS NULL;
+
+CREATE TRIGGER update_wholesale_stock_alerts_updated_at
+  BEFORE UPDATE ON wholesale_stock_alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Add comments for documentation
+COMMENT ON TABLE wholesale_stock_alerts IS 'Low-stock notifications for brands, opened when stock crosses the threshold and resolved when replenished';
+COMMENT ON COLUMN wholesale_stock_alerts.alert_type IS 'low_stock (at or below threshold) or out_of_stock (nothing left); raised to out_of_stock while open';
+COMMENT ON COLUMN wholesale_stock_alerts.resolved_at IS 'Set when stock went back above the threshold; NULL while the alert is open';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE wholesale_stock_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Service role can do anything (brands read alerts through the API)
+DROP POLICY IF EXISTS "Service role full access on wholesale stock alerts" ON wholesale_stock_alerts;
+CREATE POLICY "Service role full access on wholesale stock alerts"
+  ON wholesale_stock_alerts FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- =====================================================
+-- 4. Keep alerts in sync with stock
+-- =====================================================
+-- Opens, updates or resolves the alert of one stock row. The product is
+-- skipped (and its open alert resolved) when it doesn't track inventory, is
+-- archived or deleted, or has no threshold.
+CREATE OR REPLACE FUNCTION track_wholesale_stock_alert(
+  p_source VARCHAR,
+  p_source_id UUID,
+  p_product_id UUID,
+  p_pack_size_id UUID,
+  p_combination_key VARCHAR,
+  p_stock INTEGER,
+  p_threshold INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+  v_product RECORD;
+  v_alert_type VARCHAR(20);
+BEGIN
+  SELECT wholesale_brand_id, track_inventory, status, low_stock_threshold, deleted_at
+  INTO v_product
+  FROM wholesale_products
+  WHERE id = p_product_id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  p_threshold := COALESCE(p_threshold, v_product.low_stock_threshold);
+
+  IF NOT v_product.track_inventory
+     OR v_product.status = 'archived'
+     OR v_product.deleted_at IS NOT NULL
+     OR p_threshold IS NULL
+     OR p_stock > p_threshold THEN
+    UPDATE wholesale_stock_alerts
+    SET resolved_at = NOW(),
+        stock_quantity = p_stock
+    WHERE source = p_source
+      AND COALESCE(stock_matrix_id, pack_variation_id, product_id) = p_source_id
+      AND resolved_at IS NULL;
+    RETURN;
+  END IF;
+
+  v_alert_type := CASE WHEN p_stock <= 0 THEN 'out_of_stock' ELSE 'low_stock' END;
+
+  -- Already open: keep it current, and surface it again once it sells out
+  UPDATE wholesale_stock_alerts
+  SET stock_quantity = p_stock,
+      threshold = p_threshold,
+      read_at = CASE WHEN alert_type <> v_alert_type AND v_alert_type = 'out_of_stock' THEN NULL ELSE read_at END,
+      alert_type = CASE WHEN alert_type = 'out_of_stock' OR v_alert_type = 'out_of_stock' THEN 'out_of_stock' ELSE 'low_stock' END
+  WHERE source = p_source
+    AND COALESCE(stock_matrix_id, pack_variation_id, product_id) = p_source_id
+    AND resolved_at IS NULL;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO wholesale_stock_alerts (
+    wholesale_brand_id, product_id, pack_size_id, source, stock_matrix_id, pack_variation_id,
+    combination_key, alert_type, stock_quantity, threshold
+  )
+  VALUES (
+    v_product.wholesale_brand_id, p_product_id, p_pack_size_id, p_source,
+    CASE WHEN p_source = 'matrix' THEN p_source_id END,
+    CASE WHEN p_source = 'variant' THEN p_source_id END,
+    p_combination_key, v_alert_type, p_stock, p_threshold
+  )
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION track_wholesale_product_stock_alert()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Deleted products no longer need replenishing, whatever ran low
+  IF NEW.deleted_at IS NOT NULL THEN
+    UPDATE wholesale_stock_alerts
+    SET resolved_at = NOW()
+    WHERE product_id = NEW.id
+      AND resolved_at IS NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NOT wholesale_product_has_combination_stock(NEW.id) THEN
+    PERFORM track_wholesale_stock_alert('product', NEW.id, NEW.id, NULL, NULL, NEW.stock_quantity, NEW.low_stock_threshold);
+    RETURN NEW;
+  END IF;
+
+  -- Combination rows fall back to the product's threshold and follow its
+  -- track_inventory and status, so re-check them when those change
+  IF OLD.low_stock_threshold IS DISTINCT FROM NEW.low_stock_threshold
+     OR OLD.track_inventory IS DISTINCT FROM NEW.track_inventory
+     OR OLD.status IS DISTINCT FROM NEW.status
+     OR OLD.deleted_at IS DISTINCT FROM NEW.deleted_at THEN
+    PERFORM track_wholesale_stock_alert(
+      'matrix', m.id, NEW.id, m.pack_size_id, m.combination_key,
+      m.stock_quantity, m.low_stock_threshold
+    )
+    FROM wholesale_pack_stock_matrix m
+    JOIN wholesale_product_pack_sizes ps ON ps.id = m.pack_size_id
+    WHERE ps.product_id = NEW.id;
+
+    PERFORM track_wholesale_stock_alert(
+      'variant', v.id, NEW.id, v.pack_size_id,
+      'color:' || v.color || COALESCE('|size:' || v.size, ''),
+      COALESCE(v.stock, 0), NULL
+    )
+    FROM wholesale_pack_variations v
+    JOIN wholesale_product_pack_sizes ps ON ps.id = v.pack_size_id
+    WHERE ps.product_id = NEW.id
+      AND v.color IS NOT NULL
+      AND v.is_available = true
+      AND NOT EXISTS (
+        SELECT 1 FROM wholesale_pack_stock_matrix m WHERE m.pack_size_id = v.pack_size_id
+      );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION track_wholesale_matrix_stock_alert()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_product_id UUID;
+BEGIN
+  SELECT product_id INTO v_product_id FROM wholesale_product_pack_sizes WHERE id = NEW.pack_size_id;
+  PERFORM track_wholesale_stock_alert(
+    'matrix', NEW.id, v_product_id, NEW.pack_size_id, NEW.combination_key,
+    NEW.stock_quantity, NEW.low_stock_threshold
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION track_wholesale_variant_stock_alert()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_product_id UUID;
+BEGIN
+  IF NEW.color IS NULL
+     OR EXISTS (SELECT 1 FROM wholesale_pack_stock_matrix WHERE pack_size_id = NEW.pack_size_id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Variants taken off sale no longer need replenishing
+  IF NOT NEW.is_available THEN
+    UPDATE wholesale_stock_alerts
+    SET resolved_at = NOW()
+    WHERE pack_variation_id = NEW.id
+      AND resolved_at IS NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT product_id INTO v_product_id FROM wholesale_product_pack_sizes WHERE id = NEW.pack_size_id;
+  PERFORM track_wholesale_stock_alert(
+    'variant', NEW.id, v_product_id, NEW.pack_size_id,
+    'color:' || NEW.color || COALESCE('|size:' || NEW.size, ''),
+    COALESCE(NEW.stock, 0), NULL
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only changes to stock, thresholds and what makes a product tracked
+-- (track_inventory, status, deletion) count as crossing the threshold; rows
+-- created with little stock are listed in wholesale_low_stock_items but
+-- don't raise an alert
+DROP TRIGGER IF EXISTS track_wholesale_products_stock_alert ON wholesale_products;
+CREATE TRIGGER track_wholesale_products_stock_alert
+  AFTER UPDATE OF stock_quantity, low_stock_threshold, track_inventory, status, deleted_at ON wholesale_products
+  FOR EACH ROW
+  WHEN (
+    OLD.stock_quantity IS DISTINCT FROM NEW.stock_quantity
+    OR OLD.low_stock_threshold IS DISTINCT FROM NEW.low_stock_threshold
+    OR OLD.track_inventory IS DISTINCT FROM NEW.track_inventory
+    OR OLD.status IS DISTINCT FROM NEW.status
+    OR OLD.deleted_at IS DISTINCT FROM NEW.deleted_at
+  )
+  EXECUTE FUNCTION track_wholesale_product_stock_alert();
+
+DROP TRIGGER IF EXISTS track_wholesale_pack_stock_matrix_stock_alert ON wholesale_pack_stock_matrix;
+CREATE TRIGGER track_wholesale_pack_stock_matrix_stock_alert
+  AFTER UPDATE OF stock_quantity, low_stock_threshold ON wholesale_pack_stock_matrix
+  FOR EACH ROW
+  WHEN (
+    OLD.stock_quantity IS DISTINCT FROM NEW.stock_quantity
+    OR OLD.low_stock_threshold IS DISTINCT FROM NEW.low_stock_threshold
+  )
+  EXECUTE FUNCTION track_wholesale_matrix_stock_alert();
+
+DROP TRIGGER IF EXISTS track_wholesale_pack_variations_stock_alert ON wholesale_pack_variations;
+CREATE TRIGGER track_wholesale_pack_variations_stock_alert
+  AFTER UPDATE OF stock, is_available ON wholesale_pack_variations
+  FOR EACH ROW
+  WHEN (
+    OLD.stock IS DISTINCT FROM NEW.stock
+    OR OLD.is_available IS DISTINCT FROM NEW.is_available
+  )
+  EXECUTE FUNCTION track_wholesale_variant_stock_alert();
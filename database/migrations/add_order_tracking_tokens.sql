@@ -0,0 +1,236 @@
+-- Guest order tracking: guests get an unguessable token at checkout (we keep
+-- its sha256 hash) and can later claim their orders into an account.
+
+ALTER TABLE wholesale_orders
+  ADD COLUMN IF NOT EXISTS tracking_token_hash VARCHAR(64);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wholesale_orders_tracking_token_hash
+  ON wholesale_orders(tracking_token_hash)
+  WHERE tracking_token_hash IS NOT NULL;
+
+COMMENT ON COLUMN wholesale_orders.tracking_token_hash IS 'sha256 of the tracking token handed to a guest at checkout; cleared when the order is claimed';
+
+-- Emails are compared case-insensitively when tracking and claiming orders,
+-- and new orders store them lowercased
+UPDATE wholesale_orders
+SET customer_email = LOWER(customer_email)
+WHERE customer_email <> LOWER(customer_email);
+
+UPDATE retail_orders
+SET customer_email = LOWER(customer_email)
+WHERE customer_email <> LOWER(customer_email);
+
+-- Guest orders are looked up by email when claimed
+CREATE INDEX IF NOT EXISTS idx_wholesale_orders_guest_email
+  ON wholesale_orders(customer_email)
+  WHERE user_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_retail_orders_guest_email
+  ON retail_orders(customer_email)
+  WHERE user_id IS NULL;
+
+-- =====================================================
+-- place_wholesale_order (add_wholesale_order_stock_reservation.sql) also
+-- stores the tracking token hash and the saved address ids
+-- (create_user_addresses_table.sql) with the order, in the same transaction.
+-- Unchanged otherwise.
+-- =====================================================
+CREATE OR REPLACE FUNCTION place_wholesale_order(
+  p_order JSONB,
+  p_items JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_order_id UUID;
+  v_item JSONB;
+  v_pack_size_id UUID;
+  v_product_id UUID;
+  v_product RECORD;
+  v_combination RECORD;
+  v_pack_tracked BOOLEAN;
+  v_color TEXT;
+  v_size TEXT;
+  v_row_id UUID;
+  v_pieces INTEGER;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  -- Insert the order first so reservations can reference it
+  INSERT INTO wholesale_orders (
+    user_id, customer_email, customer_name, customer_phone,
+    shipping_address_line1, shipping_address_line2, shipping_city, shipping_state,
+    shipping_postal_code, shipping_country,
+    billing_same_as_shipping, billing_address_line1, billing_address_line2, billing_city,
+    billing_state, billing_postal_code, billing_country,
+    subtotal, shipping_cost, tax_amount, discount_amount, total_amount,
+    total_items, total_pieces, status, payment_status, payment_method, notes,
+    shipping_address_id, billing_address_id, tracking_token_hash
+  )
+  SELECT
+    o.user_id, o.customer_email, o.customer_name, o.customer_phone,
+    o.shipping_address_line1, o.shipping_address_line2, o.shipping_city, o.shipping_state,
+    o.shipping_postal_code, COALESCE(o.shipping_country, 'Turkey'),
+    COALESCE(o.billing_same_as_shipping, true), o.billing_address_line1, o.billing_address_line2, o.billing_city,
+    o.billing_state, o.billing_postal_code, o.billing_country,
+    o.subtotal, COALESCE(o.shipping_cost, 0), COALESCE(o.tax_amount, 0), COALESCE(o.discount_amount, 0), o.total_amount,
+    COALESCE(o.total_items, 0), COALESCE(o.total_pieces, 0), COALESCE(o.status, 'pending'),
+    COALESCE(o.payment_status, 'pending'), o.payment_method, o.notes,
+    o.shipping_address_id, o.billing_address_id, o.tracking_token_hash
+  FROM jsonb_populate_record(NULL::wholesale_orders, p_order) o
+  RETURNING id INTO v_order_id;
+
+  -- Lock rows in a stable order (product, pack) to avoid deadlocks between
+  -- concurrent orders touching the same products
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+    ORDER BY value ->> 'product_id', value ->> 'pack_size_id'
+  LOOP
+    v_product_id := (v_item ->> 'product_id')::UUID;
+    v_pack_size_id := NULLIF(v_item ->> 'pack_size_id', '')::UUID;
+    v_pieces := (v_item ->> 'quantity')::INTEGER * COALESCE((v_item ->> 'pack_quantity')::INTEGER, 1);
+
+    SELECT id, name, stock_quantity, track_inventory
+    INTO v_product
+    FROM wholesale_products
+    WHERE id = v_product_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % is no longer available', v_product_id
+        USING HINT = 'insufficient_stock';
+    END IF;
+
+    -- Packs per combination: whole numbers adding up to the line quantity, so
+    -- every ordered pack reserves combination stock
+    IF jsonb_typeof(v_item -> 'selected_variations') = 'object'
+       AND v_item -> 'selected_variations' <> '{}'::JSONB THEN
+      IF EXISTS (
+        SELECT 1 FROM jsonb_each(v_item -> 'selected_variations')
+        WHERE jsonb_typeof(value) <> 'number' OR (value #>> '{}') !~ '^[0-9]+$'
+      ) THEN
+        RAISE EXCEPTION 'Variation quantities for % must be whole numbers', v_product.name
+          USING HINT = 'invalid_variations';
+      END IF;
+
+      IF (
+        SELECT SUM((value #>> '{}')::INTEGER)
+        FROM jsonb_each(v_item -> 'selected_variations')
+      ) <> (v_item ->> 'quantity')::INTEGER THEN
+        RAISE EXCEPTION 'Variation quantities for % do not add up to the ordered quantity', v_product.name
+          USING HINT = 'invalid_variations';
+      END IF;
+    END IF;
+
+    -- Does this pack track stock per combination?
+    v_pack_tracked := v_pack_size_id IS NOT NULL AND (
+      EXISTS (SELECT 1 FROM wholesale_pack_stock_matrix WHERE pack_size_id = v_pack_size_id)
+      OR EXISTS (
+        SELECT 1 FROM wholesale_pack_variations
+        WHERE pack_size_id = v_pack_size_id AND color IS NOT NULL
+      )
+    );
+
+    IF v_pack_tracked
+       AND jsonb_typeof(v_item -> 'selected_variations') = 'object'
+       AND v_item -> 'selected_variations' <> '{}'::JSONB THEN
+      FOR v_combination IN
+        SELECT key, value::INTEGER AS quantity
+        FROM jsonb_each_text(v_item -> 'selected_variations')
+        WHERE value::INTEGER > 0
+        ORDER BY key
+      LOOP
+        v_row_id := NULL;
+
+        -- Stock matrix (keyed by combination, e.g. "color:Red|size:M")
+        IF EXISTS (
+          SELECT 1 FROM wholesale_pack_stock_matrix
+          WHERE pack_size_id = v_pack_size_id AND combination_key = v_combination.key
+        ) THEN
+          UPDATE wholesale_pack_stock_matrix
+          SET stock_quantity = stock_quantity - v_combination.quantity
+          WHERE pack_size_id = v_pack_size_id
+            AND combination_key = v_combination.key
+            AND stock_quantity >= v_combination.quantity
+          RETURNING id INTO v_row_id;
+
+          IF v_row_id IS NULL THEN
+            RAISE EXCEPTION 'Insufficient stock for % (%)', v_product.name, v_combination.key
+              USING HINT = 'insufficient_stock';
+          END IF;
+
+          INSERT INTO wholesale_order_stock_reservations
+            (order_id, source, source_id, product_id, pack_size_id, combination_key, quantity)
+          VALUES
+            (v_order_id, 'matrix', v_row_id, v_product_id, v_pack_size_id, v_combination.key, v_combination.quantity);
+          CONTINUE;
+        END IF;
+
+        -- Trendyol-style variants (one row per color × size)
+        v_color := substring(v_combination.key FROM '(?:^|\|)color:([^|]*)');
+        v_size := substring(v_combination.key FROM '(?:^|\|)size:([^|]*)');
+
+        UPDATE wholesale_pack_variations
+        SET stock = stock - v_combination.quantity
+        WHERE id = (
+          SELECT id FROM wholesale_pack_variations
+          WHERE pack_size_id = v_pack_size_id
+            AND color IS NOT DISTINCT FROM v_color
+            AND size IS NOT DISTINCT FROM v_size
+          ORDER BY display_order
+          LIMIT 1
+        )
+          AND is_available = true
+          AND COALESCE(stock, 0) >= v_combination.quantity
+        RETURNING id INTO v_row_id;
+
+        IF v_row_id IS NULL THEN
+          RAISE EXCEPTION 'Insufficient stock for % (%)', v_product.name, v_combination.key
+            USING HINT = 'insufficient_stock';
+        END IF;
+
+        INSERT INTO wholesale_order_stock_reservations
+          (order_id, source, source_id, product_id, pack_size_id, combination_key, quantity)
+        VALUES
+          (v_order_id, 'variant', v_row_id, v_product_id, v_pack_size_id, v_combination.key, v_combination.quantity);
+      END LOOP;
+
+    ELSIF v_pack_tracked THEN
+      RAISE EXCEPTION 'Please select variations for %', v_product.name
+        USING HINT = 'insufficient_stock';
+
+    ELSIF v_product.track_inventory THEN
+      -- No combination-level stock: reserve product-level pieces
+      UPDATE wholesale_products
+      SET stock_quantity = stock_quantity - v_pieces
+      WHERE id = v_product_id
+        AND stock_quantity >= v_pieces;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Insufficient stock for %', v_product.name
+          USING HINT = 'insufficient_stock';
+      END IF;
+
+      INSERT INTO wholesale_order_stock_reservations
+        (order_id, source, source_id, product_id, pack_size_id, quantity)
+      VALUES
+        (v_order_id, 'product', v_product_id, v_product_id, v_pack_size_id, v_pieces);
+    END IF;
+  END LOOP;
+
+  INSERT INTO wholesale_order_items (
+    order_id, product_id, pack_size_id, product_name, product_slug, product_image,
+    brand_name, pack_label, pack_quantity, quantity, unit_price, pack_price,
+    item_total, selected_variations
+  )
+  SELECT
+    v_order_id, i.product_id, i.pack_size_id, i.product_name, i.product_slug, i.product_image,
+    i.brand_name, i.pack_label, COALESCE(i.pack_quantity, 1), i.quantity, i.unit_price, i.pack_price,
+    i.item_total, i.selected_variations
+  FROM jsonb_populate_recordset(NULL::wholesale_order_items, p_items) i;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql;
+
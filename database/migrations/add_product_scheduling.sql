@@ -0,0 +1,246 @@
+-- Migration: Scheduled publishing, scheduled sales and out-of-stock automation
+-- This migration adds:
+-- 1. publish_at / unpublish_at: when a product goes live or is taken down
+-- 2. A scheduled sale window (scheduled_sale_percentage between sale_starts_at and
+--    sale_ends_at); the regular sale_percentage is put back when the window ends
+-- 3. An 'out_of_stock' status, set by the scheduler on active products that track
+--    inventory and have nothing left, and cleared again once they are restocked
+-- 4. run_wholesale_product_schedules(): applies all of the above, called periodically
+--    by the API (ProductSchedulerService)
+
+-- =====================================================
+-- 1. Scheduling columns
+-- =====================================================
+ALTER TABLE wholesale_products
+  ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS unpublish_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS scheduled_sale_percentage INTEGER,
+  ADD COLUMN IF NOT EXISTS sale_starts_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS sale_ends_at TIMESTAMP WITH TIME ZONE,
+  -- sale_percentage from before the running sale window; NULL when no window is running
+  ADD COLUMN IF NOT EXISTS regular_sale_percentage INTEGER,
+  ADD COLUMN IF NOT EXISTS out_of_stock_at TIMESTAMP WITH TIME ZONE;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'valid_scheduled_sale_percentage') THEN
+        ALTER TABLE wholesale_products ADD CONSTRAINT valid_scheduled_sale_percentage
+          CHECK (scheduled_sale_percentage IS NULL OR (scheduled_sale_percentage >= 0 AND scheduled_sale_percentage <= 100));
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'valid_publish_window') THEN
+        ALTER TABLE wholesale_products ADD CONSTRAINT valid_publish_window
+          CHECK (publish_at IS NULL OR unpublish_at IS NULL OR unpublish_at > publish_at);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'valid_sale_window') THEN
+        ALTER TABLE wholesale_products ADD CONSTRAINT valid_sale_window
+          CHECK (sale_starts_at IS NULL OR sale_ends_at IS NULL OR sale_ends_at > sale_starts_at);
+    END IF;
+END $$;
+
+-- =====================================================
+-- 2. Out-of-stock status
+-- =====================================================
+ALTER TABLE wholesale_products DROP CONSTRAINT IF EXISTS wholesale_products_status_check;
+ALTER TABLE wholesale_products DROP CONSTRAINT IF EXISTS valid_wholesale_product_status;
+ALTER TABLE wholesale_products ADD CONSTRAINT valid_wholesale_product_status
+  CHECK (status IN ('draft', 'active', 'inactive', 'archived', 'out_of_stock'));
+
+-- Create indexes for the scheduler
+CREATE INDEX IF NOT EXISTS idx_wholesale_products_publish_at
+  ON wholesale_products(publish_at)
+  WHERE publish_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_wholesale_products_unpublish_at
+  ON wholesale_products(unpublish_at)
+  WHERE unpublish_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_wholesale_products_sale_window
+  ON wholesale_products(sale_starts_at, sale_ends_at)
+  WHERE sale_starts_at IS NOT NULL OR regular_sale_percentage IS NOT NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN wholesale_products.status IS 'Product status: draft (not visible to public, owner editing), active (visible to public), inactive (hidden from public), archived (not visible to public), out_of_stock (active product with no stock left, hidden until restocked; set automatically)';
+COMMENT ON COLUMN wholesale_products.publish_at IS 'When a draft or inactive product becomes active; cleared once applied';
+COMMENT ON COLUMN wholesale_products.unpublish_at IS 'When an active product becomes inactive; cleared once applied';
+COMMENT ON COLUMN wholesale_products.scheduled_sale_percentage IS 'Sale percentage applied between sale_starts_at and sale_ends_at';
+COMMENT ON COLUMN wholesale_products.sale_starts_at IS 'Start of the scheduled sale window';
+COMMENT ON COLUMN wholesale_products.sale_ends_at IS 'End of the scheduled sale window (NULL = open-ended)';
+COMMENT ON COLUMN wholesale_products.regular_sale_percentage IS 'sale_percentage to restore when the running sale window ends; NULL when no window is running';
+COMMENT ON COLUMN wholesale_products.out_of_stock_at IS 'When the product was moved to out_of_stock';
+
+-- =====================================================
+-- 3. Available stock of a product
+-- =====================================================
+-- Products whose packs track stock per combination (stock matrix or color/size
+-- variants) are only in stock while one of those combinations is; others use
+-- wholesale_products.stock_quantity. Mirrors place_wholesale_order().
+CREATE OR REPLACE FUNCTION get_wholesale_product_available_stock(p_product_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_tracked BOOLEAN;
+  v_total INTEGER;
+BEGIN
+  SELECT
+    EXISTS (
+      SELECT 1 FROM wholesale_pack_stock_matrix m
+      JOIN wholesale_product_pack_sizes ps ON ps.id = m.pack_size_id
+      WHERE ps.product_id = p_product_id
+    )
+    OR EXISTS (
+      SELECT 1 FROM wholesale_pack_variations v
+      JOIN wholesale_product_pack_sizes ps ON ps.id = v.pack_size_id
+      WHERE ps.product_id = p_product_id AND v.color IS NOT NULL
+    )
+  INTO v_tracked;
+
+  IF NOT v_tracked THEN
+    SELECT stock_quantity INTO v_total FROM wholesale_products WHERE id = p_product_id;
+    RETURN COALESCE(v_total, 0);
+  END IF;
+
+  SELECT
+    COALESCE((
+      SELECT SUM(m.stock_quantity)
+      FROM wholesale_pack_stock_matrix m
+      JOIN wholesale_product_pack_sizes ps ON ps.id = m.pack_size_id
+      WHERE ps.product_id = p_product_id
+    ), 0)
+    + COALESCE((
+      SELECT SUM(COALESCE(v.stock, 0))
+      FROM wholesale_pack_variations v
+      JOIN wholesale_product_pack_sizes ps ON ps.id = v.pack_size_id
+      WHERE ps.product_id = p_product_id
+        AND v.color IS NOT NULL
+        AND v.is_available = true
+        -- Combinations in the matrix take precedence over variant rows
+        AND NOT EXISTS (
+          SELECT 1 FROM wholesale_pack_stock_matrix m WHERE m.pack_size_id = v.pack_size_id
+        )
+    ), 0)
+  INTO v_total;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION get_wholesale_product_available_stock IS 'Stock a product can still be ordered from: per-combination stock when its packs track it, otherwise stock_quantity';
+
+-- =====================================================
+-- 4. Apply due schedules
+-- =====================================================
+-- Safe to run concurrently and repeatedly: every step is a conditional UPDATE
+-- that only matches rows that still need the change. Returns the number of
+-- products affected by each step.
+CREATE OR REPLACE FUNCTION run_wholesale_product_schedules()
+RETURNS JSONB AS $$
+DECLARE
+  v_published INTEGER;
+  v_unpublished INTEGER;
+  v_sales_ended INTEGER;
+  v_sales_started INTEGER;
+  v_out_of_stock INTEGER;
+  v_restocked INTEGER;
+BEGIN
+  -- Publish: draft/inactive -> active. Due dates on products that are already
+  -- live or archived are just cleared so they don't fire later.
+  WITH due AS (
+    SELECT id, status FROM wholesale_products
+    WHERE publish_at <= NOW()
+    FOR UPDATE SKIP LOCKED
+  ), applied AS (
+    UPDATE wholesale_products p
+    SET status = CASE WHEN due.status IN ('draft', 'inactive') THEN 'active' ELSE p.status END,
+        publish_at = NULL
+    FROM due
+    WHERE p.id = due.id
+    RETURNING due.status AS previous_status
+  )
+  SELECT COUNT(*) FILTER (WHERE previous_status IN ('draft', 'inactive'))
+  INTO v_published
+  FROM applied;
+
+  -- Unpublish: active/out_of_stock -> inactive
+  WITH due AS (
+    SELECT id, status FROM wholesale_products
+    WHERE unpublish_at <= NOW()
+    FOR UPDATE SKIP LOCKED
+  ), applied AS (
+    UPDATE wholesale_products p
+    SET status = CASE WHEN due.status IN ('active', 'out_of_stock') THEN 'inactive' ELSE p.status END,
+        out_of_stock_at = CASE WHEN due.status = 'out_of_stock' THEN NULL ELSE p.out_of_stock_at END,
+        unpublish_at = NULL
+    FROM due
+    WHERE p.id = due.id
+    RETURNING due.status AS previous_status
+  )
+  SELECT COUNT(*) FILTER (WHERE previous_status IN ('active', 'out_of_stock'))
+  INTO v_unpublished
+  FROM applied;
+
+  -- End running sale windows that are over, were cancelled or were moved later
+  UPDATE wholesale_products
+  SET sale_percentage = regular_sale_percentage,
+      regular_sale_percentage = NULL,
+      scheduled_sale_percentage = CASE WHEN sale_ends_at <= NOW() THEN NULL ELSE scheduled_sale_percentage END,
+      sale_starts_at = CASE WHEN sale_ends_at <= NOW() THEN NULL ELSE sale_starts_at END,
+      sale_ends_at = CASE WHEN sale_ends_at <= NOW() THEN NULL ELSE sale_ends_at END
+  WHERE regular_sale_percentage IS NOT NULL
+    AND (
+      scheduled_sale_percentage IS NULL
+      OR sale_starts_at IS NULL
+      OR sale_starts_at > NOW()
+      OR sale_ends_at <= NOW()
+    );
+  GET DIAGNOSTICS v_sales_ended = ROW_COUNT;
+
+  -- Windows that ended before they could start (e.g. the API was down)
+  UPDATE wholesale_products
+  SET scheduled_sale_percentage = NULL,
+      sale_starts_at = NULL,
+      sale_ends_at = NULL
+  WHERE regular_sale_percentage IS NULL
+    AND sale_ends_at <= NOW();
+
+  -- Start due sale windows
+  UPDATE wholesale_products
+  SET regular_sale_percentage = COALESCE(sale_percentage, 0),
+      sale_percentage = scheduled_sale_percentage
+  WHERE regular_sale_percentage IS NULL
+    AND scheduled_sale_percentage IS NOT NULL
+    AND sale_starts_at <= NOW()
+    AND (sale_ends_at IS NULL OR sale_ends_at > NOW());
+  GET DIAGNOSTICS v_sales_started = ROW_COUNT;
+
+  -- Sold out: active -> out_of_stock
+  UPDATE wholesale_products
+  SET status = 'out_of_stock',
+      out_of_stock_at = NOW()
+  WHERE status = 'active'
+    AND track_inventory = true
+    AND get_wholesale_product_available_stock(id) <= 0;
+  GET DIAGNOSTICS v_out_of_stock = ROW_COUNT;
+
+  -- Restocked (or no longer tracking inventory): out_of_stock -> active
+  UPDATE wholesale_products
+  SET status = 'active',
+      out_of_stock_at = NULL
+  WHERE status = 'out_of_stock'
+    AND (track_inventory = false OR get_wholesale_product_available_stock(id) > 0);
+  GET DIAGNOSTICS v_restocked = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'published', v_published,
+    'unpublished', v_unpublished,
+    'salesStarted', v_sales_started,
+    'salesEnded', v_sales_ended,
+    'outOfStock', v_out_of_stock,
+    'restocked', v_restocked
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION run_wholesale_product_schedules IS 'Applies due publish/unpublish dates and sale windows, and moves products in and out of out_of_stock';
+
+-- Only the API (service role) runs the scheduler
+REVOKE EXECUTE ON FUNCTION run_wholesale_product_schedules() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION run_wholesale_product_schedules() TO service_role;
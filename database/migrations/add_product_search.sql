@@ -0,0 +1,336 @@
+-- Migration: Full-text and fuzzy product search (wholesale and retail)
+-- This migration adds:
+-- 1. search_normalize(): lower-cases and folds Turkish/accented letters (İ/ı/ş/ğ/ü/ö/ç -> i/s/g/u/o/c),
+--    applied to both the indexed text and the query, so "canta" finds "Çanta"
+-- 2. build_search_vector() / build_search_query(): one weighted document and query for both
+--    catalogs, indexed with the simple, turkish and english configurations
+--    (A: name and codes, B: brand, C: category/subcategory, D: descriptions and product details)
+-- 3. search_vector (full text) and search_text (trigram, for typos) columns on
+--    wholesale_products and retail_products, kept up to date by triggers - also when a
+--    brand, category or subcategory is renamed
+-- 4. search_wholesale_products() / search_retail_products(): the visible products matching a
+--    query, in relevance order. They return the view/table row type, so the API filters,
+--    embeds and paginates them like the plain listing; leaving the order off keeps relevance.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- =====================================================
+-- 1. Normalisation and document/query builders
+-- =====================================================
+CREATE OR REPLACE FUNCTION search_normalize(p_text TEXT)
+RETURNS TEXT AS $$
+  -- Turkish capitals first: lower('İ') / lower('I') depend on the collation
+  SELECT lower(translate(
+    COALESCE(p_text, ''),
+    'İIıŞşĞğÜüÖöÇçÂâÎîÛûÁáÀàÉéÈèÍíÓóÚúÑñ',
+    'iiissgguuooccaaiiuuaaaaeeeeiioouunn'
+  ));
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+CREATE OR REPLACE FUNCTION build_search_vector(
+  p_name TEXT,
+  p_codes TEXT,
+  p_brand TEXT,
+  p_categories TEXT,
+  p_body TEXT
+)
+RETURNS TSVECTOR AS $$
+  SELECT
+    setweight(
+      to_tsvector('simple', search_normalize(p_name))
+      || to_tsvector('turkish', search_normalize(p_name))
+      || to_tsvector('english', search_normalize(p_name))
+      || to_tsvector('simple', search_normalize(p_codes)),
+      'A'
+    )
+    || setweight(to_tsvector('simple', search_normalize(p_brand)), 'B')
+    || setweight(
+      to_tsvector('turkish', search_normalize(p_categories))
+      || to_tsvector('english', search_normalize(p_categories)),
+      'C'
+    )
+    || setweight(
+      to_tsvector('turkish', search_normalize(p_body))
+      || to_tsvector('english', search_normalize(p_body)),
+      'D'
+    );
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- Words of the query in any of the three configurations, plus the last word
+-- as a prefix (search-as-you-type). NULL when the query has no words.
+CREATE OR REPLACE FUNCTION build_search_query(p_query TEXT)
+RETURNS TSQUERY AS $$
+DECLARE
+  v_text TEXT := search_normalize(p_query);
+  v_words TEXT[];
+  v_query TSQUERY;
+BEGIN
+  v_words := regexp_split_to_array(trim(regexp_replace(v_text, '[^a-z0-9]+', ' ', 'g')), ' ');
+  IF v_words IS NULL OR v_words = ARRAY[''] THEN
+    RETURN NULL;
+  END IF;
+
+  v_query := websearch_to_tsquery('simple', v_text)
+    || websearch_to_tsquery('turkish', v_text)
+    || websearch_to_tsquery('english', v_text);
+
+  RETURN v_query || to_tsquery(
+    'simple',
+    array_to_string(v_words[1:array_length(v_words, 1) - 1] || (v_words[array_length(v_words, 1)] || ':*'), ' & ')
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE PARALLEL SAFE;
+
+-- String values anywhere in a JSONB document (product_details), space separated
+CREATE OR REPLACE FUNCTION jsonb_string_values(p_document JSONB)
+RETURNS TEXT AS $$
+  SELECT string_agg(value #>> '{}', ' ')
+  FROM jsonb_path_query(COALESCE(p_document, '{}'::JSONB), 'strict $.** ? (@.type() == "string")') AS value;
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- =====================================================
+-- 2. Search columns
+-- =====================================================
+ALTER TABLE wholesale_products
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR,
+  ADD COLUMN IF NOT EXISTS search_text TEXT;
+
+ALTER TABLE retail_products
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR,
+  ADD COLUMN IF NOT EXISTS search_text TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_wholesale_products_search_vector
+  ON wholesale_products USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_wholesale_products_search_text
+  ON wholesale_products USING GIN (search_text gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_retail_products_search_vector
+  ON retail_products USING GIN (search_vector);
+
+CREATE INDEX IF NOT EXISTS idx_retail_products_search_text
+  ON retail_products USING GIN (search_text gin_trgm_ops);
+
+COMMENT ON COLUMN wholesale_products.search_vector IS 'Weighted full-text document (name/codes > brand > category > descriptions); maintained by trigger';
+COMMENT ON COLUMN wholesale_products.search_text IS 'Normalised name, brand and codes for trigram (typo-tolerant) matching; maintained by trigger';
+COMMENT ON COLUMN retail_products.search_vector IS 'Weighted full-text document (name/codes > brand > category > descriptions); maintained by trigger';
+COMMENT ON COLUMN retail_products.search_text IS 'Normalised name, brand and codes for trigram (typo-tolerant) matching; maintained by trigger';
+
+-- =====================================================
+-- 3. Keep the search columns up to date
+-- =====================================================
+CREATE OR REPLACE FUNCTION update_wholesale_product_search()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_brand TEXT;
+  v_categories TEXT;
+  v_codes TEXT;
+BEGIN
+  SELECT display_name INTO v_brand FROM wholesale_brands WHERE id = NEW.wholesale_brand_id;
+  SELECT concat_ws(' ', c.name, sc.name)
+  INTO v_categories
+  FROM categories c
+  LEFT JOIN subcategories sc ON sc.id = NEW.subcategory_id
+  WHERE c.id = NEW.category_id;
+
+  v_codes := concat_ws(' ', NEW.sku, NEW.barcode, NEW.model_code);
+
+  NEW.search_vector := build_search_vector(
+    NEW.name,
+    v_codes,
+    v_brand,
+    v_categories,
+    concat_ws(' ', NEW.short_description, NEW.description, jsonb_string_values(NEW.product_details))
+  );
+  NEW.search_text := search_normalize(concat_ws(' ', NEW.name, v_brand, v_codes));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_retail_product_search()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_brand TEXT;
+  v_categories TEXT;
+BEGIN
+  SELECT display_name INTO v_brand FROM retail_brands WHERE id = NEW.retail_brand_id;
+  SELECT concat_ws(' ', c.name, sc.name)
+  INTO v_categories
+  FROM categories c
+  LEFT JOIN subcategories sc ON sc.id = NEW.subcategory_id
+  WHERE c.id = NEW.category_id;
+
+  NEW.search_vector := build_search_vector(
+    NEW.name,
+    NEW.sku,
+    v_brand,
+    v_categories,
+    concat_ws(' ', NEW.short_description, NEW.description)
+  );
+  NEW.search_text := search_normalize(concat_ws(' ', NEW.name, v_brand, NEW.sku));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Setting search_vector to NULL forces a rebuild (used by the rename triggers below)
+CREATE TRIGGER update_wholesale_products_search
+  BEFORE INSERT OR UPDATE OF name, sku, barcode, model_code, short_description, description,
+    product_details, wholesale_brand_id, category_id, subcategory_id, search_vector
+  ON wholesale_products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_wholesale_product_search();
+
+CREATE TRIGGER update_retail_products_search
+  BEFORE INSERT OR UPDATE OF name, sku, short_description, description,
+    retail_brand_id, category_id, subcategory_id, search_vector
+  ON retail_products
+  FOR EACH ROW
+  EXECUTE FUNCTION update_retail_product_search();
+
+CREATE OR REPLACE FUNCTION refresh_product_search_on_rename()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'wholesale_brands' THEN
+    UPDATE wholesale_products SET search_vector = NULL WHERE wholesale_brand_id = NEW.id;
+  ELSIF TG_TABLE_NAME = 'retail_brands' THEN
+    UPDATE retail_products SET search_vector = NULL WHERE retail_brand_id = NEW.id;
+  ELSIF TG_TABLE_NAME = 'categories' THEN
+    UPDATE wholesale_products SET search_vector = NULL WHERE category_id = NEW.id;
+    UPDATE retail_products SET search_vector = NULL WHERE category_id = NEW.id;
+  ELSIF TG_TABLE_NAME = 'subcategories' THEN
+    UPDATE wholesale_products SET search_vector = NULL WHERE subcategory_id = NEW.id;
+    UPDATE retail_products SET search_vector = NULL WHERE subcategory_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER refresh_wholesale_brands_product_search
+  AFTER UPDATE OF display_name ON wholesale_brands
+  FOR EACH ROW
+  WHEN (OLD.display_name IS DISTINCT FROM NEW.display_name)
+  EXECUTE FUNCTION refresh_product_search_on_rename();
+
+CREATE TRIGGER refresh_retail_brands_product_search
+  AFTER UPDATE OF display_name ON retail_brands
+  FOR EACH ROW
+  WHEN (OLD.display_name IS DISTINCT FROM NEW.display_name)
+  EXECUTE FUNCTION refresh_product_search_on_rename();
+
+CREATE TRIGGER refresh_categories_product_search
+  AFTER UPDATE OF name ON categories
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION refresh_product_search_on_rename();
+
+CREATE TRIGGER refresh_subcategories_product_search
+  AFTER UPDATE OF name ON subcategories
+  FOR EACH ROW
+  WHEN (OLD.name IS DISTINCT FROM NEW.name)
+  EXECUTE FUNCTION refresh_product_search_on_rename();
+
+-- Backfill without touching updated_at
+ALTER TABLE wholesale_products DISABLE TRIGGER update_wholesale_products_updated_at;
+UPDATE wholesale_products SET search_vector = NULL;
+ALTER TABLE wholesale_products ENABLE TRIGGER update_wholesale_products_updated_at;
+
+ALTER TABLE retail_products DISABLE TRIGGER trigger_update_retail_products_updated_at;
+UPDATE retail_products SET search_vector = NULL;
+ALTER TABLE retail_products ENABLE TRIGGER trigger_update_retail_products_updated_at;
+
+-- =====================================================
+-- 4. Search functions
+-- =====================================================
+-- A product matches when the query matches its document, or - for typos - when
+-- the query is close to a word sequence of its name/brand/codes (trigram word
+-- similarity). Ranking: weighted full-text rank, an exact code match on top,
+-- then similarity, then sales.
+CREATE OR REPLACE FUNCTION search_wholesale_products(p_query TEXT)
+RETURNS SETOF active_wholesale_products AS $$
+DECLARE
+  v_tsquery TSQUERY := build_search_query(p_query);
+  v_text TEXT := search_normalize(trim(p_query));
+BEGIN
+  IF v_tsquery IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT v.*
+  FROM active_wholesale_products v
+  JOIN wholesale_products p ON p.id = v.id
+  WHERE p.search_vector @@ v_tsquery
+     OR (length(v_text) >= 3 AND v_text <% p.search_text)
+  ORDER BY
+    (search_normalize(p.sku) = v_text OR search_normalize(p.barcode) = v_text) DESC,
+    ts_rank(p.search_vector, v_tsquery) + word_similarity(v_text, p.search_text) * 0.5 DESC,
+    p.total_sold DESC,
+    p.created_at DESC,
+    p.id;
+END;
+$$ LANGUAGE plpgsql STABLE
+SET pg_trgm.word_similarity_threshold = 0.5;
+
+CREATE OR REPLACE FUNCTION search_retail_products(p_query TEXT)
+RETURNS SETOF retail_products AS $$
+DECLARE
+  v_tsquery TSQUERY := build_search_query(p_query);
+  v_text TEXT := search_normalize(trim(p_query));
+BEGIN
+  IF v_tsquery IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT p.*
+  FROM retail_products p
+  WHERE p.deleted_at IS NULL
+    AND (
+      p.search_vector @@ v_tsquery
+      OR (length(v_text) >= 3 AND v_text <% p.search_text)
+    )
+  ORDER BY
+    (search_normalize(p.sku) = v_text) DESC,
+    ts_rank(p.search_vector, v_tsquery) + word_similarity(v_text, p.search_text) * 0.5 DESC,
+    p.total_sold DESC,
+    p.created_at DESC,
+    p.id;
+END;
+$$ LANGUAGE plpgsql STABLE
+SET pg_trgm.word_similarity_threshold = 0.5;
+
+-- Categories and approved brands whose name matches a query, for suggestions
+CREATE OR REPLACE FUNCTION search_catalog_names(p_query TEXT, p_limit INTEGER DEFAULT 3)
+RETURNS TABLE (kind TEXT, id UUID, name TEXT, slug TEXT) AS $$
+DECLARE
+  v_text TEXT := search_normalize(trim(p_query));
+BEGIN
+  IF v_text = '' THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  (
+    SELECT 'category'::TEXT, c.id, c.name::TEXT, c.slug::TEXT
+    FROM categories c
+    WHERE c.is_active = true
+      AND (search_normalize(c.name) LIKE '%' || v_text || '%' OR v_text <% search_normalize(c.name))
+    ORDER BY word_similarity(v_text, search_normalize(c.name)) DESC, c.name
+    LIMIT p_limit
+  )
+  UNION ALL
+  (
+    SELECT 'brand'::TEXT, b.id, b.display_name::TEXT, b.slug::TEXT
+    FROM wholesale_brands b
+    WHERE b.status = 'approved'
+      AND (search_normalize(b.display_name) LIKE '%' || v_text || '%' OR v_text <% search_normalize(b.display_name))
+    ORDER BY word_similarity(v_text, search_normalize(b.display_name)) DESC, b.display_name
+    LIMIT p_limit
+  );
+END;
+$$ LANGUAGE plpgsql STABLE
+SET pg_trgm.word_similarity_threshold = 0.5;
+
+COMMENT ON FUNCTION search_wholesale_products IS 'Visible wholesale products matching a search query, most relevant first';
+COMMENT ON FUNCTION search_retail_products IS 'Retail products (not deleted) matching a search query, most relevant first';
+COMMENT ON FUNCTION search_catalog_names IS 'Active categories and approved wholesale brands whose name matches a search query';
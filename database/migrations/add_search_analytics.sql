@@ -0,0 +1,246 @@
+-- Migration: Search analytics and search rules
+-- This migration adds:
+-- 1. search_rules: admin-managed synonyms (a term rewritten before searching, e.g.
+--    "tshirt" -> "T-shirt") and redirects (a query that leads to a category or URL)
+-- 2. search_events: one row per search (listing or suggestions) with its filters, result
+--    count and the product clicked from the results
+-- 3. resolve_search_query(): applies the rules to a query
+-- 4. get_search_report(): top queries and zero-result queries over a period
+--
+-- Terms are matched on search_normalize() text, so "Tişört" and "tisort" are the same term.
+
+-- =====================================================
+-- 1. Search rules
+-- =====================================================
+CREATE TABLE IF NOT EXISTS search_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- 'synonym': occurrences of term (whole words) are replaced by synonym
+  -- 'redirect': a query equal to term leads to redirect_category_id or redirect_url
+  rule_type VARCHAR(20) NOT NULL,
+  term VARCHAR(200) NOT NULL,
+  normalized_term TEXT GENERATED ALWAYS AS (search_normalize(term)) STORED,
+  synonym VARCHAR(200),
+  redirect_category_id UUID REFERENCES categories(id) ON DELETE CASCADE,
+  redirect_url VARCHAR(500),
+
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT valid_search_rule_type CHECK (rule_type IN ('synonym', 'redirect')),
+  CONSTRAINT valid_search_rule_target CHECK (
+    (rule_type = 'synonym' AND synonym IS NOT NULL AND redirect_category_id IS NULL AND redirect_url IS NULL)
+    OR (rule_type = 'redirect' AND synonym IS NULL AND (redirect_category_id IS NOT NULL OR redirect_url IS NOT NULL))
+  )
+);
+
+-- One rule per term
+CREATE UNIQUE INDEX IF NOT EXISTS idx_search_rules_term
+  ON search_rules(normalized_term);
+
+COMMENT ON TABLE search_rules IS 'Admin-managed synonyms and redirects applied to catalog searches';
+
+-- Create trigger to automatically update updated_at
+CREATE TRIGGER update_search_rules_updated_at
+  BEFORE UPDATE ON search_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE search_rules ENABLE ROW LEVEL SECURITY;
+
+-- Service role can do anything
+CREATE POLICY "Service role full access on search rules"
+  ON search_rules FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- =====================================================
+-- 2. Search events
+-- =====================================================
+CREATE TABLE IF NOT EXISTS search_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Where the search was made: 'wholesale' or 'retail' catalog, 'listing' or 'suggestions'
+  catalog VARCHAR(20) NOT NULL,
+  source VARCHAR(20) NOT NULL DEFAULT 'listing',
+
+  -- What was typed, what was searched after the rules, and the filters alongside
+  query TEXT NOT NULL,
+  normalized_query TEXT GENERATED ALWAYS AS (search_normalize(query)) STORED,
+  resolved_query TEXT,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  result_count INTEGER NOT NULL DEFAULT 0,
+  search_rule_id UUID REFERENCES search_rules(id) ON DELETE SET NULL,
+
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+
+  -- First result clicked from this search
+  clicked_product_id UUID,
+  clicked_at TIMESTAMP WITH TIME ZONE,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT valid_search_event_catalog CHECK (catalog IN ('wholesale', 'retail')),
+  CONSTRAINT valid_search_event_source CHECK (source IN ('listing', 'suggestions')),
+  CONSTRAINT positive_search_event_result_count CHECK (result_count >= 0)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_search_events_created_at
+  ON search_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_search_events_query
+  ON search_events(normalized_query, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_search_events_zero_results
+  ON search_events(created_at DESC)
+  WHERE result_count = 0;
+
+-- Add comments for documentation
+COMMENT ON TABLE search_events IS 'Searches made on the wholesale and retail catalogs, for the search report';
+COMMENT ON COLUMN search_events.resolved_query IS 'Query actually searched after synonyms; NULL when a redirect was returned instead';
+COMMENT ON COLUMN search_events.clicked_product_id IS 'First product opened from the results of this search';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE search_events ENABLE ROW LEVEL SECURITY;
+
+-- Service role can do anything (events are recorded and read through the API)
+CREATE POLICY "Service role full access on search events"
+  ON search_events FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- =====================================================
+-- 3. Applying the rules
+-- =====================================================
+-- A redirect when the whole query is a redirect term; otherwise the query with every
+-- synonym term replaced (longest terms first, so "t shirt" wins over "shirt")
+CREATE OR REPLACE FUNCTION resolve_search_query(p_query TEXT)
+RETURNS TABLE (
+  query TEXT,
+  search_rule_id UUID,
+  redirect_url TEXT,
+  redirect_category_id UUID,
+  redirect_category_slug TEXT
+) AS $$
+DECLARE
+  v_text TEXT := regexp_replace(search_normalize(trim(p_query)), '\s+', ' ', 'g');
+  v_padded TEXT;
+  v_rule RECORD;
+  v_rule_id UUID;
+BEGIN
+  SELECT r.id, r.redirect_url, r.redirect_category_id, c.slug
+  INTO v_rule
+  FROM search_rules r
+  LEFT JOIN categories c ON c.id = r.redirect_category_id
+  WHERE r.rule_type = 'redirect'
+    AND r.is_active = true
+    AND r.normalized_term = v_text
+    AND (r.redirect_category_id IS NULL OR c.is_active = true);
+
+  IF FOUND THEN
+    RETURN QUERY SELECT NULL::TEXT, v_rule.id, v_rule.redirect_url::TEXT, v_rule.redirect_category_id, v_rule.slug::TEXT;
+    RETURN;
+  END IF;
+
+  v_padded := ' ' || v_text || ' ';
+  FOR v_rule IN
+    SELECT r.id, r.normalized_term, r.synonym
+    FROM search_rules r
+    WHERE r.rule_type = 'synonym'
+      AND r.is_active = true
+      AND r.normalized_term <> ''
+      AND position(' ' || r.normalized_term || ' ' IN ' ' || v_text || ' ') > 0
+    ORDER BY length(r.normalized_term) DESC
+  LOOP
+    IF position(' ' || v_rule.normalized_term || ' ' IN v_padded) > 0 THEN
+      v_padded := replace(v_padded, ' ' || v_rule.normalized_term || ' ', ' ' || v_rule.synonym || ' ');
+      v_rule_id := COALESCE(v_rule_id, v_rule.id);
+    END IF;
+  END LOOP;
+
+  -- Without a synonym the query is kept as typed
+  IF v_rule_id IS NULL THEN
+    RETURN QUERY SELECT trim(p_query), NULL::UUID, NULL::TEXT, NULL::UUID, NULL::TEXT;
+  ELSE
+    RETURN QUERY SELECT trim(v_padded), v_rule_id, NULL::TEXT, NULL::UUID, NULL::TEXT;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION resolve_search_query IS 'Applies search_rules to a query: a redirect, or the query with synonyms replaced';
+
+-- =====================================================
+-- 4. Search report
+-- =====================================================
+-- Redirected searches have no results by design and are not counted as zero-result
+CREATE OR REPLACE FUNCTION get_search_report(
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE,
+  p_catalog VARCHAR DEFAULT NULL,
+  p_source VARCHAR DEFAULT 'listing',
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS JSONB AS $$
+  WITH events AS (
+    SELECT *
+    FROM search_events e
+    WHERE e.created_at >= p_from
+      AND e.created_at < p_to
+      AND (p_catalog IS NULL OR e.catalog = p_catalog)
+      AND (p_source IS NULL OR e.source = p_source)
+  ),
+  by_query AS (
+    SELECT
+      e.normalized_query,
+      -- The most common spelling of the query
+      mode() WITHIN GROUP (ORDER BY e.query) AS query,
+      count(*) AS searches,
+      count(*) FILTER (WHERE e.result_count = 0 AND e.resolved_query IS NOT NULL) AS zero_result_searches,
+      round(avg(e.result_count), 1) AS average_results,
+      count(e.clicked_at) AS clicks,
+      max(e.created_at) AS last_searched_at
+    FROM events e
+    GROUP BY e.normalized_query
+  )
+  SELECT jsonb_build_object(
+    'totalSearches', (SELECT count(*) FROM events),
+    'zeroResultSearches', (SELECT count(*) FROM events WHERE result_count = 0 AND resolved_query IS NOT NULL),
+    'searchesWithClick', (SELECT count(*) FROM events WHERE clicked_at IS NOT NULL),
+    'topQueries', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'query', q.query,
+        'searches', q.searches,
+        'averageResults', q.average_results,
+        'zeroResultSearches', q.zero_result_searches,
+        'clicks', q.clicks,
+        'clickThroughRate', round(q.clicks::numeric / q.searches, 3),
+        'lastSearchedAt', q.last_searched_at
+      ) ORDER BY q.searches DESC, q.query)
+      FROM (SELECT * FROM by_query ORDER BY searches DESC, query LIMIT p_limit) q
+    ), '[]'::jsonb),
+    'zeroResultQueries', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'query', q.query,
+        'searches', q.zero_result_searches,
+        'lastSearchedAt', q.last_searched_at
+      ) ORDER BY q.zero_result_searches DESC, q.query)
+      FROM (
+        SELECT * FROM by_query
+        WHERE zero_result_searches > 0
+        ORDER BY zero_result_searches DESC, query
+        LIMIT p_limit
+      ) q
+    ), '[]'::jsonb)
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Only the API (service role) reads the report
+REVOKE EXECUTE ON FUNCTION get_search_report(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, VARCHAR, VARCHAR, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_search_report(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, VARCHAR, VARCHAR, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION get_search_report IS 'Search totals, top queries and zero-result queries between two dates';
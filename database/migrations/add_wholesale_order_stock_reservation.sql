@@ -0,0 +1,312 @@
+-- Migration: Atomic wholesale order placement with stock reservation
+-- This migration adds:
+-- 1. wholesale_order_stock_reservations: a ledger of every stock decrement made for an order
+-- 2. place_wholesale_order(): validates and decrements stock, then inserts the order and its
+--    items in a single transaction
+-- 3. release_wholesale_order_stock(): puts reserved stock back (used on cancellation)
+--
+-- Stock is resolved per order line as follows:
+-- - Lines with selected_variations ({ "color:Red|size:M": 5, ... }) are decremented per
+--   combination key, first against wholesale_pack_stock_matrix, then against the
+--   Trendyol-style wholesale_pack_variations (color/size) rows
+-- - Lines without combination-level stock fall back to wholesale_products.stock_quantity
+--   (in pieces) when the product has track_inventory enabled
+-- Every decrement is a conditional UPDATE (... AND stock >= qty), so concurrent orders for
+-- the last pack serialize on the row lock and only one of them succeeds.
+
+-- =====================================================
+-- 1. Create wholesale_order_stock_reservations table
+-- =====================================================
+CREATE TABLE IF NOT EXISTS wholesale_order_stock_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES wholesale_orders(id) ON DELETE CASCADE,
+
+  -- Where the stock was taken from: 'matrix', 'variant' or 'product'
+  source VARCHAR(20) NOT NULL,
+  -- Row id in wholesale_pack_stock_matrix / wholesale_pack_variations / wholesale_products
+  source_id UUID NOT NULL,
+
+  product_id UUID,
+  pack_size_id UUID,
+  combination_key VARCHAR(500),
+  quantity INTEGER NOT NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  released_at TIMESTAMP WITH TIME ZONE,
+
+  -- Constraints
+  CONSTRAINT valid_reservation_source CHECK (source IN ('matrix', 'variant', 'product')),
+  CONSTRAINT positive_reservation_quantity CHECK (quantity > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wholesale_order_stock_reservations_order_id
+  ON wholesale_order_stock_reservations(order_id);
+
+CREATE INDEX IF NOT EXISTS idx_wholesale_order_stock_reservations_unreleased
+  ON wholesale_order_stock_reservations(order_id)
+  WHERE released_at IS NULL;
+
+COMMENT ON TABLE wholesale_order_stock_reservations IS 'Stock decrements made when a wholesale order was placed, used to restore stock on cancellation';
+COMMENT ON COLUMN wholesale_order_stock_reservations.source IS 'Stock source: matrix (wholesale_pack_stock_matrix), variant (wholesale_pack_variations) or product (wholesale_products)';
+COMMENT ON COLUMN wholesale_order_stock_reservations.released_at IS 'Set when the reserved stock has been put back; NULL while the reservation is held';
+
+ALTER TABLE wholesale_order_stock_reservations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access on order stock reservations"
+  ON wholesale_order_stock_reservations FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- =====================================================
+-- 2. Place an order: reserve stock, insert order and items
+-- p_order: wholesale_orders columns as JSON (snake_case)
+-- p_items: array of wholesale_order_items columns as JSON (without order_id)
+-- Returns the new order id. Raises with HINT 'insufficient_stock' when any line
+-- cannot be fulfilled, and with HINT 'invalid_variations' when a line's
+-- selected_variations are not whole pack counts adding up to its quantity; the
+-- whole transaction is rolled back in both cases.
+-- =====================================================
+CREATE OR REPLACE FUNCTION place_wholesale_order(
+  p_order JSONB,
+  p_items JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_order_id UUID;
+  v_item JSONB;
+  v_pack_size_id UUID;
+  v_product_id UUID;
+  v_product RECORD;
+  v_combination RECORD;
+  v_pack_tracked BOOLEAN;
+  v_color TEXT;
+  v_size TEXT;
+  v_row_id UUID;
+  v_pieces INTEGER;
+BEGIN
+  IF p_items IS NULL OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  -- Insert the order first so reservations can reference it
+  INSERT INTO wholesale_orders (
+    user_id, customer_email, customer_name, customer_phone,
+    shipping_address_line1, shipping_address_line2, shipping_city, shipping_state,
+    shipping_postal_code, shipping_country,
+    billing_same_as_shipping, billing_address_line1, billing_address_line2, billing_city,
+    billing_state, billing_postal_code, billing_country,
+    subtotal, shipping_cost, tax_amount, discount_amount, total_amount,
+    total_items, total_pieces, status, payment_status, payment_method, notes
+  )
+  SELECT
+    o.user_id, o.customer_email, o.customer_name, o.customer_phone,
+    o.shipping_address_line1, o.shipping_address_line2, o.shipping_city, o.shipping_state,
+    o.shipping_postal_code, COALESCE(o.shipping_country, 'Turkey'),
+    COALESCE(o.billing_same_as_shipping, true), o.billing_address_line1, o.billing_address_line2, o.billing_city,
+    o.billing_state, o.billing_postal_code, o.billing_country,
+    o.subtotal, COALESCE(o.shipping_cost, 0), COALESCE(o.tax_amount, 0), COALESCE(o.discount_amount, 0), o.total_amount,
+    COALESCE(o.total_items, 0), COALESCE(o.total_pieces, 0), COALESCE(o.status, 'pending'),
+    COALESCE(o.payment_status, 'pending'), o.payment_method, o.notes
+  FROM jsonb_populate_record(NULL::wholesale_orders, p_order) o
+  RETURNING id INTO v_order_id;
+
+  -- Lock rows in a stable order (product, pack) to avoid deadlocks between
+  -- concurrent orders touching the same products
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+    ORDER BY value ->> 'product_id', value ->> 'pack_size_id'
+  LOOP
+    v_product_id := (v_item ->> 'product_id')::UUID;
+    v_pack_size_id := NULLIF(v_item ->> 'pack_size_id', '')::UUID;
+    v_pieces := (v_item ->> 'quantity')::INTEGER * COALESCE((v_item ->> 'pack_quantity')::INTEGER, 1);
+
+    SELECT id, name, stock_quantity, track_inventory
+    INTO v_product
+    FROM wholesale_products
+    WHERE id = v_product_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % is no longer available', v_product_id
+        USING HINT = 'insufficient_stock';
+    END IF;
+
+    -- Packs per combination: whole numbers adding up to the line quantity, so
+    -- every ordered pack reserves combination stock
+    IF jsonb_typeof(v_item -> 'selected_variations') = 'object'
+       AND v_item -> 'selected_variations' <> '{}'::JSONB THEN
+      IF EXISTS (
+        SELECT 1 FROM jsonb_each(v_item -> 'selected_variations')
+        WHERE jsonb_typeof(value) <> 'number' OR (value #>> '{}') !~ '^[0-9]+$'
+      ) THEN
+        RAISE EXCEPTION 'Variation quantities for % must be whole numbers', v_product.name
+          USING HINT = 'invalid_variations';
+      END IF;
+
+      IF (
+        SELECT SUM((value #>> '{}')::INTEGER)
+        FROM jsonb_each(v_item -> 'selected_variations')
+      ) <> (v_item ->> 'quantity')::INTEGER THEN
+        RAISE EXCEPTION 'Variation quantities for % do not add up to the ordered quantity', v_product.name
+          USING HINT = 'invalid_variations';
+      END IF;
+    END IF;
+
+    -- Does this pack track stock per combination?
+    v_pack_tracked := v_pack_size_id IS NOT NULL AND (
+      EXISTS (SELECT 1 FROM wholesale_pack_stock_matrix WHERE pack_size_id = v_pack_size_id)
+      OR EXISTS (
+        SELECT 1 FROM wholesale_pack_variations
+        WHERE pack_size_id = v_pack_size_id AND color IS NOT NULL
+      )
+    );
+
+    IF v_pack_tracked
+       AND jsonb_typeof(v_item -> 'selected_variations') = 'object'
+       AND v_item -> 'selected_variations' <> '{}'::JSONB THEN
+      FOR v_combination IN
+        SELECT key, value::INTEGER AS quantity
+        FROM jsonb_each_text(v_item -> 'selected_variations')
+        WHERE value::INTEGER > 0
+        ORDER BY key
+      LOOP
+        v_row_id := NULL;
+
+        -- Stock matrix (keyed by combination, e.g. "color:Red|size:M")
+        IF EXISTS (
+          SELECT 1 FROM wholesale_pack_stock_matrix
+          WHERE pack_size_id = v_pack_size_id AND combination_key = v_combination.key
+        ) THEN
+          UPDATE wholesale_pack_stock_matrix
+          SET stock_quantity = stock_quantity - v_combination.quantity
+          WHERE pack_size_id = v_pack_size_id
+            AND combination_key = v_combination.key
+            AND stock_quantity >= v_combination.quantity
+          RETURNING id INTO v_row_id;
+
+          IF v_row_id IS NULL THEN
+            RAISE EXCEPTION 'Insufficient stock for % (%)', v_product.name, v_combination.key
+              USING HINT = 'insufficient_stock';
+          END IF;
+
+          INSERT INTO wholesale_order_stock_reservations
+            (order_id, source, source_id, product_id, pack_size_id, combination_key, quantity)
+          VALUES
+            (v_order_id, 'matrix', v_row_id, v_product_id, v_pack_size_id, v_combination.key, v_combination.quantity);
+          CONTINUE;
+        END IF;
+
+        -- Trendyol-style variants (one row per color × size)
+        v_color := substring(v_combination.key FROM '(?:^|\|)color:([^|]*)');
+        v_size := substring(v_combination.key FROM '(?:^|\|)size:([^|]*)');
+
+        UPDATE wholesale_pack_variations
+        SET stock = stock - v_combination.quantity
+        WHERE id = (
+          SELECT id FROM wholesale_pack_variations
+          WHERE pack_size_id = v_pack_size_id
+            AND color IS NOT DISTINCT FROM v_color
+            AND size IS NOT DISTINCT FROM v_size
+          ORDER BY display_order
+          LIMIT 1
+        )
+          AND is_available = true
+          AND COALESCE(stock, 0) >= v_combination.quantity
+        RETURNING id INTO v_row_id;
+
+        IF v_row_id IS NULL THEN
+          RAISE EXCEPTION 'Insufficient stock for % (%)', v_product.name, v_combination.key
+            USING HINT = 'insufficient_stock';
+        END IF;
+
+        INSERT INTO wholesale_order_stock_reservations
+          (order_id, source, source_id, product_id, pack_size_id, combination_key, quantity)
+        VALUES
+          (v_order_id, 'variant', v_row_id, v_product_id, v_pack_size_id, v_combination.key, v_combination.quantity);
+      END LOOP;
+
+    ELSIF v_pack_tracked THEN
+      RAISE EXCEPTION 'Please select variations for %', v_product.name
+        USING HINT = 'insufficient_stock';
+
+    ELSIF v_product.track_inventory THEN
+      -- No combination-level stock: reserve product-level pieces
+      UPDATE wholesale_products
+      SET stock_quantity = stock_quantity - v_pieces
+      WHERE id = v_product_id
+        AND stock_quantity >= v_pieces;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Insufficient stock for %', v_product.name
+          USING HINT = 'insufficient_stock';
+      END IF;
+
+      INSERT INTO wholesale_order_stock_reservations
+        (order_id, source, source_id, product_id, pack_size_id, quantity)
+      VALUES
+        (v_order_id, 'product', v_product_id, v_product_id, v_pack_size_id, v_pieces);
+    END IF;
+  END LOOP;
+
+  INSERT INTO wholesale_order_items (
+    order_id, product_id, pack_size_id, product_name, product_slug, product_image,
+    brand_name, pack_label, pack_quantity, quantity, unit_price, pack_price,
+    item_total, selected_variations
+  )
+  SELECT
+    v_order_id, i.product_id, i.pack_size_id, i.product_name, i.product_slug, i.product_image,
+    i.brand_name, i.pack_label, COALESCE(i.pack_quantity, 1), i.quantity, i.unit_price, i.pack_price,
+    i.item_total, i.selected_variations
+  FROM jsonb_populate_recordset(NULL::wholesale_order_items, p_items) i;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION place_wholesale_order IS 'Reserves stock for every line and inserts the wholesale order with its items in one transaction';
+
+-- =====================================================
+-- 3. Release an order's reserved stock
+-- Idempotent: only reservations that have not been released yet are put back.
+-- Returns the number of reservations released.
+-- =====================================================
+CREATE OR REPLACE FUNCTION release_wholesale_order_stock(p_order_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_reservation RECORD;
+  v_released INTEGER := 0;
+BEGIN
+  FOR v_reservation IN
+    SELECT id, source, source_id, quantity
+    FROM wholesale_order_stock_reservations
+    WHERE order_id = p_order_id
+      AND released_at IS NULL
+    ORDER BY source, source_id
+    FOR UPDATE
+  LOOP
+    -- Rows removed from the catalog since the order was placed are skipped
+    IF v_reservation.source = 'matrix' THEN
+      UPDATE wholesale_pack_stock_matrix
+      SET stock_quantity = stock_quantity + v_reservation.quantity
+      WHERE id = v_reservation.source_id;
+    ELSIF v_reservation.source = 'variant' THEN
+      UPDATE wholesale_pack_variations
+      SET stock = COALESCE(stock, 0) + v_reservation.quantity
+      WHERE id = v_reservation.source_id;
+    ELSE
+      UPDATE wholesale_products
+      SET stock_quantity = stock_quantity + v_reservation.quantity
+      WHERE id = v_reservation.source_id;
+    END IF;
+
+    UPDATE wholesale_order_stock_reservations
+    SET released_at = NOW()
+    WHERE id = v_reservation.id;
+
+    v_released := v_released + 1;
+  END LOOP;
+
+  RETURN v_released;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION release_wholesale_order_stock IS 'Puts back the stock reserved for a wholesale order (e.g. on cancellation)';
@@ -0,0 +1,226 @@
+-- Migration: Faceted filtering for the wholesale product listing
+-- This migration adds:
+-- 1. wholesale_product_filter_sources(): where each filter key reads its values from
+--    (built-in keys, then category_filter_config, then product_details)
+-- 2. wholesale_product_filter_values(): the values a product has for a filter
+-- 3. filter_wholesale_products(): the listing with every filter applied in one query
+-- 4. get_wholesale_product_facets(): per-option product counts for the listing filters
+--
+-- Both functions take the filters as one JSONB object:
+--   {
+--     "search": "...", "categoryId": "...", "subcategoryId": "...",
+--     "priceMin": 10, "priceMax": 50, "minOrder": 12, "rating": 4,
+--     "inStock": true, "freeShipping": true, "onSale": true,
+--     "selected": { "colors": ["Red"], "brandIds": ["..."], "productType": ["Shirt"] }
+--   }
+-- "selected" holds the option filters (facets). A product matches a facet when it has any
+-- of the selected options, and has to match every facet that has a selection.
+
+-- =====================================================
+-- 1. Filter sources
+-- =====================================================
+-- Source and path of the facets of a category, plus those of p_keys. Built-in keys come
+-- first; other keys use the category's config, then any category's config for the same
+-- key, and finally product_details with the key's first letter upper-cased
+CREATE OR REPLACE FUNCTION wholesale_product_filter_sources(p_category_id UUID, p_keys TEXT[] DEFAULT '{}')
+RETURNS TABLE (filter_key TEXT, data_source TEXT, data_path TEXT) AS $$
+  WITH builtin (key, source, path) AS (
+    VALUES
+      ('brandIds', 'field', 'wholesale_brand_id'),
+      ('colors', 'pack_variant', 'color'),
+      ('sizes', 'pack_variant', 'size'),
+      ('materials', 'variation', 'material')
+  ),
+  configured AS (
+    SELECT DISTINCT ON (c.filter_key)
+      c.filter_key::TEXT AS key,
+      c.data_source::TEXT AS source,
+      COALESCE(c.data_path, c.filter_key)::TEXT AS path
+    FROM category_filter_config c
+    WHERE c.is_active = true
+      AND c.filter_type IN ('multi-select', 'single-select', 'checkbox')
+      AND c.data_source IN ('product_details', 'field', 'variation', 'pack_variant')
+      AND (c.category_id = p_category_id OR c.filter_key = ANY(p_keys))
+      AND c.filter_key NOT IN (SELECT b.key FROM builtin b)
+    ORDER BY c.filter_key, (c.category_id = p_category_id) DESC NULLS LAST, c.display_order
+  )
+  SELECT b.key, b.source, b.path FROM builtin b
+  UNION ALL
+  SELECT c.key, c.source, c.path FROM configured c
+  UNION ALL
+  SELECT k, 'product_details', upper(left(k, 1)) || substr(k, 2)
+  FROM unnest(p_keys) k
+  WHERE k NOT IN (SELECT b.key FROM builtin b)
+    AND k NOT IN (SELECT c.key FROM configured c);
+$$ LANGUAGE sql STABLE;
+
+-- The selected options of p_filters, keyed by filter: { key: { source, path, values } }
+CREATE OR REPLACE FUNCTION resolve_wholesale_product_selection(p_filters JSONB)
+RETURNS JSONB AS $$
+  SELECT COALESCE(
+    jsonb_object_agg(f.filter_key, jsonb_build_object('source', f.data_source, 'path', f.data_path, 'values', s.value)),
+    '{}'::jsonb
+  )
+  FROM jsonb_each(COALESCE(p_filters -> 'selected', '{}'::jsonb)) s
+  JOIN wholesale_product_filter_sources(
+    NULLIF(p_filters ->> 'categoryId', '')::uuid,
+    ARRAY(SELECT jsonb_object_keys(COALESCE(p_filters -> 'selected', '{}'::jsonb)))
+  ) f ON f.filter_key = s.key
+  WHERE jsonb_typeof(s.value) = 'array'
+    AND jsonb_array_length(s.value) > 0;
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- 2. Filter values
+-- =====================================================
+-- product_details values may be a single value or an array of them; pack variants are
+-- read from a column (color, size) or their custom_values
+CREATE OR REPLACE FUNCTION wholesale_product_filter_values(p active_wholesale_products, p_source TEXT, p_path TEXT)
+RETURNS SETOF TEXT AS $$
+  SELECT DISTINCT x.value
+  FROM (
+    SELECT d.value
+    FROM jsonb_array_elements_text(
+      CASE WHEN jsonb_typeof(p.product_details -> p_path) = 'array' THEN p.product_details -> p_path ELSE '[]'::jsonb END
+    ) d (value)
+    WHERE p_source = 'product_details'
+    UNION ALL
+    SELECT p.product_details -> p_path #>> '{}'
+    WHERE p_source = 'product_details'
+      AND jsonb_typeof(p.product_details -> p_path) IN ('string', 'number', 'boolean')
+    UNION ALL
+    SELECT to_jsonb(p) ->> p_path
+    WHERE p_source = 'field'
+    UNION ALL
+    SELECT v.name
+    FROM wholesale_product_variations v
+    WHERE p_source = 'variation'
+      AND v.product_id = p.id
+      AND v.variation_type = p_path
+    UNION ALL
+    SELECT COALESCE(to_jsonb(v) ->> p_path, v.custom_values ->> p_path)
+    FROM wholesale_pack_variations v
+    JOIN wholesale_product_pack_sizes ps ON ps.id = v.pack_size_id
+    WHERE p_source = 'pack_variant'
+      AND ps.product_id = p.id
+  ) x
+  WHERE x.value IS NOT NULL
+    AND x.value <> '';
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- 3. Filtering
+-- =====================================================
+-- The plain (non-facet) filters of p_filters
+CREATE OR REPLACE FUNCTION wholesale_product_matches_filters(p active_wholesale_products, p_filters JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT
+    (p_filters ->> 'categoryId' IS NULL OR p.category_id = (p_filters ->> 'categoryId')::uuid)
+    AND (p_filters ->> 'subcategoryId' IS NULL OR p.subcategory_id = (p_filters ->> 'subcategoryId')::uuid)
+    AND (p_filters ->> 'priceMin' IS NULL OR p.wholesale_price >= (p_filters ->> 'priceMin')::numeric)
+    AND (p_filters ->> 'priceMax' IS NULL OR p.wholesale_price <= (p_filters ->> 'priceMax')::numeric)
+    AND (
+      p_filters ->> 'minOrder' IS NULL
+      -- 24 stands for "24 and more", smaller values are exact
+      OR CASE
+        WHEN (p_filters ->> 'minOrder')::integer >= 24 THEN p.min_order_quantity >= 24
+        ELSE p.min_order_quantity = (p_filters ->> 'minOrder')::integer
+      END
+    )
+    AND (p_filters ->> 'rating' IS NULL OR p.rating >= (p_filters ->> 'rating')::numeric)
+    AND (
+      p_filters ->> 'inStock' IS NULL
+      OR CASE WHEN (p_filters ->> 'inStock')::boolean THEN p.stock_quantity > 0 ELSE p.stock_quantity = 0 END
+    )
+    AND (COALESCE((p_filters ->> 'freeShipping')::boolean, false) = false OR p.is_shipping_free = true)
+    AND (COALESCE((p_filters ->> 'onSale')::boolean, false) = false OR p.sale_percentage > 0);
+$$ LANGUAGE sql STABLE;
+
+-- Does the product have one of the selected options of every facet?
+CREATE OR REPLACE FUNCTION wholesale_product_matches_selection(p active_wholesale_products, p_selection JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM jsonb_each(p_selection) s
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM wholesale_product_filter_values(p, s.value ->> 'source', s.value ->> 'path') v (value)
+      WHERE v.value IN (SELECT jsonb_array_elements_text(s.value -> 'values'))
+    )
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Visible wholesale products matching p_filters. With a search term the rows come back
+-- most relevant first (search_wholesale_products order), otherwise unordered
+CREATE OR REPLACE FUNCTION filter_wholesale_products(p_filters JSONB)
+RETURNS SETOF active_wholesale_products AS $$
+DECLARE
+  v_search TEXT := NULLIF(trim(p_filters ->> 'search'), '');
+  v_selection JSONB := resolve_wholesale_product_selection(p_filters);
+BEGIN
+  IF v_search IS NOT NULL THEN
+    RETURN QUERY
+    SELECT s.*
+    FROM search_wholesale_products(v_search) s
+    WHERE wholesale_product_matches_filters(s, p_filters)
+      AND wholesale_product_matches_selection(s, v_selection);
+  ELSE
+    RETURN QUERY
+    SELECT v.*
+    FROM active_wholesale_products v
+    WHERE wholesale_product_matches_filters(v, p_filters)
+      AND wholesale_product_matches_selection(v, v_selection);
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- =====================================================
+-- 4. Facet counts
+-- =====================================================
+-- { facetKey: [{ "value": "Red", "count": 42 }, ...] } for the built-in facets, the
+-- category's configured filters and any other selected facet. Each facet is counted
+-- with every selection applied except its own, so the count of an option is the number
+-- of products the listing would have with that option picked instead
+CREATE OR REPLACE FUNCTION get_wholesale_product_facets(p_filters JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_selection JSONB := resolve_wholesale_product_selection(p_filters);
+  v_facets JSONB;
+BEGIN
+  WITH base AS MATERIALIZED (
+    SELECT b AS product
+    FROM filter_wholesale_products(p_filters - 'selected') b
+  ),
+  facets AS (
+    SELECT f.filter_key, f.data_source, f.data_path
+    FROM wholesale_product_filter_sources(
+      NULLIF(p_filters ->> 'categoryId', '')::uuid,
+      ARRAY(SELECT jsonb_object_keys(v_selection))
+    ) f
+  ),
+  counts AS (
+    SELECT f.filter_key, v.value, count(*) AS product_count
+    FROM facets f
+    CROSS JOIN base
+    CROSS JOIN LATERAL wholesale_product_filter_values(base.product, f.data_source, f.data_path) v (value)
+    WHERE wholesale_product_matches_selection(base.product, v_selection - f.filter_key)
+    GROUP BY f.filter_key, v.value
+  )
+  SELECT COALESCE(jsonb_object_agg(o.filter_key, o.options), '{}'::jsonb)
+  INTO v_facets
+  FROM (
+    SELECT
+      c.filter_key,
+      jsonb_agg(jsonb_build_object('value', c.value, 'count', c.product_count) ORDER BY c.product_count DESC, c.value) AS options
+    FROM counts c
+    GROUP BY c.filter_key
+  ) o;
+
+  RETURN v_facets;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION wholesale_product_filter_sources IS 'Where each wholesale listing filter key reads its values from (data_source and data_path)';
+COMMENT ON FUNCTION wholesale_product_filter_values IS 'Distinct values a wholesale product has for a filter source and path';
+COMMENT ON FUNCTION filter_wholesale_products IS 'Visible wholesale products matching the listing filters (search, plain filters and selected facets)';
+COMMENT ON FUNCTION get_wholesale_product_facets IS 'Product counts per option of each wholesale listing facet, for the given filters';
@@ -0,0 +1,23 @@
+-- Create Supabase Storage bucket for user avatars
+-- Run this in Supabase SQL Editor
+-- Note: RLS is already enabled on storage.objects by default in Supabase
+
+-- Create the bucket if it doesn't exist (2MB, avatars are resized to WebP)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 2097152, ARRAY['image/*']::text[])
+ON CONFLICT (id) DO UPDATE SET
+  public = true,
+  file_size_limit = 2097152,
+  allowed_mime_types = ARRAY['image/*']::text[];
+
+-- Drop existing policies if they exist (to avoid conflicts)
+DROP POLICY IF EXISTS "Public can view avatars" ON storage.objects;
+
+-- Storage policies (RLS for storage)
+-- Note: Service role key bypasses RLS policies automatically
+-- Backend uses service role client for uploads, so only public read is needed
+
+-- Allow public read access to avatars
+CREATE POLICY "Public can view avatars"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'avatars');
@@ -0,0 +1,167 @@
+-- Create brand_members table - who can act for a brand and in which role.
+-- Shared by wholesale_brands and retail_brands (brand_type tells them apart).
+-- The registering user (wholesale_brands.user_id / retail_brands.user_id)
+-- becomes the first owner.
+CREATE TABLE IF NOT EXISTS brand_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Brand reference
+  brand_type VARCHAR(20) NOT NULL,
+  brand_id UUID NOT NULL,
+
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role VARCHAR(30) NOT NULL,
+  -- owner, manager, catalog_editor, fulfilment
+
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT valid_brand_member_type CHECK (brand_type IN ('wholesale', 'retail')),
+  CONSTRAINT valid_brand_member_role CHECK (role IN ('owner', 'manager', 'catalog_editor', 'fulfilment')),
+  -- A user works for at most one brand of each type
+  CONSTRAINT unique_brand_member_user UNIQUE (brand_type, user_id)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_brand_members_brand ON brand_members(brand_type, brand_id);
+
+-- Create brand_invitations table - pending invitations by email
+CREATE TABLE IF NOT EXISTS brand_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Brand reference
+  brand_type VARCHAR(20) NOT NULL,
+  brand_id UUID NOT NULL,
+
+  email VARCHAR(255) NOT NULL,
+  role VARCHAR(30) NOT NULL,
+
+  -- SHA-256 of the invitation token; the token itself is only returned once
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  -- pending, accepted, revoked
+
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  -- Timestamps
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT valid_brand_invitation_type CHECK (brand_type IN ('wholesale', 'retail')),
+  CONSTRAINT valid_brand_invitation_role CHECK (role IN ('owner', 'manager', 'catalog_editor', 'fulfilment')),
+  CONSTRAINT valid_brand_invitation_status CHECK (status IN ('pending', 'accepted', 'revoked'))
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_brand_invitations_brand
+  ON brand_invitations(brand_type, brand_id, status);
+
+-- Add comments for documentation
+COMMENT ON TABLE brand_members IS 'Users that can act for a wholesale or retail brand, with their brand role';
+COMMENT ON COLUMN brand_members.role IS 'owner, manager, catalog_editor (products) or fulfilment (orders)';
+COMMENT ON TABLE brand_invitations IS 'Email invitations to join a brand team';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE brand_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE brand_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own memberships
+CREATE POLICY "Users can view their own brand memberships"
+  ON brand_members FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Service role can do anything
+CREATE POLICY "Service role full access on brand members"
+  ON brand_members FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "Service role full access on brand invitations"
+  ON brand_invitations FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Function to make the registering user the owner of a new brand
+CREATE OR REPLACE FUNCTION add_brand_owner_member()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO brand_members (brand_type, brand_id, user_id, role)
+  VALUES (TG_ARGV[0], NEW.id, NEW.user_id, 'owner')
+  ON CONFLICT (brand_type, user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function to drop the members of a deleted brand (no FK, brand_id is shared)
+CREATE OR REPLACE FUNCTION remove_brand_members()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM brand_members WHERE brand_type = TG_ARGV[0] AND brand_id = OLD.id;
+  DELETE FROM brand_invitations WHERE brand_type = TG_ARGV[0] AND brand_id = OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER add_wholesale_brand_owner_member
+  AFTER INSERT ON wholesale_brands
+  FOR EACH ROW
+  EXECUTE FUNCTION add_brand_owner_member('wholesale');
+
+CREATE TRIGGER add_retail_brand_owner_member
+  AFTER INSERT ON retail_brands
+  FOR EACH ROW
+  EXECUTE FUNCTION add_brand_owner_member('retail');
+
+CREATE TRIGGER remove_wholesale_brand_members
+  AFTER DELETE ON wholesale_brands
+  FOR EACH ROW
+  EXECUTE FUNCTION remove_brand_members('wholesale');
+
+CREATE TRIGGER remove_retail_brand_members
+  AFTER DELETE ON retail_brands
+  FOR EACH ROW
+  EXECUTE FUNCTION remove_brand_members('retail');
+
+-- Backfill owners of existing brands
+INSERT INTO brand_members (brand_type, brand_id, user_id, role)
+SELECT 'wholesale', id, user_id, 'owner' FROM wholesale_brands
+ON CONFLICT (brand_type, user_id) DO NOTHING;
+
+INSERT INTO brand_members (brand_type, brand_id, user_id, role)
+SELECT 'retail', id, user_id, 'owner' FROM retail_brands
+ON CONFLICT (brand_type, user_id) DO NOTHING;
+
+-- Keep the brand_staff entry in user_roles in line with non-owner memberships
+CREATE OR REPLACE FUNCTION sync_brand_staff_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    DELETE FROM user_roles
+    WHERE user_id = OLD.user_id
+      AND role = 'brand_staff'
+      AND NOT EXISTS (
+        SELECT 1 FROM brand_members
+        WHERE user_id = OLD.user_id AND role <> 'owner'
+      );
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.role <> 'owner' THEN
+    INSERT INTO user_roles (user_id, role)
+    VALUES (NEW.user_id, 'brand_staff')
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_brand_staff_role
+  AFTER INSERT OR UPDATE OF role OR DELETE ON brand_members
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_brand_staff_role();
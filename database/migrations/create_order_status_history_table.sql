@@ -0,0 +1,44 @@
+-- Create order_status_history table to audit order status changes
+-- Shared by wholesale_orders and retail_orders (order_type tells them apart)
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Order reference
+  order_type VARCHAR(20) NOT NULL,
+  order_id UUID NOT NULL,
+
+  -- Transition (from_status is NULL for the initial status at placement)
+  from_status VARCHAR(50),
+  to_status VARCHAR(50) NOT NULL,
+
+  -- Who triggered the change
+  actor_role VARCHAR(20) NOT NULL,
+  -- buyer, brand_owner, admin, system
+  actor_id UUID,
+
+  note TEXT,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT valid_order_type CHECK (order_type IN ('wholesale', 'retail')),
+  CONSTRAINT valid_actor_role CHECK (actor_role IN ('buyer', 'brand_owner', 'admin', 'system'))
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order
+  ON order_status_history(order_type, order_id, created_at);
+
+-- Add comments for documentation
+COMMENT ON TABLE order_status_history IS 'Audit trail of status changes for wholesale and retail orders';
+COMMENT ON COLUMN order_status_history.order_type IS 'Order table: wholesale (wholesale_orders) or retail (retail_orders)';
+COMMENT ON COLUMN order_status_history.actor_role IS 'Role of the actor that changed the status: buyer, brand_owner, admin, system';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Service role can do anything
+CREATE POLICY "Service role full access on order status history"
+  ON order_status_history FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
@@ -0,0 +1,43 @@
+-- Create product_revisions table - change history of wholesale products.
+-- Every save stores the full product (as the create/update payload) so any
+-- revision can be viewed or restored.
+CREATE TABLE IF NOT EXISTS product_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES wholesale_products(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+
+  -- What happened and who did it
+  change_type VARCHAR(20) NOT NULL,
+  changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  -- Set for restores: the revision that was brought back
+  restored_from INTEGER,
+
+  -- Summary of the changes against the previous revision
+  changes JSONB,
+  -- The product after the change
+  snapshot JSONB NOT NULL,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT valid_product_revision_change_type CHECK (change_type IN ('create', 'update', 'restore')),
+  CONSTRAINT unique_product_revision UNIQUE (product_id, revision_number)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_product_revisions_product
+  ON product_revisions(product_id, revision_number DESC);
+
+-- Add comments for documentation
+COMMENT ON TABLE product_revisions IS 'Change history of wholesale products, one row per save';
+COMMENT ON COLUMN product_revisions.changes IS 'Changed fields ({field: {from, to}}) and added/updated/removed ids of images, variations and pack sizes';
+COMMENT ON COLUMN product_revisions.snapshot IS 'Product as an update payload, including child row ids';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE product_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Service role can do anything
+CREATE POLICY "Service role full access on product revisions"
+  ON product_revisions FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
@@ -0,0 +1,111 @@
+-- Create user_addresses table - the address book shared by wholesale orders,
+-- retail orders and retail exchanges
+CREATE TABLE IF NOT EXISTS user_addresses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Optional name shown in the address picker (e.g. "Warehouse")
+  label VARCHAR(100),
+  -- What the address can be used for: shipping, billing or both
+  address_type VARCHAR(20) NOT NULL DEFAULT 'both',
+
+  -- Address details
+  full_name VARCHAR(255) NOT NULL,
+  phone VARCHAR(50),
+  company_name VARCHAR(255),
+  tax_id VARCHAR(50),
+  address_line1 VARCHAR(255) NOT NULL,
+  address_line2 VARCHAR(255),
+  city VARCHAR(100) NOT NULL,
+  state VARCHAR(100),
+  postal_code VARCHAR(20) NOT NULL,
+  country VARCHAR(100) NOT NULL DEFAULT 'Turkey',
+
+  -- Defaults (at most one of each per user, see indexes below)
+  is_default_shipping BOOLEAN NOT NULL DEFAULT false,
+  is_default_billing BOOLEAN NOT NULL DEFAULT false,
+
+  -- Deleted addresses are kept so orders/exchanges referencing them still resolve
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT valid_address_type CHECK (address_type IN ('shipping', 'billing', 'both'))
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_user_addresses_user
+  ON user_addresses(user_id, created_at DESC) WHERE is_active = true;
+
+-- One default shipping and one default billing address per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_addresses_default_shipping
+  ON user_addresses(user_id) WHERE is_default_shipping = true AND is_active = true;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_addresses_default_billing
+  ON user_addresses(user_id) WHERE is_default_billing = true AND is_active = true;
+
+-- Add comments for documentation
+COMMENT ON TABLE user_addresses IS 'User address book, referenced by orders and exchanges by ID';
+COMMENT ON COLUMN user_addresses.is_active IS 'False once deleted by the user; kept for orders and exchanges that reference it';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE user_addresses ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own addresses
+CREATE POLICY "Users can view their own addresses"
+  ON user_addresses FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Service role can do anything
+CREATE POLICY "Service role full access on user addresses"
+  ON user_addresses FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Function to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_user_addresses_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to automatically update updated_at
+CREATE TRIGGER update_user_addresses_updated_at
+  BEFORE UPDATE ON user_addresses
+  FOR EACH ROW
+  EXECUTE FUNCTION update_user_addresses_updated_at();
+
+-- Orders keep their address snapshot columns, and also remember which
+-- address book entry they were created from
+ALTER TABLE wholesale_orders
+  ADD COLUMN IF NOT EXISTS shipping_address_id UUID REFERENCES user_addresses(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS billing_address_id UUID REFERENCES user_addresses(id) ON DELETE SET NULL;
+
+ALTER TABLE retail_orders
+  ADD COLUMN IF NOT EXISTS shipping_address_id UUID REFERENCES user_addresses(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS billing_address_id UUID REFERENCES user_addresses(id) ON DELETE SET NULL;
+
+-- Move exchange addresses into the address book, keeping their IDs so
+-- retail_product_exchanges.initiator_address_id/receiver_address_id still match
+INSERT INTO user_addresses (
+  id, user_id, full_name, phone, address_line1, address_line2, city, state,
+  postal_code, country, is_default_shipping, is_active, created_at, updated_at
+)
+SELECT
+  a.id, a.user_id, a.full_name, a.phone, a.address_line1, a.address_line2,
+  a.city, a.state, a.postal_code, a.country,
+  -- Only the newest default survives the one-default-per-user index
+  COALESCE(a.id = (
+    SELECT d.id FROM retail_exchange_addresses d
+    WHERE d.user_id = a.user_id AND d.is_default = true AND COALESCE(d.is_active, true)
+    ORDER BY d.created_at DESC
+    LIMIT 1
+  ), false),
+  COALESCE(a.is_active, true), COALESCE(a.created_at, NOW()), COALESCE(a.updated_at, NOW())
+FROM retail_exchange_addresses a
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE retail_exchange_addresses IS 'Deprecated: exchange addresses now live in user_addresses';
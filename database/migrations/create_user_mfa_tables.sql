@@ -0,0 +1,62 @@
+-- Two-factor authentication (TOTP) with recovery codes. Verification is
+-- tracked per session in user_sessions.
+
+-- Create user_mfa_factors table
+CREATE TABLE IF NOT EXISTS user_mfa_factors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  factor_type VARCHAR(20) NOT NULL DEFAULT 'totp',
+
+  -- AES-256-GCM encrypted base32 secret (iv.tag.ciphertext, base64url)
+  secret_encrypted TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'unverified',
+
+  -- Last accepted TOTP time step, so a code can't be replayed
+  last_used_step BIGINT,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  verified_at TIMESTAMP WITH TIME ZONE,
+
+  -- Constraints
+  CONSTRAINT valid_mfa_factor_type CHECK (factor_type IN ('totp')),
+  CONSTRAINT valid_mfa_factor_status CHECK (status IN ('unverified', 'verified')),
+  CONSTRAINT unique_user_mfa_factor UNIQUE (user_id, factor_type)
+);
+
+-- Create user_mfa_recovery_codes table
+CREATE TABLE IF NOT EXISTS user_mfa_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- sha256 of the normalised code
+  code_hash VARCHAR(64) NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_user_mfa_recovery_codes_user_id
+  ON user_mfa_recovery_codes(user_id)
+  WHERE used_at IS NULL;
+
+-- Sessions that passed a second factor
+ALTER TABLE user_sessions
+  ADD COLUMN IF NOT EXISTS mfa_verified_at TIMESTAMP WITH TIME ZONE;
+
+-- Add comments for documentation
+COMMENT ON TABLE user_mfa_factors IS 'Second factors per user; only verified factors are enforced';
+COMMENT ON TABLE user_mfa_recovery_codes IS 'One-time recovery codes, replaced as a set when regenerated';
+COMMENT ON COLUMN user_sessions.mfa_verified_at IS 'When the session passed two-factor verification';
+
+-- Enable Row Level Security (RLS) - secrets are only ever read by the API
+ALTER TABLE user_mfa_factors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_mfa_recovery_codes ENABLE ROW LEVEL SECURITY;
+
+-- Service role can do anything (no user policies on purpose)
+CREATE POLICY "Service role full access on user mfa factors"
+  ON user_mfa_factors FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+CREATE POLICY "Service role full access on user mfa recovery codes"
+  ON user_mfa_recovery_codes FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
@@ -0,0 +1,52 @@
+-- Create user_roles table - the only source of privileges such as admin.
+-- user_metadata is editable by the user through Supabase Auth, so it must
+-- never be used to grant access.
+CREATE TABLE IF NOT EXISTS user_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role VARCHAR(30) NOT NULL,
+  -- admin, moderator, support, wholesale_owner, retail_owner, brand_staff
+
+  -- Who granted the role (NULL for roles granted by the system)
+  granted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CONSTRAINT valid_user_role CHECK (role IN ('admin', 'moderator', 'support', 'wholesale_owner', 'retail_owner', 'brand_staff')),
+  CONSTRAINT unique_user_role UNIQUE (user_id, role)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_user_roles_role ON user_roles(role, created_at DESC);
+
+-- Add comments for documentation
+COMMENT ON TABLE user_roles IS 'Server-managed roles per user, resolved by the API on every request';
+COMMENT ON COLUMN user_roles.granted_by IS 'Admin who granted the role, NULL when granted by the system (e.g. brand approval)';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own roles
+CREATE POLICY "Users can view their own roles"
+  ON user_roles FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Service role can do anything (no insert/update policy for users on purpose)
+CREATE POLICY "Service role full access on user roles"
+  ON user_roles FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Backfill owner roles for brands that are already approved
+INSERT INTO user_roles (user_id, role)
+SELECT user_id, 'wholesale_owner' FROM wholesale_brands WHERE status = 'approved'
+ON CONFLICT (user_id, role) DO NOTHING;
+
+INSERT INTO user_roles (user_id, role)
+SELECT user_id, 'retail_owner' FROM retail_brands WHERE status = 'approved'
+ON CONFLICT (user_id, role) DO NOTHING;
+
+-- Admins are NOT migrated from user_metadata (it may already have been
+-- tampered with). Grant the first admin manually after reviewing:
+--   INSERT INTO user_roles (user_id, role) VALUES ('<user-uuid>', 'admin');
@@ -0,0 +1,83 @@
+-- Create user_sessions table - the device and network a Supabase session was
+-- used from. Logins go through the API, so auth.sessions only ever sees the
+-- API server's ip and user agent; this table records the client's.
+CREATE TABLE IF NOT EXISTS user_sessions (
+  -- auth.sessions.id (the session_id claim of access tokens)
+  session_id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+  -- Client details, as last seen
+  user_agent TEXT,
+  device VARCHAR(100),
+  ip_address VARCHAR(64),
+
+  -- Timestamps
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id
+  ON user_sessions(user_id, last_seen_at DESC);
+
+-- Add comments for documentation
+COMMENT ON TABLE user_sessions IS 'Client device/ip per Supabase auth session, for the sessions API';
+COMMENT ON COLUMN user_sessions.device IS 'Readable summary of the user agent, e.g. "Chrome on macOS"';
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can view their own sessions
+CREATE POLICY "Users can view their own sessions"
+  ON user_sessions FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Service role can do anything
+CREATE POLICY "Service role full access on user sessions"
+  ON user_sessions FOR ALL
+  USING (auth.jwt() ->> 'role' = 'service_role');
+
+-- Sessions of a user that Supabase still considers alive
+CREATE OR REPLACE FUNCTION get_active_user_sessions(p_user_id UUID)
+RETURNS SETOF user_sessions AS $$
+  SELECT s.*
+  FROM user_sessions s
+  JOIN auth.sessions a ON a.id = s.session_id
+  WHERE s.user_id = p_user_id
+    AND s.revoked_at IS NULL
+    AND (a.not_after IS NULL OR a.not_after > NOW())
+  ORDER BY s.last_seen_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, auth;
+
+-- End sessions of a user: the listed ones, or all of them when p_session_ids
+-- is NULL, optionally keeping p_except_session_id. Deleting from
+-- auth.sessions invalidates their refresh tokens. Returns the ended ids.
+CREATE OR REPLACE FUNCTION revoke_user_sessions(
+  p_user_id UUID,
+  p_session_ids UUID[] DEFAULT NULL,
+  p_except_session_id UUID DEFAULT NULL
+)
+RETURNS SETOF UUID AS $$
+BEGIN
+  UPDATE user_sessions
+  SET revoked_at = NOW()
+  WHERE user_id = p_user_id
+    AND revoked_at IS NULL
+    AND (p_session_ids IS NULL OR session_id = ANY(p_session_ids))
+    AND (p_except_session_id IS NULL OR session_id <> p_except_session_id);
+
+  RETURN QUERY
+  DELETE FROM auth.sessions
+  WHERE user_id = p_user_id
+    AND (p_session_ids IS NULL OR id = ANY(p_session_ids))
+    AND (p_except_session_id IS NULL OR id <> p_except_session_id)
+  RETURNING id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, auth;
+
+-- These touch the auth schema - only the API (service role) may call them
+REVOKE EXECUTE ON FUNCTION get_active_user_sessions(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION revoke_user_sessions(UUID, UUID[], UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_active_user_sessions(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION revoke_user_sessions(UUID, UUID[], UUID) TO service_role;
@@ -1,10 +1,11 @@
 import { Module } from '@nestjs/common';
 import { CategoriesModule } from './categories/categories.module';
+import { AdminUsersModule } from './users/users.module';
+import { AdminSearchModule } from './search/search.module';
 
 @Module({
-  imports: [CategoriesModule],
+  imports: [CategoriesModule, AdminUsersModule, AdminSearchModule],
   exports: [CategoriesModule],
 })
 export class AdminModule {}
 
-
@@ -1,12 +1,14 @@
 import { Module } from '@nestjs/common';
 import { CategoriesController } from './categories.controller';
 import { CategoriesService } from './categories.service';
+import { CategoryFiltersController } from './category-filters.controller';
+import { CategoryFiltersService } from './category-filters.service';
 import { SupabaseModule } from '../../supabase/supabase.module';
 
 @Module({
   imports: [SupabaseModule],
-  controllers: [CategoriesController],
-  providers: [CategoriesService],
+  controllers: [CategoriesController, CategoryFiltersController],
+  providers: [CategoriesService, CategoryFiltersService],
   exports: [CategoriesService],
 })
 export class CategoriesModule {}
@@ -0,0 +1,106 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { CategoryFiltersService } from './category-filters.service';
+import { CreateCategoryFilterDto } from './dto/create-category-filter.dto';
+import { UpdateCategoryFilterDto } from './dto/update-category-filter.dto';
+import { ReorderCategoryFiltersDto } from './dto/reorder-category-filters.dto';
+import { AdminOnly } from '../decorators/admin-only.decorator';
+
+@Controller('admin/categories/:id/filters')
+@AdminOnly()
+export class CategoryFiltersController {
+  constructor(
+    private readonly categoryFiltersService: CategoryFiltersService,
+  ) {}
+
+  // With subcategoryId, the subcategory's filters including inherited ones
+  @Get()
+  async getFilters(
+    @Param('id') categoryId: string,
+    @Query('subcategoryId') subcategoryId?: string,
+    @Query('includeInactive') includeInactive?: string,
+  ) {
+    const includeInactiveFlag = includeInactive === 'true';
+    return this.categoryFiltersService.getFilters(
+      categoryId,
+      subcategoryId,
+      includeInactiveFlag,
+    );
+  }
+
+  @Get('paths')
+  async getFilterPaths(
+    @Param('id') categoryId: string,
+    @Query('subcategoryId') subcategoryId?: string,
+  ) {
+    return this.categoryFiltersService.getFilterPaths(
+      categoryId,
+      subcategoryId,
+    );
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async createFilter(
+    @Param('id') categoryId: string,
+    @Body() createCategoryFilterDto: CreateCategoryFilterDto,
+  ) {
+    return this.categoryFiltersService.createFilter(
+      categoryId,
+      createCategoryFilterDto,
+    );
+  }
+
+  @Put('order')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async reorderFilters(
+    @Param('id') categoryId: string,
+    @Body() reorderCategoryFiltersDto: ReorderCategoryFiltersDto,
+  ) {
+    return this.categoryFiltersService.reorderFilters(
+      categoryId,
+      reorderCategoryFiltersDto,
+    );
+  }
+
+  // With subcategoryId, an inherited filter is saved as the subcategory's own
+  @Put(':filterId')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async updateFilter(
+    @Param('id') categoryId: string,
+    @Param('filterId') filterId: string,
+    @Body() updateCategoryFilterDto: UpdateCategoryFilterDto,
+    @Query('subcategoryId') subcategoryId?: string,
+  ) {
+    return this.categoryFiltersService.updateFilter(
+      categoryId,
+      filterId,
+      updateCategoryFilterDto,
+      subcategoryId,
+    );
+  }
+
+  @Delete(':filterId')
+  @HttpCode(HttpStatus.OK)
+  async deleteFilter(
+    @Param('id') categoryId: string,
+    @Param('filterId') filterId: string,
+  ) {
+    return this.categoryFiltersService.deleteFilter(categoryId, filterId);
+  }
+}
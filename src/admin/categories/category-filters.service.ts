@@ -0,0 +1,483 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { CreateCategoryFilterDto } from './dto/create-category-filter.dto';
+import { UpdateCategoryFilterDto } from './dto/update-category-filter.dto';
+import { ReorderCategoryFiltersDto } from './dto/reorder-category-filters.dto';
+
+// Listing filters with a fixed source (see wholesale_product_filter_sources);
+// a configured filter with one of these keys would never be read
+const BUILT_IN_FILTER_KEYS = ['brandIds', 'colors', 'sizes', 'materials'];
+
+const DATA_SOURCE_LABELS: Record<string, string> = {
+  product_details: 'in product_details',
+  variation: 'as a variation type',
+  pack_variant: 'as a pack variant value',
+};
+
+// A row of get_category_filter_paths
+interface CategoryFilterPathRow {
+  data_source: string;
+  data_path: string;
+  product_count: number;
+}
+
+const mapFilter = (filter: any, subcategoryId?: string) => ({
+  id: filter.id,
+  categoryId: filter.category_id,
+  subcategoryId: filter.subcategory_id,
+  key: filter.filter_key,
+  label: filter.filter_label,
+  type: filter.filter_type,
+  dataSource: filter.data_source,
+  dataPath: filter.data_path,
+  options: filter.options,
+  isRequired: filter.is_required,
+  isActive: filter.is_active,
+  displayOrder: filter.display_order,
+  // Listed for a subcategory but defined on its category
+  inherited: !!subcategoryId && !filter.subcategory_id,
+  createdAt: filter.created_at,
+  updatedAt: filter.updated_at,
+});
+
+/**
+ * Filters of the wholesale listing per category (category_filter_config).
+ * A subcategory inherits its category's filters; a filter of its own with
+ * the same key replaces the inherited one.
+ */
+@Injectable()
+export class CategoryFiltersService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  // The category's filters or, with a subcategory, its effective filters
+  async getFilters(
+    categoryId: string,
+    subcategoryId?: string,
+    includeInactive = false,
+  ) {
+    await this.assertCategory(categoryId, subcategoryId);
+
+    let query = this.supabaseService
+      .getServiceClient()
+      .rpc('effective_category_filters', {
+        p_category_id: categoryId,
+        p_subcategory_id: subcategoryId || null,
+      })
+      .select('*')
+      .order('display_order', { ascending: true })
+      .order('filter_key', { ascending: true });
+
+    if (!includeInactive) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch category filters: ${error.message}`,
+      );
+    }
+
+    return (data || []).map((filter: any) => mapFilter(filter, subcategoryId));
+  }
+
+  // Paths that products of the category have, to pick a data path from
+  async getFilterPaths(categoryId: string, subcategoryId?: string) {
+    await this.assertCategory(categoryId, subcategoryId);
+    return this.fetchPaths(categoryId, subcategoryId);
+  }
+
+  async createFilter(
+    categoryId: string,
+    createCategoryFilterDto: CreateCategoryFilterDto,
+  ) {
+    const subcategoryId = createCategoryFilterDto.subcategoryId;
+    await this.assertCategory(categoryId, subcategoryId);
+
+    const filter = {
+      category_id: categoryId,
+      subcategory_id: subcategoryId || null,
+      filter_key: createCategoryFilterDto.key,
+      filter_label: createCategoryFilterDto.label.trim(),
+      filter_type: createCategoryFilterDto.type,
+      data_source: createCategoryFilterDto.dataSource,
+      data_path: createCategoryFilterDto.dataPath?.trim() || null,
+      options: createCategoryFilterDto.options ?? null,
+      is_required: createCategoryFilterDto.isRequired ?? false,
+      is_active: createCategoryFilterDto.isActive ?? true,
+      display_order:
+        createCategoryFilterDto.displayOrder ??
+        (await this.nextDisplayOrder(categoryId, subcategoryId)),
+    };
+    this.assertKey(filter.filter_key);
+    await this.assertDataPath(categoryId, subcategoryId, filter);
+
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('category_filter_config')
+      .insert(filter)
+      .select()
+      .single();
+
+    if (error) {
+      this.throwWriteError(error, 'create');
+    }
+
+    return mapFilter(data, subcategoryId);
+  }
+
+  /**
+   * Updates a filter. With a subcategory, editing a filter the subcategory
+   * inherits saves the change as the subcategory's own copy, leaving the
+   * category's filter (and the other subcategories) unchanged.
+   */
+  async updateFilter(
+    categoryId: string,
+    filterId: string,
+    updateCategoryFilterDto: UpdateCategoryFilterDto,
+    subcategoryId?: string,
+  ) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data: existing, error: fetchError } = await serviceClient
+      .from('category_filter_config')
+      .select('*')
+      .eq('id', filterId)
+      .eq('category_id', categoryId)
+      .maybeSingle();
+
+    if (
+      fetchError ||
+      !existing ||
+      (subcategoryId &&
+        existing.subcategory_id &&
+        existing.subcategory_id !== subcategoryId)
+    ) {
+      throw new NotFoundException('Filter not found');
+    }
+
+    const dto = updateCategoryFilterDto;
+    const updates: Record<string, any> = {};
+    if (dto.key !== undefined) {
+      updates.filter_key = dto.key;
+    }
+    if (dto.label !== undefined) {
+      updates.filter_label = dto.label?.trim();
+    }
+    if (dto.type !== undefined) {
+      updates.filter_type = dto.type;
+    }
+    if (dto.dataSource !== undefined) {
+      updates.data_source = dto.dataSource;
+    }
+    if (dto.dataPath !== undefined) {
+      updates.data_path = dto.dataPath?.trim() || null;
+    }
+    if (dto.options !== undefined) {
+      updates.options = dto.options;
+    }
+    if (dto.isRequired !== undefined) {
+      updates.is_required = dto.isRequired;
+    }
+    if (dto.isActive !== undefined) {
+      updates.is_active = dto.isActive;
+    }
+    if (dto.displayOrder !== undefined) {
+      updates.display_order = dto.displayOrder;
+    }
+
+    const override = !!subcategoryId && !existing.subcategory_id;
+    if (override) {
+      await this.assertCategory(categoryId, subcategoryId);
+    }
+
+    const filter = { ...existing, ...updates };
+    if (updates.filter_key !== undefined) {
+      this.assertKey(filter.filter_key);
+    }
+    // Stored paths are only checked again when they change, so a label can
+    // be edited (or an inherited filter hidden) whatever the products have
+    if (
+      updates.filter_key !== undefined ||
+      updates.data_source !== undefined ||
+      updates.data_path !== undefined
+    ) {
+      await this.assertDataPath(
+        categoryId,
+        subcategoryId || existing.subcategory_id,
+        filter,
+      );
+    }
+
+    if (override) {
+      const copy = { ...filter, subcategory_id: subcategoryId };
+      delete copy.id;
+      delete copy.created_at;
+      delete copy.updated_at;
+
+      const { data, error } = await serviceClient
+        .from('category_filter_config')
+        .insert(copy)
+        .select()
+        .single();
+
+      if (error) {
+        this.throwWriteError(error, 'update');
+      }
+
+      return mapFilter(data, subcategoryId);
+    }
+
+    const { data, error } = await serviceClient
+      .from('category_filter_config')
+      .update(updates)
+      .eq('id', filterId)
+      .select()
+      .single();
+
+    if (error) {
+      this.throwWriteError(error, 'update');
+    }
+
+    return mapFilter(data, subcategoryId);
+  }
+
+  // Listed filters get display orders 1..n; filters left out keep theirs
+  async reorderFilters(
+    categoryId: string,
+    reorderCategoryFiltersDto: ReorderCategoryFiltersDto,
+  ) {
+    const { subcategoryId, filterIds } = reorderCategoryFiltersDto;
+    await this.assertCategory(categoryId, subcategoryId);
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    if (new Set(filterIds).size !== filterIds.length) {
+      throw new BadRequestException('filterIds contains duplicates');
+    }
+
+    let query = serviceClient
+      .from('category_filter_config')
+      .select('id')
+      .eq('category_id', categoryId);
+    query = subcategoryId
+      ? query.eq('subcategory_id', subcategoryId)
+      : query.is('subcategory_id', null);
+
+    const { data: levelFilters, error: fetchError } = await query;
+
+    if (fetchError) {
+      throw new BadRequestException(
+        `Failed to fetch category filters: ${fetchError.message}`,
+      );
+    }
+
+    const levelIds = new Set((levelFilters || []).map((f: any) => f.id));
+    const unknownId = filterIds.find((id) => !levelIds.has(id));
+    if (unknownId) {
+      throw new BadRequestException(
+        subcategoryId
+          ? `Filter ${unknownId} is not a filter of this subcategory`
+          : `Filter ${unknownId} is not a filter of this category`,
+      );
+    }
+
+    const results = await Promise.all(
+      filterIds.map((id, index) =>
+        serviceClient
+          .from('category_filter_config')
+          .update({ display_order: index + 1 })
+          .eq('id', id),
+      ),
+    );
+    const failed = results.find((result) => result.error);
+    if (failed?.error) {
+      throw new BadRequestException(
+        `Failed to reorder category filters: ${failed.error.message}`,
+      );
+    }
+
+    return this.getFilters(categoryId, subcategoryId, true);
+  }
+
+  async deleteFilter(categoryId: string, filterId: string) {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('category_filter_config')
+      .delete()
+      .eq('id', filterId)
+      .eq('category_id', categoryId)
+      .select('id');
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to delete filter: ${error.message}`,
+      );
+    }
+    if (!data || data.length === 0) {
+      throw new NotFoundException('Filter not found');
+    }
+
+    return { message: 'Filter deleted successfully' };
+  }
+
+  private async assertCategory(categoryId: string, subcategoryId?: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data: category, error } = await serviceClient
+      .from('categories')
+      .select('id')
+      .eq('id', categoryId)
+      .maybeSingle();
+
+    if (error || !category) {
+      throw new NotFoundException('Category not found');
+    }
+
+    if (subcategoryId) {
+      const { data: subcategory, error: subError } = await serviceClient
+        .from('subcategories')
+        .select('id')
+        .eq('id', subcategoryId)
+        .eq('category_id', categoryId)
+        .maybeSingle();
+
+      if (subError || !subcategory) {
+        throw new NotFoundException('Subcategory not found in this category');
+      }
+    }
+  }
+
+  private async fetchPaths(categoryId: string, subcategoryId?: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    let countQuery = serviceClient
+      .from('wholesale_products')
+      .select('id', { count: 'exact', head: true })
+      .eq('category_id', categoryId);
+    if (subcategoryId) {
+      countQuery = countQuery.eq('subcategory_id', subcategoryId);
+    }
+
+    const [{ data, error }, { count }] = await Promise.all([
+      serviceClient.rpc('get_category_filter_paths', {
+        p_category_id: categoryId,
+        p_subcategory_id: subcategoryId || null,
+      }),
+      countQuery,
+    ]);
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch filter paths: ${error.message}`,
+      );
+    }
+
+    const paths: Record<string, { path: string; productCount: number }[]> = {
+      product_details: [],
+      field: [],
+      variation: [],
+      pack_variant: [],
+    };
+    for (const row of (data || []) as CategoryFilterPathRow[]) {
+      paths[row.data_source]?.push({
+        path: row.data_path,
+        productCount: Number(row.product_count),
+      });
+    }
+    for (const list of Object.values(paths)) {
+      list.sort(
+        (a, b) =>
+          b.productCount - a.productCount || a.path.localeCompare(b.path),
+      );
+    }
+
+    return { productCount: count || 0, paths };
+  }
+
+  private assertKey(key: string) {
+    if (BUILT_IN_FILTER_KEYS.includes(key)) {
+      throw new BadRequestException(
+        `"${key}" is a built-in listing filter and cannot be configured`,
+      );
+    }
+  }
+
+  // The path has to be one products of the category have. Before the
+  // category has products there is nothing to check against, except fields
+  private async assertDataPath(
+    categoryId: string,
+    subcategoryId: string | null | undefined,
+    filter: {
+      filter_key: string;
+      data_source: string;
+      data_path: string | null;
+    },
+  ) {
+    const path = filter.data_path || filter.filter_key;
+    const { productCount, paths } = await this.fetchPaths(
+      categoryId,
+      subcategoryId || undefined,
+    );
+    const known = paths[filter.data_source] || [];
+
+    if (known.some((p) => p.path === path)) {
+      return;
+    }
+    if (filter.data_source === 'field') {
+      throw new BadRequestException(`Unknown product field "${path}"`);
+    }
+    if (productCount === 0) {
+      return;
+    }
+
+    const sameName = known.find(
+      (p) => p.path.toLowerCase() === path.toLowerCase(),
+    );
+    const hint = sameName
+      ? `Did you mean "${sameName.path}"?`
+      : `Available: ${
+          known
+            .slice(0, 20)
+            .map((p) => p.path)
+            .join(', ') || 'none'
+        }`;
+    throw new BadRequestException(
+      `No product in this ${subcategoryId ? 'subcategory' : 'category'} has "${path}" ${DATA_SOURCE_LABELS[filter.data_source]}. ${hint}`,
+    );
+  }
+
+  private async nextDisplayOrder(categoryId: string, subcategoryId?: string) {
+    let query = this.supabaseService
+      .getServiceClient()
+      .from('category_filter_config')
+      .select('display_order')
+      .eq('category_id', categoryId);
+    query = subcategoryId
+      ? query.eq('subcategory_id', subcategoryId)
+      : query.is('subcategory_id', null);
+
+    const { data } = await query
+      .order('display_order', { ascending: false, nullsFirst: false })
+      .limit(1)
+      .maybeSingle();
+
+    return (data?.display_order ?? 0) + 1;
+  }
+
+  private throwWriteError(error: any, action: 'create' | 'update'): never {
+    if (error.code === '23505') {
+      throw new ConflictException(
+        'A filter with this key already exists for this category or subcategory',
+      );
+    }
+    throw new BadRequestException(
+      `Failed to ${action} filter: ${error.message}`,
+    );
+  }
+}
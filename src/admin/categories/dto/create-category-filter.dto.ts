@@ -0,0 +1,81 @@
+import {
+  IsString,
+  IsOptional,
+  IsBoolean,
+  IsInt,
+  IsIn,
+  IsArray,
+  IsUUID,
+  Min,
+  MaxLength,
+  Matches,
+} from 'class-validator';
+
+export const CATEGORY_FILTER_TYPES = [
+  'multi-select',
+  'single-select',
+  'range',
+  'checkbox',
+  'text',
+] as const;
+export type CategoryFilterType = (typeof CATEGORY_FILTER_TYPES)[number];
+
+export const CATEGORY_FILTER_DATA_SOURCES = [
+  'product_details',
+  'field',
+  'variation',
+  'pack_variant',
+] as const;
+export type CategoryFilterDataSource =
+  (typeof CATEGORY_FILTER_DATA_SOURCES)[number];
+
+export class CreateCategoryFilterDto {
+  // Set for a filter of one subcategory; otherwise the filter belongs to the
+  // category and is inherited by its subcategories
+  @IsOptional()
+  @IsUUID()
+  subcategoryId?: string;
+
+  @IsString()
+  @MaxLength(100)
+  @Matches(/^[a-zA-Z][a-zA-Z0-9]*$/, {
+    message:
+      'Key must start with a letter and contain only letters and numbers',
+  })
+  key: string;
+
+  @IsString()
+  @MaxLength(100)
+  label: string;
+
+  @IsIn(CATEGORY_FILTER_TYPES)
+  type: CategoryFilterType;
+
+  @IsIn(CATEGORY_FILTER_DATA_SOURCES)
+  dataSource: CategoryFilterDataSource;
+
+  // Key in product_details, column, variation type or pack variant value;
+  // defaults to the filter key
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  dataPath?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  options?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  isRequired?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  displayOrder?: number;
+}
@@ -0,0 +1,13 @@
+import { IsArray, IsOptional, IsUUID, ArrayNotEmpty } from 'class-validator';
+
+export class ReorderCategoryFiltersDto {
+  // The subcategory whose own filters are reordered; the category's when unset
+  @IsOptional()
+  @IsUUID()
+  subcategoryId?: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID(undefined, { each: true })
+  filterIds: string[];
+}
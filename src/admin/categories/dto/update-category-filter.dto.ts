@@ -0,0 +1,6 @@
+import { PartialType, OmitType } from '@nestjs/mapped-types';
+import { CreateCategoryFilterDto } from './create-category-filter.dto';
+
+export class UpdateCategoryFilterDto extends PartialType(
+  OmitType(CreateCategoryFilterDto, ['subcategoryId'] as const),
+) {}
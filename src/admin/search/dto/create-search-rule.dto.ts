@@ -0,0 +1,48 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+export const SEARCH_RULE_TYPES = ['synonym', 'redirect'] as const;
+export type SearchRuleType = (typeof SEARCH_RULE_TYPES)[number];
+
+export class CreateSearchRuleDto {
+  @IsIn(SEARCH_RULE_TYPES)
+  ruleType: SearchRuleType;
+
+  // Matched case- and accent-insensitively
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  term: string;
+
+  // synonym rules: what the term is replaced with
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  synonym?: string;
+
+  // redirect rules: a category page and/or a URL
+  @IsOptional()
+  @IsUUID()
+  redirectCategoryId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  @Matches(/^(\/|https?:\/\/)/, {
+    message: 'redirectUrl must be a path starting with / or an http(s) URL',
+  })
+  redirectUrl?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateSearchRuleDto } from './create-search-rule.dto';
+
+export class UpdateSearchRuleDto extends PartialType(CreateSearchRuleDto) {}
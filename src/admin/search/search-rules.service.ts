@@ -0,0 +1,233 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../../supabase/supabase.service';
+import {
+  CreateSearchRuleDto,
+  SearchRuleType,
+} from './dto/create-search-rule.dto';
+import { UpdateSearchRuleDto } from './dto/update-search-rule.dto';
+
+const mapRule = (rule: any) => ({
+  id: rule.id,
+  ruleType: rule.rule_type,
+  term: rule.term,
+  synonym: rule.synonym,
+  redirectCategoryId: rule.redirect_category_id,
+  redirectCategory: rule.categories
+    ? {
+        id: rule.categories.id,
+        name: rule.categories.name,
+        slug: rule.categories.slug,
+      }
+    : null,
+  redirectUrl: rule.redirect_url,
+  isActive: rule.is_active,
+  createdBy: rule.created_by,
+  createdAt: rule.created_at,
+  updatedAt: rule.updated_at,
+});
+
+const RULE_COLUMNS = '*, categories(id, name, slug)';
+
+/**
+ * Admin management of search rules: synonyms rewrite a term before
+ * searching, redirects send a query to a category page or URL. They are
+ * applied by ProductSearchService.resolveQuery.
+ */
+@Injectable()
+export class SearchRulesService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async getRules(
+    page: number = 1,
+    limit: number = 50,
+    ruleType?: SearchRuleType,
+    search?: string,
+  ) {
+    const offset = (page - 1) * limit;
+
+    let query = this.supabaseService
+      .getServiceClient()
+      .from('search_rules')
+      .select(RULE_COLUMNS, { count: 'exact' })
+      .order('term', { ascending: true });
+
+    if (ruleType) {
+      query = query.eq('rule_type', ruleType);
+    }
+    if (search && search.trim()) {
+      query = query.ilike('term', `%${search.trim()}%`);
+    }
+
+    const { data, error, count } = await query.range(
+      offset,
+      offset + limit - 1,
+    );
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch search rules: ${error.message}`,
+      );
+    }
+
+    return {
+      data: (data || []).map(mapRule),
+      pagination: {
+        page,
+        limit,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / limit),
+      },
+    };
+  }
+
+  async createRule(createSearchRuleDto: CreateSearchRuleDto, adminId: string) {
+    const rule = {
+      rule_type: createSearchRuleDto.ruleType,
+      term: createSearchRuleDto.term.trim(),
+      synonym: createSearchRuleDto.synonym?.trim() || null,
+      redirect_category_id: createSearchRuleDto.redirectCategoryId || null,
+      redirect_url: createSearchRuleDto.redirectUrl || null,
+      is_active: createSearchRuleDto.isActive ?? true,
+    };
+    this.assertValidRule(rule);
+
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('search_rules')
+      .insert({ ...rule, created_by: adminId })
+      .select(RULE_COLUMNS)
+      .single();
+
+    if (error) {
+      this.throwWriteError(error, 'create');
+    }
+
+    return mapRule(data);
+  }
+
+  async updateRule(ruleId: string, updateSearchRuleDto: UpdateSearchRuleDto) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data: existing, error: fetchError } = await serviceClient
+      .from('search_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .maybeSingle();
+
+    if (fetchError || !existing) {
+      throw new NotFoundException('Search rule not found');
+    }
+
+    // Fields sent as null are cleared, e.g. redirectUrl when switching to a
+    // category
+    const dto = updateSearchRuleDto;
+    const updates: Record<string, any> = {};
+    if (dto.ruleType !== undefined) {
+      updates.rule_type = dto.ruleType;
+    }
+    if (dto.term !== undefined) {
+      updates.term = dto.term?.trim();
+    }
+    if (dto.synonym !== undefined) {
+      updates.synonym = dto.synonym?.trim() || null;
+    }
+    if (dto.redirectCategoryId !== undefined) {
+      updates.redirect_category_id = dto.redirectCategoryId || null;
+    }
+    if (dto.redirectUrl !== undefined) {
+      updates.redirect_url = dto.redirectUrl || null;
+    }
+    if (dto.isActive !== undefined) {
+      updates.is_active = dto.isActive;
+    }
+
+    // Switching type drops what only the old type uses
+    if (updates.rule_type && updates.rule_type !== existing.rule_type) {
+      if (updates.rule_type === 'synonym') {
+        updates.redirect_category_id ??= null;
+        updates.redirect_url ??= null;
+      } else {
+        updates.synonym ??= null;
+      }
+    }
+    this.assertValidRule({ ...existing, ...updates });
+
+    const { data, error } = await serviceClient
+      .from('search_rules')
+      .update(updates)
+      .eq('id', ruleId)
+      .select(RULE_COLUMNS)
+      .single();
+
+    if (error) {
+      this.throwWriteError(error, 'update');
+    }
+
+    return mapRule(data);
+  }
+
+  async deleteRule(ruleId: string) {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('search_rules')
+      .delete()
+      .eq('id', ruleId)
+      .select('id');
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to delete search rule: ${error.message}`,
+      );
+    }
+    if (!data || data.length === 0) {
+      throw new NotFoundException('Search rule not found');
+    }
+
+    return { message: 'Search rule deleted successfully' };
+  }
+
+  private assertValidRule(rule: {
+    rule_type: string;
+    term?: string;
+    synonym?: string | null;
+    redirect_category_id?: string | null;
+    redirect_url?: string | null;
+  }) {
+    if (!rule.term) {
+      throw new BadRequestException('term is required.');
+    }
+    if (rule.rule_type === 'synonym') {
+      if (!rule.synonym) {
+        throw new BadRequestException('A synonym rule needs a synonym.');
+      }
+      if (rule.redirect_category_id || rule.redirect_url) {
+        throw new BadRequestException(
+          'A synonym rule cannot have a redirect target.',
+        );
+      }
+    } else if (!rule.redirect_category_id && !rule.redirect_url) {
+      throw new BadRequestException(
+        'A redirect rule needs redirectCategoryId or redirectUrl.',
+      );
+    } else if (rule.synonym) {
+      throw new BadRequestException('A redirect rule cannot have a synonym.');
+    }
+  }
+
+  private throwWriteError(error: any, action: 'create' | 'update'): never {
+    if (error.code === '23505') {
+      throw new ConflictException('A search rule for this term already exists');
+    }
+    if (error.code === '23503') {
+      throw new BadRequestException('Redirect category not found');
+    }
+    throw new BadRequestException(
+      `Failed to ${action} search rule: ${error.message}`,
+    );
+  }
+}
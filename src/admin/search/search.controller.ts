@@ -0,0 +1,128 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  DefaultValuePipe,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  Query,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { AdminOnly } from '../decorators/admin-only.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { SearchAnalyticsService } from '../../search/search-analytics.service';
+import type { SearchSource } from '../../search/search-analytics.service';
+import type { SearchCatalog } from '../../search/product-search.service';
+import { SearchRulesService } from './search-rules.service';
+import {
+  CreateSearchRuleDto,
+  SEARCH_RULE_TYPES,
+  SearchRuleType,
+} from './dto/create-search-rule.dto';
+import { UpdateSearchRuleDto } from './dto/update-search-rule.dto';
+
+const CATALOGS = ['wholesale', 'retail'];
+const SOURCES = ['listing', 'suggestions', 'all'];
+
+const parseDate = (value: string | undefined, name: string) => {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new BadRequestException(`${name} must be a valid date`);
+  }
+  return date;
+};
+
+@Controller('admin/search')
+@AdminOnly()
+export class AdminSearchController {
+  constructor(
+    private readonly searchAnalyticsService: SearchAnalyticsService,
+    private readonly searchRulesService: SearchRulesService,
+  ) {}
+
+  // Top and zero-result queries, e.g. GET /admin/search/report?from=2025-01-01&catalog=wholesale
+  @Get('report')
+  async getReport(
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('catalog') catalog?: string,
+    @Query('source') source?: string,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number = 20,
+  ) {
+    if (catalog && !CATALOGS.includes(catalog)) {
+      throw new BadRequestException(
+        `catalog must be one of: ${CATALOGS.join(', ')}`,
+      );
+    }
+    if (source && !SOURCES.includes(source)) {
+      throw new BadRequestException(
+        `source must be one of: ${SOURCES.join(', ')}`,
+      );
+    }
+
+    return this.searchAnalyticsService.getReport({
+      from: parseDate(from, 'from'),
+      to: parseDate(to, 'to'),
+      catalog: catalog as SearchCatalog | undefined,
+      source: source as SearchSource | 'all' | undefined,
+      limit: Math.min(Math.max(limit, 1), 100),
+    });
+  }
+
+  @Get('rules')
+  async getRules(
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+    @Query('type') type?: string,
+    @Query('search') search?: string,
+  ) {
+    if (type && !(SEARCH_RULE_TYPES as readonly string[]).includes(type)) {
+      throw new BadRequestException(
+        `type must be one of: ${SEARCH_RULE_TYPES.join(', ')}`,
+      );
+    }
+    return this.searchRulesService.getRules(
+      page,
+      limit,
+      type as SearchRuleType | undefined,
+      search,
+    );
+  }
+
+  @Post('rules')
+  @HttpCode(HttpStatus.CREATED)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async createRule(
+    @Body() createSearchRuleDto: CreateSearchRuleDto,
+    @CurrentUser('id') adminId: string,
+  ) {
+    return this.searchRulesService.createRule(createSearchRuleDto, adminId);
+  }
+
+  @Put('rules/:id')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async updateRule(
+    @Param('id', ParseUUIDPipe) ruleId: string,
+    @Body() updateSearchRuleDto: UpdateSearchRuleDto,
+  ) {
+    return this.searchRulesService.updateRule(ruleId, updateSearchRuleDto);
+  }
+
+  @Delete('rules/:id')
+  @HttpCode(HttpStatus.OK)
+  async deleteRule(@Param('id', ParseUUIDPipe) ruleId: string) {
+    return this.searchRulesService.deleteRule(ruleId);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AdminSearchController } from './search.controller';
+import { SearchRulesService } from './search-rules.service';
+import { SearchModule } from '../../search/search.module';
+import { SupabaseModule } from '../../supabase/supabase.module';
+
+@Module({
+  imports: [SupabaseModule, SearchModule],
+  controllers: [AdminSearchController],
+  providers: [SearchRulesService],
+})
+export class AdminSearchModule {}
@@ -0,0 +1,8 @@
+import { IsIn } from 'class-validator';
+import { USER_ROLES } from '../../../auth/roles/user-roles';
+import type { UserRole } from '../../../auth/roles/user-roles';
+
+export class GrantRoleDto {
+  @IsIn(USER_ROLES)
+  role: UserRole;
+}
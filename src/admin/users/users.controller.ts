@@ -0,0 +1,73 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  DefaultValuePipe,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  ParseUUIDPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { AdminOnly } from '../decorators/admin-only.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { UserRolesService } from '../../auth/roles/user-roles.service';
+import { isUserRole } from '../../auth/roles/user-roles';
+import { GrantRoleDto } from './dto/grant-role.dto';
+
+@Controller('admin/users')
+@AdminOnly()
+export class AdminUsersController {
+  constructor(private readonly userRolesService: UserRolesService) {}
+
+  // Users holding a given role, e.g. GET /admin/users?role=admin
+  @Get()
+  async listUsersWithRole(
+    @Query('role') role: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ) {
+    if (!role || !isUserRole(role)) {
+      throw new BadRequestException('A valid role query parameter is required');
+    }
+    return this.userRolesService.listUsersWithRole(role, page, limit);
+  }
+
+  @Get(':userId/roles')
+  async getUserRoles(@Param('userId', ParseUUIDPipe) userId: string) {
+    return this.userRolesService.getRoleAssignments(userId);
+  }
+
+  @Post(':userId/roles')
+  @HttpCode(HttpStatus.CREATED)
+  async grantRole(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() grantRoleDto: GrantRoleDto,
+    @CurrentUser('id') adminId: string,
+  ) {
+    return this.userRolesService.grantRole(userId, grantRoleDto.role, adminId);
+  }
+
+  @Delete(':userId/roles/:role')
+  @HttpCode(HttpStatus.OK)
+  async revokeRole(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Param('role') role: string,
+    @CurrentUser('id') adminId: string,
+  ) {
+    if (!isUserRole(role)) {
+      throw new BadRequestException(`Invalid role: ${role}`);
+    }
+
+    // Keep at least the current admin around - they can't lock themselves out
+    if (role === 'admin' && userId === adminId) {
+      throw new BadRequestException('You cannot revoke your own admin role');
+    }
+
+    return this.userRolesService.revokeRole(userId, role);
+  }
+}
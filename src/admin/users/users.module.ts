@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { AdminUsersController } from './users.controller';
+import { AuthModule } from '../../auth/auth.module';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [AdminUsersController],
+})
+export class AdminUsersModule {}
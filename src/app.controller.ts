@@ -1,7 +1,9 @@
 import { Controller, Get } from '@nestjs/common';
 import { AppService } from './app.service';
 import { SupabaseService } from './supabase/supabase.service';
+import { Public } from './auth/decorators/public.decorator';
 
+@Public()
 @Controller()
 export class AppController {
   constructor(
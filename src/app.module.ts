@@ -3,6 +3,7 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { SupabaseModule } from './supabase/supabase.module';
 import { AuthModule } from './auth/auth.module';
+import { UsersModule } from './users/users.module';
 import { BrandsModule } from './wholesale/brands/brands.module';
 import { ProductsModule } from './wholesale/products/products.module';
 import { CartModule } from './wholesale/cart/cart.module';
@@ -18,7 +19,7 @@ import { AdminModule } from './admin/admin.module';
 import { PublicCategoriesModule } from './public/categories/categories.module';
 
 @Module({
-  imports: [SupabaseModule, AuthModule, BrandsModule, ProductsModule, CartModule, OrdersModule, FavouritesModule, ReviewsModule, RetailBrandsModule, RetailProductsModule, RetailCartModule, RetailOrdersModule, RetailModule, AdminModule, PublicCategoriesModule],
+  imports: [SupabaseModule, AuthModule, UsersModule, BrandsModule, ProductsModule, CartModule, OrdersModule, FavouritesModule, ReviewsModule, RetailBrandsModule, RetailProductsModule, RetailCartModule, RetailOrdersModule, RetailModule, AdminModule, PublicCategoriesModule],
   controllers: [AppController],
   providers: [AppService],
 })
@@ -7,37 +7,68 @@ import {
   Get,
   Query,
   Headers,
-  UseGuards,
+  Ip,
+  Param,
 } from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { LoginDto } from './dto/login.dto';
 import { SignupDto } from './dto/signup.dto';
 import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
+import { ResendVerificationDto } from './dto/resend-verification.dto';
+import { ChangeEmailDto } from './dto/change-email.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { DeleteAccountDto } from './dto/delete-account.dto';
+import { OAuthExchangeDto } from './dto/oauth-exchange.dto';
+import { Public } from './decorators/public.decorator';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+import type { AuthUser } from './interfaces/auth-user.interface';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
 
 @Controller('auth')
 export class AuthController {
   constructor(private readonly authService: AuthService) {}
 
+  @Public()
   @Post('signup')
+  @RateLimit({ limit: 5, windowMs: HOUR })
   @HttpCode(HttpStatus.CREATED)
   async signup(@Body() signupDto: SignupDto) {
     return this.authService.signup(signupDto);
   }
 
+  @Public()
   @Post('login')
+  @RateLimit(
+    { limit: 20, windowMs: 15 * MINUTE },
+    { limit: 10, windowMs: 15 * MINUTE, by: 'email' },
+  )
   @HttpCode(HttpStatus.OK)
-  async login(@Body() loginDto: LoginDto) {
-    return this.authService.login(loginDto);
+  async login(
+    @Body() loginDto: LoginDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.login(loginDto, { ip, userAgent });
   }
 
+  @Public()
   @Post('forgot-password')
+  @RateLimit(
+    { limit: 5, windowMs: 15 * MINUTE },
+    { limit: 3, windowMs: HOUR, by: 'email' },
+  )
   @HttpCode(HttpStatus.OK)
   async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
     return this.authService.forgotPassword(forgotPasswordDto);
   }
 
+  @Public()
   @Post('reset-password')
+  @RateLimit({ limit: 10, windowMs: 15 * MINUTE })
   @HttpCode(HttpStatus.OK)
   async resetPassword(@Body() resetPasswordDto: ResetPasswordDto, @Headers('authorization') authHeader?: string) {
     // Get token from header if provided (from password reset link)
@@ -48,28 +79,91 @@ export class AuthController {
     });
   }
 
-  @Get('oauth/google')
-  async googleAuth() {
-    return this.authService.getProviderUrl('google');
+  @Public()
+  @Post('resend-verification')
+  @RateLimit(
+    { limit: 5, windowMs: 15 * MINUTE },
+    { limit: 3, windowMs: HOUR, by: 'email' },
+  )
+  @HttpCode(HttpStatus.OK)
+  async resendVerification(
+    @Body() resendVerificationDto: ResendVerificationDto,
+  ) {
+    return this.authService.resendVerification(resendVerificationDto);
+  }
+
+  @Post('change-email')
+  @RateLimit({ limit: 5, windowMs: 15 * MINUTE, by: 'user' })
+  @HttpCode(HttpStatus.OK)
+  async changeEmail(
+    @CurrentUser() user: AuthUser,
+    @Body() changeEmailDto: ChangeEmailDto,
+  ) {
+    return this.authService.changeEmail(user, changeEmailDto);
   }
 
-  @Get('oauth/facebook')
-  async facebookAuth() {
-    return this.authService.getProviderUrl('facebook');
+  @Post('change-password')
+  @RateLimit({ limit: 5, windowMs: 15 * MINUTE, by: 'user' })
+  @HttpCode(HttpStatus.OK)
+  async changePassword(
+    @CurrentUser() user: AuthUser,
+    @Body() changePasswordDto: ChangePasswordDto,
+  ) {
+    return this.authService.changePassword(user, changePasswordDto);
+  }
+
+  @Post('delete-account')
+  @RateLimit({ limit: 5, windowMs: 15 * MINUTE, by: 'user' })
+  @HttpCode(HttpStatus.OK)
+  async deleteAccount(
+    @CurrentUser() user: AuthUser,
+    @Body() deleteAccountDto: DeleteAccountDto,
+  ) {
+    return this.authService.deleteAccount(user, deleteAccountDto);
   }
 
+  @Public()
+  @Get('oauth/providers')
+  getOAuthProviders() {
+    return this.authService.getOAuthProviders();
+  }
+
+  // Social login, see OAUTH_PROVIDERS (google, facebook, apple, microsoft)
+  @Public()
+  @Get('oauth/:provider')
+  @RateLimit({ limit: 30, windowMs: 15 * MINUTE })
+  async oauthLogin(@Param('provider') provider: string) {
+    return this.authService.getProviderUrl(provider.toLowerCase());
+  }
+
+  @Public()
+  @Post('oauth/exchange')
+  @RateLimit({ limit: 20, windowMs: 15 * MINUTE })
+  @HttpCode(HttpStatus.OK)
+  async oauthExchange(
+    @Body() exchangeDto: OAuthExchangeDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.exchangeOAuthCode(exchangeDto, { ip, userAgent });
+  }
+
+  @Public()
   @Post('refresh')
+  @RateLimit({ limit: 30, windowMs: MINUTE })
   @HttpCode(HttpStatus.OK)
-  async refreshToken(@Body() body: { refreshToken: string }) {
-    return this.authService.refreshToken(body.refreshToken);
+  async refreshToken(
+    @Body() body: { refreshToken: string },
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ) {
+    return this.authService.refreshToken(body.refreshToken, { ip, userAgent });
   }
 
   @Get('me')
   async getMe(@Headers('authorization') authHeader: string) {
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) {
-      throw new Error('No token provided');
-    }
+    // AuthGuard has already rejected requests without a valid token
+    const token = authHeader.replace('Bearer ', '');
     return this.authService.verifySession(token);
   }
 }
@@ -1,13 +1,52 @@
 import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
+import { SessionsController } from './sessions/sessions.controller';
+import { SessionsService } from './sessions/sessions.service';
+import { MfaController } from './mfa/mfa.controller';
+import { MfaService } from './mfa/mfa.service';
+import { AuthGuard } from './guards/auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { MfaGuard } from './guards/mfa.guard';
+import { SupabaseJwtVerifier } from './jwt/supabase-jwt.verifier';
+import { TokenRevocationService } from './jwt/token-revocation.service';
+import { TokenVerifier } from './jwt/token-verifier';
+import { UserRolesService } from './roles/user-roles.service';
+import { UserProfileService } from './profile/user-profile.service';
+import { LoginLockoutService } from './lockout/login-lockout.service';
 import { SupabaseModule } from '../supabase/supabase.module';
+import { BrandMembersModule } from '../brand-members/brand-members.module';
+import { UsersModule } from '../users/users.module';
+import { RateLimitModule } from '../rate-limit/rate-limit.module';
+import { RateLimitGuard } from '../rate-limit/rate-limit.guard';
 
 @Module({
-  imports: [SupabaseModule],
-  controllers: [AuthController],
-  providers: [AuthService],
-  exports: [AuthService],
+  imports: [SupabaseModule, BrandMembersModule, UsersModule, RateLimitModule],
+  controllers: [AuthController, SessionsController, MfaController],
+  providers: [
+    AuthService,
+    TokenRevocationService,
+    UserRolesService,
+    UserProfileService,
+    LoginLockoutService,
+    SessionsService,
+    MfaService,
+    { provide: TokenVerifier, useClass: SupabaseJwtVerifier },
+    // Global guards - every route requires a token unless marked @Public()
+    { provide: APP_GUARD, useClass: AuthGuard },
+    // After AuthGuard so per-user limits know the user
+    { provide: APP_GUARD, useExisting: RateLimitGuard },
+    { provide: APP_GUARD, useClass: RolesGuard },
+    // Last, so step-up is only asked for once access is otherwise granted
+    { provide: APP_GUARD, useClass: MfaGuard },
+  ],
+  exports: [
+    AuthService,
+    TokenVerifier,
+    TokenRevocationService,
+    UserRolesService,
+    MfaService,
+  ],
 })
 export class AuthModule {}
-
@@ -1,13 +1,71 @@
-import { Injectable, UnauthorizedException, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  UnauthorizedException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import type { Session, User } from '@supabase/supabase-js';
 import { SupabaseService } from '../supabase/supabase.service';
 import { LoginDto } from './dto/login.dto';
 import { SignupDto } from './dto/signup.dto';
 import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
+import { ResendVerificationDto } from './dto/resend-verification.dto';
+import { ChangeEmailDto } from './dto/change-email.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { DeleteAccountDto } from './dto/delete-account.dto';
+import { OAuthExchangeDto } from './dto/oauth-exchange.dto';
+import {
+  OAUTH_PROVIDERS,
+  getEnabledOAuthProviders,
+} from './oauth/oauth-providers';
+import { UserRolesService } from './roles/user-roles.service';
+import { UserProfileService } from './profile/user-profile.service';
+import { LoginLockoutService } from './lockout/login-lockout.service';
+import { MfaService } from './mfa/mfa.service';
+import {
+  SessionClient,
+  SessionsService,
+  readSessionId,
+} from './sessions/sessions.service';
+import { TokenRevocationService } from './jwt/token-revocation.service';
+import { BrandMembersService } from '../brand-members/brand-members.service';
+import { UsersUploadService } from '../users/users-upload.service';
+import type { AuthUser } from './interfaces/auth-user.interface';
+
+// Orders in these statuses still need the customer's contact details
+const OPEN_ORDER_STATUSES = ['pending', 'confirmed', 'processing', 'shipped'];
+
+// Throwaway storage for a PKCE client; all it ever holds is the code verifier
+const pkceStorage = (items: Record<string, string> = {}) => ({
+  items,
+  getItem: (key: string) => items[key] ?? null,
+  setItem: (key: string, value: string) => {
+    items[key] = value;
+  },
+  removeItem: (key: string) => {
+    delete items[key];
+  },
+});
+
+// Where createPkceAuthClient's storage keeps the verifier
+const CODE_VERIFIER_KEY = 'oauth-code-verifier';
 
 @Injectable()
 export class AuthService {
-  constructor(private readonly supabaseService: SupabaseService) {}
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly userRolesService: UserRolesService,
+    private readonly userProfileService: UserProfileService,
+    private readonly tokenRevocationService: TokenRevocationService,
+    private readonly brandMembersService: BrandMembersService,
+    private readonly usersUploadService: UsersUploadService,
+    private readonly loginLockoutService: LoginLockoutService,
+    private readonly sessionsService: SessionsService,
+    private readonly mfaService: MfaService,
+  ) {}
 
   async signup(signupDto: SignupDto) {
     const supabase = this.supabaseService.getClient();
@@ -26,28 +84,14 @@ export class AuthService {
       throw new BadRequestException(error.message || 'Failed to create account');
     }
 
-    // If user was created successfully, insert into users table
-    if (data.user?.id) {
-      try {
-        const { error: userError } = await supabase
-          .from('users')
-          .insert({
-            id: data.user.id,
-            full_name: signupDto.fullName,
-            email: signupDto.email,
-            is_email_verified: data.user.email_confirmed_at ? true : false,
-            email_verified_at: data.user.email_confirmed_at || null,
-            created_at: new Date().toISOString(),
-            updated_at: new Date().toISOString(),
-          });
-
-        if (userError) {
-          // Don't fail signup if users table insert fails
-          // The user is already created in auth.users
-        }
-      } catch (err) {
-        // Non-blocking error - auth user is already created
-      }
+    // If user was created successfully, insert into users table. For an
+    // email that is already registered Supabase returns a user without
+    // identities and nothing should be written.
+    if (data.user?.id && data.user.identities?.length !== 0) {
+      await this.userProfileService.createProfile(
+        data.user,
+        signupDto.fullName,
+      );
     }
 
     return {
@@ -57,9 +101,11 @@ export class AuthService {
     };
   }
 
-  async login(loginDto: LoginDto) {
+  async login(loginDto: LoginDto, client: SessionClient = {}) {
     const supabase = this.supabaseService.getClient();
 
+    await this.loginLockoutService.assertNotLocked(loginDto.email);
+
     const { data, error } = await supabase.auth.signInWithPassword({
       email: loginDto.email,
       password: loginDto.password,
@@ -70,9 +116,15 @@ export class AuthService {
     });
 
     if (error) {
+      // Unconfirmed emails and outages don't count towards a lockout
+      if (error.code === 'invalid_credentials') {
+        await this.loginLockoutService.recordFailure(loginDto.email);
+      }
       throw new UnauthorizedException(error.message || 'Invalid email or password');
     }
 
+    await this.loginLockoutService.recordSuccess(loginDto.email);
+
     // Update last_login_at in users table
     if (data.user?.id) {
       try {
@@ -88,22 +140,23 @@ export class AuthService {
       }
     }
 
+    await this.sessionsService.touch(
+      data.user.id,
+      readSessionId(data.session?.access_token),
+      client,
+      true,
+    );
+
     // Fetch user with role information from database
-    let userWithRole = data.user;
-    if (data.user?.id) {
-      // Check if user has admin role in user_metadata or from a profiles table
-      // For now, we'll check user_metadata. In production, you'd query a profiles table
-      const isAdmin = data.user.user_metadata?.role === 'admin' || data.user.user_metadata?.isAdmin === true;
-      
-      // Add role info to user metadata if not already present
-      if (!userWithRole.user_metadata) {
-        userWithRole.user_metadata = {};
-      }
-      userWithRole.user_metadata.isAdmin = isAdmin;
-    }
+    const roles = await this.userRolesService.getRoles(data.user.id);
+    const userWithRole = this.withRoles(data.user, roles);
 
     return {
       user: userWithRole,
+      roles,
+      // The new session still has to pass POST /auth/mfa/verify before
+      // routes that require a second factor
+      mfaRequired: await this.mfaService.hasVerifiedFactor(data.user.id),
       session: data.session,
       access_token: data.session?.access_token,
       refresh_token: data.session?.refresh_token,
@@ -126,26 +179,35 @@ export class AuthService {
     };
   }
 
+  /**
+   * Set a new password from a reset link and sign the user out everywhere -
+   * whoever triggered the reset may have been locked out of a compromised
+   * account.
+   */
   async resetPassword(resetPasswordDto: ResetPasswordDto) {
-    const supabase = this.supabaseService.getClient();
+    if (!resetPasswordDto.token) {
+      throw new BadRequestException(
+        'Invalid or expired reset token. Please request a new password reset.',
+      );
+    }
+
+    // A throwaway client, so the reset session never lands on the shared one
+    const supabase = this.supabaseService.createAuthClient();
+    let userId: string | undefined;
 
     // For password reset with tokens from email link
-    if (resetPasswordDto.token) {
-      // Set the session first with both tokens if available
-      if (resetPasswordDto.refreshToken) {
-        const { error: sessionError } = await supabase.auth.setSession({
-          access_token: resetPasswordDto.token,
-          refresh_token: resetPasswordDto.refreshToken,
-        });
+    if (resetPasswordDto.refreshToken) {
+      const { data: sessionData, error: sessionError } = await supabase.auth.setSession({
+        access_token: resetPasswordDto.token,
+        refresh_token: resetPasswordDto.refreshToken,
+      });
 
-        if (sessionError) {
-          throw new BadRequestException(
-            sessionError.message || 'Invalid or expired reset token. Please request a new password reset.'
-          );
-        }
+      if (sessionError || !sessionData.user) {
+        throw new BadRequestException(
+          sessionError?.message || 'Invalid or expired reset token. Please request a new password reset.'
+        );
       }
 
-      // Now update the password (session is set)
       const { error } = await supabase.auth.updateUser({
         password: resetPasswordDto.password,
       });
@@ -154,42 +216,119 @@ export class AuthService {
         throw new BadRequestException(error.message || 'Failed to reset password');
       }
 
-      return {
-        message: 'Password reset successfully.',
-      };
-    }
+      userId = sessionData.user.id;
+    } else {
+      // Only the access token from the link - update through the admin API
+      const { data: userData, error: userError } = await supabase.auth.getUser(resetPasswordDto.token);
 
-    // Fallback: try with default client (if user is already authenticated)
-    const { error } = await supabase.auth.updateUser({
-      password: resetPasswordDto.password,
-    });
+      if (userError || !userData.user) {
+        throw new BadRequestException(
+          'Invalid or expired reset token. Please request a new password reset.',
+        );
+      }
 
-    if (error) {
-      throw new BadRequestException(error.message || 'Failed to reset password');
+      const { error } = await this.supabaseService
+        .getServiceClient()
+        .auth.admin.updateUserById(userData.user.id, {
+          password: resetPasswordDto.password,
+        });
+
+      if (error) {
+        throw new BadRequestException(error.message || 'Failed to reset password');
+      }
+
+      userId = userData.user.id;
     }
 
+    await this.sessionsService.revokeAllSessions(userId);
+
     return {
-      message: 'Password reset successfully.',
+      message: 'Password reset successfully. Please sign in again.',
     };
   }
 
-  async getProviderUrl(provider: 'google' | 'facebook') {
-    const supabase = this.supabaseService.getClient();
+  /**
+   * Start a social login. The frontend keeps the returned codeVerifier and,
+   * once the provider redirects back to /auth/callback with a code, posts
+   * both to exchangeOAuthCode.
+   */
+  async getProviderUrl(providerName: string) {
+    const config = OAUTH_PROVIDERS[providerName];
+    if (!config || !getEnabledOAuthProviders().includes(providerName)) {
+      throw new NotFoundException(
+        `Login with ${providerName} is not available`,
+      );
+    }
+
+    const storage = pkceStorage();
+    const supabase = this.supabaseService.createPkceAuthClient(storage);
     const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
 
     const { data, error } = await supabase.auth.signInWithOAuth({
-      provider,
+      provider: config.provider,
       options: {
         redirectTo: `${frontendUrl}/auth/callback`,
+        scopes: config.scopes,
+        skipBrowserRedirect: true,
       },
     });
 
     if (error) {
-      throw new BadRequestException(error.message || `Failed to initiate ${provider} login`);
+      throw new BadRequestException(
+        error.message || `Failed to initiate ${providerName} login`,
+      );
     }
 
     return {
       url: data.url,
+      codeVerifier: storage.items[CODE_VERIFIER_KEY],
+    };
+  }
+
+  getOAuthProviders() {
+    return { providers: getEnabledOAuthProviders() };
+  }
+
+  /**
+   * Finish a social login: trade the provider's code for a session, then
+   * create or link the users row and record the login like password logins.
+   */
+  async exchangeOAuthCode(
+    exchangeDto: OAuthExchangeDto,
+    client: SessionClient = {},
+  ) {
+    const supabase = this.supabaseService.createPkceAuthClient(
+      pkceStorage({ [CODE_VERIFIER_KEY]: exchangeDto.codeVerifier }),
+    );
+
+    const { data, error } = await supabase.auth.exchangeCodeForSession(
+      exchangeDto.code,
+    );
+
+    if (error || !data.session) {
+      throw new UnauthorizedException(error?.message || 'Social login failed');
+    }
+
+    const session = await this.resolveOAuthAccount(data.session);
+    const user = session.user;
+
+    await this.linkOAuthProfile(user, data.session.user.user_metadata);
+    await this.sessionsService.touch(
+      user.id,
+      readSessionId(session.access_token),
+      client,
+      true,
+    );
+
+    const roles = await this.userRolesService.getRoles(user.id);
+
+    return {
+      user: this.withRoles(user, roles),
+      roles,
+      mfaRequired: await this.mfaService.hasVerifiedFactor(user.id),
+      session,
+      access_token: session.access_token,
+      refresh_token: session.refresh_token,
     };
   }
 
@@ -203,24 +342,15 @@ export class AuthService {
     }
 
     // Fetch user with role information
-    let userWithRole = data.user;
-    if (data.user?.id) {
-      // Check if user has admin role
-      const isAdmin = data.user.user_metadata?.role === 'admin' || data.user.user_metadata?.isAdmin === true;
-      
-      // Ensure user_metadata exists and include role info
-      if (!userWithRole.user_metadata) {
-        userWithRole.user_metadata = {};
-      }
-      userWithRole.user_metadata.isAdmin = isAdmin;
-    }
+    const roles = await this.userRolesService.getRoles(data.user.id);
 
     return {
-      user: userWithRole,
+      user: this.withRoles(data.user, roles),
+      roles,
     };
   }
 
-  async refreshToken(refreshToken: string) {
+  async refreshToken(refreshToken: string, client: SessionClient = {}) {
     const supabase = this.supabaseService.getClient();
 
     const { data, error } = await supabase.auth.refreshSession({
@@ -231,6 +361,13 @@ export class AuthService {
       throw new UnauthorizedException(error?.message || 'Failed to refresh token');
     }
 
+    await this.sessionsService.touch(
+      data.session.user.id,
+      readSessionId(data.session.access_token),
+      client,
+      true,
+    );
+
     return {
       access_token: data.session.access_token,
       refresh_token: data.session.refresh_token,
@@ -238,5 +375,357 @@ export class AuthService {
       expires_in: data.session.expires_in,
     };
   }
-}
 
+  async resendVerification(resendVerificationDto: ResendVerificationDto) {
+    const supabase = this.supabaseService.getClient();
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email: resendVerificationDto.email,
+      options: {
+        emailRedirectTo: `${frontendUrl}/auth/callback`,
+      },
+    });
+
+    // Supabase rate limits resends; anything else is not reported back so
+    // the endpoint can't be used to find out which emails are registered
+    if (error?.status === 429) {
+      throw new BadRequestException(
+        'Please wait before requesting another verification email',
+      );
+    }
+    if (error) {
+      console.error('Failed to resend verification email:', error);
+    }
+
+    return {
+      message:
+        'If this email is registered and not yet verified, a new verification email has been sent.',
+    };
+  }
+
+  /**
+   * Start an email change. Supabase sends confirmation links to the new
+   * (and, with secure email change, the old) address; the users row follows
+   * once the change is confirmed, see UserProfileService.reconcile.
+   */
+  async changeEmail(user: AuthUser, changeEmailDto: ChangeEmailDto) {
+    const newEmail = changeEmailDto.newEmail.trim().toLowerCase();
+    if (newEmail === user.email?.toLowerCase()) {
+      throw new BadRequestException('This is already your email address');
+    }
+
+    const client = await this.signInAs(user, changeEmailDto.password);
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+    try {
+      const { error } = await client.auth.updateUser(
+        { email: newEmail },
+        { emailRedirectTo: `${frontendUrl}/auth/callback` },
+      );
+
+      if (error) {
+        throw new BadRequestException(error.message || 'Failed to change email');
+      }
+    } finally {
+      await client.auth.signOut({ scope: 'local' });
+    }
+
+    return {
+      message: 'Please check your email to confirm the new address.',
+    };
+  }
+
+  async changePassword(user: AuthUser, changePasswordDto: ChangePasswordDto) {
+    if (changePasswordDto.currentPassword === changePasswordDto.newPassword) {
+      throw new BadRequestException(
+        'New password must be different from the current one',
+      );
+    }
+
+    const client = await this.signInAs(user, changePasswordDto.currentPassword);
+
+    try {
+      const { error } = await client.auth.updateUser({
+        password: changePasswordDto.newPassword,
+      });
+
+      if (error) {
+        throw new BadRequestException(error.message || 'Failed to change password');
+      }
+    } finally {
+      await client.auth.signOut({ scope: 'local' });
+    }
+
+    // Other devices have to sign in with the new password
+    if (user.sessionId) {
+      await this.sessionsService.revokeOtherSessions(user.id, user.sessionId);
+    }
+
+    return {
+      message: 'Password changed successfully.',
+    };
+  }
+
+  /**
+   * Delete the caller's account. Orders are kept for the brands' books but
+   * anonymised, reviews stay up without a name, and everything else tied to
+   * the auth user is removed by cascade.
+   */
+  async deleteAccount(user: AuthUser, deleteAccountDto: DeleteAccountDto) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    if (
+      deleteAccountDto.confirmEmail.trim().toLowerCase() !==
+      user.email?.toLowerCase()
+    ) {
+      throw new BadRequestException('Email confirmation does not match');
+    }
+
+    const providers: string[] = user.appMetadata.providers || [
+      user.appMetadata.provider,
+    ];
+    if (providers.includes('email')) {
+      if (!deleteAccountDto.password) {
+        throw new BadRequestException('Password is required');
+      }
+      const client = await this.signInAs(user, deleteAccountDto.password);
+      await client.auth.signOut({ scope: 'local' });
+    }
+
+    for (const type of ['wholesale', 'retail'] as const) {
+      const membership = await this.brandMembersService.getMembership(
+        user.id,
+        type,
+      );
+      if (membership?.role === 'owner') {
+        throw new ConflictException(
+          `Transfer ownership of your ${type} brand before deleting your account`,
+        );
+      }
+    }
+
+    for (const table of ['wholesale_orders', 'retail_orders']) {
+      const { count } = await serviceClient
+        .from(table)
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .in('status', OPEN_ORDER_STATUSES);
+
+      if ((count || 0) > 0) {
+        throw new ConflictException(
+          'You have orders in progress. Please wait until they are delivered or cancelled.',
+        );
+      }
+    }
+
+    const { data: profile } = await serviceClient
+      .from('users')
+      .select('avatar_url')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    const { error: anonymizeError } = await serviceClient.rpc(
+      'anonymize_user_data',
+      { p_user_id: user.id },
+    );
+
+    if (anonymizeError) {
+      throw new BadRequestException(
+        `Failed to delete account: ${anonymizeError.message}`,
+      );
+    }
+
+    const { error } = await serviceClient.auth.admin.deleteUser(user.id);
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to delete account: ${error.message}`,
+      );
+    }
+
+    await this.usersUploadService.deleteAvatar(profile?.avatar_url);
+    this.tokenRevocationService.revokeUserTokens(user.id);
+    this.userProfileService.forget(user.id);
+
+    return {
+      message: 'Your account has been deleted.',
+    };
+  }
+
+  // Sign in on a throwaway client to confirm the caller knows the password
+  private async signInAs(user: AuthUser, password: string) {
+    if (!user.email) {
+      throw new BadRequestException('This account has no email address');
+    }
+
+    const client = this.supabaseService.createAuthClient();
+    const { data, error } = await client.auth.signInWithPassword({
+      email: user.email,
+      password,
+    });
+
+    if (error || data.user?.id !== user.id) {
+      throw new ForbiddenException('Current password is incorrect');
+    }
+
+    return client;
+  }
+
+  /**
+   * Supabase links a social identity to the existing account itself when the
+   * emails match and are verified. If a separate auth user turned up anyway
+   * while another profile holds the email, sign into that account instead
+   * and drop the duplicate - but only when both sides verified the email, so
+   * nobody can take over an account by registering its address first.
+   */
+  private async resolveOAuthAccount(session: Session): Promise<Session> {
+    const oauthUser = session.user;
+    const email = oauthUser.email?.toLowerCase();
+    if (!email) {
+      return session;
+    }
+
+    const serviceClient = this.supabaseService.getServiceClient();
+    const { data: existing, error } = await serviceClient
+      .from('users')
+      .select('id, is_email_verified')
+      .eq('email', email)
+      .neq('id', oauthUser.id)
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to look up existing account: ${error.message}`,
+      );
+    }
+    if (!existing) {
+      return session;
+    }
+
+    if (!existing.is_email_verified || !oauthUser.email_confirmed_at) {
+      await this.discardDuplicateUser(oauthUser.id);
+      throw new ConflictException({
+        message:
+          'An account with this email already exists. Sign in with your password and verify your email to use social login.',
+        code: 'OAUTH_EMAIL_UNVERIFIED',
+      });
+    }
+
+    const { data: link, error: linkError } =
+      await serviceClient.auth.admin.generateLink({ type: 'magiclink', email });
+    const { data: verified, error: verifyError } = linkError
+      ? { data: null, error: linkError }
+      : await this.supabaseService.createAuthClient().auth.verifyOtp({
+          token_hash: link.properties.hashed_token,
+          type: 'magiclink',
+        });
+
+    if (
+      verifyError ||
+      !verified?.session ||
+      verified.session.user.id !== existing.id
+    ) {
+      console.error(
+        'Failed to link social login to existing account:',
+        verifyError,
+      );
+      throw new ConflictException(
+        'An account with this email already exists. Sign in with your password instead.',
+      );
+    }
+
+    await this.discardDuplicateUser(oauthUser.id);
+    return verified.session;
+  }
+
+  // Delete an auth user created by a social login that was linked or
+  // refused. Anything with a users row (or that can't be checked) is left
+  // alone.
+  private async discardDuplicateUser(userId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data: profile, error: profileError } = await serviceClient
+      .from('users')
+      .select('id')
+      .eq('id', userId)
+      .maybeSingle();
+    if (profileError) {
+      console.error(
+        'Failed to check duplicate social login user:',
+        profileError,
+      );
+      return;
+    }
+    if (profile) {
+      return;
+    }
+
+    this.tokenRevocationService.revokeUserTokens(userId);
+    const { error } = await serviceClient.auth.admin.deleteUser(userId);
+    if (error) {
+      console.error('Failed to delete duplicate social login user:', error);
+    }
+  }
+
+  // Create the users row for new social logins; existing profiles get the
+  // provider's avatar if they have none yet. The provider's metadata is
+  // passed separately when the login was linked to another account
+  private async linkOAuthProfile(
+    authUser: User,
+    metadata: Record<string, any> = authUser.user_metadata || {},
+  ) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data: profile, error: profileError } = await serviceClient
+      .from('users')
+      .select('id, full_name, avatar_url')
+      .eq('id', authUser.id)
+      .maybeSingle();
+
+    if (profileError) {
+      throw new BadRequestException(
+        `Failed to load your profile: ${profileError.message}`,
+      );
+    }
+
+    if (!profile) {
+      await this.userProfileService.createProfile(authUser);
+    }
+
+    const now = new Date().toISOString();
+    const updates: Record<string, any> = {
+      last_login_at: now,
+      updated_at: now,
+    };
+    if (
+      profile &&
+      !profile.avatar_url &&
+      (metadata.avatar_url || metadata.picture)
+    ) {
+      updates.avatar_url = metadata.avatar_url || metadata.picture;
+    }
+
+    // Non-blocking - the login still succeeds
+    const { error } = await serviceClient
+      .from('users')
+      .update(updates)
+      .eq('id', authUser.id);
+    if (error) {
+      console.error('Failed to update users row after social login:', error);
+    }
+  }
+  // Overwrite whatever role flags the user put in user_metadata with the
+  // server-side roles, keeping the isAdmin field the frontend already reads
+  private withRoles(user: any, roles: string[]) {
+    return {
+      ...user,
+      user_metadata: {
+        ...(user.user_metadata || {}),
+        role: roles.includes('admin') ? 'admin' : undefined,
+        isAdmin: roles.includes('admin'),
+      },
+    };
+  }
+}
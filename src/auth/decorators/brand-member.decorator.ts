@@ -0,0 +1,14 @@
+import { SetMetadata } from '@nestjs/common';
+import type { BrandType } from '../interfaces/auth-user.interface';
+import type { BrandPermission } from '../../brand-members/brand-members';
+
+export interface BrandMemberRequirement {
+  type: BrandType;
+  permission?: BrandPermission;
+}
+
+// Routes restricted to members of an approved brand of the given type, and
+// optionally to brand roles granting `permission`
+export const BRAND_MEMBER_KEY = 'brandMember';
+export const BrandMember = (type: BrandType, permission?: BrandPermission) =>
+  SetMetadata(BRAND_MEMBER_KEY, { type, permission });
@@ -0,0 +1,11 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type { AuthBrand } from '../interfaces/auth-user.interface';
+
+// Injects the brand resolved by RolesGuard on @BrandMember() routes
+export const CurrentBrand = createParamDecorator(
+  (field: keyof AuthBrand | undefined, ctx: ExecutionContext) => {
+    const request = ctx.switchToHttp().getRequest();
+    const brand: AuthBrand | undefined = request.brand;
+    return field ? brand?.[field] : brand;
+  },
+);
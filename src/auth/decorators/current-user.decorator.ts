@@ -0,0 +1,12 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type { AuthUser } from '../interfaces/auth-user.interface';
+
+// Injects the authenticated user (or one of its fields). Undefined on
+// @Public() routes called without a token.
+export const CurrentUser = createParamDecorator(
+  (field: keyof AuthUser | undefined, ctx: ExecutionContext) => {
+    const request = ctx.switchToHttp().getRequest();
+    const user: AuthUser | undefined = request.user;
+    return field ? user?.[field] : user;
+  },
+);
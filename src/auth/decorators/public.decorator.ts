@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+
+// Routes that do not require a token. If a valid token is sent anyway the
+// user is still resolved, so @CurrentUser() can be used for optional auth.
+export const IS_PUBLIC_KEY = 'isPublic';
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
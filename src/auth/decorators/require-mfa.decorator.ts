@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+
+// Sensitive routes that need a session verified with the user's second
+// factor. @AdminOnly() routes always do for admins with a factor.
+export const REQUIRE_MFA_KEY = 'requireMfa';
+export const RequireMfa = () => SetMetadata(REQUIRE_MFA_KEY, true);
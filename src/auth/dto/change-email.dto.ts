@@ -0,0 +1,10 @@
+import { IsEmail, IsNotEmpty } from 'class-validator';
+
+export class ChangeEmailDto {
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  @IsNotEmpty({ message: 'New email is required' })
+  newEmail: string;
+
+  @IsNotEmpty({ message: 'Current password is required' })
+  password: string;
+}
@@ -0,0 +1,10 @@
+import { IsNotEmpty, MinLength } from 'class-validator';
+
+export class ChangePasswordDto {
+  @IsNotEmpty({ message: 'Current password is required' })
+  currentPassword: string;
+
+  @IsNotEmpty({ message: 'New password is required' })
+  @MinLength(8, { message: 'Password must be at least 8 characters' })
+  newPassword: string;
+}
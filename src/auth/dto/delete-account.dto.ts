@@ -0,0 +1,12 @@
+import { IsEmail, IsNotEmpty, IsOptional } from 'class-validator';
+
+export class DeleteAccountDto {
+  // Must match the account's email, as a guard against accidental deletion
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  @IsNotEmpty({ message: 'Email confirmation is required' })
+  confirmEmail: string;
+
+  // Required for accounts that sign in with a password
+  @IsOptional()
+  password?: string;
+}
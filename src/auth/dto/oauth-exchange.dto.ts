@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class OAuthExchangeDto {
+  // The `code` query parameter the provider redirected back with
+  @IsString()
+  @IsNotEmpty({ message: 'Code is required' })
+  code: string;
+
+  // Returned by GET /auth/oauth/:provider when the login was started
+  @IsString()
+  @IsNotEmpty({ message: 'Code verifier is required' })
+  codeVerifier: string;
+}
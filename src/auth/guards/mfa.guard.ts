@@ -0,0 +1,50 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { IS_ADMIN_KEY } from '../../admin/decorators/admin-only.decorator';
+import { REQUIRE_MFA_KEY } from '../decorators/require-mfa.decorator';
+import { AuthUser } from '../interfaces/auth-user.interface';
+import { MfaService } from '../mfa/mfa.service';
+
+/**
+ * Runs after RolesGuard. Users with two-factor authentication enabled must
+ * have verified the current session before using @RequireMfa() and
+ * @AdminOnly() routes. Users without it are only stopped when enrollment is
+ * mandatory:
+ * - MFA_REQUIRED_FOR_ADMIN=true: for admin routes
+ * - MFA_REQUIRED_FOR_BRAND_ACTIONS=true: for @RequireMfa() routes
+ */
+@Injectable()
+export class MfaGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly mfaService: MfaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    const requireMfa = !!this.reflector.getAllAndOverride<boolean>(
+      REQUIRE_MFA_KEY,
+      targets,
+    );
+    const adminOnly = !!this.reflector.getAllAndOverride<boolean>(
+      IS_ADMIN_KEY,
+      targets,
+    );
+
+    if (!requireMfa && !adminOnly) {
+      return true;
+    }
+
+    const user: AuthUser | undefined = context.switchToHttp().getRequest().user;
+    if (!user) {
+      // Public routes with optional auth; nothing to step up
+      return true;
+    }
+
+    const enrollmentRequired =
+      (adminOnly && process.env.MFA_REQUIRED_FOR_ADMIN === 'true') ||
+      (requireMfa && process.env.MFA_REQUIRED_FOR_BRAND_ACTIONS === 'true');
+    await this.mfaService.assertSessionVerified(user, enrollmentRequired);
+    return true;
+  }
+}
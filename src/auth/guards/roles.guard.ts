@@ -0,0 +1,80 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { IS_ADMIN_KEY } from '../../admin/decorators/admin-only.decorator';
+import {
+  BRAND_MEMBER_KEY,
+  BrandMemberRequirement,
+} from '../decorators/brand-member.decorator';
+import { AuthBrand, AuthUser } from '../interfaces/auth-user.interface';
+import { BrandMembersService } from '../../brand-members/brand-members.service';
+
+// Runs after AuthGuard and enforces @AdminOnly() / @BrandMember() metadata
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly brandMembersService: BrandMembersService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    const adminOnly = this.reflector.getAllAndOverride<boolean>(
+      IS_ADMIN_KEY,
+      targets,
+    );
+    const brandRequirement =
+      this.reflector.getAllAndOverride<BrandMemberRequirement>(
+        BRAND_MEMBER_KEY,
+        targets,
+      );
+
+    if (!adminOnly && !brandRequirement) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const user: AuthUser | undefined = request.user;
+
+    if (!user) {
+      throw new UnauthorizedException('Authentication required');
+    }
+
+    if (adminOnly && !user.isAdmin) {
+      throw new ForbiddenException('Admin access required');
+    }
+
+    if (brandRequirement) {
+      request.brand = await this.getApprovedBrand(user.id, brandRequirement);
+    }
+
+    return true;
+  }
+
+  private async getApprovedBrand(
+    userId: string,
+    { type, permission }: BrandMemberRequirement,
+  ): Promise<AuthBrand> {
+    const membership = await this.brandMembersService.requireMembership(
+      userId,
+      type,
+      permission,
+    );
+
+    if (membership.brandStatus !== 'approved') {
+      throw new ForbiddenException('Your brand is not approved yet');
+    }
+
+    return {
+      id: membership.brandId,
+      type,
+      status: membership.brandStatus,
+      role: membership.role,
+    };
+  }
+}
@@ -0,0 +1,27 @@
+import type { UserRole } from '../roles/user-roles';
+import type { BrandMemberRole } from '../../brand-members/brand-members';
+
+// The authenticated caller, attached to the request by AuthGuard
+export interface AuthUser {
+  id: string;
+  email?: string;
+  // Resolved from user_roles by AuthGuard, never from user_metadata
+  roles: UserRole[];
+  isAdmin: boolean;
+  userMetadata: Record<string, any>;
+  appMetadata: Record<string, any>;
+  // session_id claim of the access token, when known
+  sessionId?: string;
+}
+
+export type BrandType = 'wholesale' | 'retail';
+
+// The approved brand the caller is a member of, attached to the request by
+// RolesGuard on @BrandMember() routes
+export interface AuthBrand {
+  id: string;
+  type: BrandType;
+  status: string;
+  // The caller's role in the brand team
+  role: BrandMemberRole;
+}
@@ -0,0 +1,214 @@
+import { createHmac, generateKeyPairSync, sign } from 'crypto';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { SupabaseJwtVerifier } from './supabase-jwt.verifier';
+import { TokenRevocationService } from './token-revocation.service';
+
+const SECRET = 'test-jwt-secret';
+const SUPABASE_URL = 'https://project.supabase.co';
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const now = () => Math.floor(Date.now() / 1000);
+
+const validClaims = (overrides: Record<string, unknown> = {}) => ({
+  sub: 'user-1',
+  email: 'buyer@example.com',
+  aud: 'authenticated',
+  role: 'authenticated',
+  iss: `${SUPABASE_URL}/auth/v1`,
+  iat: now() - 10,
+  exp: now() + 3600,
+  session_id: 'session-1',
+  ...overrides,
+});
+
+const signHs256 = (claims: object, secret = SECRET) => {
+  const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+  const signature = createHmac('sha256', secret)
+    .update(input)
+    .digest('base64url');
+  return `${input}.${signature}`;
+};
+
+describe('SupabaseJwtVerifier', () => {
+  const originalEnv = process.env;
+  let revocations: TokenRevocationService;
+  let getUser: jest.Mock;
+
+  const createVerifier = () =>
+    new SupabaseJwtVerifier(
+      {
+        getClient: () => ({ auth: { getUser } }),
+      } as unknown as SupabaseService,
+      revocations,
+    );
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      SUPABASE_JWT_SECRET: SECRET,
+      SUPABASE_URL,
+    };
+    delete process.env.AUTH_REVOCATION_CHECK;
+    delete process.env.SUPABASE_JWT_AUDIENCE;
+    revocations = new TokenRevocationService();
+    getUser = jest.fn();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  describe('signature', () => {
+    it('accepts an HS256 token signed with the project secret', async () => {
+      const user = await createVerifier().verify(signHs256(validClaims()));
+
+      expect(user).toMatchObject({
+        id: 'user-1',
+        email: 'buyer@example.com',
+        sessionId: 'session-1',
+      });
+      expect(getUser).not.toHaveBeenCalled();
+    });
+
+    it('rejects an HS256 token signed with another secret', async () => {
+      const token = signHs256(validClaims(), 'another-secret');
+
+      expect(await createVerifier().verify(token)).toBeNull();
+    });
+
+    it('rejects a token whose payload was changed after signing', async () => {
+      const [header, , signature] = signHs256(validClaims()).split('.');
+      const forged = `${header}.${encode(validClaims({ sub: 'admin' }))}.${signature}`;
+
+      expect(await createVerifier().verify(forged)).toBeNull();
+    });
+
+    it('rejects unsigned and malformed tokens', async () => {
+      const unsigned = `${encode({ alg: 'none' })}.${encode(validClaims())}.`;
+
+      expect(await createVerifier().verify(unsigned)).toBeNull();
+      expect(await createVerifier().verify('not-a-jwt')).toBeNull();
+    });
+
+    it('verifies ES256 tokens against the cached JWKS', async () => {
+      const { privateKey, publicKey } = generateKeyPairSync('ec', {
+        namedCurve: 'P-256',
+      });
+      const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            keys: [{ ...publicKey.export({ format: 'jwk' }), kid: 'key-1' }],
+          }),
+      } as Response);
+
+      const input = `${encode({ alg: 'ES256', kid: 'key-1' })}.${encode(validClaims())}`;
+      const signature = sign('sha256', Buffer.from(input), {
+        key: privateKey,
+        dsaEncoding: 'ieee-p1363',
+      }).toString('base64url');
+
+      const verifier = createVerifier();
+      expect(await verifier.verify(`${input}.${signature}`)).toMatchObject({
+        id: 'user-1',
+      });
+      expect(await verifier.verify(`${input}.${signature}`)).not.toBeNull();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock).toHaveBeenCalledWith(
+        `${SUPABASE_URL}/auth/v1/.well-known/jwks.json`,
+      );
+    });
+
+    it('falls back to Supabase for HS256 tokens without a configured secret', async () => {
+      delete process.env.SUPABASE_JWT_SECRET;
+      getUser.mockResolvedValue({
+        data: { user: { id: 'user-1', email: 'buyer@example.com' } },
+        error: null,
+      });
+
+      const user = await createVerifier().verify(signHs256(validClaims()));
+
+      expect(getUser).toHaveBeenCalled();
+      expect(user).toMatchObject({ id: 'user-1', sessionId: 'session-1' });
+    });
+  });
+
+  describe('claims', () => {
+    it.each([
+      ['expired', { exp: now() - 120 }],
+      ['not yet valid', { nbf: now() + 120 }],
+      ['for another audience', { aud: 'other' }],
+      ['from another issuer', { iss: 'https://evil.example.com/auth/v1' }],
+      ['an anon key', { role: 'anon' }],
+      ['missing the subject', { sub: undefined }],
+    ])('rejects a token that is %s', async (_case, overrides) => {
+      const token = signHs256(validClaims(overrides));
+
+      expect(await createVerifier().verify(token)).toBeNull();
+    });
+
+    it('tolerates a small clock skew on exp', async () => {
+      const token = signHs256(validClaims({ exp: now() - 5 }));
+
+      expect(await createVerifier().verify(token)).not.toBeNull();
+    });
+
+    it('accepts the configured audience', async () => {
+      process.env.SUPABASE_JWT_AUDIENCE = 'buyers';
+      const token = signHs256(validClaims({ aud: ['buyers'] }));
+
+      expect(await createVerifier().verify(token)).not.toBeNull();
+    });
+  });
+
+  describe('revocation', () => {
+    it('rejects tokens of a revoked session', async () => {
+      revocations.revokeSession('session-1');
+
+      expect(
+        await createVerifier().verify(signHs256(validClaims())),
+      ).toBeNull();
+      expect(
+        await createVerifier().verify(
+          signHs256(validClaims({ session_id: 'session-2' })),
+        ),
+      ).not.toBeNull();
+    });
+
+    it('rejects tokens issued before the user was signed out everywhere', async () => {
+      revocations.revokeUserTokens('user-1');
+
+      expect(
+        await createVerifier().verify(signHs256(validClaims())),
+      ).toBeNull();
+      expect(
+        await createVerifier().verify(signHs256(validClaims({ iat: now() }))),
+      ).not.toBeNull();
+    });
+
+    it('skips the revocation list when the check is off', async () => {
+      process.env.AUTH_REVOCATION_CHECK = 'off';
+      revocations.revokeSession('session-1');
+
+      expect(
+        await createVerifier().verify(signHs256(validClaims())),
+      ).not.toBeNull();
+    });
+
+    it('asks Supabase as well when the check is remote', async () => {
+      process.env.AUTH_REVOCATION_CHECK = 'remote';
+      getUser.mockResolvedValue({
+        data: { user: null },
+        error: { message: 'Session not found' },
+      });
+
+      expect(
+        await createVerifier().verify(signHs256(validClaims())),
+      ).toBeNull();
+      expect(getUser).toHaveBeenCalled();
+    });
+  });
+});
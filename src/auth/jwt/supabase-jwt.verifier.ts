@@ -0,0 +1,269 @@
+import { Injectable } from '@nestjs/common';
+import {
+  createHmac,
+  createPublicKey,
+  JsonWebKey,
+  KeyObject,
+  timingSafeEqual,
+  verify as verifySignature,
+} from 'crypto';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { TokenRevocationService } from './token-revocation.service';
+import { TokenVerifier, toAuthUser } from './token-verifier';
+import type { AuthUser } from '../interfaces/auth-user.interface';
+
+interface JwtHeader {
+  alg: string;
+  kid?: string;
+}
+
+interface SupabaseJwtClaims {
+  sub?: string;
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  aud?: string | string[];
+  iss?: string;
+  role?: string;
+  email?: string;
+  session_id?: string;
+  user_metadata?: Record<string, any>;
+  app_metadata?: Record<string, any>;
+}
+
+// Tolerated clock difference between us and the auth server
+const CLOCK_SKEW_SECONDS = 30;
+const DEFAULT_JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+// Unknown kids trigger a refetch (key rotation), but not more often than this
+const JWKS_REFETCH_COOLDOWN_MS = 30 * 1000;
+
+const decodeSegment = <T>(segment: string): T =>
+  JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+
+/**
+ * Verifies Supabase access tokens locally instead of calling
+ * `auth.getUser(token)` on every request.
+ *
+ * - HS256 tokens are checked against SUPABASE_JWT_SECRET
+ * - RS256/ES256 tokens are checked against the project's JWKS
+ *   (SUPABASE_URL/auth/v1/.well-known/jwks.json), cached in memory for
+ *   SUPABASE_JWKS_CACHE_TTL_MS
+ * - exp/nbf, aud (SUPABASE_JWT_AUDIENCE, default "authenticated"), iss and
+ *   role claims are validated
+ *
+ * AUTH_REVOCATION_CHECK selects the revocation check: "memory" (default,
+ * TokenRevocationService), "remote" (additionally asks Supabase whether the
+ * session is still valid) or "off". When no key material is available for a
+ * token the verifier falls back to Supabase.
+ */
+@Injectable()
+export class SupabaseJwtVerifier extends TokenVerifier {
+  private readonly jwtSecret = process.env.SUPABASE_JWT_SECRET;
+  private readonly supabaseUrl = process.env.SUPABASE_URL?.replace(/\/+$/, '');
+  private readonly audience =
+    process.env.SUPABASE_JWT_AUDIENCE || 'authenticated';
+  private readonly jwksCacheTtlMs =
+    parseInt(process.env.SUPABASE_JWKS_CACHE_TTL_MS || '', 10) ||
+    DEFAULT_JWKS_CACHE_TTL_MS;
+  private readonly revocationCheck =
+    process.env.AUTH_REVOCATION_CHECK || 'memory';
+
+  private jwksKeys = new Map<string, KeyObject>();
+  private jwksFetchedAt = 0;
+  private jwksRequest: Promise<void> | null = null;
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly tokenRevocationService: TokenRevocationService,
+  ) {
+    super();
+  }
+
+  async verify(token: string): Promise<AuthUser | null> {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      return null;
+    }
+
+    let header: JwtHeader;
+    let claims: SupabaseJwtClaims;
+    try {
+      header = decodeSegment<JwtHeader>(segments[0]);
+      claims = decodeSegment<SupabaseJwtClaims>(segments[1]);
+    } catch {
+      return null;
+    }
+
+    const signingInput = Buffer.from(`${segments[0]}.${segments[1]}`);
+    const signature = Buffer.from(segments[2], 'base64url');
+
+    let signatureValid: boolean;
+    switch (header.alg) {
+      case 'HS256': {
+        if (!this.jwtSecret) {
+          // Legacy projects sign with a shared secret we were not given
+          return this.verifyRemotely(token);
+        }
+        const expected = createHmac('sha256', this.jwtSecret)
+          .update(signingInput)
+          .digest();
+        signatureValid =
+          expected.length === signature.length &&
+          timingSafeEqual(expected, signature);
+        break;
+      }
+      case 'RS256':
+      case 'ES256': {
+        const key = header.kid ? await this.getSigningKey(header.kid) : null;
+        if (!key) {
+          return null;
+        }
+        try {
+          signatureValid = verifySignature(
+            'sha256',
+            signingInput,
+            header.alg === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' } : key,
+            signature,
+          );
+        } catch {
+          signatureValid = false;
+        }
+        break;
+      }
+      default:
+        return null;
+    }
+
+    if (!signatureValid || !this.hasValidClaims(claims)) {
+      return null;
+    }
+
+    if (
+      this.revocationCheck !== 'off' &&
+      this.tokenRevocationService.isRevoked(claims)
+    ) {
+      return null;
+    }
+
+    if (this.revocationCheck === 'remote') {
+      return this.verifyRemotely(token);
+    }
+
+    return toAuthUser({
+      id: claims.sub as string,
+      email: claims.email,
+      user_metadata: claims.user_metadata,
+      app_metadata: claims.app_metadata,
+      session_id: claims.session_id,
+    });
+  }
+
+  private hasValidClaims(claims: SupabaseJwtClaims) {
+    const now = Math.floor(Date.now() / 1000);
+
+    if (!claims.sub || typeof claims.exp !== 'number') {
+      return false;
+    }
+
+    if (claims.exp + CLOCK_SKEW_SECONDS < now) {
+      return false;
+    }
+
+    if (
+      typeof claims.nbf === 'number' &&
+      claims.nbf - CLOCK_SKEW_SECONDS > now
+    ) {
+      return false;
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(this.audience)) {
+      return false;
+    }
+
+    if (
+      this.supabaseUrl &&
+      claims.iss &&
+      claims.iss !== `${this.supabaseUrl}/auth/v1`
+    ) {
+      return false;
+    }
+
+    // anon and service_role keys are JWTs too - they are not user sessions
+    return claims.role === 'authenticated';
+  }
+
+  private async getSigningKey(kid: string): Promise<KeyObject | null> {
+    const age = Date.now() - this.jwksFetchedAt;
+
+    if (age > this.jwksCacheTtlMs) {
+      await this.refreshJwks();
+    } else if (!this.jwksKeys.has(kid) && age > JWKS_REFETCH_COOLDOWN_MS) {
+      // Possibly a freshly rotated key
+      await this.refreshJwks();
+    }
+
+    return this.jwksKeys.get(kid) || null;
+  }
+
+  private refreshJwks() {
+    // Concurrent requests share one fetch
+    if (!this.jwksRequest) {
+      this.jwksRequest = this.fetchJwks().finally(() => {
+        this.jwksRequest = null;
+      });
+    }
+    return this.jwksRequest;
+  }
+
+  private async fetchJwks() {
+    if (!this.supabaseUrl) {
+      return;
+    }
+
+    try {
+      const response = await fetch(
+        `${this.supabaseUrl}/auth/v1/.well-known/jwks.json`,
+      );
+      if (!response.ok) {
+        throw new Error(`JWKS request failed with status ${response.status}`);
+      }
+
+      const body = (await response.json()) as { keys?: JsonWebKey[] };
+      const keys = new Map<string, KeyObject>();
+      for (const jwk of body.keys || []) {
+        if (typeof jwk.kid !== 'string') {
+          continue;
+        }
+        try {
+          keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+        } catch (error) {
+          console.error(`Failed to import JWKS key ${jwk.kid}:`, error);
+        }
+      }
+
+      this.jwksKeys = keys;
+    } catch (error) {
+      // Keep serving the previously cached keys
+      console.error('Failed to fetch Supabase JWKS:', error);
+    } finally {
+      this.jwksFetchedAt = Date.now();
+    }
+  }
+
+  private async verifyRemotely(token: string): Promise<AuthUser | null> {
+    try {
+      const supabase = this.supabaseService.getClient();
+      const { data, error } = await supabase.auth.getUser(token);
+
+      if (error || !data.user) {
+        return null;
+      }
+
+      const claims = decodeSegment<SupabaseJwtClaims>(token.split('.')[1]);
+      return toAuthUser({ ...data.user, session_id: claims.session_id });
+    } catch {
+      return null;
+    }
+  }
+}
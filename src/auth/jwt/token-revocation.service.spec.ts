@@ -0,0 +1,53 @@
+import { TokenRevocationService } from './token-revocation.service';
+
+describe('TokenRevocationService', () => {
+  const start = new Date('2026-01-01T12:00:00.000Z').getTime();
+  const seconds = (ms: number) => Math.floor(ms / 1000);
+  let service: TokenRevocationService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: start });
+    service = new TokenRevocationService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('revokes a session until its tokens expire', () => {
+    service.revokeSession('session-1', seconds(start) + 60);
+
+    expect(service.isRevoked({ session_id: 'session-1' })).toBe(true);
+    expect(service.isRevoked({ session_id: 'session-2' })).toBe(false);
+
+    jest.setSystemTime(start + 61 * 1000);
+    expect(service.isRevoked({ session_id: 'session-1' })).toBe(false);
+  });
+
+  it('revokes tokens issued before the revocation second only', () => {
+    jest.setSystemTime(start + 500);
+    service.revokeUserTokens('user-1');
+
+    expect(service.isRevoked({ sub: 'user-1', iat: seconds(start) - 1 })).toBe(
+      true,
+    );
+    // The session created right after a password reset
+    expect(service.isRevoked({ sub: 'user-1', iat: seconds(start) })).toBe(
+      false,
+    );
+    expect(service.isRevoked({ sub: 'user-2', iat: seconds(start) - 1 })).toBe(
+      false,
+    );
+  });
+
+  it('drops user revocations once no token they cover can be valid', () => {
+    service.revokeUserTokens('user-1');
+    service.revokeSession('session-1', seconds(start) + 60);
+
+    jest.setSystemTime(start + 2 * 60 * 60 * 1000);
+    service.revokeUserTokens('user-2');
+
+    expect([...service['revokedBefore'].keys()]).toEqual(['user-2']);
+    expect(service['revokedSessions'].size).toBe(0);
+  });
+});
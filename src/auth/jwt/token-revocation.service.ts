@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+
+// Access tokens live for an hour by default; a revocation older than that
+// can no longer match a token that has not expired
+const MAX_TOKEN_LIFETIME_SECONDS = 60 * 60;
+
+/**
+ * In-memory revocation list consulted after a token's signature and claims
+ * check out. Entries only need to live until the revoked tokens would have
+ * expired anyway, so they are pruned on access and whenever a revocation is
+ * added.
+ */
+@Injectable()
+export class TokenRevocationService {
+  // session_id -> epoch seconds after which the entry can be dropped
+  private readonly revokedSessions = new Map<string, number>();
+  // user id -> tokens issued (iat) before this epoch second are revoked
+  private readonly revokedBefore = new Map<string, number>();
+
+  revokeSession(sessionId: string, expiresAt?: number) {
+    const now = Math.floor(Date.now() / 1000);
+    this.prune(now);
+    this.revokedSessions.set(
+      sessionId,
+      expiresAt || now + MAX_TOKEN_LIFETIME_SECONDS,
+    );
+  }
+
+  // Revoke every token of a user issued before now (e.g. after a password
+  // reset). iat has whole-second precision, so a token issued in the same
+  // second as the revocation, like the session created right after a
+  // password reset, stays valid
+  revokeUserTokens(userId: string) {
+    const now = Math.floor(Date.now() / 1000);
+    this.prune(now);
+    this.revokedBefore.set(userId, now);
+  }
+
+  isRevoked(claims: { sub?: string; session_id?: string; iat?: number }) {
+    const now = Math.floor(Date.now() / 1000);
+
+    if (claims.session_id) {
+      const expiresAt = this.revokedSessions.get(claims.session_id);
+      if (expiresAt !== undefined) {
+        if (expiresAt > now) {
+          return true;
+        }
+        this.revokedSessions.delete(claims.session_id);
+      }
+    }
+
+    if (claims.sub) {
+      const revokedBefore = this.revokedBefore.get(claims.sub);
+      if (revokedBefore !== undefined) {
+        if (revokedBefore + MAX_TOKEN_LIFETIME_SECONDS < now) {
+          this.revokedBefore.delete(claims.sub);
+        } else if ((claims.iat ?? 0) < revokedBefore) {
+          return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  private prune(now: number) {
+    for (const [sessionId, expiresAt] of this.revokedSessions) {
+      if (expiresAt <= now) {
+        this.revokedSessions.delete(sessionId);
+      }
+    }
+    for (const [userId, revokedBefore] of this.revokedBefore) {
+      if (revokedBefore + MAX_TOKEN_LIFETIME_SECONDS < now) {
+        this.revokedBefore.delete(userId);
+      }
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import type { AuthUser } from '../interfaces/auth-user.interface';
+
+/**
+ * Turns a bearer token into the authenticated user, or null when the token is
+ * invalid. Used as the injection token by AuthGuard so tests can provide a
+ * local stand-in:
+ *
+ *   Test.createTestingModule(...)
+ *     .overrideProvider(TokenVerifier)
+ *     .useValue({ verify: async () => testUser })
+ */
+export abstract class TokenVerifier {
+  abstract verify(token: string): Promise<AuthUser | null>;
+}
+
+// Shared by the JWT claims path and the Supabase user path. Roles are left
+// empty here and filled in from user_roles by AuthGuard.
+export const toAuthUser = (user: {
+  id: string;
+  email?: string;
+  user_metadata?: Record<string, any>;
+  app_metadata?: Record<string, any>;
+  session_id?: string;
+}): AuthUser => ({
+  id: user.id,
+  email: user.email,
+  roles: [],
+  isAdmin: false,
+  userMetadata: user.user_metadata || {},
+  appMetadata: user.app_metadata || {},
+  sessionId: user.session_id,
+});
@@ -0,0 +1,54 @@
+import { Injectable } from '@nestjs/common';
+import { RateLimitStore } from '../../rate-limit/rate-limit.store';
+import { RateLimitExceededException } from '../../rate-limit/rate-limit-exceeded.exception';
+
+/**
+ * Locks an account's password login after AUTH_LOCKOUT_MAX_ATTEMPTS failed
+ * attempts within AUTH_LOCKOUT_WINDOW_MS, for AUTH_LOCKOUT_DURATION_MS.
+ * Counted per email, on top of the per-ip limit on the login route.
+ */
+@Injectable()
+export class LoginLockoutService {
+  private readonly maxAttempts =
+    parseInt(process.env.AUTH_LOCKOUT_MAX_ATTEMPTS || '', 10) || 5;
+  private readonly windowMs =
+    parseInt(process.env.AUTH_LOCKOUT_WINDOW_MS || '', 10) || 15 * 60 * 1000;
+  private readonly lockoutMs =
+    parseInt(process.env.AUTH_LOCKOUT_DURATION_MS || '', 10) || 15 * 60 * 1000;
+
+  constructor(private readonly rateLimitStore: RateLimitStore) {}
+
+  async assertNotLocked(email: string) {
+    const lock = await this.rateLimitStore.get(this.lockKey(email));
+    if (lock) {
+      throw new RateLimitExceededException(
+        Math.max(1, Math.ceil((lock.resetAt - Date.now()) / 1000)),
+        'Too many failed login attempts. Please try again later.',
+      );
+    }
+  }
+
+  async recordFailure(email: string) {
+    const { count } = await this.rateLimitStore.hit(
+      this.failuresKey(email),
+      this.windowMs,
+    );
+
+    if (count >= this.maxAttempts) {
+      await this.rateLimitStore.reset(this.failuresKey(email));
+      await this.rateLimitStore.hit(this.lockKey(email), this.lockoutMs);
+    }
+  }
+
+  async recordSuccess(email: string) {
+    await this.rateLimitStore.reset(this.failuresKey(email));
+  }
+
+  private failuresKey(email: string) {
+    return `login-failures:${email.trim().toLowerCase()}`;
+  }
+
+  private lockKey(email: string) {
+    return `login-lock:${email.trim().toLowerCase()}`;
+  }
+}
@@ -0,0 +1,20 @@
+import { IsOptional, IsString, Length, Matches } from 'class-validator';
+
+export class MfaCodeDto {
+  @IsString()
+  @Matches(/^\d{6}$/, { message: 'Code must be 6 digits' })
+  code: string;
+}
+
+// Either an authenticator code or one of the recovery codes
+export class MfaChallengeDto {
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d{6}$/, { message: 'Code must be 6 digits' })
+  code?: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(8, 20)
+  recoveryCode?: string;
+}
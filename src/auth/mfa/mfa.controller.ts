@@ -0,0 +1,70 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+} from '@nestjs/common';
+import { MfaService } from './mfa.service';
+import { MfaChallengeDto, MfaCodeDto } from './dto/mfa.dto';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import { RateLimit } from '../../rate-limit/rate-limit.decorator';
+import type { AuthUser } from '../interfaces/auth-user.interface';
+
+const MINUTE = 60 * 1000;
+
+// Codes are 6 digits - keep guessing them out of reach
+const CODE_RATE_LIMIT = {
+  limit: 10,
+  windowMs: 15 * MINUTE,
+  by: 'user',
+} as const;
+
+@Controller('auth/mfa')
+export class MfaController {
+  constructor(private readonly mfaService: MfaService) {}
+
+  @Get()
+  async getStatus(@CurrentUser() user: AuthUser) {
+    return this.mfaService.getStatus(user.id, user.sessionId);
+  }
+
+  @Post('enroll')
+  @RateLimit({ limit: 5, windowMs: 15 * MINUTE, by: 'user' })
+  @HttpCode(HttpStatus.OK)
+  async enroll(@CurrentUser() user: AuthUser) {
+    return this.mfaService.enroll(user);
+  }
+
+  @Post('activate')
+  @RateLimit(CODE_RATE_LIMIT)
+  @HttpCode(HttpStatus.OK)
+  async activate(@CurrentUser() user: AuthUser, @Body() dto: MfaCodeDto) {
+    return this.mfaService.activate(user, dto.code);
+  }
+
+  @Post('verify')
+  @RateLimit(CODE_RATE_LIMIT)
+  @HttpCode(HttpStatus.OK)
+  async verify(@CurrentUser() user: AuthUser, @Body() dto: MfaChallengeDto) {
+    return this.mfaService.verify(user, dto);
+  }
+
+  @Post('recovery-codes')
+  @RateLimit(CODE_RATE_LIMIT)
+  @HttpCode(HttpStatus.OK)
+  async regenerateRecoveryCodes(
+    @CurrentUser() user: AuthUser,
+    @Body() dto: MfaCodeDto,
+  ) {
+    return this.mfaService.regenerateRecoveryCodes(user, dto.code);
+  }
+
+  @Post('disable')
+  @RateLimit(CODE_RATE_LIMIT)
+  @HttpCode(HttpStatus.OK)
+  async disable(@CurrentUser() user: AuthUser, @Body() dto: MfaChallengeDto) {
+    return this.mfaService.disable(user, dto);
+  }
+}
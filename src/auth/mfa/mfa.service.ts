@@ -0,0 +1,416 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from 'crypto';
+import { SupabaseService } from '../../supabase/supabase.service';
+import type { AuthUser } from '../interfaces/auth-user.interface';
+import type { MfaChallengeDto } from './dto/mfa.dto';
+import { buildOtpAuthUrl, generateTotpSecret, verifyTotp } from './totp';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Recovery codes are compared case- and dash-insensitively
+const normalizeRecoveryCode = (code: string) =>
+  code.replace(/[\s-]+/g, '').toLowerCase();
+
+const hashRecoveryCode = (code: string) =>
+  createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+// xxxxx-xxxxx, hex
+const generateRecoveryCode = () => {
+  const raw = randomBytes(5).toString('hex');
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+};
+
+/**
+ * TOTP second factor. A user has at most one factor; it only counts once
+ * activated with a first code. Passing the factor marks the current session
+ * (user_sessions.mfa_verified_at), which MfaGuard checks on protected routes.
+ */
+@Injectable()
+export class MfaService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async getStatus(userId: string, sessionId?: string) {
+    const factor = await this.getFactor(userId);
+    const enabled = factor?.status === 'verified';
+
+    let recoveryCodesRemaining = 0;
+    if (enabled) {
+      const { count } = await this.supabaseService
+        .getServiceClient()
+        .from('user_mfa_recovery_codes')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('used_at', null);
+      recoveryCodesRemaining = count || 0;
+    }
+
+    return {
+      enabled,
+      enabledAt: enabled ? factor.verified_at : null,
+      sessionVerified: enabled
+        ? await this.isSessionVerified(userId, sessionId)
+        : false,
+      recoveryCodesRemaining,
+    };
+  }
+
+  /**
+   * Start enrollment: returns a new secret for the authenticator app. Calling
+   * it again before activation replaces the pending secret.
+   */
+  async enroll(user: AuthUser) {
+    const existing = await this.getFactor(user.id);
+    if (existing?.status === 'verified') {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    const { error } = await this.supabaseService
+      .getServiceClient()
+      .from('user_mfa_factors')
+      .upsert(
+        {
+          user_id: user.id,
+          factor_type: 'totp',
+          secret_encrypted: this.encrypt(secret),
+          status: 'unverified',
+          last_used_step: null,
+          verified_at: null,
+          created_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id,factor_type' },
+      );
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to start two-factor enrollment: ${error.message}`,
+      );
+    }
+
+    const issuer = process.env.MFA_ISSUER || 'Marketplace';
+    return {
+      secret,
+      otpauthUrl: buildOtpAuthUrl(issuer, user.email || user.id, secret),
+    };
+  }
+
+  // Finish enrollment with a first code; returns the recovery codes once
+  async activate(user: AuthUser, code: string) {
+    const factor = await this.getFactor(user.id);
+    if (!factor) {
+      throw new NotFoundException('Start two-factor enrollment first');
+    }
+    if (factor.status === 'verified') {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled',
+      );
+    }
+
+    const step = this.checkCode(factor, code);
+    if (step === null) {
+      throw new ForbiddenException('Invalid authentication code');
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await this.supabaseService
+      .getServiceClient()
+      .from('user_mfa_factors')
+      .update({ status: 'verified', verified_at: now, last_used_step: step })
+      .eq('id', factor.id);
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to enable two-factor authentication: ${error.message}`,
+      );
+    }
+
+    const recoveryCodes = await this.replaceRecoveryCodes(user.id);
+    await this.markSessionVerified(user.id, user.sessionId);
+
+    return {
+      enabled: true,
+      recoveryCodes,
+      message:
+        'Two-factor authentication enabled. Store the recovery codes somewhere safe; they are only shown once.',
+    };
+  }
+
+  // Step-up for the current session, with a code or a recovery code
+  async verify(user: AuthUser, challenge: MfaChallengeDto) {
+    await this.assertChallenge(user.id, challenge);
+    await this.markSessionVerified(user.id, user.sessionId);
+
+    return { verified: true };
+  }
+
+  async regenerateRecoveryCodes(user: AuthUser, code: string) {
+    await this.assertChallenge(user.id, { code });
+
+    return { recoveryCodes: await this.replaceRecoveryCodes(user.id) };
+  }
+
+  async disable(user: AuthUser, challenge: MfaChallengeDto) {
+    await this.assertChallenge(user.id, challenge);
+
+    const serviceClient = this.supabaseService.getServiceClient();
+    const { error } = await serviceClient
+      .from('user_mfa_factors')
+      .delete()
+      .eq('user_id', user.id);
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to disable two-factor authentication: ${error.message}`,
+      );
+    }
+
+    await serviceClient
+      .from('user_mfa_recovery_codes')
+      .delete()
+      .eq('user_id', user.id);
+    await serviceClient
+      .from('user_sessions')
+      .update({ mfa_verified_at: null })
+      .eq('user_id', user.id);
+
+    return { enabled: false, message: 'Two-factor authentication disabled' };
+  }
+
+  /**
+   * Step-up check shared by MfaGuard and routes that only know the caller is
+   * an admin once inside the handler: with a factor, the session must have
+   * passed it; without one, the caller is stopped only when enrollment is
+   * required.
+   */
+  async assertSessionVerified(user: AuthUser, enrollmentRequired: boolean) {
+    if (await this.hasVerifiedFactor(user.id)) {
+      if (await this.isSessionVerified(user.id, user.sessionId)) {
+        return;
+      }
+      throw new ForbiddenException({
+        message: 'Verify this session with your authentication code first',
+        code: 'MFA_REQUIRED',
+      });
+    }
+
+    if (enrollmentRequired) {
+      throw new ForbiddenException({
+        message: 'Enable two-factor authentication to continue',
+        code: 'MFA_ENROLLMENT_REQUIRED',
+      });
+    }
+  }
+
+  // Admin actions taken outside @AdminOnly() routes, checked like MfaGuard
+  // checks those routes
+  async assertAdminSession(user: AuthUser) {
+    await this.assertSessionVerified(
+      user,
+      process.env.MFA_REQUIRED_FOR_ADMIN === 'true',
+    );
+  }
+
+  async hasVerifiedFactor(userId: string): Promise<boolean> {
+    const factor = await this.getFactor(userId);
+    return factor?.status === 'verified';
+  }
+
+  async isSessionVerified(userId: string, sessionId?: string) {
+    if (!sessionId) {
+      return false;
+    }
+
+    const { data } = await this.supabaseService
+      .getServiceClient()
+      .from('user_sessions')
+      .select('mfa_verified_at')
+      .eq('session_id', sessionId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    return !!data?.mfa_verified_at;
+  }
+
+  private async getFactor(userId: string) {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('user_mfa_factors')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('factor_type', 'totp')
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch two-factor settings: ${error.message}`,
+      );
+    }
+
+    return data;
+  }
+
+  // The accepted time step, or null. Steps at or before the last used one
+  // are rejected so an intercepted code can't be replayed.
+  private checkCode(factor: any, code: string): number | null {
+    const step = verifyTotp(this.decrypt(factor.secret_encrypted), code);
+    if (step === null) {
+      return null;
+    }
+    if (factor.last_used_step !== null && step <= factor.last_used_step) {
+      return null;
+    }
+    return step;
+  }
+
+  private async assertChallenge(userId: string, challenge: MfaChallengeDto) {
+    if (!challenge.code && !challenge.recoveryCode) {
+      throw new BadRequestException(
+        'An authentication code or a recovery code is required',
+      );
+    }
+
+    const factor = await this.getFactor(userId);
+    if (factor?.status !== 'verified') {
+      throw new BadRequestException('Two-factor authentication is not enabled');
+    }
+
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    if (challenge.code) {
+      const step = this.checkCode(factor, challenge.code);
+      if (step === null) {
+        throw new ForbiddenException('Invalid authentication code');
+      }
+
+      // Only advance, so two requests with the same code can't both pass
+      let update = serviceClient
+        .from('user_mfa_factors')
+        .update({ last_used_step: step })
+        .eq('id', factor.id);
+      update =
+        factor.last_used_step === null
+          ? update.is('last_used_step', null)
+          : update.eq('last_used_step', factor.last_used_step);
+      const { data } = await update.select('id');
+
+      if (!data?.length) {
+        throw new ForbiddenException('Invalid authentication code');
+      }
+      return;
+    }
+
+    const { data } = await serviceClient
+      .from('user_mfa_recovery_codes')
+      .update({ used_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('code_hash', hashRecoveryCode(challenge.recoveryCode as string))
+      .is('used_at', null)
+      .select('id');
+
+    if (!data?.length) {
+      throw new ForbiddenException('Invalid recovery code');
+    }
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const serviceClient = this.supabaseService.getServiceClient();
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+      generateRecoveryCode(),
+    );
+
+    await serviceClient
+      .from('user_mfa_recovery_codes')
+      .delete()
+      .eq('user_id', userId);
+
+    const { error } = await serviceClient
+      .from('user_mfa_recovery_codes')
+      .insert(
+        codes.map((code) => ({
+          user_id: userId,
+          code_hash: hashRecoveryCode(code),
+        })),
+      );
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to create recovery codes: ${error.message}`,
+      );
+    }
+
+    return codes;
+  }
+
+  private async markSessionVerified(userId: string, sessionId?: string) {
+    if (!sessionId) {
+      return;
+    }
+
+    const { error } = await this.supabaseService
+      .getServiceClient()
+      .from('user_sessions')
+      .upsert(
+        {
+          session_id: sessionId,
+          user_id: userId,
+          mfa_verified_at: new Date().toISOString(),
+        },
+        { onConflict: 'session_id' },
+      );
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to verify session: ${error.message}`,
+      );
+    }
+  }
+
+  // Secrets are stored AES-256-GCM encrypted with MFA_ENCRYPTION_KEY
+  private encryptionKey() {
+    const key = process.env.MFA_ENCRYPTION_KEY;
+    if (!key) {
+      throw new InternalServerErrorException(
+        'Two-factor authentication is not configured',
+      );
+    }
+    return createHash('sha256').update(key).digest();
+  }
+
+  private encrypt(secret: string) {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    const encrypted = Buffer.concat([
+      cipher.update(secret, 'utf8'),
+      cipher.final(),
+    ]);
+    return [iv, cipher.getAuthTag(), encrypted]
+      .map((part) => part.toString('base64url'))
+      .join('.');
+  }
+
+  private decrypt(payload: string) {
+    const [iv, tag, encrypted] = payload
+      .split('.')
+      .map((part) => Buffer.from(part, 'base64url'));
+    const decipher = createDecipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(encrypted),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+}
@@ -0,0 +1,57 @@
+import { buildOtpAuthUrl, generateTotpSecret, verifyTotp } from './totp';
+
+// RFC 6238 appendix B SHA-1 seed ("12345678901234567890"), base32 encoded
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const STEP_MS = 30 * 1000;
+
+describe('totp', () => {
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('matches the RFC 6238 vector at %i', (seconds, code) => {
+    expect(verifyTotp(RFC_SECRET, code, 0, seconds * 1000)).toBe(
+      Math.floor(seconds / 30),
+    );
+  });
+
+  it('allows one step of clock drift either way by default', () => {
+    const now = 1111111109 * 1000;
+
+    expect(verifyTotp(RFC_SECRET, '081804', 1, now - STEP_MS)).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, '081804', 1, now + STEP_MS)).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, '081804', 1, now + 2 * STEP_MS)).toBeNull();
+  });
+
+  it('ignores whitespace and rejects anything but six digits', () => {
+    const now = 1234567890 * 1000;
+
+    expect(verifyTotp(RFC_SECRET, '005 924', 1, now)).not.toBeNull();
+    expect(verifyTotp(RFC_SECRET, '5924', 1, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '00592a', 1, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '000000', 1, now)).toBeNull();
+  });
+
+  it('generates random 160-bit base32 secrets', () => {
+    const secret = generateTotpSecret();
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+
+  it('builds an otpauth URL for authenticator apps', () => {
+    const url = buildOtpAuthUrl('Marketplace', 'buyer@example.com', RFC_SECRET);
+    const [label, query] = url.split('?');
+
+    expect(label).toBe('otpauth://totp/Marketplace%3Abuyer%40example.com');
+    expect(Object.fromEntries(new URLSearchParams(query))).toEqual({
+      secret: RFC_SECRET,
+      issuer: 'Marketplace',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    });
+  });
+});
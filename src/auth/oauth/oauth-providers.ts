@@ -0,0 +1,28 @@
+import type { Provider } from '@supabase/supabase-js';
+
+interface OAuthProviderConfig {
+  // Supabase's name for the provider
+  provider: Provider;
+  // Extra scopes beyond the provider's defaults
+  scopes?: string;
+}
+
+/**
+ * Social logins the API knows how to start. Each still has to be enabled in
+ * the Supabase dashboard and listed in OAUTH_PROVIDERS (comma separated,
+ * defaults to google,facebook).
+ */
+export const OAUTH_PROVIDERS: Record<string, OAuthProviderConfig> = {
+  google: { provider: 'google' },
+  facebook: { provider: 'facebook', scopes: 'email' },
+  apple: { provider: 'apple' },
+  // Microsoft accounts go through Supabase's Azure provider, which only
+  // returns the email address when asked for it
+  microsoft: { provider: 'azure', scopes: 'email' },
+};
+
+export const getEnabledOAuthProviders = (): string[] =>
+  (process.env.OAUTH_PROVIDERS || 'google,facebook')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter((name) => name in OAUTH_PROVIDERS);
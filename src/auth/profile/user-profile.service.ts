@@ -0,0 +1,113 @@
+import { Injectable } from '@nestjs/common';
+import type { User } from '@supabase/supabase-js';
+import { SupabaseService } from '../../supabase/supabase.service';
+
+// How long a reconciled user is trusted before the next check. Unverified
+// users are rechecked sooner so a confirmed email shows up quickly.
+const VERIFIED_RECHECK_MS = 60 * 60 * 1000;
+const UNVERIFIED_RECHECK_MS = 5 * 60 * 1000;
+
+/**
+ * Keeps the public `users` row in line with the Supabase auth user: creates
+ * it when signup could not, and copies over email confirmation and confirmed
+ * email changes, which only ever happen on the Supabase side.
+ */
+@Injectable()
+export class UserProfileService {
+  // user id -> epoch ms of the next reconciliation
+  private readonly checkedUntil = new Map<string, number>();
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  /**
+   * Called by AuthGuard on authenticated requests. Cheap after the first
+   * call per user; failures are logged and never block the request.
+   */
+  async reconcile(userId: string): Promise<void> {
+    const checkedUntil = this.checkedUntil.get(userId);
+    if (checkedUntil && checkedUntil > Date.now()) {
+      return;
+    }
+
+    try {
+      const serviceClient = this.supabaseService.getServiceClient();
+
+      const { data: profile } = await serviceClient
+        .from('users')
+        .select('id, email, is_email_verified')
+        .eq('id', userId)
+        .maybeSingle();
+
+      const { data, error } =
+        await serviceClient.auth.admin.getUserById(userId);
+      if (error || !data.user) {
+        console.error('Failed to load auth user for reconciliation:', error);
+        return;
+      }
+
+      const authUser = data.user;
+      if (!profile) {
+        await this.createProfile(authUser);
+      } else if (
+        profile.email !== authUser.email ||
+        profile.is_email_verified !== !!authUser.email_confirmed_at
+      ) {
+        const { error: updateError } = await serviceClient
+          .from('users')
+          .update({
+            email: authUser.email,
+            is_email_verified: !!authUser.email_confirmed_at,
+            email_verified_at: authUser.email_confirmed_at || null,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', userId);
+
+        if (updateError) {
+          console.error('Failed to reconcile users row:', updateError);
+        }
+      }
+
+      this.checkedUntil.set(
+        userId,
+        Date.now() +
+          (authUser.email_confirmed_at
+            ? VERIFIED_RECHECK_MS
+            : UNVERIFIED_RECHECK_MS),
+      );
+    } catch (error) {
+      console.error('Failed to reconcile users row:', error);
+    }
+  }
+
+  // Insert the users row for a new auth user. Existing rows are left alone.
+  async createProfile(authUser: User, fullName?: string): Promise<void> {
+    const serviceClient = this.supabaseService.getServiceClient();
+    const metadata = authUser.user_metadata || {};
+
+    const { error } = await serviceClient.from('users').upsert(
+      {
+        id: authUser.id,
+        full_name:
+          fullName ||
+          metadata.full_name ||
+          metadata.name ||
+          authUser.email?.split('@')[0] ||
+          'User',
+        email: authUser.email,
+        avatar_url: metadata.avatar_url || null,
+        is_email_verified: !!authUser.email_confirmed_at,
+        email_verified_at: authUser.email_confirmed_at || null,
+      },
+      { onConflict: 'id', ignoreDuplicates: true },
+    );
+
+    if (error) {
+      console.error('Failed to create users row:', error);
+    }
+  }
+
+  // Forget a user, e.g. after the account was deleted
+  forget(userId: string) {
+    this.checkedUntil.delete(userId);
+  }
+}
@@ -0,0 +1,182 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { UserRole } from './user-roles';
+import type { BrandType } from '../interfaces/auth-user.interface';
+
+// Roles are looked up on every authenticated request, so keep them briefly
+const ROLE_CACHE_TTL_MS = 30 * 1000;
+
+@Injectable()
+export class UserRolesService {
+  private readonly cache = new Map<
+    string,
+    { roles: UserRole[]; expiresAt: number }
+  >();
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  /**
+   * Roles granted to a user in user_roles. Never derived from
+   * user_metadata, which users can edit themselves.
+   */
+  async getRoles(userId: string): Promise<UserRole[]> {
+    const cached = this.cache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.roles;
+    }
+
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data, error } = await serviceClient
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userId);
+
+    if (error) {
+      // Fail closed - no roles rather than stale or guessed ones
+      console.error('Failed to fetch user roles:', error);
+      return [];
+    }
+
+    const roles = (data || []).map((row: any) => row.role as UserRole);
+    this.cache.set(userId, {
+      roles,
+      expiresAt: Date.now() + ROLE_CACHE_TTL_MS,
+    });
+    return roles;
+  }
+
+  // Raw user_roles rows for the admin endpoints
+  async getRoleAssignments(userId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data, error } = await serviceClient
+      .from('user_roles')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch user roles: ${error.message}`,
+      );
+    }
+
+    return data || [];
+  }
+
+  async listUsersWithRole(role: UserRole, page = 1, limit = 20) {
+    const serviceClient = this.supabaseService.getServiceClient();
+    const offset = (page - 1) * limit;
+
+    const { data, error, count } = await serviceClient
+      .from('user_roles')
+      .select('*', { count: 'exact' })
+      .eq('role', role)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch user roles: ${error.message}`,
+      );
+    }
+
+    return {
+      data: data || [],
+      pagination: {
+        page,
+        limit,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / limit),
+      },
+    };
+  }
+
+  /**
+   * Grant a role. Idempotent - granting a role the user already has returns
+   * the existing assignment. `grantedBy` is null for system grants.
+   */
+  async grantRole(userId: string, role: UserRole, grantedBy: string | null) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data: existing } = await serviceClient
+      .from('user_roles')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('role', role)
+      .maybeSingle();
+
+    if (existing) {
+      return existing;
+    }
+
+    const { data, error } = await serviceClient
+      .from('user_roles')
+      .insert({ user_id: userId, role, granted_by: grantedBy })
+      .select()
+      .single();
+
+    if (error) {
+      throw new BadRequestException(`Failed to grant role: ${error.message}`);
+    }
+
+    this.cache.delete(userId);
+    return data;
+  }
+
+  async revokeRole(userId: string, role: UserRole) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data, error } = await serviceClient
+      .from('user_roles')
+      .delete()
+      .eq('user_id', userId)
+      .eq('role', role)
+      .select();
+
+    if (error) {
+      throw new BadRequestException(`Failed to revoke role: ${error.message}`);
+    }
+
+    this.cache.delete(userId);
+
+    if (!data || data.length === 0) {
+      throw new NotFoundException(`User does not have the ${role} role`);
+    }
+
+    return { message: `Role ${role} revoked successfully` };
+  }
+
+  /**
+   * Keep wholesale_owner/retail_owner in line with brand approval. Failures
+   * are logged only - the brand status change itself has already happened.
+   */
+  async syncBrandOwnerRole(userId: string, type: BrandType, approved: boolean) {
+    const serviceClient = this.supabaseService.getServiceClient();
+    const role: UserRole = `${type}_owner`;
+
+    const { error } = approved
+      ? await serviceClient
+          .from('user_roles')
+          .upsert(
+            { user_id: userId, role },
+            { onConflict: 'user_id,role', ignoreDuplicates: true },
+          )
+      : await serviceClient
+          .from('user_roles')
+          .delete()
+          .eq('user_id', userId)
+          .eq('role', role);
+
+    if (error) {
+      console.error(`Failed to sync ${role} role:`, error);
+    }
+
+    this.cache.delete(userId);
+  }
+}
@@ -0,0 +1,13 @@
+export const USER_ROLES = [
+  'admin',
+  'moderator',
+  'support',
+  'wholesale_owner',
+  'retail_owner',
+  'brand_staff',
+] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const isUserRole = (value: string): value is UserRole =>
+  (USER_ROLES as readonly string[]).includes(value);
@@ -0,0 +1,28 @@
+import { Controller, Delete, Get, Param, ParseUUIDPipe } from '@nestjs/common';
+import { SessionsService } from './sessions.service';
+import { CurrentUser } from '../decorators/current-user.decorator';
+import type { AuthUser } from '../interfaces/auth-user.interface';
+
+@Controller('auth/sessions')
+export class SessionsController {
+  constructor(private readonly sessionsService: SessionsService) {}
+
+  @Get()
+  async getSessions(@CurrentUser() user: AuthUser) {
+    return this.sessionsService.getSessions(user.id, user.sessionId);
+  }
+
+  // Sign out of every session except the one making this request
+  @Delete()
+  async revokeOtherSessions(@CurrentUser() user: AuthUser) {
+    return this.sessionsService.revokeOtherSessions(user.id, user.sessionId);
+  }
+
+  @Delete(':sessionId')
+  async revokeSession(
+    @CurrentUser('id') userId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+  ) {
+    return this.sessionsService.revokeSession(userId, sessionId);
+  }
+}
@@ -0,0 +1,170 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { TokenRevocationService } from '../jwt/token-revocation.service';
+import { describeUserAgent } from './user-agent';
+
+// last_seen_at is written at most this often per session
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface SessionClient {
+  ip?: string;
+  userAgent?: string;
+}
+
+// session_id claim of a Supabase access token, without verifying it - only
+// for tokens Supabase has just issued to us
+export const readSessionId = (accessToken?: string): string | undefined => {
+  try {
+    const payload = JSON.parse(
+      Buffer.from(accessToken?.split('.')[1] || '', 'base64url').toString(
+        'utf8',
+      ),
+    );
+    return typeof payload.session_id === 'string'
+      ? payload.session_id
+      : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+@Injectable()
+export class SessionsService {
+  // session id -> epoch ms of the last last_seen_at write
+  private readonly touchedAt = new Map<string, number>();
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly tokenRevocationService: TokenRevocationService,
+  ) {}
+
+  /**
+   * Record that a session was used from `client`. Called on login/refresh
+   * and by AuthGuard on authenticated requests (throttled, so sessions
+   * started outside the API are picked up too). Failures are only logged.
+   */
+  async touch(
+    userId: string,
+    sessionId: string | undefined,
+    client: SessionClient,
+    force = false,
+  ) {
+    if (!sessionId) {
+      return;
+    }
+
+    const now = Date.now();
+    const touchedAt = this.touchedAt.get(sessionId);
+    if (!force && touchedAt && now - touchedAt < TOUCH_INTERVAL_MS) {
+      return;
+    }
+    this.touchedAt.set(sessionId, now);
+
+    const serviceClient = this.supabaseService.getServiceClient();
+    const { error } = await serviceClient.from('user_sessions').upsert(
+      {
+        session_id: sessionId,
+        user_id: userId,
+        user_agent: client.userAgent || null,
+        device: describeUserAgent(client.userAgent),
+        ip_address: client.ip || null,
+        last_seen_at: new Date(now).toISOString(),
+      },
+      { onConflict: 'session_id' },
+    );
+
+    if (error) {
+      console.error('Failed to record session:', error);
+    }
+  }
+
+  async getSessions(userId: string, currentSessionId?: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data, error } = await serviceClient.rpc(
+      'get_active_user_sessions',
+      { p_user_id: userId },
+    );
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch sessions: ${error.message}`,
+      );
+    }
+
+    return (data || []).map((session: any) => ({
+      id: session.session_id,
+      device: session.device,
+      userAgent: session.user_agent,
+      ipAddress: session.ip_address,
+      createdAt: session.created_at,
+      lastSeenAt: session.last_seen_at,
+      current: session.session_id === currentSessionId,
+    }));
+  }
+
+  async revokeSession(userId: string, sessionId: string) {
+    const revoked = await this.revoke(userId, [sessionId]);
+
+    if (revoked.length === 0) {
+      throw new NotFoundException('Session not found');
+    }
+
+    return { message: 'Session revoked successfully' };
+  }
+
+  // Log out everywhere except the current session
+  async revokeOtherSessions(userId: string, currentSessionId?: string) {
+    if (!currentSessionId) {
+      throw new BadRequestException('Current session could not be determined');
+    }
+
+    const revoked = await this.revoke(userId, null, currentSessionId);
+
+    return {
+      revoked: revoked.length,
+      message: 'Signed out of all other sessions',
+    };
+  }
+
+  /**
+   * End every session of a user, e.g. after a password reset. Access tokens
+   * already handed out are rejected through TokenRevocationService.
+   */
+  async revokeAllSessions(userId: string) {
+    this.tokenRevocationService.revokeUserTokens(userId);
+    await this.revoke(userId, null);
+  }
+
+  private async revoke(
+    userId: string,
+    sessionIds: string[] | null,
+    exceptSessionId?: string,
+  ): Promise<string[]> {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data, error } = await serviceClient.rpc('revoke_user_sessions', {
+      p_user_id: userId,
+      p_session_ids: sessionIds,
+      p_except_session_id: exceptSessionId || null,
+    });
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to revoke sessions: ${error.message}`,
+      );
+    }
+
+    // SETOF uuid comes back as a list of ids
+    const revoked = (data || []) as string[];
+    for (const sessionId of revoked) {
+      this.tokenRevocationService.revokeSession(sessionId);
+      this.touchedAt.delete(sessionId);
+    }
+    return revoked;
+  }
+}
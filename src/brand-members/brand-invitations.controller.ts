@@ -0,0 +1,21 @@
+import { Body, Controller, HttpCode, HttpStatus, Post } from '@nestjs/common';
+import { BrandMembersService } from './brand-members.service';
+import { AcceptBrandInvitationDto } from './dto/brand-member.dto';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+
+// Team management lives under wholesale-brands/retail-brands my-brand routes;
+// accepting works for both brand types, the token identifies the brand
+@Controller('brand-invitations')
+export class BrandInvitationsController {
+  constructor(private readonly brandMembersService: BrandMembersService) {}
+
+  @Post('accept')
+  @HttpCode(HttpStatus.OK)
+  async acceptInvitation(
+    @Body() acceptInvitationDto: AcceptBrandInvitationDto,
+    @CurrentUser() user: AuthUser,
+  ) {
+    return this.brandMembersService.acceptInvitation(user, acceptInvitationDto);
+  }
+}
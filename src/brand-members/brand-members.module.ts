@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { BrandMembersService } from './brand-members.service';
+import { BrandInvitationsController } from './brand-invitations.controller';
+import { SupabaseModule } from '../supabase/supabase.module';
+
+@Module({
+  imports: [SupabaseModule],
+  controllers: [BrandInvitationsController],
+  providers: [BrandMembersService],
+  exports: [BrandMembersService],
+})
+export class BrandMembersModule {}
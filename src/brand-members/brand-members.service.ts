@@ -0,0 +1,470 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  BrandMemberRole,
+  BrandPermission,
+  BRAND_ROLE_PERMISSIONS,
+  hasBrandPermission,
+} from './brand-members';
+import {
+  AcceptBrandInvitationDto,
+  InviteBrandMemberDto,
+} from './dto/brand-member.dto';
+import type {
+  AuthBrand,
+  BrandType,
+} from '../auth/interfaces/auth-user.interface';
+
+const BRAND_TABLES: Record<BrandType, string> = {
+  wholesale: 'wholesale_brands',
+  retail: 'retail_brands',
+};
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface BrandMembership {
+  memberId: string;
+  brandId: string;
+  brandType: BrandType;
+  brandStatus: string;
+  role: BrandMemberRole;
+}
+
+// The member performing a team change
+interface BrandActor {
+  userId: string;
+  brand: AuthBrand;
+}
+
+const hashToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+@Injectable()
+export class BrandMembersService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  /**
+   * The brand of the given type the user belongs to, whatever its approval
+   * status, or null.
+   */
+  async getMembership(
+    userId: string,
+    type: BrandType,
+  ): Promise<BrandMembership | null> {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data: member, error } = await serviceClient
+      .from('brand_members')
+      .select('id, brand_id, role')
+      .eq('brand_type', type)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch brand membership: ${error.message}`,
+      );
+    }
+
+    if (!member) {
+      return null;
+    }
+
+    const { data: brand } = await serviceClient
+      .from(BRAND_TABLES[type])
+      .select('id, status')
+      .eq('id', member.brand_id)
+      .maybeSingle();
+
+    if (!brand) {
+      return null;
+    }
+
+    return {
+      memberId: member.id,
+      brandId: brand.id,
+      brandType: type,
+      brandStatus: brand.status,
+      role: member.role,
+    };
+  }
+
+  // Like getMembership, but throws unless the member's role grants `permission`
+  async requireMembership(
+    userId: string,
+    type: BrandType,
+    permission?: BrandPermission,
+  ): Promise<BrandMembership> {
+    const membership = await this.getMembership(userId, type);
+
+    if (!membership) {
+      throw new ForbiddenException('You do not have a registered brand');
+    }
+
+    if (permission && !hasBrandPermission(membership.role, permission)) {
+      throw new ForbiddenException(
+        'Your brand role does not allow this action',
+      );
+    }
+
+    return membership;
+  }
+
+  async getMembers(type: BrandType, brandId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data: members, error } = await serviceClient
+      .from('brand_members')
+      .select('*')
+      .eq('brand_type', type)
+      .eq('brand_id', brandId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch brand members: ${error.message}`,
+      );
+    }
+
+    // brand_members references auth.users, so profiles are fetched separately
+    const userIds = (members || []).map((member: any) => member.user_id);
+    const { data: users } = userIds.length
+      ? await serviceClient
+          .from('users')
+          .select('id, full_name, email, avatar_url')
+          .in('id', userIds)
+      : { data: [] };
+    const usersById = new Map((users || []).map((u: any) => [u.id, u]));
+
+    return (members || []).map((member: any) => {
+      const user: any = usersById.get(member.user_id);
+      return {
+        id: member.id,
+        userId: member.user_id,
+        fullName: user?.full_name || null,
+        email: user?.email || null,
+        avatarUrl: user?.avatar_url || null,
+        role: member.role,
+        permissions: BRAND_ROLE_PERMISSIONS[member.role as BrandMemberRole],
+        createdAt: member.created_at,
+      };
+    });
+  }
+
+  async getInvitations(type: BrandType, brandId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data, error } = await serviceClient
+      .from('brand_invitations')
+      .select('*')
+      .eq('brand_type', type)
+      .eq('brand_id', brandId)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch invitations: ${error.message}`,
+      );
+    }
+
+    return (data || []).map((invitation: any) =>
+      this.mapInvitation(invitation),
+    );
+  }
+
+  /**
+   * Invite someone by email. The token is only returned here (we store its
+   * hash), so the caller is responsible for getting the accept link to the
+   * invitee. Inviting the same email again replaces the earlier invitation.
+   */
+  async inviteMember(actor: BrandActor, dto: InviteBrandMemberDto) {
+    const serviceClient = this.supabaseService.getServiceClient();
+    const { brand } = actor;
+    const email = dto.email.trim().toLowerCase();
+
+    this.assertCanAssignRole(actor, dto.role);
+
+    const { data: existingUser } = await serviceClient
+      .from('users')
+      .select('id')
+      .eq('email', email)
+      .maybeSingle();
+
+    if (existingUser) {
+      const { data: existingMember } = await serviceClient
+        .from('brand_members')
+        .select('id')
+        .eq('brand_type', brand.type)
+        .eq('brand_id', brand.id)
+        .eq('user_id', existingUser.id)
+        .maybeSingle();
+
+      if (existingMember) {
+        throw new ConflictException('This user is already a team member');
+      }
+    }
+
+    await serviceClient
+      .from('brand_invitations')
+      .update({ status: 'revoked' })
+      .eq('brand_type', brand.type)
+      .eq('brand_id', brand.id)
+      .eq('email', email)
+      .eq('status', 'pending');
+
+    const token = randomBytes(32).toString('base64url');
+
+    const { data, error } = await serviceClient
+      .from('brand_invitations')
+      .insert({
+        brand_type: brand.type,
+        brand_id: brand.id,
+        email,
+        role: dto.role,
+        token_hash: hashToken(token),
+        invited_by: actor.userId,
+        expires_at: new Date(Date.now() + INVITATION_TTL_MS).toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to create invitation: ${error.message}`,
+      );
+    }
+
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    return {
+      ...this.mapInvitation(data),
+      token,
+      acceptUrl: `${frontendUrl}/brand-invitations/accept?token=${token}`,
+    };
+  }
+
+  async revokeInvitation(brand: AuthBrand, invitationId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data, error } = await serviceClient
+      .from('brand_invitations')
+      .update({ status: 'revoked' })
+      .eq('id', invitationId)
+      .eq('brand_type', brand.type)
+      .eq('brand_id', brand.id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to revoke invitation: ${error.message}`,
+      );
+    }
+
+    if (!data) {
+      throw new NotFoundException('Invitation not found');
+    }
+
+    return { message: 'Invitation revoked successfully' };
+  }
+
+  /**
+   * Join the brand an invitation is for. The invitation must be addressed to
+   * the caller's email, and the caller must not already work for another
+   * brand of the same type.
+   */
+  async acceptInvitation(
+    user: { id: string; email?: string },
+    dto: AcceptBrandInvitationDto,
+  ) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data: invitation, error } = await serviceClient
+      .from('brand_invitations')
+      .select('*')
+      .eq('token_hash', hashToken(dto.token))
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch invitation: ${error.message}`,
+      );
+    }
+
+    if (
+      !invitation ||
+      invitation.status !== 'pending' ||
+      new Date(invitation.expires_at).getTime() < Date.now()
+    ) {
+      throw new NotFoundException('Invitation is invalid or has expired');
+    }
+
+    if (invitation.email !== user.email?.toLowerCase()) {
+      throw new ForbiddenException(
+        'This invitation was sent to a different email address',
+      );
+    }
+
+    const existing = await this.getMembership(user.id, invitation.brand_type);
+    if (existing) {
+      throw new ConflictException(
+        `You are already a member of a ${invitation.brand_type} brand`,
+      );
+    }
+
+    const { data: member, error: memberError } = await serviceClient
+      .from('brand_members')
+      .insert({
+        brand_type: invitation.brand_type,
+        brand_id: invitation.brand_id,
+        user_id: user.id,
+        role: invitation.role,
+        invited_by: invitation.invited_by,
+      })
+      .select()
+      .single();
+
+    if (memberError) {
+      throw new BadRequestException(
+        `Failed to join brand: ${memberError.message}`,
+      );
+    }
+
+    await serviceClient
+      .from('brand_invitations')
+      .update({
+        status: 'accepted',
+        accepted_by: user.id,
+        accepted_at: new Date().toISOString(),
+      })
+      .eq('id', invitation.id);
+
+    return {
+      brandType: member.brand_type,
+      brandId: member.brand_id,
+      role: member.role,
+      message: 'You have joined the brand team',
+    };
+  }
+
+  async updateMemberRole(
+    actor: BrandActor,
+    memberId: string,
+    role: BrandMemberRole,
+  ) {
+    const serviceClient = this.supabaseService.getServiceClient();
+    const member = await this.getMemberRow(actor.brand, memberId);
+
+    this.assertCanAssignRole(actor, member.role);
+    this.assertCanAssignRole(actor, role);
+
+    if (member.role === 'owner' && role !== 'owner') {
+      await this.assertNotLastOwner(actor.brand);
+    }
+
+    const { data, error } = await serviceClient
+      .from('brand_members')
+      .update({ role, updated_at: new Date().toISOString() })
+      .eq('id', member.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to update team member: ${error.message}`,
+      );
+    }
+
+    return {
+      id: data.id,
+      userId: data.user_id,
+      role: data.role,
+      permissions: BRAND_ROLE_PERMISSIONS[data.role as BrandMemberRole],
+    };
+  }
+
+  async removeMember(actor: BrandActor, memberId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+    const member = await this.getMemberRow(actor.brand, memberId);
+
+    this.assertCanAssignRole(actor, member.role);
+
+    if (member.role === 'owner') {
+      await this.assertNotLastOwner(actor.brand);
+    }
+
+    const { error } = await serviceClient
+      .from('brand_members')
+      .delete()
+      .eq('id', member.id);
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to remove team member: ${error.message}`,
+      );
+    }
+
+    return { message: 'Team member removed successfully' };
+  }
+
+  private async getMemberRow(brand: AuthBrand, memberId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data: member } = await serviceClient
+      .from('brand_members')
+      .select('*')
+      .eq('id', memberId)
+      .eq('brand_type', brand.type)
+      .eq('brand_id', brand.id)
+      .maybeSingle();
+
+    if (!member) {
+      throw new NotFoundException('Team member not found');
+    }
+
+    return member;
+  }
+
+  // Only owners can hand out, change or take away the owner role
+  private assertCanAssignRole(actor: BrandActor, role: BrandMemberRole) {
+    if (role === 'owner' && actor.brand.role !== 'owner') {
+      throw new ForbiddenException('Only owners can manage brand owners');
+    }
+  }
+
+  // A brand must always keep at least one owner
+  private async assertNotLastOwner(brand: AuthBrand) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { count } = await serviceClient
+      .from('brand_members')
+      .select('id', { count: 'exact', head: true })
+      .eq('brand_type', brand.type)
+      .eq('brand_id', brand.id)
+      .eq('role', 'owner');
+
+    if ((count || 0) <= 1) {
+      throw new BadRequestException('A brand must keep at least one owner');
+    }
+  }
+
+  private mapInvitation(invitation: any) {
+    return {
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      status: invitation.status,
+      expiresAt: invitation.expires_at,
+      createdAt: invitation.created_at,
+    };
+  }
+}
@@ -0,0 +1,46 @@
+export const BRAND_MEMBER_ROLES = [
+  'owner',
+  'manager',
+  'catalog_editor',
+  'fulfilment',
+] as const;
+
+export type BrandMemberRole = (typeof BRAND_MEMBER_ROLES)[number];
+
+export type BrandPermission =
+  | 'brand:manage'
+  | 'members:manage'
+  | 'catalog:write'
+  | 'orders:read'
+  | 'orders:fulfil'
+  | 'analytics:read';
+
+// What each brand role may do. Only owners can add, change or remove owners.
+export const BRAND_ROLE_PERMISSIONS: Record<
+  BrandMemberRole,
+  BrandPermission[]
+> = {
+  owner: [
+    'brand:manage',
+    'members:manage',
+    'catalog:write',
+    'orders:read',
+    'orders:fulfil',
+    'analytics:read',
+  ],
+  manager: [
+    'brand:manage',
+    'members:manage',
+    'catalog:write',
+    'orders:read',
+    'orders:fulfil',
+    'analytics:read',
+  ],
+  catalog_editor: ['catalog:write'],
+  fulfilment: ['orders:read', 'orders:fulfil'],
+};
+
+export const hasBrandPermission = (
+  role: BrandMemberRole,
+  permission: BrandPermission,
+) => BRAND_ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
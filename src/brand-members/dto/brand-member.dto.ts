@@ -0,0 +1,22 @@
+import { IsEmail, IsIn, IsNotEmpty, IsString } from 'class-validator';
+import { BRAND_MEMBER_ROLES } from '../brand-members';
+import type { BrandMemberRole } from '../brand-members';
+
+export class InviteBrandMemberDto {
+  @IsEmail()
+  email: string;
+
+  @IsIn(BRAND_MEMBER_ROLES)
+  role: BrandMemberRole;
+}
+
+export class UpdateBrandMemberDto {
+  @IsIn(BRAND_MEMBER_ROLES)
+  role: BrandMemberRole;
+}
+
+export class AcceptBrandInvitationDto {
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+}
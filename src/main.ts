@@ -1,17 +1,28 @@
 import 'dotenv/config';
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 // Import class-transformer to ensure it's available for ValidationPipe
 import 'class-transformer';
 
 async function bootstrap() {
   // Create app with body parser enabled for JSON, but multer will handle multipart
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     bodyParser: true,
     rawBody: false,
   });
-  
+
+  // Behind a load balancer, client ips (used by rate limits) come from
+  // X-Forwarded-For. TRUST_PROXY is the number of proxy hops, or "true".
+  if (process.env.TRUST_PROXY) {
+    const hops = parseInt(process.env.TRUST_PROXY, 10);
+    app.set(
+      'trust proxy',
+      Number.isNaN(hops) ? process.env.TRUST_PROXY === 'true' : hops,
+    );
+  }
+
   // Enable CORS for frontend
   app.enableCors({
     origin: process.env.FRONTEND_URL || 'http://localhost:3000',
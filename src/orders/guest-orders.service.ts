@@ -0,0 +1,75 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+
+@Injectable()
+export class GuestOrdersService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  /**
+   * Attach guest orders placed with the user's email to their account. Only
+   * verified emails qualify - otherwise anyone could sign up with someone
+   * else's address and collect their orders.
+   */
+  async claimGuestOrders(userId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data: user } = await serviceClient
+      .from('users')
+      .select('email, is_email_verified')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (!user) {
+      throw new NotFoundException('User profile not found');
+    }
+
+    if (!user.is_email_verified) {
+      throw new ForbiddenException(
+        'Please verify your email before claiming orders',
+      );
+    }
+
+    const email = String(user.email).toLowerCase();
+    const claimed: Record<string, number> = {};
+
+    for (const [type, table] of [
+      ['wholesale', 'wholesale_orders'],
+      ['retail', 'retail_orders'],
+    ]) {
+      const update: Record<string, any> = {
+        user_id: userId,
+        updated_at: new Date().toISOString(),
+      };
+      if (type === 'wholesale') {
+        // The account replaces the token from now on
+        update.tracking_token_hash = null;
+      }
+
+      const { data, error } = await serviceClient
+        .from(table)
+        .update(update)
+        .is('user_id', null)
+        .eq('customer_email', email)
+        .is('customer_anonymized_at', null)
+        .select('id');
+
+      if (error) {
+        console.error(`Failed to claim ${type} orders:`, error);
+      }
+
+      claimed[type] = data?.length || 0;
+    }
+
+    return {
+      claimed,
+      message:
+        claimed.wholesale + claimed.retail > 0
+          ? 'Your previous orders have been added to your account'
+          : 'No guest orders found for your email',
+    };
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { OrderLifecycleService } from './order-lifecycle.service';
+import { GuestOrdersService } from './guest-orders.service';
+import { SupabaseModule } from '../supabase/supabase.module';
+
+@Module({
+  imports: [SupabaseModule],
+  providers: [OrderLifecycleService, GuestOrdersService],
+  exports: [OrderLifecycleService, GuestOrdersService],
+})
+export class OrderLifecycleModule {}
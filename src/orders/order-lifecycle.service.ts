@@ -0,0 +1,187 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import {
+  OrderActor,
+  OrderRequester,
+  OrderStatus,
+  OrderType,
+  ORDER_STATUS_TIMESTAMPS,
+  ORDER_TRANSITIONS,
+  getAllowedTransitions,
+  isOrderStatus,
+} from './order-lifecycle';
+
+const ORDER_TABLES: Record<OrderType, string> = {
+  wholesale: 'wholesale_orders',
+  retail: 'retail_orders',
+};
+
+@Injectable()
+export class OrderLifecycleService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  /**
+   * Decide which role the requester acts in for this order: admins always act
+   * as admin, brand owners only for orders containing their products, and
+   * buyers only for their own orders. Anyone else gets a 404.
+   */
+  resolveActor(
+    order: any,
+    requester: OrderRequester,
+    hasBrandProducts: boolean,
+  ): OrderActor {
+    if (requester.isAdmin) {
+      return { role: 'admin', userId: requester.userId };
+    }
+
+    if (requester.brandId && hasBrandProducts) {
+      return { role: 'brand_owner', userId: requester.userId };
+    }
+
+    if (order.user_id && order.user_id === requester.userId) {
+      return { role: 'buyer', userId: requester.userId };
+    }
+
+    throw new NotFoundException('Order not found');
+  }
+
+  /**
+   * Throws unless `actor` may move an order from its current status to `to`.
+   * `order` is the raw orders row (status, payment_status).
+   */
+  assertTransition(order: any, to: string, actor: OrderActor) {
+    const from = order.status;
+
+    if (!isOrderStatus(to)) {
+      throw new BadRequestException(`Invalid order status: ${to}`);
+    }
+
+    if (!isOrderStatus(from) || !ORDER_TRANSITIONS[from][to]) {
+      throw new BadRequestException({
+        message: `Cannot change order status from ${from} to ${to}`,
+        code: 'ORDER_INVALID_TRANSITION',
+        allowed: isOrderStatus(from)
+          ? getAllowedTransitions(from, actor.role)
+          : [],
+      });
+    }
+
+    if (!ORDER_TRANSITIONS[from][to]?.includes(actor.role)) {
+      throw new ForbiddenException(
+        `You are not allowed to change this order from ${from} to ${to}`,
+      );
+    }
+
+    // Refunds only make sense once money has been taken
+    if (to === 'refunded' && order.payment_status !== 'paid') {
+      throw new BadRequestException('Only paid orders can be refunded');
+    }
+  }
+
+  /**
+   * Validate and apply a status change, stamp the matching *_at column and
+   * record it in order_status_history. The update is conditional on the
+   * status read by the caller so concurrent changes cannot both succeed.
+   */
+  async transition(
+    orderType: OrderType,
+    order: any,
+    to: OrderStatus,
+    actor: OrderActor,
+    options: { note?: string; updates?: Record<string, any> } = {},
+  ) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    this.assertTransition(order, to, actor);
+
+    const updateData: any = {
+      ...(options.updates || {}),
+      status: to,
+    };
+
+    const timestampColumn = ORDER_STATUS_TIMESTAMPS[to];
+    if (timestampColumn) {
+      updateData[timestampColumn] = new Date().toISOString();
+    }
+
+    const { data: updatedOrder, error } = await serviceClient
+      .from(ORDER_TABLES[orderType])
+      .update(updateData)
+      .eq('id', order.id)
+      .eq('status', order.status)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestException(`Failed to update order: ${error.message}`);
+    }
+
+    if (!updatedOrder) {
+      throw new ConflictException(
+        'Order status was changed by someone else, please refresh and try again',
+      );
+    }
+
+    await this.recordHistory(
+      orderType,
+      order.id,
+      order.status,
+      to,
+      actor,
+      options.note,
+    );
+
+    return updatedOrder;
+  }
+
+  async recordHistory(
+    orderType: OrderType,
+    orderId: string,
+    fromStatus: string | null,
+    toStatus: string,
+    actor: OrderActor,
+    note?: string,
+  ) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { error } = await serviceClient.from('order_status_history').insert({
+      order_type: orderType,
+      order_id: orderId,
+      from_status: fromStatus,
+      to_status: toStatus,
+      actor_role: actor.role,
+      actor_id: actor.userId || null,
+      note: note || null,
+    });
+
+    if (error) {
+      // Log but don't fail the status change if the audit insert fails
+      console.error('Failed to record order status history:', error);
+    }
+  }
+
+  // Raw history rows, oldest first
+  async getHistory(orderType: OrderType, orderId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data, error } = await serviceClient
+      .from('order_status_history')
+      .select('*')
+      .eq('order_type', orderType)
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Failed to fetch order status history:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+}
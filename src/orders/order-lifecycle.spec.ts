@@ -0,0 +1,85 @@
+import {
+  getAllowedTransitions,
+  isOrderStatus,
+  ORDER_STATUSES,
+  ORDER_STATUS_TIMESTAMPS,
+  ORDER_TRANSITIONS,
+} from './order-lifecycle';
+
+describe('order lifecycle', () => {
+  it('defines transitions for every status, to known statuses only', () => {
+    expect(Object.keys(ORDER_TRANSITIONS).sort()).toEqual(
+      [...ORDER_STATUSES].sort(),
+    );
+    for (const targets of Object.values(ORDER_TRANSITIONS)) {
+      for (const to of Object.keys(targets)) {
+        expect(isOrderStatus(to)).toBe(true);
+      }
+    }
+  });
+
+  it('follows the fulfilment path for the brand owner', () => {
+    expect(getAllowedTransitions('pending', 'brand_owner')).toEqual([
+      'confirmed',
+      'cancelled',
+    ]);
+    expect(getAllowedTransitions('confirmed', 'brand_owner')).toEqual([
+      'processing',
+      'cancelled',
+    ]);
+    expect(getAllowedTransitions('processing', 'brand_owner')).toEqual([
+      'shipped',
+    ]);
+    expect(getAllowedTransitions('shipped', 'brand_owner')).toEqual([
+      'delivered',
+    ]);
+  });
+
+  it('lets the buyer cancel only a pending order', () => {
+    expect(getAllowedTransitions('pending', 'buyer')).toEqual(['cancelled']);
+    for (const status of ORDER_STATUSES.filter((s) => s !== 'pending')) {
+      expect(getAllowedTransitions(status, 'buyer')).toEqual([]);
+    }
+  });
+
+  it('leaves refunds and late cancellations to admins', () => {
+    expect(getAllowedTransitions('processing', 'admin')).toContain('cancelled');
+    expect(getAllowedTransitions('processing', 'brand_owner')).not.toContain(
+      'cancelled',
+    );
+    expect(getAllowedTransitions('delivered', 'admin')).toEqual(['refunded']);
+    expect(getAllowedTransitions('cancelled', 'admin')).toEqual(['refunded']);
+    expect(getAllowedTransitions('delivered', 'brand_owner')).toEqual([]);
+  });
+
+  it('limits automated changes to confirmation, cancellation and delivery', () => {
+    expect(getAllowedTransitions('pending', 'system')).toEqual([
+      'confirmed',
+      'cancelled',
+    ]);
+    expect(getAllowedTransitions('confirmed', 'system')).toEqual([]);
+    expect(getAllowedTransitions('shipped', 'system')).toEqual(['delivered']);
+  });
+
+  it('has no way out of refunded', () => {
+    expect(getAllowedTransitions('refunded', 'admin')).toEqual([]);
+  });
+
+  it('never moves an order back to an earlier status', () => {
+    const flow = ['pending', 'confirmed', 'processing', 'shipped', 'delivered'];
+    for (const [from, targets] of Object.entries(ORDER_TRANSITIONS)) {
+      for (const to of Object.keys(targets)) {
+        if (flow.includes(from) && flow.includes(to)) {
+          expect(flow.indexOf(to)).toBeGreaterThan(flow.indexOf(from));
+        }
+      }
+    }
+  });
+
+  it('stamps the status timestamps of known statuses', () => {
+    for (const status of Object.keys(ORDER_STATUS_TIMESTAMPS)) {
+      expect(isOrderStatus(status)).toBe(true);
+    }
+    expect(isOrderStatus('archived')).toBe(false);
+  });
+});
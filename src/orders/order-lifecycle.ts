@@ -0,0 +1,77 @@
+export const ORDER_STATUSES = [
+  'pending',
+  'confirmed',
+  'processing',
+  'shipped',
+  'delivered',
+  'cancelled',
+  'refunded',
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+export type OrderType = 'wholesale' | 'retail';
+
+// system covers payment callbacks and other automated changes
+export type OrderActorRole = 'buyer' | 'brand_owner' | 'admin' | 'system';
+
+export interface OrderActor {
+  role: OrderActorRole;
+  userId?: string | null;
+}
+
+// Legal transitions and the roles allowed to trigger each of them
+export const ORDER_TRANSITIONS: Record<
+  OrderStatus,
+  Partial<Record<OrderStatus, OrderActorRole[]>>
+> = {
+  pending: {
+    confirmed: ['brand_owner', 'admin', 'system'],
+    cancelled: ['buyer', 'brand_owner', 'admin', 'system'],
+  },
+  confirmed: {
+    processing: ['brand_owner', 'admin'],
+    cancelled: ['brand_owner', 'admin'],
+  },
+  processing: {
+    shipped: ['brand_owner', 'admin'],
+    cancelled: ['admin'],
+  },
+  shipped: {
+    delivered: ['brand_owner', 'admin', 'system'],
+  },
+  delivered: {
+    refunded: ['admin'],
+  },
+  cancelled: {
+    refunded: ['admin'],
+  },
+  refunded: {},
+};
+
+// Timestamp column set when an order enters a status
+export const ORDER_STATUS_TIMESTAMPS: Partial<Record<OrderStatus, string>> = {
+  confirmed: 'confirmed_at',
+  shipped: 'shipped_at',
+  delivered: 'delivered_at',
+  cancelled: 'cancelled_at',
+};
+
+export const isOrderStatus = (value: string): value is OrderStatus =>
+  (ORDER_STATUSES as readonly string[]).includes(value);
+
+export const getAllowedTransitions = (
+  from: OrderStatus,
+  role: OrderActorRole,
+): OrderStatus[] =>
+  (Object.keys(ORDER_TRANSITIONS[from] || {}) as OrderStatus[]).filter((to) =>
+    ORDER_TRANSITIONS[from][to]?.includes(role),
+  );
+
+// The authenticated caller, before their role for a specific order is known
+export interface OrderRequester {
+  userId: string;
+  isAdmin: boolean;
+  // Approved brand owned by the caller, if any
+  brandId?: string | null;
+}
@@ -0,0 +1,28 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+// Tracking tokens are handed to guests once, at checkout; only the hash is
+// stored
+export const hashTrackingToken = (token: string) =>
+  createHash('sha256').update(token).digest('hex');
+
+export const createTrackingToken = () => {
+  const token = randomBytes(24).toString('base64url');
+  return { token, hash: hashTrackingToken(token) };
+};
+
+export const matchesTrackingToken = (
+  token: string,
+  hash: string | null | undefined,
+) => {
+  if (!hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'hex');
+  const actual = Buffer.from(hashTrackingToken(token), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+export const buildTrackingUrl = (orderNumber: string, token: string) => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+  return `${frontendUrl}/orders/track/${encodeURIComponent(orderNumber)}?token=${token}`;
+};
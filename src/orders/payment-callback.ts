@@ -0,0 +1,20 @@
+import { timingSafeEqual } from 'crypto';
+
+// Payment providers call the payment callback endpoints with this header set
+// to PAYMENT_CALLBACK_SECRET instead of a user token
+export const PAYMENT_CALLBACK_HEADER = 'x-payment-callback-secret';
+
+export const isValidPaymentCallback = (secret?: string): boolean => {
+  const expected = process.env.PAYMENT_CALLBACK_SECRET;
+  if (!expected || !secret) {
+    return false;
+  }
+
+  const expectedBuffer = Buffer.from(expected);
+  const secretBuffer = Buffer.from(secret);
+
+  return (
+    expectedBuffer.length === secretBuffer.length &&
+    timingSafeEqual(expectedBuffer, secretBuffer)
+  );
+};
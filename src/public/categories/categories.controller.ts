@@ -1,6 +1,8 @@
 import { Controller, Get, Param } from '@nestjs/common';
 import { PublicCategoriesService } from './categories.service';
+import { Public } from '../../auth/decorators/public.decorator';
 
+@Public()
 @Controller('categories')
 export class PublicCategoriesController {
   constructor(private readonly categoriesService: PublicCategoriesService) {}
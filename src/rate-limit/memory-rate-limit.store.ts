@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import { RateLimitHit, RateLimitStore } from './rate-limit.store';
+
+// Expired windows are swept at most this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Fixed-window counters kept in process memory. The store interface is
+// asynchronous for shared stores; this one answers synchronously
+@Injectable()
+export class MemoryRateLimitStore extends RateLimitStore {
+  private readonly windows = new Map<string, RateLimitHit>();
+  private lastSweep = Date.now();
+
+  hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const current = this.windows.get(key);
+    if (current && current.resetAt > now) {
+      current.count += 1;
+      return Promise.resolve({ ...current });
+    }
+
+    const fresh = { count: 1, resetAt: now + windowMs };
+    this.windows.set(key, fresh);
+    return Promise.resolve({ ...fresh });
+  }
+
+  get(key: string): Promise<RateLimitHit | null> {
+    const current = this.windows.get(key);
+    if (!current || current.resetAt <= Date.now()) {
+      return Promise.resolve(null);
+    }
+    return Promise.resolve({ ...current });
+  }
+
+  reset(key: string): Promise<void> {
+    this.windows.delete(key);
+    return Promise.resolve();
+  }
+
+  private sweep(now: number) {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastSweep = now;
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
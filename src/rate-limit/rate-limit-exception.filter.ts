@@ -0,0 +1,12 @@
+import { ArgumentsHost, Catch } from '@nestjs/common';
+import { BaseExceptionFilter } from '@nestjs/core';
+import { RateLimitExceededException } from './rate-limit-exceeded.exception';
+
+@Catch(RateLimitExceededException)
+export class RateLimitExceptionFilter extends BaseExceptionFilter {
+  catch(exception: RateLimitExceededException, host: ArgumentsHost) {
+    const response = host.switchToHttp().getResponse();
+    response.setHeader('Retry-After', String(exception.retryAfterSeconds));
+    super.catch(exception, host);
+  }
+}
@@ -0,0 +1,27 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const RATE_LIMIT_KEY = 'rateLimit';
+
+/**
+ * What a limit is counted per:
+ * - ip: the client address (see TRUST_PROXY)
+ * - user: the authenticated user, falling back to the ip for guests
+ * - email: the `email` field of the request body, e.g. the account being
+ *   logged into, falling back to the ip
+ */
+export type RateLimitKey = 'ip' | 'user' | 'email';
+
+export interface RateLimitRule {
+  // Requests allowed per window
+  limit: number;
+  windowMs: number;
+  by?: RateLimitKey;
+}
+
+/**
+ * Throttle a route. Several rules can be given (e.g. per ip and per
+ * account); a request is rejected with 429 and Retry-After as soon as one of
+ * them is exceeded. Limits are counted per route.
+ */
+export const RateLimit = (...rules: RateLimitRule[]) =>
+  SetMetadata(RATE_LIMIT_KEY, rules);
@@ -0,0 +1,68 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RATE_LIMIT_KEY, RateLimitRule } from './rate-limit.decorator';
+import { RateLimitStore } from './rate-limit.store';
+import { RateLimitExceededException } from './rate-limit-exceeded.exception';
+
+/**
+ * Applies @RateLimit() rules. Registered after AuthGuard so per-user limits
+ * see the authenticated user. RATE_LIMIT_ENABLED=false turns it off (e.g.
+ * for load tests).
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  private readonly enabled = process.env.RATE_LIMIT_ENABLED !== 'false';
+
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly rateLimitStore: RateLimitStore,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const rules = this.reflector.get<RateLimitRule[] | undefined>(
+      RATE_LIMIT_KEY,
+      context.getHandler(),
+    );
+
+    if (!this.enabled || !rules || rules.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const route = `${context.getClass().name}.${context.getHandler().name}`;
+
+    for (const rule of rules) {
+      const by = rule.by || 'ip';
+      const key = `${route}:${by}:${this.resolveKey(request, rule)}`;
+      const { count, resetAt } = await this.rateLimitStore.hit(
+        key,
+        rule.windowMs,
+      );
+
+      if (count > rule.limit) {
+        throw new RateLimitExceededException(
+          Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)),
+        );
+      }
+    }
+
+    return true;
+  }
+
+  private resolveKey(request: any, rule: RateLimitRule) {
+    const ip = request.ip || request.socket?.remoteAddress || 'unknown';
+
+    switch (rule.by) {
+      case 'user':
+        return request.user?.id ? `user:${request.user.id}` : `ip:${ip}`;
+      case 'email': {
+        const email = request.body?.email;
+        return typeof email === 'string' && email
+          ? `email:${email.trim().toLowerCase()}`
+          : `ip:${ip}`;
+      }
+      default:
+        return `ip:${ip}`;
+    }
+  }
+}
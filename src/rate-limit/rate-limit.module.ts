@@ -0,0 +1,19 @@
+import { Global, Module } from '@nestjs/common';
+import { APP_FILTER } from '@nestjs/core';
+import { RateLimitStore } from './rate-limit.store';
+import { MemoryRateLimitStore } from './memory-rate-limit.store';
+import { RateLimitGuard } from './rate-limit.guard';
+import { RateLimitExceptionFilter } from './rate-limit-exception.filter';
+
+// RateLimitGuard itself is registered as a global guard by AuthModule, so it
+// runs after AuthGuard has resolved the user
+@Global()
+@Module({
+  providers: [
+    { provide: RateLimitStore, useClass: MemoryRateLimitStore },
+    RateLimitGuard,
+    { provide: APP_FILTER, useClass: RateLimitExceptionFilter },
+  ],
+  exports: [RateLimitStore, RateLimitGuard],
+})
+export class RateLimitModule {}
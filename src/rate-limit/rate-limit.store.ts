@@ -0,0 +1,22 @@
+export interface RateLimitHit {
+  // Hits recorded for the key in the current window
+  count: number;
+  // Epoch ms at which the window (and the count) resets
+  resetAt: number;
+}
+
+/**
+ * Backing store for rate limit counters. MemoryRateLimitStore is used by
+ * default, which is fine for a single instance; provide another
+ * implementation (e.g. Redis) when running several:
+ *
+ *   { provide: RateLimitStore, useClass: RedisRateLimitStore }
+ */
+export abstract class RateLimitStore {
+  // Count a hit for `key`, starting a new window of `windowMs` if needed
+  abstract hit(key: string, windowMs: number): Promise<RateLimitHit>;
+
+  abstract get(key: string): Promise<RateLimitHit | null>;
+
+  abstract reset(key: string): Promise<void>;
+}
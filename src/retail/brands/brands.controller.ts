@@ -4,13 +4,12 @@ import {
   Get,
   Put,
   Patch,
+  Delete,
   Body,
   Param,
-  Headers,
   Query,
   HttpCode,
   HttpStatus,
-  UnauthorizedException,
   ParseIntPipe,
   DefaultValuePipe,
   UseInterceptors,
@@ -24,72 +23,115 @@ import { RetailBrandsService } from './brands.service';
 import { RetailBrandsUploadService } from './brands-upload.service';
 import { RegisterRetailBrandDto } from './dto/register-brand';
 import { UpdateRetailBrandDto } from './dto/update-brand';
-import { SupabaseService } from '../../supabase/supabase.service';
 import { AdminOnly } from '../../admin/decorators/admin-only.decorator';
+import { Public } from '../../auth/decorators/public.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { CurrentBrand } from '../../auth/decorators/current-brand.decorator';
+import { BrandMember } from '../../auth/decorators/brand-member.decorator';
+import { RequireMfa } from '../../auth/decorators/require-mfa.decorator';
+import type {
+  AuthBrand,
+  AuthUser,
+} from '../../auth/interfaces/auth-user.interface';
+import { BrandMembersService } from '../../brand-members/brand-members.service';
+import {
+  InviteBrandMemberDto,
+  UpdateBrandMemberDto,
+} from '../../brand-members/dto/brand-member.dto';
 
 @Controller('retail-brands')
 export class RetailBrandsController {
   constructor(
     private readonly brandsService: RetailBrandsService,
     private readonly brandsUploadService: RetailBrandsUploadService,
-    private readonly supabaseService: SupabaseService,
+    private readonly brandMembersService: BrandMembersService,
   ) {}
 
   @Post('register')
   @HttpCode(HttpStatus.CREATED)
-  async registerBrand(@Body() registerBrandDto: RegisterRetailBrandDto, @Headers('authorization') authHeader?: string) {
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) {
-      throw new UnauthorizedException('Authentication required');
-    }
-
-    const supabase = this.supabaseService.getClient();
-    const { data: userData, error } = await supabase.auth.getUser(token);
-
-    if (error || !userData.user) {
-      throw new UnauthorizedException('Invalid or expired token');
-    }
-
-    return this.brandsService.registerBrand(registerBrandDto, userData.user.id);
+  async registerBrand(@Body() registerBrandDto: RegisterRetailBrandDto, @CurrentUser() user: AuthUser) {
+    return this.brandsService.registerBrand(registerBrandDto, user.id);
   }
 
   @Get('my-brand')
-  async getMyBrand(@Headers('authorization') authHeader?: string) {
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) {
-      throw new UnauthorizedException('Authentication required');
-    }
-
-    const supabase = this.supabaseService.getClient();
-    const { data: userData, error } = await supabase.auth.getUser(token);
-
-    if (error || !userData.user) {
-      throw new UnauthorizedException('Invalid or expired token');
-    }
-
-    const brand = await this.brandsService.getMyBrand(userData.user.id);
+  async getMyBrand(@CurrentUser() user: AuthUser) {
+    const brand = await this.brandsService.getMyBrand(user.id);
     return brand || { message: 'No brand registration found' };
   }
 
   @Put('my-brand')
+  @RequireMfa()
   @HttpCode(HttpStatus.OK)
-  async updateMyBrand(@Body() updateBrandDto: UpdateRetailBrandDto, @Headers('authorization') authHeader?: string) {
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) {
-      throw new UnauthorizedException('Authentication required');
-    }
+  async updateMyBrand(@Body() updateBrandDto: UpdateRetailBrandDto, @CurrentUser() user: AuthUser) {
+    return this.brandsService.updateBrand(user.id, updateBrandDto);
+  }
 
-    const supabase = this.supabaseService.getClient();
-    const { data: userData, error } = await supabase.auth.getUser(token);
+  // Brand team
+  @Get('my-brand/members')
+  @BrandMember('retail')
+  async getTeamMembers(@CurrentBrand('id') brandId: string) {
+    return this.brandMembersService.getMembers('retail', brandId);
+  }
 
-    if (error || !userData.user) {
-      throw new UnauthorizedException('Invalid or expired token');
-    }
+  @Patch('my-brand/members/:memberId')
+  @RequireMfa()
+  @BrandMember('retail', 'members:manage')
+  async updateTeamMember(
+    @Param('memberId') memberId: string,
+    @Body() updateMemberDto: UpdateBrandMemberDto,
+    @CurrentUser('id') userId: string,
+    @CurrentBrand() brand: AuthBrand,
+  ) {
+    return this.brandMembersService.updateMemberRole(
+      { userId, brand },
+      memberId,
+      updateMemberDto.role,
+    );
+  }
 
-    return this.brandsService.updateBrand(userData.user.id, updateBrandDto);
+  @Delete('my-brand/members/:memberId')
+  @RequireMfa()
+  @BrandMember('retail', 'members:manage')
+  async removeTeamMember(
+    @Param('memberId') memberId: string,
+    @CurrentUser('id') userId: string,
+    @CurrentBrand() brand: AuthBrand,
+  ) {
+    return this.brandMembersService.removeMember({ userId, brand }, memberId);
+  }
+
+  @Get('my-brand/invitations')
+  @BrandMember('retail', 'members:manage')
+  async getTeamInvitations(@CurrentBrand('id') brandId: string) {
+    return this.brandMembersService.getInvitations('retail', brandId);
+  }
+
+  @Post('my-brand/invitations')
+  @RequireMfa()
+  @HttpCode(HttpStatus.CREATED)
+  @BrandMember('retail', 'members:manage')
+  async inviteTeamMember(
+    @Body() inviteMemberDto: InviteBrandMemberDto,
+    @CurrentUser('id') userId: string,
+    @CurrentBrand() brand: AuthBrand,
+  ) {
+    return this.brandMembersService.inviteMember(
+      { userId, brand },
+      inviteMemberDto,
+    );
+  }
+
+  @Delete('my-brand/invitations/:invitationId')
+  @BrandMember('retail', 'members:manage')
+  async revokeTeamInvitation(
+    @Param('invitationId') invitationId: string,
+    @CurrentBrand() brand: AuthBrand,
+  ) {
+    return this.brandMembersService.revokeInvitation(brand, invitationId);
   }
 
   // Public endpoint for approved brands
+  @Public()
   @Get('approved')
   async getApprovedBrands(
     @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number = 1,
@@ -100,6 +142,7 @@ export class RetailBrandsController {
   }
 
   // Public endpoint to get brand by ID
+  @Public()
   @Get('profile/:id')
   async getBrandById(@Param('id') id: string) {
     return this.brandsService.getBrandById(id);
@@ -133,13 +176,9 @@ export class RetailBrandsController {
   async updateBrandStatus(
     @Param('id') brandId: string,
     @Body() body: { status: 'approved' | 'rejected'; rejectionReason?: string },
-    @Headers('authorization') authHeader?: string,
+    @CurrentUser() user: AuthUser,
   ) {
-    const token = authHeader?.replace('Bearer ', '');
-    const supabase = this.supabaseService.getClient();
-    const { data: userData } = await supabase.auth.getUser(token || '');
-    
-    return this.brandsService.updateBrandStatus(brandId, body.status, userData?.user?.id || '', body.rejectionReason);
+    return this.brandsService.updateBrandStatus(brandId, body.status, user.id, body.rejectionReason);
   }
 
   @Post('my-brand/upload-image')
@@ -151,33 +190,21 @@ export class RetailBrandsController {
   }))
   async uploadBrandImage(
     @UploadedFile() file: Express.Multer.File | undefined,
-    @Headers('authorization') authHeader?: string,
+    @CurrentUser() user: AuthUser,
     @Req() req?: Request,
   ) {
     if (!file) {
       throw new BadRequestException('No file provided. Please select an image file and try again.');
     }
 
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) {
-      throw new UnauthorizedException('Authentication required');
-    }
-
-    const supabase = this.supabaseService.getClient();
-    const { data: userData, error } = await supabase.auth.getUser(token);
-
-    if (error || !userData.user) {
-      throw new UnauthorizedException('Invalid or expired token');
-    }
-
     // Get imageType from FormData body (parsed by multer)
     const imageType: 'logo' | 'cover' = req?.body?.imageType === 'cover' ? 'cover' : 'logo';
     
-    const imageUrl = await this.brandsUploadService.uploadImage(userData.user.id, file, imageType);
+    const imageUrl = await this.brandsUploadService.uploadImage(user.id, file, imageType);
 
     // Update brand with new image URL
     const updateData = imageType === 'logo' ? { logoUrl: imageUrl } : { coverImageUrl: imageUrl };
-    await this.brandsService.updateBrand(userData.user.id, updateData);
+    await this.brandsService.updateBrand(user.id, updateData);
 
     return { url: imageUrl };
   }
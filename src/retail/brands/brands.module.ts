@@ -4,9 +4,11 @@ import { RetailBrandsService } from './brands.service';
 import { RetailBrandsUploadService } from './brands-upload.service';
 import { SupabaseModule } from '../../supabase/supabase.module';
 import { AdminModule } from '../../admin/admin.module';
+import { AuthModule } from '../../auth/auth.module';
+import { BrandMembersModule } from '../../brand-members/brand-members.module';
 
 @Module({
-  imports: [SupabaseModule, AdminModule],
+  imports: [SupabaseModule, AdminModule, AuthModule, BrandMembersModule],
   controllers: [RetailBrandsController],
   providers: [RetailBrandsService, RetailBrandsUploadService],
   exports: [RetailBrandsService],
@@ -1,11 +1,18 @@
 import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
 import { SupabaseService } from '../../supabase/supabase.service';
+import { UserRolesService } from '../../auth/roles/user-roles.service';
+import { BrandMembersService } from '../../brand-members/brand-members.service';
+import { BRAND_ROLE_PERMISSIONS } from '../../brand-members/brand-members';
 import { RegisterRetailBrandDto } from './dto/register-brand';
 import { UpdateRetailBrandDto } from './dto/update-brand';
 
 @Injectable()
 export class RetailBrandsService {
-  constructor(private readonly supabaseService: SupabaseService) {}
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly userRolesService: UserRolesService,
+    private readonly brandMembersService: BrandMembersService,
+  ) {}
 
   async registerBrand(registerBrandDto: RegisterRetailBrandDto, userId: string) {
     const serviceClient = this.supabaseService.getServiceClient();
@@ -57,6 +64,17 @@ export class RetailBrandsService {
       }
     }
 
+    // Staff of another brand can't register their own
+    const membership = await this.brandMembersService.getMembership(
+      userId,
+      'retail',
+    );
+    if (membership) {
+      throw new BadRequestException(
+        'You are already a member of a brand team. Leave it before registering your own brand.',
+      );
+    }
+
     // Create brand registration with pending status
     const { data, error } = await serviceClient
       .from('retail_brands')
@@ -98,10 +116,19 @@ export class RetailBrandsService {
   async getMyBrand(userId: string) {
     const supabase = this.supabaseService.getServiceClient();
 
+    // Team members see the brand they belong to, not only the one they registered
+    const membership = await this.brandMembersService.getMembership(
+      userId,
+      'retail',
+    );
+    if (!membership) {
+      return null;
+    }
+
     const { data, error } = await supabase
       .from('retail_brands')
       .select('*')
-      .eq('user_id', userId)
+      .eq('id', membership.brandId)
       .single();
 
     if (error) {
@@ -125,6 +152,10 @@ export class RetailBrandsService {
       category: data.category,
       status: data.status,
       rejectionReason: data.rejection_reason,
+      membership: {
+        role: membership.role,
+        permissions: BRAND_ROLE_PERMISSIONS[membership.role],
+      },
       createdAt: data.created_at,
       updatedAt: data.updated_at,
     };
@@ -256,7 +287,7 @@ export class RetailBrandsService {
     // Check if brand exists
     const { data: brand, error: fetchError } = await serviceClient
       .from('retail_brands')
-      .select('id, status')
+      .select('id, status, user_id')
       .eq('id', brandId)
       .maybeSingle();
 
@@ -290,6 +321,12 @@ export class RetailBrandsService {
       throw new BadRequestException(`Failed to update brand status: ${error.message || 'Unknown error'}`);
     }
 
+    await this.userRolesService.syncBrandOwnerRole(
+      brand.user_id,
+      'retail',
+      status === 'approved',
+    );
+
     return {
       id: data.id,
       status: data.status,
@@ -300,11 +337,16 @@ export class RetailBrandsService {
   async updateBrand(userId: string, updateBrandDto: UpdateRetailBrandDto) {
     const serviceClient = this.supabaseService.getServiceClient();
 
-    // Get the user's brand to verify ownership
+    // Get the user's brand and check their team role allows editing it
+    const membership = await this.brandMembersService.requireMembership(
+      userId,
+      'retail',
+      'brand:manage',
+    );
     const { data: existingBrand, error: fetchError } = await serviceClient
       .from('retail_brands')
       .select('id, user_id, status')
-      .eq('user_id', userId)
+      .eq('id', membership.brandId)
       .maybeSingle();
 
     if (fetchError || !existingBrand) {
@@ -7,11 +7,11 @@ import {
   Body,
   Param,
   Query,
-  Headers,
-  UnauthorizedException,
 } from '@nestjs/common';
 import { ExchangesService } from './exchanges.service';
-import { SupabaseService } from '../../supabase/supabase.service';
+import { Public } from '../../auth/decorators/public.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../../auth/interfaces/auth-user.interface';
 import {
   CreateExchangeDto,
   UpdateDeliveryStatusDto,
@@ -20,55 +20,30 @@ import {
 
 @Controller('retail/exchanges')
 export class ExchangesController {
-  constructor(
-    private readonly exchangesService: ExchangesService,
-    private readonly supabaseService: SupabaseService,
-  ) {}
-
-  private async getUserFromToken(authHeader?: string) {
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) {
-      throw new UnauthorizedException('Authentication required');
-    }
-
-    const supabase = this.supabaseService.getClient();
-    const { data: userData, error } = await supabase.auth.getUser(token);
-
-    if (error || !userData.user) {
-      throw new UnauthorizedException('Invalid or expired token');
-    }
-
-    return userData.user;
-  }
+  constructor(private readonly exchangesService: ExchangesService) {}
 
   // Create new exchange request
   @Post()
   async createExchange(
-    @Headers('authorization') authHeader: string,
+    @CurrentUser() user: AuthUser,
     @Body() createExchangeDto: CreateExchangeDto,
   ) {
-    const user = await this.getUserFromToken(authHeader);
     return this.exchangesService.createExchange(user.id, createExchangeDto);
   }
 
   // Get all exchanges for current user
   @Get()
   async getExchanges(
-    @Headers('authorization') authHeader: string,
+    @CurrentUser() user: AuthUser,
     @Query('role') role?: 'initiator' | 'receiver',
     @Query('status') status?: string,
   ) {
-    const user = await this.getUserFromToken(authHeader);
     return this.exchangesService.getExchanges(user.id, role, status);
   }
 
   // Get single exchange by ID
   @Get(':id')
-  async getExchange(
-    @Param('id') id: string,
-    @Headers('authorization') authHeader: string,
-  ) {
-    const user = await this.getUserFromToken(authHeader);
+  async getExchange(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     return this.exchangesService.getExchangeById(id, user.id);
   }
 
@@ -76,21 +51,23 @@ export class ExchangesController {
   @Patch(':id/approve')
   async approveExchange(
     @Param('id') id: string,
-    @Headers('authorization') authHeader: string,
+    @CurrentUser() user: AuthUser,
     @Body('receiverAddressId') receiverAddressId: string,
   ) {
-    const user = await this.getUserFromToken(authHeader);
-    return this.exchangesService.approveExchange(id, user.id, receiverAddressId);
+    return this.exchangesService.approveExchange(
+      id,
+      user.id,
+      receiverAddressId,
+    );
   }
 
   // Reject exchange (receiver action)
   @Patch(':id/reject')
   async rejectExchange(
     @Param('id') id: string,
-    @Headers('authorization') authHeader: string,
+    @CurrentUser() user: AuthUser,
     @Body('reason') reason?: string,
   ) {
-    const user = await this.getUserFromToken(authHeader);
     return this.exchangesService.rejectExchange(id, user.id, reason);
   }
 
@@ -98,10 +75,9 @@ export class ExchangesController {
   @Patch(':id/cancel')
   async cancelExchange(
     @Param('id') id: string,
-    @Headers('authorization') authHeader: string,
+    @CurrentUser() user: AuthUser,
     @Body('reason') reason?: string,
   ) {
-    const user = await this.getUserFromToken(authHeader);
     return this.exchangesService.cancelExchange(id, user.id, reason);
   }
 
@@ -109,55 +85,47 @@ export class ExchangesController {
   @Patch(':id/delivery')
   async updateDeliveryStatus(
     @Param('id') id: string,
-    @Headers('authorization') authHeader: string,
+    @CurrentUser() user: AuthUser,
     @Body() updateDto: UpdateDeliveryStatusDto,
   ) {
-    const user = await this.getUserFromToken(authHeader);
     return this.exchangesService.updateDeliveryStatus(id, user.id, updateDto);
   }
 
   // Address management
   @Get('addresses/list')
-  async getAddresses(@Headers('authorization') authHeader: string) {
-    const user = await this.getUserFromToken(authHeader);
+  async getAddresses(@CurrentUser() user: AuthUser) {
     return this.exchangesService.getAddresses(user.id);
   }
 
   @Post('addresses')
   async createAddress(
-    @Headers('authorization') authHeader: string,
+    @CurrentUser() user: AuthUser,
     @Body() createAddressDto: CreateAddressDto,
   ) {
     console.log('createAddress called with:', createAddressDto);
-    const user = await this.getUserFromToken(authHeader);
     return this.exchangesService.createAddress(user.id, createAddressDto);
   }
 
   @Delete('addresses/:id')
-  async deleteAddress(
-    @Param('id') id: string,
-    @Headers('authorization') authHeader: string,
-  ) {
-    const user = await this.getUserFromToken(authHeader);
+  async deleteAddress(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     return this.exchangesService.deleteAddress(user.id, id);
   }
 
   // Marketplace endpoints
   @Get('marketplace/retailers')
   async getRetailers(
-    @Headers('authorization') authHeader: string,
+    @CurrentUser() user: AuthUser,
     @Query('search') search?: string,
   ) {
-    const user = await this.getUserFromToken(authHeader);
     return this.exchangesService.getRetailers(user.id, search);
   }
 
   @Get('marketplace/my-products')
-  async getMyProducts(@Headers('authorization') authHeader: string) {
-    const user = await this.getUserFromToken(authHeader);
+  async getMyProducts(@CurrentUser() user: AuthUser) {
     return this.exchangesService.getAvailableProducts(user.id);
   }
 
+  @Public()
   @Get('marketplace/retailer-products/:retailerId')
   async getRetailerProducts(@Param('retailerId') retailerId: string) {
     return this.exchangesService.getRetailerProducts(retailerId);
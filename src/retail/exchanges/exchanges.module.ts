@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { ExchangesController } from './exchanges.controller';
 import { ExchangesService } from './exchanges.service';
 import { SupabaseModule } from '../../supabase/supabase.module';
+import { UsersModule } from '../../users/users.module';
 
 @Module({
-  imports: [SupabaseModule],
+  imports: [SupabaseModule, UsersModule],
   controllers: [ExchangesController],
   providers: [ExchangesService],
   exports: [ExchangesService],
@@ -1,5 +1,6 @@
 import { Injectable, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
 import { SupabaseService } from '../../supabase/supabase.service';
+import { AddressesService } from '../../users/addresses.service';
 import {
   CreateExchangeDto,
   UpdateExchangeStatusDto,
@@ -7,9 +8,15 @@ import {
   CreateAddressDto,
 } from './dto';
 
+// Address book rows in the shape the exchange endpoints have always returned
+const EXCHANGE_ADDRESS_COLUMNS = '*, is_default:is_default_shipping';
+
 @Injectable()
 export class ExchangesService {
-  constructor(private readonly supabaseService: SupabaseService) {}
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly addressesService: AddressesService,
+  ) {}
 
   // Create a new exchange request
   async createExchange(userId: string, createExchangeDto: CreateExchangeDto) {
@@ -42,6 +49,20 @@ export class ExchangesService {
       throw new ForbiddenException('Both users must have approved retail brands to create exchanges');
     }
 
+    // Addresses come from each party's address book
+    await this.addressesService.getAddressForUse(
+      userId,
+      createExchangeDto.initiatorAddressId,
+      'shipping',
+    );
+    if (createExchangeDto.receiverAddressId) {
+      await this.addressesService.getAddressForUse(
+        createExchangeDto.receiverId,
+        createExchangeDto.receiverAddressId,
+        'shipping',
+      );
+    }
+
     // Calculate total prices
     const initiatorTotal = createExchangeDto.initiatorItems.reduce(
       (sum, item) => sum + item.totalPrice,
@@ -169,8 +190,8 @@ export class ExchangesService {
     // Get addresses - filter out null values
     const addressIds = [exchange.initiator_address_id, exchange.receiver_address_id].filter(Boolean);
     const { data: addresses } = addressIds.length > 0 ? await supabase
-      .from('retail_exchange_addresses')
-      .select('*')
+      .from('user_addresses')
+      .select(EXCHANGE_ADDRESS_COLUMNS)
       .in('id', addressIds) : { data: [] };
 
     return {
@@ -231,6 +252,8 @@ export class ExchangesService {
       throw new BadRequestException('Exchange is not in pending status');
     }
 
+    await this.addressesService.getAddressForUse(userId, receiverAddressId, 'shipping');
+
     const supabase = this.supabaseService.getServiceClient();
 
     // Update exchange status to approved and set receiver address
@@ -562,22 +585,24 @@ export class ExchangesService {
     });
   }
 
-  // Address management
+  // Address management - exchanges share the user address book
   async createAddress(userId: string, createAddressDto: CreateAddressDto) {
-    const supabase = this.supabaseService.getClient();
+    const supabase = this.supabaseService.getServiceClient();
 
     // If this is set as default, unset other defaults
     if (createAddressDto.isDefault) {
       await supabase
-        .from('retail_exchange_addresses')
-        .update({ is_default: false })
-        .eq('user_id', userId);
+        .from('user_addresses')
+        .update({ is_default_shipping: false })
+        .eq('user_id', userId)
+        .eq('is_default_shipping', true);
     }
 
     const { data: address, error } = await supabase
-      .from('retail_exchange_addresses')
+      .from('user_addresses')
       .insert({
         user_id: userId,
+        address_type: 'both',
         full_name: createAddressDto.fullName,
         phone: createAddressDto.phone,
         address_line1: createAddressDto.addressLine1,
@@ -586,9 +611,9 @@ export class ExchangesService {
         state: createAddressDto.state,
         postal_code: createAddressDto.postalCode,
         country: createAddressDto.country || 'India',
-        is_default: createAddressDto.isDefault || false,
+        is_default_shipping: createAddressDto.isDefault || false,
       })
-      .select()
+      .select(EXCHANGE_ADDRESS_COLUMNS)
       .single();
 
     if (error) {
@@ -600,14 +625,14 @@ export class ExchangesService {
   }
 
   async getAddresses(userId: string) {
-    const supabase = this.supabaseService.getClient();
+    const supabase = this.supabaseService.getServiceClient();
 
     const { data: addresses, error } = await supabase
-      .from('retail_exchange_addresses')
-      .select('*')
+      .from('user_addresses')
+      .select(EXCHANGE_ADDRESS_COLUMNS)
       .eq('user_id', userId)
       .eq('is_active', true)
-      .order('is_default', { ascending: false })
+      .order('is_default_shipping', { ascending: false })
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -618,11 +643,11 @@ export class ExchangesService {
   }
 
   async deleteAddress(userId: string, addressId: string) {
-    const supabase = this.supabaseService.getClient();
+    const supabase = this.supabaseService.getServiceClient();
 
     // Verify address belongs to user
     const { data: address } = await supabase
-      .from('retail_exchange_addresses')
+      .from('user_addresses')
       .select('id')
       .eq('id', addressId)
       .eq('user_id', userId)
@@ -633,8 +658,12 @@ export class ExchangesService {
     }
 
     const { error } = await supabase
-      .from('retail_exchange_addresses')
-      .update({ is_active: false })
+      .from('user_addresses')
+      .update({
+        is_active: false,
+        is_default_shipping: false,
+        is_default_billing: false,
+      })
       .eq('id', addressId);
 
     if (error) {
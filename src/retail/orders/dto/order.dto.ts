@@ -11,8 +11,12 @@ import {
   MaxLength,
   IsUUID,
   Min,
+  IsIn,
+  ValidateIf,
 } from 'class-validator';
 import { Type } from 'class-transformer';
+import { ORDER_STATUSES } from '../../../orders/order-lifecycle';
+import type { OrderStatus } from '../../../orders/order-lifecycle';
 
 export class ShippingAddressDto {
   @IsString()
@@ -139,15 +143,24 @@ export class CreateRetailOrderDto {
   @MaxLength(50)
   customerPhone?: string;
 
-  // Shipping address
+  // Shipping address - either an address book entry or an inline address
+  @IsOptional()
+  @IsUUID()
+  shippingAddressId?: string;
+
+  @ValidateIf((o) => !o.shippingAddressId)
   @ValidateNested()
   @Type(() => ShippingAddressDto)
-  shippingAddress: ShippingAddressDto;
+  shippingAddress?: ShippingAddressDto;
 
   // Billing address
   @IsBoolean()
   billingSameAsShipping: boolean;
 
+  @IsOptional()
+  @IsUUID()
+  billingAddressId?: string;
+
   @IsOptional()
   @ValidateNested()
   @Type(() => BillingAddressDto)
@@ -187,11 +200,18 @@ export class CreateRetailOrderDto {
 
 export class UpdateRetailOrderStatusDto {
   @IsString()
-  status: 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
+  @IsIn(ORDER_STATUSES)
+  status: OrderStatus;
 
   @IsOptional()
   @IsString()
   adminNotes?: string;
+
+  // Reason recorded in the order status history
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
 }
 
 export class UpdateRetailPaymentStatusDto {
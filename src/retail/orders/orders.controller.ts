@@ -11,7 +11,18 @@ import {
   UnauthorizedException,
 } from '@nestjs/common';
 import { OrdersService } from './orders.service';
-import { SupabaseService } from '../../supabase/supabase.service';
+import { BrandMembersService } from '../../brand-members/brand-members.service';
+import { hasBrandPermission } from '../../brand-members/brand-members';
+import { OrderRequester } from '../../orders/order-lifecycle';
+import {
+  PAYMENT_CALLBACK_HEADER,
+  isValidPaymentCallback,
+} from '../../orders/payment-callback';
+import { Public } from '../../auth/decorators/public.decorator';
+import { AdminOnly } from '../../admin/decorators/admin-only.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../../auth/interfaces/auth-user.interface';
+import { MfaService } from '../../auth/mfa/mfa.service';
 import {
   CreateRetailOrderDto,
   UpdateRetailOrderStatusDto,
@@ -22,82 +33,97 @@ import {
 export class OrdersController {
   constructor(
     private readonly ordersService: OrdersService,
-    private readonly supabaseService: SupabaseService,
+    private readonly brandMembersService: BrandMembersService,
+    private readonly mfaService: MfaService,
   ) {}
 
-  private async getUserFromToken(authHeader?: string) {
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) {
-      return null; // Allow guest orders
+  // Identity used to resolve the caller's role for a specific order
+  private async getOrderRequester(user: AuthUser): Promise<OrderRequester> {
+    if (user.isAdmin) {
+      // Admin powers on a shared route still need the admin MFA step-up
+      await this.mfaService.assertAdminSession(user);
+      return { userId: user.id, isAdmin: true };
     }
 
-    try {
-      const supabase = this.supabaseService.getClient();
-      const { data: userData, error } = await supabase.auth.getUser(token);
-
-      if (error || !userData.user) {
-        return null;
-      }
-
-      return userData.user;
-    } catch {
-      return null;
-    }
+    // Only team members allowed to fulfil orders act for the brand
+    const membership = await this.brandMembersService.getMembership(
+      user.id,
+      'retail',
+    );
+    const canFulfil =
+      membership?.brandStatus === 'approved' &&
+      hasBrandPermission(membership.role, 'orders:fulfil');
+    return {
+      userId: user.id,
+      isAdmin: false,
+      brandId: canFulfil ? membership.brandId : null,
+    };
   }
 
+  // Guest orders are allowed
+  @Public()
   @Post()
   async createOrder(
     @Body() createOrderDto: CreateRetailOrderDto,
-    @Headers('authorization') authHeader: string,
+    @CurrentUser() user?: AuthUser,
   ) {
-    const user = await this.getUserFromToken(authHeader);
-    const userId = user?.id;
-    return this.ordersService.createOrder(createOrderDto, userId);
+    return this.ordersService.createOrder(createOrderDto, user?.id);
   }
 
+  @Public()
   @Get()
   async getUserOrders(
-    @Headers('authorization') authHeader: string,
     @Query('page', new ParseIntPipe({ optional: true })) page: number = 1,
     @Query('limit', new ParseIntPipe({ optional: true })) limit: number = 10,
+    @Query('cursor') cursor?: string,
+    @CurrentUser() user?: AuthUser,
   ) {
-    const user = await this.getUserFromToken(authHeader);
-    const userId = user?.id;
-    if (!userId) {
-      return { orders: [], pagination: { page: 1, limit: 10, total: 0, pages: 0 } };
+    if (!user) {
+      return {
+        orders: [],
+        pagination: { page: 1, limit: 10, total: 0, pages: 0 },
+      };
     }
-    return this.ordersService.getUserOrders(userId, page, limit);
+    return this.ordersService.getUserOrders(user.id, page, limit, cursor);
   }
 
+  @Public()
   @Get(':id')
-  async getOrderById(
-    @Param('id') id: string,
-    @Headers('authorization') authHeader: string,
-  ) {
-    const user = await this.getUserFromToken(authHeader);
-    const userId = user?.id;
-    return this.ordersService.getOrderById(id, userId);
+  async getOrderById(@Param('id') id: string, @CurrentUser() user?: AuthUser) {
+    return this.ordersService.getOrderById(id, user?.id);
   }
 
   @Patch(':id/status')
   async updateOrderStatus(
     @Param('id') id: string,
     @Body() updateDto: UpdateRetailOrderStatusDto,
-    @Headers('authorization') authHeader: string,
+    @CurrentUser() user: AuthUser,
   ) {
-    const user = await this.getUserFromToken(authHeader);
-    const userId = user?.id;
-    return this.ordersService.updateOrderStatus(id, updateDto, userId);
+    const requester = await this.getOrderRequester(user);
+    return this.ordersService.updateOrderStatus(id, updateDto, requester);
   }
 
+  // Update payment status (admins)
+  @AdminOnly()
   @Patch(':id/payment')
   async updatePaymentStatus(
     @Param('id') id: string,
     @Body() updateDto: UpdateRetailPaymentStatusDto,
-    @Headers('authorization') authHeader: string,
   ) {
-    const user = await this.getUserFromToken(authHeader);
-    const userId = user?.id;
-    return this.ordersService.updatePaymentStatus(id, updateDto, userId);
+    return this.ordersService.updatePaymentStatus(id, updateDto);
+  }
+
+  // Payment provider callback, authenticated by the shared secret only
+  @Public()
+  @Patch(':id/payment/callback')
+  async paymentCallback(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateRetailPaymentStatusDto,
+    @Headers(PAYMENT_CALLBACK_HEADER) callbackSecret?: string,
+  ) {
+    if (!isValidPaymentCallback(callbackSecret)) {
+      throw new UnauthorizedException('Invalid payment callback');
+    }
+    return this.ordersService.updatePaymentStatus(id, updateDto);
   }
 }
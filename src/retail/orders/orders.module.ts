@@ -3,9 +3,20 @@ import { OrdersController } from './orders.controller';
 import { OrdersService } from './orders.service';
 import { SupabaseModule } from '../../supabase/supabase.module';
 import { RetailCartModule } from '../cart/cart.module';
+import { BrandMembersModule } from '../../brand-members/brand-members.module';
+import { OrderLifecycleModule } from '../../orders/order-lifecycle.module';
+import { UsersModule } from '../../users/users.module';
+import { AuthModule } from '../../auth/auth.module';
 
 @Module({
-  imports: [SupabaseModule, RetailCartModule],
+  imports: [
+    SupabaseModule,
+    RetailCartModule,
+    BrandMembersModule,
+    OrderLifecycleModule,
+    UsersModule,
+    AuthModule,
+  ],
   controllers: [OrdersController],
   providers: [OrdersService],
   exports: [OrdersService],
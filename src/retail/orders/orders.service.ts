@@ -5,6 +5,14 @@ import {
 } from '@nestjs/common';
 import { SupabaseService } from '../../supabase/supabase.service';
 import { CartService } from '../cart/cart.service';
+import { OrderLifecycleService } from '../../orders/order-lifecycle.service';
+import { OrderRequester } from '../../orders/order-lifecycle';
+import { AddressesService } from '../../users/addresses.service';
+import {
+  ListingSort,
+  listingPage,
+  paginateListing,
+} from '../../supabase/cursor-pagination';
 import {
   CreateRetailOrderDto,
   UpdateRetailOrderStatusDto,
@@ -16,6 +24,8 @@ export class OrdersService {
   constructor(
     private readonly supabaseService: SupabaseService,
     private readonly cartService: CartService,
+    private readonly orderLifecycleService: OrderLifecycleService,
+    private readonly addressesService: AddressesService,
   ) {}
 
   async createOrder(createOrderDto: CreateRetailOrderDto, userId?: string) {
@@ -102,20 +112,26 @@ export class OrdersService {
       }
     }
 
+    const addresses = await this.addressesService.resolveOrderAddresses(
+      userId,
+      createOrderDto,
+    );
+
     // Create the order
     const orderData: any = {
       user_id: userId || null,
-      customer_email: createOrderDto.customerEmail,
+      customer_email: createOrderDto.customerEmail.trim().toLowerCase(),
       customer_name: createOrderDto.customerName,
       customer_phone: createOrderDto.customerPhone || null,
-      shipping_address_line1: createOrderDto.shippingAddress.addressLine1,
-      shipping_address_line2:
-        createOrderDto.shippingAddress.addressLine2 || null,
-      shipping_city: createOrderDto.shippingAddress.city,
-      shipping_state: createOrderDto.shippingAddress.state || null,
-      shipping_postal_code: createOrderDto.shippingAddress.postalCode,
-      shipping_country: createOrderDto.shippingAddress.country || 'Turkey',
+      shipping_address_line1: addresses.shipping.addressLine1,
+      shipping_address_line2: addresses.shipping.addressLine2 || null,
+      shipping_city: addresses.shipping.city,
+      shipping_state: addresses.shipping.state || null,
+      shipping_postal_code: addresses.shipping.postalCode,
+      shipping_country: addresses.shipping.country || 'Turkey',
       billing_same_as_shipping: createOrderDto.billingSameAsShipping,
+      shipping_address_id: addresses.shippingAddressId,
+      billing_address_id: addresses.billingAddressId,
       subtotal: calculatedSubtotal,
       shipping_cost: shippingCost,
       tax_amount: 0,
@@ -130,20 +146,14 @@ export class OrdersService {
     };
 
     // Add billing address if different from shipping
-    if (
-      !createOrderDto.billingSameAsShipping &&
-      createOrderDto.billingAddress
-    ) {
-      orderData.billing_address_line1 =
-        createOrderDto.billingAddress.addressLine1;
+    if (addresses.billing) {
+      orderData.billing_address_line1 = addresses.billing.addressLine1;
       orderData.billing_address_line2 =
-        createOrderDto.billingAddress.addressLine2 || null;
-      orderData.billing_city = createOrderDto.billingAddress.city;
-      orderData.billing_state = createOrderDto.billingAddress.state || null;
-      orderData.billing_postal_code =
-        createOrderDto.billingAddress.postalCode;
-      orderData.billing_country =
-        createOrderDto.billingAddress.country || 'Turkey';
+        addresses.billing.addressLine2 || null;
+      orderData.billing_city = addresses.billing.city;
+      orderData.billing_state = addresses.billing.state || null;
+      orderData.billing_postal_code = addresses.billing.postalCode;
+      orderData.billing_country = addresses.billing.country || 'Turkey';
     }
 
     // Insert order
@@ -194,6 +204,14 @@ export class OrdersService {
       }
     }
 
+    await this.orderLifecycleService.recordHistory(
+      'retail',
+      order.id,
+      null,
+      'pending',
+      { role: 'buyer', userId: userId || null },
+    );
+
     // Clear the user's cart after successful order
     if (userId) {
       try {
@@ -231,27 +249,35 @@ export class OrdersService {
       throw new NotFoundException('Order not found');
     }
 
-    return order;
+    const statusHistory = await this.orderLifecycleService.getHistory(
+      'retail',
+      orderId,
+    );
+
+    return { ...order, status_history: statusHistory };
   }
 
-  async getUserOrders(userId: string, page = 1, limit = 10) {
+  async getUserOrders(userId: string, page = 1, limit = 10, cursor?: string) {
     const serviceClient = this.supabaseService.getServiceClient();
+    const pageRequest = { page, limit, cursor };
+    const sort: ListingSort = { column: 'created_at', ascending: false };
 
-    const from = (page - 1) * limit;
-    const to = from + limit - 1;
-
-    const { data: orders, error: ordersError, count } = await serviceClient
+    const query = serviceClient
       .from('retail_orders')
       .select(
         `
         *,
         items:retail_order_items(*)
       `,
-        { count: 'exact' },
+        cursor ? {} : { count: 'exact' },
       )
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false })
-      .range(from, to);
+      .eq('user_id', userId);
+
+    const {
+      data: rows,
+      error: ordersError,
+      count,
+    } = await paginateListing(query, sort, pageRequest);
 
     if (ordersError) {
       throw new BadRequestException(
@@ -259,60 +285,51 @@ export class OrdersService {
       );
     }
 
+    const { items: orders, pagination } = listingPage(
+      rows,
+      sort,
+      pageRequest,
+      count,
+    );
+
     return {
-      orders: orders || [],
-      pagination: {
-        page,
-        limit,
-        total: count || 0,
-        pages: Math.ceil((count || 0) / limit),
-      },
+      orders,
+      // Page-based responses keep the pages field retail clients read
+      pagination:
+        'totalPages' in pagination
+          ? { ...pagination, pages: pagination.totalPages }
+          : pagination,
     };
   }
 
   async updateOrderStatus(
     orderId: string,
     updateDto: UpdateRetailOrderStatusDto,
-    userId?: string,
+    requester: OrderRequester,
   ) {
-    const serviceClient = this.supabaseService.getServiceClient();
-
-    // Get the order first to verify ownership
-    const order = await this.getOrderById(orderId, userId);
-
-    const updateData: any = {
-      status: updateDto.status,
-      admin_notes: updateDto.adminNotes || order.admin_notes,
-    };
-
-    // Set timestamp based on status
-    switch (updateDto.status) {
-      case 'confirmed':
-        updateData.confirmed_at = new Date().toISOString();
-        break;
-      case 'shipped':
-        updateData.shipped_at = new Date().toISOString();
-        break;
-      case 'delivered':
-        updateData.delivered_at = new Date().toISOString();
-        break;
-      case 'cancelled':
-        updateData.cancelled_at = new Date().toISOString();
-        break;
-    }
-
-    const { data: updatedOrder, error: updateError } = await serviceClient
-      .from('retail_orders')
-      .update(updateData)
-      .eq('id', orderId)
-      .select()
-      .single();
-
-    if (updateError) {
-      throw new BadRequestException(
-        `Failed to update order: ${updateError.message}`,
-      );
-    }
+    const order = await this.getOrderById(orderId);
+
+    const hasBrandProducts = requester.brandId
+      ? await this.orderContainsBrandProducts(orderId, requester.brandId)
+      : false;
+    const actor = this.orderLifecycleService.resolveActor(
+      order,
+      requester,
+      hasBrandProducts,
+    );
+
+    const updatedOrder = await this.orderLifecycleService.transition(
+      'retail',
+      order,
+      updateDto.status,
+      actor,
+      {
+        note: updateDto.note,
+        updates: {
+          admin_notes: updateDto.adminNotes || order.admin_notes,
+        },
+      },
+    );
 
     return updatedOrder;
   }
@@ -320,12 +337,11 @@ export class OrdersService {
   async updatePaymentStatus(
     orderId: string,
     updateDto: UpdateRetailPaymentStatusDto,
-    userId?: string,
   ) {
     const serviceClient = this.supabaseService.getServiceClient();
 
-    // Get the order first to verify ownership
-    await this.getOrderById(orderId, userId);
+    // Make sure the order exists
+    await this.getOrderById(orderId);
 
     const { data: updatedOrder, error: updateError } = await serviceClient
       .from('retail_orders')
@@ -345,4 +361,21 @@ export class OrdersService {
 
     return updatedOrder;
   }
+
+  private async orderContainsBrandProducts(orderId: string, brandId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data, error } = await serviceClient
+      .from('retail_order_items')
+      .select('id, product:retail_products!inner(retail_brand_id)')
+      .eq('order_id', orderId)
+      .eq('product.retail_brand_id', brandId)
+      .limit(1);
+
+    if (error) {
+      throw new BadRequestException('Failed to verify order products');
+    }
+
+    return (data || []).length > 0;
+  }
 }
@@ -6,28 +6,27 @@ import {
   Delete,
   Body,
   Param,
-  Headers,
   Query,
   HttpCode,
   HttpStatus,
-  UnauthorizedException,
   ParseIntPipe,
   DefaultValuePipe,
 } from '@nestjs/common';
 import { RetailProductsService } from './products.service';
-import { SupabaseService } from '../../supabase/supabase.service';
+import { Public } from '../../auth/decorators/public.decorator';
+import { CurrentBrand } from '../../auth/decorators/current-brand.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { BrandMember } from '../../auth/decorators/brand-member.decorator';
 
 @Controller('retail-products')
 export class RetailProductsController {
-  constructor(
-    private readonly productsService: RetailProductsService,
-    private readonly supabaseService: SupabaseService,
-  ) {}
+  constructor(private readonly productsService: RetailProductsService) {}
 
+  @Public()
   @Get()
   async getPublicProducts(
     @Query('brandId') brandId?: string,
-    @Query('sortBy') sortBy?: 'price_asc' | 'price_desc' | 'newest' | 'popular',
+    @Query('sortBy') sortBy?: 'price_asc' | 'price_desc' | 'newest' | 'popular' | 'relevance',
     @Query('priceRange') priceRange?: 'under_50' | '50_100' | '100_200' | 'over_200',
     @Query('search') search?: string,
     @Query('filter') filter?: 'all' | 'sale' | 'best-products' | 'recent',
@@ -35,75 +34,53 @@ export class RetailProductsController {
     @Query('subcategory') subcategory?: string,
     @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number = 1,
     @Query('limit', new DefaultValuePipe(24), ParseIntPipe) limit: number = 24,
+    @Query('cursor') cursor?: string,
+    @CurrentUser('id') userId?: string,
   ) {
-    return this.productsService.getPublicProducts(brandId, sortBy, priceRange, search, page, limit, filter, category, subcategory);
+    return this.productsService.getPublicProducts(brandId, sortBy, priceRange, search, page, limit, filter, category, subcategory, cursor, userId);
   }
 
+  @Public()
   @Get('slug/:slug')
   async getProductBySlug(@Param('slug') slug: string) {
     return this.productsService.getProductBySlug(slug);
   }
 
   @Get('my-products')
+  @BrandMember('retail')
   async getMyProducts(
-    @Headers('authorization') authHeader?: string,
+    @CurrentBrand('id') brandId: string,
     @Query('status') status?: 'draft' | 'active' | 'inactive' | 'out_of_stock',
     @Query('search') search?: string,
     @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number = 1,
     @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number = 50,
   ) {
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) {
-      throw new UnauthorizedException('Authentication required');
-    }
-
-    const supabase = this.supabaseService.getClient();
-    const { data: userData, error } = await supabase.auth.getUser(token);
-
-    if (error || !userData.user) {
-      throw new UnauthorizedException('Invalid or expired token');
-    }
-
-    return this.productsService.getMyProducts(userData.user.id, status, search, page, limit);
+    return this.productsService.getMyProducts(brandId, status, search, page, limit);
   }
 
   @Get('my-products/:id')
+  @BrandMember('retail')
   async getProductById(
     @Param('id') productId: string,
-    @Headers('authorization') authHeader?: string,
+    @CurrentBrand('id') brandId: string,
   ) {
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) {
-      throw new UnauthorizedException('Authentication required');
-    }
-
-    const supabase = this.supabaseService.getClient();
-    const { data: userData, error } = await supabase.auth.getUser(token);
-
-    if (error || !userData.user) {
-      throw new UnauthorizedException('Invalid or expired token');
-    }
-
-    return this.productsService.getProductById(productId, userData.user.id);
+    return this.productsService.getProductById(productId, brandId);
   }
 
   @Get('my-products/:id/inventory')
+  @BrandMember('retail')
   async getProductInventory(
     @Param('id') productId: string,
-    @Headers('authorization') authHeader?: string,
+    @CurrentBrand('id') brandId: string,
   ) {
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) throw new UnauthorizedException('Authentication required');
-    const supabase = this.supabaseService.getClient();
-    const { data: userData, error } = await supabase.auth.getUser(token);
-    if (error || !userData.user) throw new UnauthorizedException('Invalid or expired token');
-    return this.productsService.getProductInventory(productId, userData.user.id);
+    return this.productsService.getProductInventory(productId, brandId);
   }
 
   @Put('my-products/:id')
+  @BrandMember('retail', 'catalog:write')
   async updateProduct(
     @Param('id') productId: string,
-    @Headers('authorization') authHeader: string,
+    @CurrentBrand('id') brandId: string,
     @Body() updateData: {
       name?: string;
       description?: string;
@@ -116,39 +93,23 @@ export class RetailProductsController {
       lowStockThreshold?: number;
     },
   ) {
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) {
-      throw new UnauthorizedException('Authentication required');
-    }
-
-    const supabase = this.supabaseService.getClient();
-    const { data: userData, error } = await supabase.auth.getUser(token);
-
-    if (error || !userData.user) {
-      throw new UnauthorizedException('Invalid or expired token');
-    }
-
     return this.productsService.updateProduct(
       productId,
-      userData.user.id,
+      brandId,
       updateData,
     );
   }
 
   @Put('my-products/:id/inventory')
+  @BrandMember('retail', 'catalog:write')
   async updateProductInventoryPreserved(
     @Param('id') productId: string,
-    @Headers('authorization') authHeader: string,
+    @CurrentBrand('id') brandId: string,
     @Body() updates: { updates: { id: string; preservedQuantity: number }[] },
   ) {
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) throw new UnauthorizedException('Authentication required');
-    const supabase = this.supabaseService.getClient();
-    const { data: userData, error } = await supabase.auth.getUser(token);
-    if (error || !userData.user) throw new UnauthorizedException('Invalid or expired token');
     return this.productsService.updateInventoryPreservedQuantities(
       productId,
-      userData.user.id,
+      brandId,
       updates.updates,
     );
   }
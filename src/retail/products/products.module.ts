@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { RetailProductsController } from './products.controller';
 import { RetailProductsService } from './products.service';
 import { SupabaseModule } from '../../supabase/supabase.module';
+import { SearchModule } from '../../search/search.module';
 
 @Module({
-  imports: [SupabaseModule],
+  imports: [SupabaseModule, SearchModule],
   controllers: [RetailProductsController],
   providers: [RetailProductsService],
   exports: [RetailProductsService],
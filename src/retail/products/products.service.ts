@@ -1,12 +1,31 @@
-import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
 import { SupabaseService } from '../../supabase/supabase.service';
+import {
+  ListingSort,
+  listingPage,
+  paginateListing,
+} from '../../supabase/cursor-pagination';
+import {
+  ProductSearchService,
+  RELEVANCE_SORT,
+} from '../../search/product-search.service';
+import { SearchAnalyticsService } from '../../search/search-analytics.service';
 
 @Injectable()
 export class RetailProductsService {
-  constructor(private readonly supabaseService: SupabaseService) {}
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly productSearchService: ProductSearchService,
+    private readonly searchAnalyticsService: SearchAnalyticsService,
+  ) {}
 
+  // brandId is the approved brand resolved from the caller's team membership
   async getMyProducts(
-    userId: string,
+    brandId: string,
     status?: 'draft' | 'active' | 'inactive' | 'out_of_stock',
     search?: string,
     page: number = 1,
@@ -15,24 +34,11 @@ export class RetailProductsService {
     // Use service client to bypass RLS for admin operations
     const supabase = this.supabaseService.getServiceClient();
 
-    // First, get the user's retail brand
-    const { data: retailBrand, error: brandError } = await supabase
-      .from('retail_brands')
-      .select('id')
-      .eq('user_id', userId)
-      .eq('status', 'approved')
-      .single();
-
-    if (brandError || !retailBrand) {
-      // Return empty array if no retail brand found (not an error)
-      return [];
-    }
-
     // Build query
     let query = supabase
       .from('retail_products')
       .select('*')
-      .eq('retail_brand_id', retailBrand.id)
+      .eq('retail_brand_id', brandId)
       .is('deleted_at', null)
       .order('created_at', { ascending: false });
 
@@ -65,27 +71,15 @@ export class RetailProductsService {
     return products || [];
   }
 
-  async getProductById(productId: string, userId: string) {
+  async getProductById(productId: string, brandId: string) {
     const supabase = this.supabaseService.getServiceClient();
 
-    // First, get the user's retail brand
-    const { data: retailBrand, error: brandError } = await supabase
-      .from('retail_brands')
-      .select('id')
-      .eq('user_id', userId)
-      .eq('status', 'approved')
-      .single();
-
-    if (brandError || !retailBrand) {
-      throw new NotFoundException('Retail brand not found');
-    }
-
     // Get product
     const { data: product, error } = await supabase
       .from('retail_products')
       .select('*')
       .eq('id', productId)
-      .eq('retail_brand_id', retailBrand.id)
+      .eq('retail_brand_id', brandId)
       .is('deleted_at', null)
       .single();
 
@@ -99,7 +93,7 @@ export class RetailProductsService {
 
   async updateProduct(
     productId: string,
-    userId: string,
+    brandId: string,
     updateData: {
       name?: string;
       description?: string;
@@ -115,24 +109,12 @@ export class RetailProductsService {
   ) {
     const supabase = this.supabaseService.getServiceClient();
 
-    // First, get the user's retail brand
-    const { data: retailBrand, error: brandError } = await supabase
-      .from('retail_brands')
-      .select('id')
-      .eq('user_id', userId)
-      .eq('status', 'approved')
-      .single();
-
-    if (brandError || !retailBrand) {
-      throw new NotFoundException('Retail brand not found');
-    }
-
     // Get the existing product to verify ownership and cost price
     const { data: existingProduct, error: fetchError } = await supabase
       .from('retail_products')
       .select('*')
       .eq('id', productId)
-      .eq('retail_brand_id', retailBrand.id)
+      .eq('retail_brand_id', brandId)
       .is('deleted_at', null)
       .single();
 
@@ -230,7 +212,7 @@ export class RetailProductsService {
       .from('retail_products')
       .update(updateObject)
       .eq('id', productId)
-      .eq('retail_brand_id', retailBrand.id)
+      .eq('retail_brand_id', brandId)
       .select()
       .single();
 
@@ -243,7 +225,7 @@ export class RetailProductsService {
 
   async getPublicProducts(
     brandId?: string,
-    sortBy?: 'price_asc' | 'price_desc' | 'newest' | 'popular',
+    sortBy?: 'price_asc' | 'price_desc' | 'newest' | 'popular' | 'relevance',
     priceRange?: 'under_50' | '50_100' | '100_200' | 'over_200',
     search?: string,
     page: number = 1,
@@ -251,17 +233,81 @@ export class RetailProductsService {
     filter?: 'all' | 'sale' | 'best-products' | 'recent',
     category?: string,
     subcategory?: string,
+    cursor?: string,
+    userId?: string,
   ) {
     const supabase = this.supabaseService.getServiceClient();
+    // Search rules first: synonyms rewrite the term, a redirect replaces the
+    // listing. With a search term, queries run over the search function's matches
+    const resolvedSearch = await this.productSearchService.resolveQuery(search);
+    const searchTerm = resolvedSearch?.resolvedQuery ?? null;
+
+    // Sort order, applied together with the page at the end
+    const pageRequest = { page, limit, cursor };
+    let sort: ListingSort;
+    switch (sortBy) {
+      case 'price_asc':
+        sort = { column: 'retail_price', ascending: true };
+        break;
+      case 'price_desc':
+        sort = { column: 'retail_price', ascending: false };
+        break;
+      case 'newest':
+        sort = { column: 'created_at', ascending: false };
+        break;
+      case 'popular':
+        // TODO: Implement actual popularity logic based on sales/views
+        sort = { column: 'created_at', ascending: false };
+        break;
+      default:
+        // Relevance (default with a search term): keep the search order
+        sort = !searchTerm || (sortBy && sortBy !== RELEVANCE_SORT)
+          ? { column: 'created_at', ascending: false }
+          : null;
+    }
+
+    // Recorded once per search, on its first page
+    const searchFilters = {
+      brandId,
+      priceRange,
+      filter,
+      category,
+      subcategory,
+    };
+    const trackSearch = async (resultCount: number) =>
+      resolvedSearch
+        ? this.searchAnalyticsService.recordListingSearch(
+            {
+              catalog: 'retail',
+              source: 'listing',
+              search: resolvedSearch,
+              filters: searchFilters,
+              resultCount,
+              userId,
+            },
+            page === 1 && !cursor,
+          )
+        : null;
+
+    if (resolvedSearch?.redirect) {
+      return {
+        products: [],
+        pagination: listingPage([], sort, pageRequest, 0).pagination,
+        search: await trackSearch(0),
+      };
+    }
 
     // Build query - only active products with approved brands, include images
-    let query = supabase
-      .from('retail_products')
-      .select(`
+    let query = this.productSearchService
+      .products(
+        'retail',
+        searchTerm,
+        `
         *,
         retail_brands!inner(id, display_name, logo_url, status),
         retail_product_images(id, image_url, display_order, is_primary)
-      `)
+      `,
+      )
       .eq('status', 'active')
       .eq('retail_brands.status', 'approved')
       .is('deleted_at', null);
@@ -284,12 +330,7 @@ export class RetailProductsService {
         // If category not found, return empty results
         return {
           products: [],
-          pagination: {
-            page,
-            limit,
-            total: 0,
-            totalPages: 0,
-          },
+          pagination: listingPage([], sort, pageRequest, 0).pagination,
         };
       }
       
@@ -311,12 +352,7 @@ export class RetailProductsService {
         // If subcategory not found, return empty results
         return {
           products: [],
-          pagination: {
-            page,
-            limit,
-            total: 0,
-            totalPages: 0,
-          },
+          pagination: listingPage([], sort, pageRequest, 0).pagination,
         };
       }
       
@@ -364,37 +400,9 @@ export class RetailProductsService {
       }
     }
 
-    // Apply search filter
-    if (search && search.trim()) {
-      const searchTerm = `%${search.trim()}%`;
-      query = query.or(
-        `name.ilike.${searchTerm},sku.ilike.${searchTerm},description.ilike.${searchTerm}`
-      );
-    }
-
-    // Apply sorting
-    switch (sortBy) {
-      case 'price_asc':
-        query = query.order('retail_price', { ascending: true });
-        break;
-      case 'price_desc':
-        query = query.order('retail_price', { ascending: false });
-        break;
-      case 'newest':
-        query = query.order('created_at', { ascending: false });
-        break;
-      case 'popular':
-        // TODO: Implement actual popularity logic based on sales/views
-        query = query.order('created_at', { ascending: false });
-        break;
-      default:
-        query = query.order('created_at', { ascending: false });
-    }
-
     // Count total for pagination
-    let countQuery = supabase
-      .from('retail_products')
-      .select('id', { count: 'exact', head: true })
+    let countQuery = this.productSearchService
+      .products('retail', searchTerm, 'id', { count: 'exact', head: true })
       .eq('status', 'active')
       .is('deleted_at', null);
 
@@ -465,15 +473,8 @@ export class RetailProductsService {
       }
     }
 
-    // Apply search to count
-    if (search && search.trim()) {
-      const searchTerm = `%${search.trim()}%`;
-      countQuery = countQuery.or(
-        `name.ilike.${searchTerm},sku.ilike.${searchTerm},description.ilike.${searchTerm}`
-      );
-    }
-
-    const { count, error: countError } = await countQuery;
+    // Cursor pages are not counted
+    const { count, error: countError } = cursor ? { count: null, error: null } : await countQuery;
 
     // Check if error is due to missing category_id or subcategory_id column
     // If so, skip category filtering and return all products
@@ -484,9 +485,8 @@ export class RetailProductsService {
       console.warn('Continuing without category filter...');
       
       // Rebuild queries without category filters
-      countQuery = supabase
-        .from('retail_products')
-        .select('id', { count: 'exact', head: true })
+      countQuery = this.productSearchService
+        .products('retail', searchTerm, 'id', { count: 'exact', head: true })
         .eq('status', 'active')
         .is('deleted_at', null);
       
@@ -495,9 +495,8 @@ export class RetailProductsService {
       }
       
       // Rebuild main query without category filters
-      query = supabase
-        .from('retail_products')
-        .select(`
+      query = this.productSearchService
+        .products('retail', searchTerm, `
           *,
           retail_brands!inner(id, display_name, logo_url, status),
           retail_product_images(id, image_url, display_order, is_primary)
@@ -541,66 +540,31 @@ export class RetailProductsService {
         }
       }
       
-      if (search && search.trim()) {
-        const searchTerm = `%${search.trim()}%`;
-        query = query.or(`name.ilike.${searchTerm},sku.ilike.${searchTerm},description.ilike.${searchTerm}`);
-        countQuery = countQuery.or(`name.ilike.${searchTerm},sku.ilike.${searchTerm},description.ilike.${searchTerm}`);
-      }
-      
-      // Apply sorting
-      switch (sortBy) {
-        case 'price_asc':
-          query = query.order('retail_price', { ascending: true });
-          break;
-        case 'price_desc':
-          query = query.order('retail_price', { ascending: false });
-          break;
-        case 'newest':
-          query = query.order('created_at', { ascending: false });
-          break;
-        case 'popular':
-          query = query.order('created_at', { ascending: false });
-          break;
-        default:
-          query = query.order('created_at', { ascending: false });
-      }
-      
       // Re-execute count query
-      const { count: retryCount, error: retryCountError } = await countQuery;
+      const { count: retryCount, error: retryCountError } = cursor
+        ? { count: null, error: null }
+        : await countQuery;
       if (retryCountError) {
         console.error('Error counting public retail products:', retryCountError);
       }
       
-      // Apply pagination
-      const from = (page - 1) * limit;
-      const to = from + limit - 1;
-      query = query.range(from, to);
-      
-      const { data: products, error: retryError } = await query;
+      // Apply sorting and pagination
+      const { data: rows, error: retryError } = await paginateListing(query, sort, pageRequest);
       
       if (retryError) {
         console.error('Error fetching public retail products:', retryError);
         return {
           products: [],
-          pagination: {
-            page,
-            limit,
-            total: 0,
-            totalPages: 0,
-          },
+          pagination: listingPage([], sort, pageRequest, 0).pagination,
         };
       }
       
-      const totalPages = retryCount ? Math.ceil(retryCount / limit) : 0;
+      const { items: products, pagination } = listingPage(rows, sort, pageRequest, retryCount);
       
       return {
-        products: products || [],
-        pagination: {
-          page,
-          limit,
-          total: retryCount || 0,
-          totalPages,
-        },
+        products,
+        pagination,
+        search: await trackSearch(retryCount || 0),
       };
     }
     
@@ -608,12 +572,8 @@ export class RetailProductsService {
       console.error('Error counting public retail products:', countError);
     }
 
-    // Apply pagination
-    const from = (page - 1) * limit;
-    const to = from + limit - 1;
-    query = query.range(from, to);
-
-    const { data: products, error } = await query;
+    // Apply sorting and pagination
+    const { data: rows, error } = await paginateListing(query, sort, pageRequest);
 
     if (error) {
       // Check if error is due to missing category_id column
@@ -625,36 +585,22 @@ export class RetailProductsService {
         
         return {
           products: [],
-          pagination: {
-            page,
-            limit,
-            total: 0,
-            totalPages: 0,
-          },
+          pagination: listingPage([], sort, pageRequest, 0).pagination,
         };
       }
       console.error('Error fetching public retail products:', error);
       return {
         products: [],
-        pagination: {
-          page,
-          limit,
-          total: 0,
-          totalPages: 0,
-        },
+        pagination: listingPage([], sort, pageRequest, 0).pagination,
       };
     }
 
-    const totalPages = count ? Math.ceil(count / limit) : 0;
+    const { items: products, pagination } = listingPage(rows, sort, pageRequest, count);
 
     return {
-      products: products || [],
-      pagination: {
-        page,
-        limit,
-        total: count || 0,
-        totalPages,
-      },
+      products,
+      pagination,
+      search: await trackSearch(count || 0),
     };
   }
 
@@ -710,22 +656,14 @@ export class RetailProductsService {
   }
 
   // Get all inventory rows for a product (with preserved quantity)
-  async getProductInventory(productId: string, userId: string) {
+  async getProductInventory(productId: string, brandId: string) {
     const supabase = this.supabaseService.getServiceClient();
-    // Get user's retail brand
-    const { data: retailBrand, error: brandError } = await supabase
-      .from('retail_brands')
-      .select('id')
-      .eq('user_id', userId)
-      .eq('status', 'approved')
-      .single();
-    if (brandError || !retailBrand) throw new NotFoundException('Retail brand not found');
     // Check product ownership
     const { data: product, error: prodError } = await supabase
       .from('retail_products')
       .select('id')
       .eq('id', productId)
-      .eq('retail_brand_id', retailBrand.id)
+      .eq('retail_brand_id', brandId)
       .is('deleted_at', null)
       .single();
     if (prodError || !product) throw new NotFoundException('Product not found');
@@ -741,28 +679,17 @@ export class RetailProductsService {
   // Update preserved_quantity for inventory rows
   async updateInventoryPreservedQuantities(
     productId: string,
-    userId: string,
+    brandId: string,
     updates: { id: string; preservedQuantity: number }[]
   ) {
-    console.log('DEBUG: updateInventoryPreservedQuantities called', { productId, userId, updates });
+    console.log('DEBUG: updateInventoryPreservedQuantities called', { productId, brandId, updates });
     const supabase = this.supabaseService.getServiceClient();
-    // Get user's retail brand
-    const { data: retailBrand, error: brandError } = await supabase
-      .from('retail_brands')
-      .select('id')
-      .eq('user_id', userId)
-      .eq('status', 'approved')
-      .single();
-    if (brandError || !retailBrand) {
-      console.error('DEBUG: Retail brand not found', brandError);
-      throw new NotFoundException('Retail brand not found');
-    }
     // Check product ownership
     const { data: product, error: prodError } = await supabase
       .from('retail_products')
       .select('id')
       .eq('id', productId)
-      .eq('retail_brand_id', retailBrand.id)
+      .eq('retail_brand_id', brandId)
       .is('deleted_at', null)
       .single();
     if (prodError || !product) {
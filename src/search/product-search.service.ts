@@ -0,0 +1,138 @@
+import { Injectable } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+
+export type SearchCatalog = 'wholesale' | 'retail';
+
+// Sort option for listings with a search term; rows then come back in the
+// order of the search function, so no order is applied on top
+export const RELEVANCE_SORT = 'relevance';
+
+const MAX_QUERY_LENGTH = 200;
+
+// Where a redirect rule sends a query, instead of listing results
+export interface SearchRedirect {
+  url: string | null;
+  categoryId: string | null;
+  categorySlug: string | null;
+}
+
+export interface ResolvedSearch {
+  // As typed (normalized) and as searched after synonyms; resolvedQuery is
+  // null when the search redirects
+  query: string;
+  resolvedQuery: string | null;
+  ruleId: string | null;
+  redirect: SearchRedirect | null;
+}
+
+const SOURCES: Record<SearchCatalog, { table: string; search: string }> = {
+  wholesale: {
+    table: 'active_wholesale_products',
+    search: 'search_wholesale_products',
+  },
+  retail: { table: 'retail_products', search: 'search_retail_products' },
+};
+
+/**
+ * Product search shared by the wholesale and retail listings, backed by the
+ * search_*_products functions (full text with Turkish/English stemming,
+ * weighted by field, plus trigram matching for typos).
+ */
+@Injectable()
+export class ProductSearchService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  // Trimmed, whitespace-collapsed search term, or null when there is none
+  normalizeQuery(search?: string | null): string | null {
+    const query = (search || '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .slice(0, MAX_QUERY_LENGTH);
+    return query || null;
+  }
+
+  /**
+   * Applies the admin's search rules (search_rules) to a search term: a
+   * redirect when the whole query is a redirect term, otherwise the term with
+   * synonyms replaced. Null when there is no search term.
+   */
+  async resolveQuery(search?: string | null): Promise<ResolvedSearch | null> {
+    const query = this.normalizeQuery(search);
+    if (!query) {
+      return null;
+    }
+
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .rpc('resolve_search_query', { p_query: query })
+      .maybeSingle<any>();
+
+    // Searching as typed beats failing the search
+    if (error || !data) {
+      if (error) {
+        console.error('Error applying search rules:', error);
+      }
+      return { query, resolvedQuery: query, ruleId: null, redirect: null };
+    }
+
+    const redirect =
+      data.redirect_url || data.redirect_category_id
+        ? {
+            url: data.redirect_url,
+            categoryId: data.redirect_category_id,
+            categorySlug: data.redirect_category_slug,
+          }
+        : null;
+
+    return {
+      query,
+      resolvedQuery: redirect ? null : this.normalizeQuery(data.query) || query,
+      ruleId: data.search_rule_id,
+      redirect,
+    };
+  }
+
+  /**
+   * Query builder over a catalog's products: the search function's matches
+   * (most relevant first) when there is a search term, the plain listing
+   * source otherwise. Filters, embeds, ordering and ranges are applied on
+   * top by the caller as usual.
+   */
+  products(
+    catalog: SearchCatalog,
+    search: string | null,
+    columns: string = '*',
+    options?: { count?: 'exact'; head?: boolean },
+  ) {
+    const serviceClient = this.supabaseService.getServiceClient();
+    const source = SOURCES[catalog];
+
+    if (search) {
+      return serviceClient
+        .rpc(source.search, { p_query: search }, options)
+        .select<string, any>(columns);
+    }
+    return serviceClient
+      .from(source.table)
+      .select<string, any>(columns, options);
+  }
+
+  // Categories and approved brands whose name matches, for suggestions
+  async matchCatalogNames(search: string, limit: number = 3) {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .rpc('search_catalog_names', { p_query: search, p_limit: limit });
+
+    if (error) {
+      console.error('Error searching category and brand names:', error);
+      return [];
+    }
+
+    return (data || []) as {
+      kind: 'category' | 'brand';
+      id: string;
+      name: string;
+      slug: string;
+    }[];
+  }
+}
@@ -0,0 +1,147 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import type { ResolvedSearch, SearchCatalog } from './product-search.service';
+
+export type SearchSource = 'listing' | 'suggestions';
+
+export interface SearchEvent {
+  catalog: SearchCatalog;
+  source: SearchSource;
+  search: ResolvedSearch;
+  filters?: Record<string, any>;
+  resultCount: number;
+  userId?: string | null;
+}
+
+const REPORT_DAYS = 30;
+
+/**
+ * Search events (what was searched, with which filters, how many results
+ * and which product was opened from them) and the report built on them.
+ */
+@Injectable()
+export class SearchAnalyticsService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  // Returns the event id, which the client sends back with a click. Search
+  // keeps working when recording fails, so errors are only logged
+  async recordSearch(event: SearchEvent): Promise<string | null> {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('search_events')
+      .insert({
+        catalog: event.catalog,
+        source: event.source,
+        query: event.search.query,
+        resolved_query: event.search.resolvedQuery,
+        search_rule_id: event.search.ruleId,
+        filters: event.filters || {},
+        result_count: event.resultCount,
+        user_id: event.userId || null,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error recording search event:', error);
+      return null;
+    }
+
+    return data.id;
+  }
+
+  /**
+   * Records a listing search and returns what the listing response tells
+   * about it (`search`): the event id for clicks, the query as searched and
+   * the redirect, if any. Only the first page is recorded; later pages and
+   * cursor pages are the same search.
+   */
+  async recordListingSearch(event: SearchEvent, firstPage: boolean) {
+    const id = firstPage ? await this.recordSearch(event) : null;
+    return {
+      id,
+      query: event.search.query,
+      resolvedQuery: event.search.resolvedQuery,
+      redirect: event.search.redirect,
+    };
+  }
+
+  // Only the first click of a search is kept
+  async recordClick(eventId: string, productId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data: event, error } = await serviceClient
+      .from('search_events')
+      .select('id, clicked_at')
+      .eq('id', eventId)
+      .maybeSingle();
+
+    if (error || !event) {
+      throw new NotFoundException('Search not found');
+    }
+
+    if (!event.clicked_at) {
+      const { error: updateError } = await serviceClient
+        .from('search_events')
+        .update({
+          clicked_product_id: productId,
+          clicked_at: new Date().toISOString(),
+        })
+        .eq('id', eventId)
+        .is('clicked_at', null);
+
+      if (updateError) {
+        console.error('Error recording search click:', updateError);
+      }
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Totals, top queries and zero-result queries between two dates (the last
+   * 30 days by default). Suggestion lookups are left out unless asked for:
+   * they are recorded per keystroke.
+   */
+  async getReport(options: {
+    from?: Date;
+    to?: Date;
+    catalog?: SearchCatalog;
+    source?: SearchSource | 'all';
+    limit?: number;
+  }) {
+    const to = options.to || new Date();
+    const from =
+      options.from ||
+      new Date(to.getTime() - REPORT_DAYS * 24 * 60 * 60 * 1000);
+    const source = options.source || 'listing';
+
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .rpc('get_search_report', {
+        p_from: from.toISOString(),
+        p_to: to.toISOString(),
+        p_catalog: options.catalog || null,
+        p_source: source === 'all' ? null : source,
+        p_limit: options.limit || 20,
+      });
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to build search report: ${error.message}`,
+      );
+    }
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      catalog: options.catalog || 'all',
+      source,
+      ...data,
+    };
+  }
+}
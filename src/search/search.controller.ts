@@ -0,0 +1,38 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UsePipes,
+  ValidationPipe,
+} from '@nestjs/common';
+import { Public } from '../auth/decorators/public.decorator';
+import { RateLimit } from '../rate-limit/rate-limit.decorator';
+import { SearchAnalyticsService } from './search-analytics.service';
+import { RecordSearchClickDto } from './dto/record-search-click.dto';
+
+@Controller('search')
+export class SearchController {
+  constructor(
+    private readonly searchAnalyticsService: SearchAnalyticsService,
+  ) {}
+
+  // A product opened from search results; the id is the listing's search.id
+  @Public()
+  @Post('events/:id/click')
+  @HttpCode(HttpStatus.OK)
+  @RateLimit({ limit: 60, windowMs: 60 * 1000, by: 'ip' })
+  @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
+  async recordClick(
+    @Param('id', ParseUUIDPipe) eventId: string,
+    @Body() recordSearchClickDto: RecordSearchClickDto,
+  ) {
+    return this.searchAnalyticsService.recordClick(
+      eventId,
+      recordSearchClickDto.productId,
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ProductSearchService } from './product-search.service';
+import { SearchAnalyticsService } from './search-analytics.service';
+import { SearchController } from './search.controller';
+import { SupabaseModule } from '../supabase/supabase.module';
+
+@Module({
+  imports: [SupabaseModule],
+  controllers: [SearchController],
+  providers: [ProductSearchService, SearchAnalyticsService],
+  exports: [ProductSearchService, SearchAnalyticsService],
+})
+export class SearchModule {}
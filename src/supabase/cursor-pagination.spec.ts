@@ -0,0 +1,222 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  ListingPageRequest,
+  ListingSort,
+  listingPage,
+  paginateListing,
+} from './cursor-pagination';
+
+// Records the PostgREST builder calls paginateListing makes
+const queryRecorder = () => {
+  const calls: [string, ...unknown[]][] = [];
+  const query = {
+    calls,
+    order: (...args: unknown[]) => (calls.push(['order', ...args]), query),
+    or: (...args: unknown[]) => (calls.push(['or', ...args]), query),
+    range: (...args: unknown[]) => (calls.push(['range', ...args]), query),
+    limit: (...args: unknown[]) => (calls.push(['limit', ...args]), query),
+  };
+  return query;
+};
+
+const newestFirst: ListingSort = { column: 'created_at', ascending: false };
+const cheapestFirst: ListingSort = { column: 'price', ascending: true };
+
+const rows = (count: number, from = 0) =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `id-${from + i}`,
+    created_at: `2026-01-${String(28 - from - i).padStart(2, '0')}`,
+    price: from + i,
+  }));
+
+const nextCursor = (
+  sort: ListingSort,
+  page: Record<string, unknown>[],
+  request: ListingPageRequest,
+  total?: number,
+) => listingPage(page, sort, request, total).pagination.nextCursor as string;
+
+describe('cursor pagination', () => {
+  describe('paginateListing', () => {
+    it('orders by the sort column and id, and pages by offset', () => {
+      const query = queryRecorder();
+
+      paginateListing(query, newestFirst, { page: 3, limit: 10 });
+
+      expect(query.calls).toEqual([
+        ['order', 'created_at', { ascending: false }],
+        ['order', 'id', { ascending: false }],
+        ['range', 20, 29],
+      ]);
+    });
+
+    it('passes nullsFirst through when the sort sets it', () => {
+      const query = queryRecorder();
+
+      paginateListing(
+        query,
+        { column: 'price', ascending: true, nullsFirst: false },
+        { page: 1, limit: 5 },
+      );
+
+      expect(query.calls[0]).toEqual([
+        'order',
+        'price',
+        { ascending: true, nullsFirst: false },
+      ]);
+    });
+
+    it('keeps the query order for offset listings', () => {
+      const query = queryRecorder();
+
+      paginateListing(query, null, { page: 2, limit: 5 });
+
+      expect(query.calls).toEqual([['range', 5, 9]]);
+    });
+
+    it('reads the rows after the cursor row, plus one', () => {
+      const request = { page: 1, limit: 2 };
+      const cursor = nextCursor(cheapestFirst, rows(2), request, 10);
+      const query = queryRecorder();
+
+      paginateListing(query, cheapestFirst, { ...request, cursor });
+
+      expect(query.calls.slice(2)).toEqual([
+        ['or', 'price.gt."1",and(price.eq."1",id.gt."id-1"),price.is.null'],
+        ['range', 0, 2],
+      ]);
+    });
+
+    it('continues past the nulls when they come first', () => {
+      const page = [{ id: 'id-1', created_at: null }];
+      const cursor = nextCursor(newestFirst, page, { page: 1, limit: 1 }, 5);
+      const query = queryRecorder();
+
+      paginateListing(query, newestFirst, { page: 1, limit: 1, cursor });
+
+      expect(query.calls[2]).toEqual([
+        'or',
+        'and(created_at.is.null,id.lt."id-1"),created_at.not.is.null',
+      ]);
+    });
+
+    it('quotes cursor values so they cannot add filters', () => {
+      const page = [{ id: 'id-1', name: 'a",id.neq.(x)' }];
+      const sort: ListingSort = { column: 'name', ascending: true };
+      const cursor = nextCursor(sort, page, { page: 1, limit: 1 }, 5);
+      const query = queryRecorder();
+
+      paginateListing(query, sort, { page: 1, limit: 1, cursor });
+
+      expect(query.calls[2][1]).toContain('name.gt."a\\",id.neq.(x)"');
+    });
+
+    it('continues offset listings from the cursor offset', () => {
+      const cursor = nextCursor(null, rows(5), { page: 2, limit: 5 }, 20);
+      const query = queryRecorder();
+
+      paginateListing(query, null, { page: 1, limit: 5, cursor });
+
+      expect(query.calls).toEqual([['range', 10, 15]]);
+    });
+
+    it.each([
+      ['garbage', 'not-a-cursor'],
+      [
+        'a cursor of another sort',
+        Buffer.from(
+          JSON.stringify({ s: 'price.asc', v: 1, id: 'id-1' }),
+        ).toString('base64url'),
+      ],
+      [
+        'an offset cursor for a sorted listing',
+        Buffer.from(JSON.stringify({ s: 'offset', o: 10 })).toString(
+          'base64url',
+        ),
+      ],
+    ])('rejects %s', (_case, cursor) => {
+      expect(() =>
+        paginateListing(queryRecorder(), newestFirst, {
+          page: 1,
+          limit: 5,
+          cursor,
+        }),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  describe('listingPage', () => {
+    it('counts page-based listings', () => {
+      const { items, pagination } = listingPage(
+        rows(10),
+        newestFirst,
+        { page: 1, limit: 10 },
+        25,
+      );
+
+      expect(items).toHaveLength(10);
+      expect(pagination).toMatchObject({
+        page: 1,
+        limit: 10,
+        total: 25,
+        totalPages: 3,
+        hasMore: true,
+      });
+      expect(pagination.nextCursor).toEqual(expect.any(String));
+    });
+
+    it('has no next cursor on the last page', () => {
+      const { pagination } = listingPage(
+        rows(5, 20),
+        newestFirst,
+        { page: 3, limit: 10 },
+        25,
+      );
+
+      expect(pagination).toMatchObject({ hasMore: false, nextCursor: null });
+    });
+
+    it('drops the extra row of a cursor page and skips the count', () => {
+      const request = { page: 1, limit: 10 };
+      const cursor = nextCursor(newestFirst, rows(10), request, 25);
+
+      const more = listingPage(rows(11, 10), newestFirst, {
+        ...request,
+        cursor,
+      });
+      expect(more.items).toHaveLength(10);
+      expect(Object.keys(more.pagination)).toEqual([
+        'limit',
+        'hasMore',
+        'nextCursor',
+      ]);
+      expect(more.pagination).toMatchObject({ limit: 10, hasMore: true });
+      expect(more.pagination.nextCursor).not.toBeNull();
+
+      const last = listingPage(rows(5, 20), newestFirst, {
+        ...request,
+        cursor,
+      });
+      expect(last.items).toHaveLength(5);
+      expect(last.pagination).toEqual({
+        limit: 10,
+        hasMore: false,
+        nextCursor: null,
+      });
+    });
+
+    it('handles a failed query as an empty page', () => {
+      expect(listingPage(null, newestFirst, { page: 1, limit: 10 })).toEqual({
+        items: [],
+        pagination: {
+          page: 1,
+          limit: 10,
+          total: 0,
+          totalPages: 0,
+          hasMore: false,
+          nextCursor: null,
+        },
+      });
+    });
+  });
+});
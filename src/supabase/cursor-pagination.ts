@@ -0,0 +1,173 @@
+import { BadRequestException } from '@nestjs/common';
+
+// Listing order; rows with the same value are ordered by id, in the same
+// direction, so every row has a unique position. null means the query's own
+// order (search relevance), which is paged by offset
+export type ListingSort = {
+  column: string;
+  ascending: boolean;
+  nullsFirst?: boolean;
+} | null;
+
+// Page-based (page) or, when a cursor from a previous response is passed,
+// cursor-based
+export interface ListingPageRequest {
+  page: number;
+  limit: number;
+  cursor?: string;
+}
+
+// The parts of a PostgREST query builder a listing is paged with
+export interface ListingQuery<Q> {
+  order(
+    column: string,
+    options?: { ascending?: boolean; nullsFirst?: boolean },
+  ): Q;
+  or(filters: string): Q;
+  range(from: number, to: number): Q;
+  limit(count: number): Q;
+}
+
+type CursorPayload =
+  | { s: string; v: string | number | boolean | null; id: string }
+  | { s: string; o: number };
+
+const sortKey = (sort: ListingSort) =>
+  sort ? `${sort.column}.${sort.ascending ? 'asc' : 'desc'}` : 'offset';
+
+const encodeCursor = (payload: CursorPayload) =>
+  Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+const decodeCursor = (cursor: string, sort: ListingSort): CursorPayload => {
+  let payload: any;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    payload = null;
+  }
+
+  // A cursor only continues the listing (and order) it was issued for
+  const valid =
+    payload?.s === sortKey(sort) &&
+    (sort
+      ? typeof payload.id === 'string' && 'v' in payload
+      : Number.isInteger(payload.o) && payload.o >= 0);
+  if (!valid) {
+    throw new BadRequestException('Invalid or expired cursor');
+  }
+  return payload;
+};
+
+// Quoted PostgREST filter value, safe for commas, dots and parentheses
+const quote = (value: string | number | boolean) =>
+  `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Rows after (value, id) in the listing order, as a PostgREST or() filter
+const keysetFilter = (
+  sort: NonNullable<ListingSort>,
+  value: string | number | boolean | null,
+  id: string,
+) => {
+  const op = sort.ascending ? 'gt' : 'lt';
+  const nullsFirst = sort.nullsFirst ?? !sort.ascending;
+  const column = sort.column;
+
+  if (value === null) {
+    const sameValue = `and(${column}.is.null,id.${op}.${quote(id)})`;
+    // Past the nulls come the values when they are listed first
+    return nullsFirst ? `${sameValue},${column}.not.is.null` : sameValue;
+  }
+
+  const conditions = [
+    `${column}.${op}.${quote(value)}`,
+    `and(${column}.eq.${quote(value)},id.${op}.${quote(id)})`,
+  ];
+  if (!nullsFirst) {
+    conditions.push(`${column}.is.null`);
+  }
+  return conditions.join(',');
+};
+
+/**
+ * Orders a listing query and restricts it to the requested page. With a
+ * cursor, the rows after the cursor's row are read (one extra to know if
+ * there are more) instead of skipping an offset, so rows added meanwhile
+ * neither shift nor repeat the next page.
+ */
+export const paginateListing = <Q extends ListingQuery<Q>>(
+  query: Q,
+  sort: ListingSort,
+  request: ListingPageRequest,
+): Q => {
+  let builder = query;
+  if (sort) {
+    builder = builder
+      .order(sort.column, {
+        ascending: sort.ascending,
+        ...(sort.nullsFirst !== undefined && { nullsFirst: sort.nullsFirst }),
+      })
+      .order('id', { ascending: sort.ascending });
+  }
+
+  if (!request.cursor) {
+    const offset = (request.page - 1) * request.limit;
+    return builder.range(offset, offset + request.limit - 1);
+  }
+
+  const cursor = decodeCursor(request.cursor, sort);
+  if ('o' in cursor) {
+    return builder.range(cursor.o, cursor.o + request.limit);
+  }
+  return builder
+    .or(keysetFilter(sort!, cursor.v, cursor.id))
+    .range(0, request.limit);
+};
+
+/**
+ * The page's rows and its `pagination`. Page-based requests keep page,
+ * total and totalPages; cursor-based ones are not counted. Both carry the
+ * cursor of the next page (null on the last one).
+ */
+export const listingPage = <T extends Record<string, any>>(
+  rows: T[] | null,
+  sort: ListingSort,
+  request: ListingPageRequest,
+  total?: number | null,
+) => {
+  const { page, limit, cursor } = request;
+  const items = (rows || []).slice(0, limit);
+
+  const hasMore = cursor
+    ? (rows || []).length > limit
+    : items.length === limit && page * limit < (total || 0);
+
+  let nextCursor: string | null = null;
+  if (hasMore && sort) {
+    const last = items[items.length - 1];
+    nextCursor = encodeCursor({
+      s: sortKey(sort),
+      v: last[sort.column] ?? null,
+      id: last.id,
+    });
+  } else if (hasMore) {
+    const offset = cursor
+      ? (decodeCursor(cursor, sort) as { o: number }).o
+      : (page - 1) * limit;
+    nextCursor = encodeCursor({ s: sortKey(sort), o: offset + limit });
+  }
+
+  if (cursor) {
+    return { items, pagination: { limit, hasMore, nextCursor } };
+  }
+  return {
+    items,
+    pagination: {
+      page,
+      limit,
+      total: total || 0,
+      totalPages: Math.ceil((total || 0) / limit),
+      hasMore,
+      nextCursor,
+    },
+  };
+};
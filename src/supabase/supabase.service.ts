@@ -1,5 +1,9 @@
 import { Injectable, OnModuleInit } from '@nestjs/common';
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import {
+  createClient,
+  SupabaseClient,
+  SupportedStorage,
+} from '@supabase/supabase-js';
 
 @Injectable()
 export class SupabaseService implements OnModuleInit {
@@ -56,6 +60,40 @@ export class SupabaseService implements OnModuleInit {
     return this.supabaseServiceClient;
   }
 
+  // A throwaway anon client for acting as one user (e.g. re-checking their
+  // password), so their session never lands on the shared client
+  createAuthClient(): SupabaseClient {
+    return createClient(
+      process.env.SUPABASE_URL as string,
+      process.env.SUPABASE_ANON_KEY as string,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        },
+      },
+    );
+  }
+
+  // Same, using the PKCE flow for social logins. Supabase keeps the code
+  // verifier in `storage`, so it can be handed to the client and back.
+  createPkceAuthClient(storage: SupportedStorage): SupabaseClient {
+    return createClient(
+      process.env.SUPABASE_URL as string,
+      process.env.SUPABASE_ANON_KEY as string,
+      {
+        auth: {
+          flowType: 'pkce',
+          storage,
+          storageKey: 'oauth',
+          persistSession: true,
+          autoRefreshToken: false,
+          detectSessionInUrl: false,
+        },
+      },
+    );
+  }
+
   // Helper methods for common operations
   async healthCheck() {
     try {
@@ -0,0 +1,348 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { CreateUserAddressDto, UpdateUserAddressDto } from './dto/address.dto';
+
+// Same shape as ShippingAddressDto/BillingAddressDto on the order DTOs, plus
+// the recipient details saved addresses carry
+export interface AddressSnapshot {
+  fullName?: string;
+  phone?: string;
+  addressLine1: string;
+  addressLine2?: string;
+  city: string;
+  state?: string;
+  postalCode: string;
+  country?: string;
+}
+
+// The address fields of a CreateOrderDto
+export interface OrderAddressInput {
+  shippingAddressId?: string;
+  shippingAddress?: AddressSnapshot;
+  billingSameAsShipping: boolean;
+  billingAddressId?: string;
+  billingAddress?: AddressSnapshot;
+}
+
+export interface ResolvedOrderAddresses {
+  shipping: AddressSnapshot;
+  shippingAddressId: string | null;
+  billing: AddressSnapshot | null;
+  billingAddressId: string | null;
+}
+
+@Injectable()
+export class AddressesService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async getAddresses(userId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data, error } = await serviceClient
+      .from('user_addresses')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .order('is_default_shipping', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch addresses: ${error.message}`,
+      );
+    }
+
+    return (data || []).map((address: any) => this.mapAddress(address));
+  }
+
+  async getAddress(userId: string, addressId: string) {
+    return this.mapAddress(await this.getAddressRow(userId, addressId));
+  }
+
+  /**
+   * Resolve an address book entry for an order or exchange. Throws unless the
+   * address belongs to the user, is still active and may be used for
+   * `purpose`.
+   */
+  async getAddressForUse(
+    userId: string,
+    addressId: string,
+    purpose: 'shipping' | 'billing',
+  ): Promise<AddressSnapshot> {
+    const address = await this.getAddressRow(userId, addressId);
+
+    if (address.address_type !== 'both' && address.address_type !== purpose) {
+      throw new BadRequestException(
+        `This address can't be used as a ${purpose} address`,
+      );
+    }
+
+    return {
+      fullName: address.full_name,
+      phone: address.phone || undefined,
+      addressLine1: address.address_line1,
+      addressLine2: address.address_line2 || undefined,
+      city: address.city,
+      state: address.state || undefined,
+      postalCode: address.postal_code,
+      country: address.country,
+    };
+  }
+
+  /**
+   * Work out the shipping and billing addresses for a new order. Saved
+   * addresses (by ID) take precedence over inline ones and need a signed-in
+   * buyer; billing is null when it is the same as shipping.
+   */
+  async resolveOrderAddresses(
+    userId: string | undefined,
+    input: OrderAddressInput,
+  ): Promise<ResolvedOrderAddresses> {
+    if ((input.shippingAddressId || input.billingAddressId) && !userId) {
+      throw new BadRequestException('Sign in to use saved addresses');
+    }
+
+    let shipping: AddressSnapshot;
+    if (input.shippingAddressId) {
+      shipping = await this.getAddressForUse(
+        userId as string,
+        input.shippingAddressId,
+        'shipping',
+      );
+    } else if (input.shippingAddress) {
+      shipping = input.shippingAddress;
+    } else {
+      throw new BadRequestException('Shipping address is required');
+    }
+
+    let billing: AddressSnapshot | null = null;
+    if (!input.billingSameAsShipping) {
+      if (input.billingAddressId) {
+        billing = await this.getAddressForUse(
+          userId as string,
+          input.billingAddressId,
+          'billing',
+        );
+      } else if (input.billingAddress) {
+        billing = input.billingAddress;
+      }
+    }
+
+    return {
+      shipping,
+      shippingAddressId: input.shippingAddressId || null,
+      billing,
+      billingAddressId: billing ? input.billingAddressId || null : null,
+    };
+  }
+
+  async createAddress(userId: string, createAddressDto: CreateUserAddressDto) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    // The first address becomes the default for everything it can be used for
+    const { count } = await serviceClient
+      .from('user_addresses')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('is_active', true);
+    const isFirst = (count || 0) === 0;
+    const addressType = createAddressDto.addressType || 'both';
+
+    const isDefaultShipping =
+      (createAddressDto.isDefaultShipping ?? isFirst) &&
+      addressType !== 'billing';
+    const isDefaultBilling =
+      (createAddressDto.isDefaultBilling ?? isFirst) &&
+      addressType !== 'shipping';
+
+    await this.clearDefaults(userId, isDefaultShipping, isDefaultBilling);
+
+    const { data, error } = await serviceClient
+      .from('user_addresses')
+      .insert({
+        user_id: userId,
+        label: createAddressDto.label || null,
+        address_type: addressType,
+        full_name: createAddressDto.fullName,
+        phone: createAddressDto.phone || null,
+        company_name: createAddressDto.companyName || null,
+        tax_id: createAddressDto.taxId || null,
+        address_line1: createAddressDto.addressLine1,
+        address_line2: createAddressDto.addressLine2 || null,
+        city: createAddressDto.city,
+        state: createAddressDto.state || null,
+        postal_code: createAddressDto.postalCode,
+        country: createAddressDto.country || 'Turkey',
+        is_default_shipping: isDefaultShipping,
+        is_default_billing: isDefaultBilling,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to create address: ${error.message}`,
+      );
+    }
+
+    return this.mapAddress(data);
+  }
+
+  async updateAddress(
+    userId: string,
+    addressId: string,
+    updateAddressDto: UpdateUserAddressDto,
+  ) {
+    const serviceClient = this.supabaseService.getServiceClient();
+    const existing = await this.getAddressRow(userId, addressId);
+
+    const updateData: any = {};
+    const fields: Array<[keyof UpdateUserAddressDto, string]> = [
+      ['label', 'label'],
+      ['addressType', 'address_type'],
+      ['fullName', 'full_name'],
+      ['phone', 'phone'],
+      ['companyName', 'company_name'],
+      ['taxId', 'tax_id'],
+      ['addressLine1', 'address_line1'],
+      ['addressLine2', 'address_line2'],
+      ['city', 'city'],
+      ['state', 'state'],
+      ['postalCode', 'postal_code'],
+      ['country', 'country'],
+    ];
+    for (const [field, column] of fields) {
+      if (updateAddressDto[field] !== undefined) {
+        updateData[column] = updateAddressDto[field] ?? null;
+      }
+    }
+
+    const addressType = updateData.address_type || existing.address_type;
+    if (updateAddressDto.isDefaultShipping !== undefined) {
+      updateData.is_default_shipping =
+        updateAddressDto.isDefaultShipping && addressType !== 'billing';
+    } else if (addressType === 'billing') {
+      updateData.is_default_shipping = false;
+    }
+    if (updateAddressDto.isDefaultBilling !== undefined) {
+      updateData.is_default_billing =
+        updateAddressDto.isDefaultBilling && addressType !== 'shipping';
+    } else if (addressType === 'shipping') {
+      updateData.is_default_billing = false;
+    }
+
+    await this.clearDefaults(
+      userId,
+      updateData.is_default_shipping === true,
+      updateData.is_default_billing === true,
+      addressId,
+    );
+
+    const { data, error } = await serviceClient
+      .from('user_addresses')
+      .update(updateData)
+      .eq('id', addressId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to update address: ${error.message}`,
+      );
+    }
+
+    return this.mapAddress(data);
+  }
+
+  // Soft delete - orders and exchanges may still reference the address
+  async deleteAddress(userId: string, addressId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+    await this.getAddressRow(userId, addressId);
+
+    const { error } = await serviceClient
+      .from('user_addresses')
+      .update({
+        is_active: false,
+        is_default_shipping: false,
+        is_default_billing: false,
+      })
+      .eq('id', addressId);
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to delete address: ${error.message}`,
+      );
+    }
+
+    return { message: 'Address deleted successfully' };
+  }
+
+  private async getAddressRow(userId: string, addressId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data: address } = await serviceClient
+      .from('user_addresses')
+      .select('*')
+      .eq('id', addressId)
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (!address) {
+      throw new NotFoundException('Address not found');
+    }
+
+    return address;
+  }
+
+  private async clearDefaults(
+    userId: string,
+    shipping: boolean,
+    billing: boolean,
+    exceptId?: string,
+  ) {
+    const serviceClient = this.supabaseService.getServiceClient();
+    const columns = [
+      ...(shipping ? ['is_default_shipping'] : []),
+      ...(billing ? ['is_default_billing'] : []),
+    ];
+
+    for (const column of columns) {
+      let query = serviceClient
+        .from('user_addresses')
+        .update({ [column]: false })
+        .eq('user_id', userId)
+        .eq(column, true);
+      if (exceptId) {
+        query = query.neq('id', exceptId);
+      }
+      await query;
+    }
+  }
+
+  private mapAddress(address: any) {
+    return {
+      id: address.id,
+      label: address.label,
+      addressType: address.address_type,
+      fullName: address.full_name,
+      phone: address.phone,
+      companyName: address.company_name,
+      taxId: address.tax_id,
+      addressLine1: address.address_line1,
+      addressLine2: address.address_line2,
+      city: address.city,
+      state: address.state,
+      postalCode: address.postal_code,
+      country: address.country,
+      isDefaultShipping: address.is_default_shipping,
+      isDefaultBilling: address.is_default_billing,
+      createdAt: address.created_at,
+      updatedAt: address.updated_at,
+    };
+  }
+}
@@ -0,0 +1,84 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { PartialType } from '@nestjs/mapped-types';
+
+export const ADDRESS_TYPES = ['shipping', 'billing', 'both'] as const;
+
+export type AddressType = (typeof ADDRESS_TYPES)[number];
+
+export class CreateUserAddressDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string;
+
+  @IsOptional()
+  @IsIn(ADDRESS_TYPES)
+  addressType?: AddressType;
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(255)
+  fullName: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  phone?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  companyName?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  taxId?: string;
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(255)
+  addressLine1: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  addressLine2?: string;
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  city: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  state?: string;
+
+  @IsString()
+  @MinLength(1)
+  @MaxLength(20)
+  postalCode: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  country?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isDefaultShipping?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  isDefaultBilling?: boolean;
+}
+
+export class UpdateUserAddressDto extends PartialType(CreateUserAddressDto) {}
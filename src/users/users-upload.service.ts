@@ -0,0 +1,81 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import sharp from 'sharp';
+import { SupabaseService } from '../supabase/supabase.service';
+
+const AVATAR_BUCKET = 'avatars';
+const AVATAR_SIZE = 256;
+
+@Injectable()
+export class UsersUploadService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async uploadAvatar(userId: string, file: Express.Multer.File) {
+    if (!file) {
+      throw new BadRequestException('No file provided');
+    }
+
+    if (!file.mimetype.startsWith('image/')) {
+      throw new BadRequestException('File must be an image');
+    }
+
+    const maxSize = 10 * 1024 * 1024; // 10MB before resizing
+    if (file.size > maxSize) {
+      throw new BadRequestException('File size must be less than 10MB');
+    }
+
+    let webpBuffer: Buffer;
+    try {
+      // Square crop, small enough for the 2MB bucket limit
+      webpBuffer = await sharp(file.buffer)
+        .rotate()
+        .resize(AVATAR_SIZE, AVATAR_SIZE, { fit: 'cover' })
+        .webp({ quality: 85 })
+        .toBuffer();
+    } catch (error) {
+      throw new BadRequestException(
+        `Failed to process image: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+
+    const filePath = `${userId}/avatar-${Date.now()}.webp`;
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { error } = await serviceClient.storage
+      .from(AVATAR_BUCKET)
+      .upload(filePath, webpBuffer, {
+        contentType: 'image/webp',
+        upsert: false,
+      });
+
+    if (error) {
+      throw new BadRequestException(`Failed to upload image: ${error.message}`);
+    }
+
+    const { data: urlData } = serviceClient.storage
+      .from(AVATAR_BUCKET)
+      .getPublicUrl(filePath);
+
+    return urlData.publicUrl;
+  }
+
+  async deleteAvatar(avatarUrl: string | null | undefined): Promise<void> {
+    if (!avatarUrl) {
+      return;
+    }
+
+    // URL format: https://[project].supabase.co/storage/v1/object/public/avatars/[userId]/[fileName]
+    const urlParts = avatarUrl.split(`/${AVATAR_BUCKET}/`);
+    if (urlParts.length < 2) {
+      return; // Not one of ours (e.g. an OAuth provider picture)
+    }
+
+    const serviceClient = this.supabaseService.getServiceClient();
+    const { error } = await serviceClient.storage
+      .from(AVATAR_BUCKET)
+      .remove([urlParts[1]]);
+
+    if (error) {
+      console.error('Failed to delete avatar:', error);
+    }
+  }
+}
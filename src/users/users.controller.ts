@@ -0,0 +1,114 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { UsersService } from './users.service';
+import { AddressesService } from './addresses.service';
+import { GuestOrdersService } from '../orders/guest-orders.service';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { CreateUserAddressDto, UpdateUserAddressDto } from './dto/address.dto';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@Controller('users')
+export class UsersController {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly addressesService: AddressesService,
+    private readonly guestOrdersService: GuestOrdersService,
+  ) {}
+
+  @Get('me')
+  async getProfile(@CurrentUser('id') userId: string) {
+    return this.usersService.getProfile(userId);
+  }
+
+  @Patch('me')
+  async updateProfile(
+    @CurrentUser('id') userId: string,
+    @Body() updateProfileDto: UpdateProfileDto,
+  ) {
+    return this.usersService.updateProfile(userId, updateProfileDto);
+  }
+
+  @Post('me/avatar')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FileInterceptor('image', {
+      limits: {
+        fileSize: 10 * 1024 * 1024,
+      },
+    }),
+  )
+  async uploadAvatar(
+    @CurrentUser('id') userId: string,
+    @UploadedFile() file: Express.Multer.File,
+  ) {
+    return this.usersService.updateAvatar(userId, file);
+  }
+
+  @Delete('me/avatar')
+  async removeAvatar(@CurrentUser('id') userId: string) {
+    return this.usersService.removeAvatar(userId);
+  }
+
+  // Attach orders placed as a guest with this account's (verified) email
+  @Post('me/orders/claim')
+  @HttpCode(HttpStatus.OK)
+  async claimGuestOrders(@CurrentUser('id') userId: string) {
+    return this.guestOrdersService.claimGuestOrders(userId);
+  }
+
+  @Get('me/addresses')
+  async getAddresses(@CurrentUser('id') userId: string) {
+    return this.addressesService.getAddresses(userId);
+  }
+
+  @Post('me/addresses')
+  @HttpCode(HttpStatus.CREATED)
+  async createAddress(
+    @CurrentUser('id') userId: string,
+    @Body() createAddressDto: CreateUserAddressDto,
+  ) {
+    return this.addressesService.createAddress(userId, createAddressDto);
+  }
+
+  @Get('me/addresses/:id')
+  async getAddress(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) addressId: string,
+  ) {
+    return this.addressesService.getAddress(userId, addressId);
+  }
+
+  @Patch('me/addresses/:id')
+  async updateAddress(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) addressId: string,
+    @Body() updateAddressDto: UpdateUserAddressDto,
+  ) {
+    return this.addressesService.updateAddress(
+      userId,
+      addressId,
+      updateAddressDto,
+    );
+  }
+
+  @Delete('me/addresses/:id')
+  async deleteAddress(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) addressId: string,
+  ) {
+    return this.addressesService.deleteAddress(userId, addressId);
+  }
+}
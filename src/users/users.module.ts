@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { UsersController } from './users.controller';
+import { UsersService } from './users.service';
+import { UsersUploadService } from './users-upload.service';
+import { AddressesService } from './addresses.service';
+import { SupabaseModule } from '../supabase/supabase.module';
+import { OrderLifecycleModule } from '../orders/order-lifecycle.module';
+
+@Module({
+  imports: [SupabaseModule, OrderLifecycleModule],
+  controllers: [UsersController],
+  providers: [UsersService, UsersUploadService, AddressesService],
+  exports: [UsersService, UsersUploadService, AddressesService],
+})
+export class UsersModule {}
@@ -0,0 +1,138 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { UsersUploadService } from './users-upload.service';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+
+@Injectable()
+export class UsersService {
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly usersUploadService: UsersUploadService,
+  ) {}
+
+  async getProfile(userId: string) {
+    return this.mapProfile(await this.getUserRow(userId));
+  }
+
+  async updateProfile(userId: string, updateProfileDto: UpdateProfileDto) {
+    const serviceClient = this.supabaseService.getServiceClient();
+    await this.getUserRow(userId);
+
+    const updateData: any = { updated_at: new Date().toISOString() };
+    if (updateProfileDto.fullName !== undefined) {
+      updateData.full_name = updateProfileDto.fullName.trim();
+    }
+    if (updateProfileDto.phone !== undefined) {
+      updateData.phone = updateProfileDto.phone || null;
+    }
+    if (updateProfileDto.bio !== undefined) {
+      updateData.bio = updateProfileDto.bio || null;
+    }
+    if (updateProfileDto.dateOfBirth !== undefined) {
+      updateData.date_of_birth = updateProfileDto.dateOfBirth || null;
+    }
+    if (updateProfileDto.gender !== undefined) {
+      updateData.gender = updateProfileDto.gender || null;
+    }
+
+    const { data, error } = await serviceClient
+      .from('users')
+      .update(updateData)
+      .eq('id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to update profile: ${error.message}`,
+      );
+    }
+
+    return this.mapProfile(data);
+  }
+
+  async updateAvatar(userId: string, file: Express.Multer.File) {
+    const serviceClient = this.supabaseService.getServiceClient();
+    const existing = await this.getUserRow(userId);
+
+    const avatarUrl = await this.usersUploadService.uploadAvatar(userId, file);
+
+    const { data, error } = await serviceClient
+      .from('users')
+      .update({ avatar_url: avatarUrl, updated_at: new Date().toISOString() })
+      .eq('id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      await this.usersUploadService.deleteAvatar(avatarUrl);
+      throw new BadRequestException(
+        `Failed to update avatar: ${error.message}`,
+      );
+    }
+
+    await this.usersUploadService.deleteAvatar(existing.avatar_url);
+
+    return this.mapProfile(data);
+  }
+
+  async removeAvatar(userId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+    const existing = await this.getUserRow(userId);
+
+    const { data, error } = await serviceClient
+      .from('users')
+      .update({ avatar_url: null, updated_at: new Date().toISOString() })
+      .eq('id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to remove avatar: ${error.message}`,
+      );
+    }
+
+    await this.usersUploadService.deleteAvatar(existing.avatar_url);
+
+    return this.mapProfile(data);
+  }
+
+  private async getUserRow(userId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data: user } = await serviceClient
+      .from('users')
+      .select('*')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (!user) {
+      throw new NotFoundException('User profile not found');
+    }
+
+    return user;
+  }
+
+  private mapProfile(user: any) {
+    return {
+      id: user.id,
+      fullName: user.full_name,
+      email: user.email,
+      phone: user.phone,
+      avatarUrl: user.avatar_url,
+      bio: user.bio,
+      dateOfBirth: user.date_of_birth,
+      gender: user.gender,
+      isEmailVerified: user.is_email_verified,
+      emailVerifiedAt: user.email_verified_at,
+      lastLoginAt: user.last_login_at,
+      createdAt: user.created_at,
+      updatedAt: user.updated_at,
+    };
+  }
+}
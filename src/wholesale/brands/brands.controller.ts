@@ -4,13 +4,12 @@ import {
   Get,
   Put,
   Patch,
+  Delete,
   Body,
   Param,
-  Headers,
   Query,
   HttpCode,
   HttpStatus,
-  UnauthorizedException,
   BadRequestException,
   ParseIntPipe,
   DefaultValuePipe,
@@ -26,6 +25,20 @@ import { RegisterBrandDto } from './dto/register-brand';
 import { UpdateBrandDto } from './dto/update-brand';
 import { SupabaseService } from '../../supabase/supabase.service';
 import { AdminOnly } from '../../admin/decorators/admin-only.decorator';
+import { Public } from '../../auth/decorators/public.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { CurrentBrand } from '../../auth/decorators/current-brand.decorator';
+import { BrandMember } from '../../auth/decorators/brand-member.decorator';
+import { RequireMfa } from '../../auth/decorators/require-mfa.decorator';
+import type {
+  AuthBrand,
+  AuthUser,
+} from '../../auth/interfaces/auth-user.interface';
+import { BrandMembersService } from '../../brand-members/brand-members.service';
+import {
+  InviteBrandMemberDto,
+  UpdateBrandMemberDto,
+} from '../../brand-members/dto/brand-member.dto';
 
 @Controller('wholesale-brands')
 export class BrandsController {
@@ -33,64 +46,94 @@ export class BrandsController {
     private readonly brandsService: BrandsService,
     private readonly brandsUploadService: BrandsUploadService,
     private readonly supabaseService: SupabaseService,
+    private readonly brandMembersService: BrandMembersService,
   ) {}
 
   @Post('register')
   @HttpCode(HttpStatus.CREATED)
-  async registerBrand(@Body() registerBrandDto: RegisterBrandDto, @Headers('authorization') authHeader?: string) {
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) {
-      throw new UnauthorizedException('Authentication required');
-    }
-
-    // Get user ID from token
-    const supabase = this.supabaseService.getClient();
-    const { data: userData, error } = await supabase.auth.getUser(token);
-
-    if (error || !userData.user) {
-      throw new UnauthorizedException('Invalid or expired token');
-    }
-
-    return this.brandsService.registerBrand(registerBrandDto, userData.user.id);
+  async registerBrand(@Body() registerBrandDto: RegisterBrandDto, @CurrentUser() user: AuthUser) {
+    return this.brandsService.registerBrand(registerBrandDto, user.id);
   }
 
   @Get('my-brand')
-  async getMyBrand(@Headers('authorization') authHeader?: string) {
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) {
-      throw new UnauthorizedException('Authentication required');
-    }
-
-    const supabase = this.supabaseService.getClient();
-    const { data: userData, error } = await supabase.auth.getUser(token);
-
-    if (error || !userData.user) {
-      throw new UnauthorizedException('Invalid or expired token');
-    }
-
-    const brand = await this.brandsService.getMyBrand(userData.user.id);
+  async getMyBrand(@CurrentUser() user: AuthUser) {
+    const brand = await this.brandsService.getMyBrand(user.id);
     return brand || { message: 'No brand registration found' };
   }
 
   @Put('my-brand')
+  @RequireMfa()
   @HttpCode(HttpStatus.OK)
-  async updateMyBrand(@Body() updateBrandDto: UpdateBrandDto, @Headers('authorization') authHeader?: string) {
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) {
-      throw new UnauthorizedException('Authentication required');
-    }
+  async updateMyBrand(@Body() updateBrandDto: UpdateBrandDto, @CurrentUser() user: AuthUser) {
+    return this.brandsService.updateBrand(user.id, updateBrandDto);
+  }
 
-    const supabase = this.supabaseService.getClient();
-    const { data: userData, error } = await supabase.auth.getUser(token);
+  // Brand team
+  @Get('my-brand/members')
+  @BrandMember('wholesale')
+  async getTeamMembers(@CurrentBrand('id') brandId: string) {
+    return this.brandMembersService.getMembers('wholesale', brandId);
+  }
 
-    if (error || !userData.user) {
-      throw new UnauthorizedException('Invalid or expired token');
-    }
+  @Patch('my-brand/members/:memberId')
+  @RequireMfa()
+  @BrandMember('wholesale', 'members:manage')
+  async updateTeamMember(
+    @Param('memberId') memberId: string,
+    @Body() updateMemberDto: UpdateBrandMemberDto,
+    @CurrentUser('id') userId: string,
+    @CurrentBrand() brand: AuthBrand,
+  ) {
+    return this.brandMembersService.updateMemberRole(
+      { userId, brand },
+      memberId,
+      updateMemberDto.role,
+    );
+  }
+
+  @Delete('my-brand/members/:memberId')
+  @RequireMfa()
+  @BrandMember('wholesale', 'members:manage')
+  async removeTeamMember(
+    @Param('memberId') memberId: string,
+    @CurrentUser('id') userId: string,
+    @CurrentBrand() brand: AuthBrand,
+  ) {
+    return this.brandMembersService.removeMember({ userId, brand }, memberId);
+  }
+
+  @Get('my-brand/invitations')
+  @BrandMember('wholesale', 'members:manage')
+  async getTeamInvitations(@CurrentBrand('id') brandId: string) {
+    return this.brandMembersService.getInvitations('wholesale', brandId);
+  }
+
+  @Post('my-brand/invitations')
+  @RequireMfa()
+  @HttpCode(HttpStatus.CREATED)
+  @BrandMember('wholesale', 'members:manage')
+  async inviteTeamMember(
+    @Body() inviteMemberDto: InviteBrandMemberDto,
+    @CurrentUser('id') userId: string,
+    @CurrentBrand() brand: AuthBrand,
+  ) {
+    return this.brandMembersService.inviteMember(
+      { userId, brand },
+      inviteMemberDto,
+    );
+  }
 
-    return this.brandsService.updateBrand(userData.user.id, updateBrandDto);
+  @Delete('my-brand/invitations/:invitationId')
+  @BrandMember('wholesale', 'members:manage')
+  async revokeTeamInvitation(
+    @Param('invitationId') invitationId: string,
+    @CurrentBrand() brand: AuthBrand,
+  ) {
+    return this.brandMembersService.revokeInvitation(brand, invitationId);
   }
 
   // Public endpoint for approved brands (no auth required)
+  @Public()
   @Get('approved')
   async getApprovedBrands(
     @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number = 1,
@@ -101,18 +144,21 @@ export class BrandsController {
   }
 
   // Public endpoint to get brand by ID (only approved brands)
+  @Public()
   @Get('profile/:id')
   async getBrandById(@Param('id') id: string) {
     return this.brandsService.getBrandById(id);
   }
 
   // Public endpoint to get brand by brand_name (only approved brands)
+  @Public()
   @Get('name/:brandName')
   async getBrandByName(@Param('brandName') brandName: string) {
     return this.brandsService.getBrandByName(brandName);
   }
 
   // Public endpoint to get brand products by brand_name (only for approved brands)
+  @Public()
   @Get('name/:brandName/products')
   async getBrandProductsByName(
     @Param('brandName') brandName: string,
@@ -127,6 +173,7 @@ export class BrandsController {
   }
 
   // Public endpoint to get brand products (only for approved brands)
+  @Public()
   @Get('profile/:id/products')
   async getBrandProducts(
     @Param('id') id: string,
@@ -164,33 +211,16 @@ export class BrandsController {
   async updateBrandStatus(
     @Param('id') brandId: string,
     @Body() body: { status: 'approved' | 'rejected' },
-    @Headers('authorization') authHeader?: string,
+    @CurrentUser() user: AuthUser,
   ) {
-    const token = authHeader?.replace('Bearer ', '');
-    const supabase = this.supabaseService.getClient();
-    const { data: userData } = await supabase.auth.getUser(token || '');
-    
-    return this.brandsService.updateBrandStatus(brandId, body.status, userData?.user?.id || '');
+    return this.brandsService.updateBrandStatus(brandId, body.status, user.id);
   }
 
   @Get('categories')
   async getCategories(
     @Query('includeInactive') includeInactive?: string,
-    @Headers('authorization') authHeader?: string,
   ) {
     // Allow authenticated users to fetch categories
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) {
-      throw new UnauthorizedException('Authentication required');
-    }
-
-    const supabase = this.supabaseService.getClient();
-    const { data: userData, error } = await supabase.auth.getUser(token);
-
-    if (error || !userData.user) {
-      throw new UnauthorizedException('Invalid or expired token');
-    }
-
     const includeInactiveFlag = includeInactive === 'true';
     const serviceClient = this.supabaseService.getServiceClient();
 
@@ -232,7 +262,7 @@ export class BrandsController {
   }))
   async uploadBrandImage(
     @UploadedFile() file: Express.Multer.File | undefined,
-    @Headers('authorization') authHeader?: string,
+    @CurrentUser() user: AuthUser,
     @Req() req?: Request,
   ) {
     console.log('=== UPLOAD DEBUG ===');
@@ -244,7 +274,6 @@ export class BrandsController {
     } : 'NO FILE');
     console.log('Request body:', req?.body);
     console.log('Request headers content-type:', req?.headers?.['content-type']);
-    console.log('Auth header:', authHeader ? 'Present' : 'Missing');
     console.log('===================');
     
     if (!file) {
@@ -253,22 +282,10 @@ export class BrandsController {
       throw new BadRequestException('No file provided. Please select an image file and try again. File field name must be "image".');
     }
 
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) {
-      throw new UnauthorizedException('Authentication required');
-    }
-
-    const supabase = this.supabaseService.getClient();
-    const { data: userData, error } = await supabase.auth.getUser(token);
-
-    if (error || !userData.user) {
-      throw new UnauthorizedException('Invalid or expired token');
-    }
-
     // Get imageType from FormData body (parsed by multer)
     const imageType: 'logo' | 'cover' = req?.body?.imageType === 'cover' ? 'cover' : 'logo';
     
-    const imageUrl = await this.brandsUploadService.uploadImage(userData.user.id, file, imageType);
+    const imageUrl = await this.brandsUploadService.uploadImage(user.id, file, imageType);
 
     return {
       url: imageUrl,
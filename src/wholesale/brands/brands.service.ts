@@ -1,11 +1,18 @@
 import { Injectable, BadRequestException, NotFoundException, UnauthorizedException } from '@nestjs/common';
 import { SupabaseService } from '../../supabase/supabase.service';
+import { UserRolesService } from '../../auth/roles/user-roles.service';
+import { BrandMembersService } from '../../brand-members/brand-members.service';
+import { BRAND_ROLE_PERMISSIONS } from '../../brand-members/brand-members';
 import { RegisterBrandDto } from './dto/register-brand';
 import { UpdateBrandDto } from './dto/update-brand';
 
 @Injectable()
 export class BrandsService {
-  constructor(private readonly supabaseService: SupabaseService) {}
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly userRolesService: UserRolesService,
+    private readonly brandMembersService: BrandMembersService,
+  ) {}
 
   async registerBrand(registerBrandDto: RegisterBrandDto, userId: string) {
     // Use service client for all operations to bypass RLS issues with users table
@@ -65,6 +72,17 @@ export class BrandsService {
       }
     }
 
+    // Staff of another brand can't register their own
+    const membership = await this.brandMembersService.getMembership(
+      userId,
+      'wholesale',
+    );
+    if (membership) {
+      throw new BadRequestException(
+        'You are already a member of a brand team. Leave it before registering your own brand.',
+      );
+    }
+
     // Create brand registration with pending status
     // Use service client to bypass RLS for insert operation
     const { data, error } = await serviceClient
@@ -109,10 +127,19 @@ export class BrandsService {
     // Use service client to bypass RLS for user's own brand query
     const supabase = this.supabaseService.getServiceClient();
 
+    // Team members see the brand they belong to, not only the one they registered
+    const membership = await this.brandMembersService.getMembership(
+      userId,
+      'wholesale',
+    );
+    if (!membership) {
+      return null;
+    }
+
     const { data, error } = await supabase
       .from('wholesale_brands')
       .select('*')
-      .eq('user_id', userId)
+      .eq('id', membership.brandId)
       .single();
 
     if (error) {
@@ -137,6 +164,10 @@ export class BrandsService {
       status: data.status,
       totalFollowers: data.total_followers || 0,
       totalProducts: data.total_products || 0,
+      membership: {
+        role: membership.role,
+        permissions: BRAND_ROLE_PERMISSIONS[membership.role],
+      },
       createdAt: data.created_at,
       updatedAt: data.updated_at,
     };
@@ -257,7 +288,7 @@ export class BrandsService {
     // Check if brand exists
     const { data: brand, error: fetchError } = await serviceClient
       .from('wholesale_brands')
-      .select('id, status')
+      .select('id, status, user_id')
       .eq('id', brandId)
       .maybeSingle();
 
@@ -282,6 +313,12 @@ export class BrandsService {
       throw new BadRequestException(`Failed to update brand status: ${error.message || 'Unknown error'}`);
     }
 
+    await this.userRolesService.syncBrandOwnerRole(
+      brand.user_id,
+      'wholesale',
+      status === 'approved',
+    );
+
     return {
       id: data.id,
       status: data.status,
@@ -293,11 +330,16 @@ export class BrandsService {
     // Use service client to bypass RLS
     const serviceClient = this.supabaseService.getServiceClient();
 
-    // First, get the user's brand to verify ownership
+    // First, get the user's brand and check their team role allows editing it
+    const membership = await this.brandMembersService.requireMembership(
+      userId,
+      'wholesale',
+      'brand:manage',
+    );
     const { data: existingBrand, error: fetchError } = await serviceClient
       .from('wholesale_brands')
       .select('id, user_id')
-      .eq('user_id', userId)
+      .eq('id', membership.brandId)
       .maybeSingle();
 
     if (fetchError) {
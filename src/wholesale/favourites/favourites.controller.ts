@@ -6,38 +6,17 @@ import {
   Param,
   Body,
   Query,
-  Headers,
   HttpCode,
   HttpStatus,
-  UnauthorizedException,
   ParseIntPipe,
   DefaultValuePipe,
 } from '@nestjs/common';
 import { FavouritesService } from './favourites.service';
-import { SupabaseService } from '../../supabase/supabase.service';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
 
 @Controller('wholesale/favourites')
 export class FavouritesController {
-  constructor(
-    private readonly favouritesService: FavouritesService,
-    private readonly supabaseService: SupabaseService,
-  ) {}
-
-  private async getUserId(authHeader?: string): Promise<string> {
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) {
-      throw new UnauthorizedException('Authentication required');
-    }
-
-    const supabase = this.supabaseService.getClient();
-    const { data: userData, error } = await supabase.auth.getUser(token);
-
-    if (error || !userData.user) {
-      throw new UnauthorizedException('Invalid or expired token');
-    }
-
-    return userData.user.id;
-  }
+  constructor(private readonly favouritesService: FavouritesService) {}
 
   /**
    * Add a product to favourites
@@ -46,9 +25,8 @@ export class FavouritesController {
   @HttpCode(HttpStatus.CREATED)
   async addFavourite(
     @Param('productId') productId: string,
-    @Headers('authorization') authHeader?: string,
+    @CurrentUser('id') userId: string,
   ) {
-    const userId = await this.getUserId(authHeader);
     return this.favouritesService.addFavourite(userId, productId);
   }
 
@@ -59,9 +37,8 @@ export class FavouritesController {
   @HttpCode(HttpStatus.OK)
   async removeFavourite(
     @Param('productId') productId: string,
-    @Headers('authorization') authHeader?: string,
+    @CurrentUser('id') userId: string,
   ) {
-    const userId = await this.getUserId(authHeader);
     return this.favouritesService.removeFavourite(userId, productId);
   }
 
@@ -72,9 +49,8 @@ export class FavouritesController {
   @HttpCode(HttpStatus.OK)
   async toggleFavourite(
     @Param('productId') productId: string,
-    @Headers('authorization') authHeader?: string,
+    @CurrentUser('id') userId: string,
   ) {
-    const userId = await this.getUserId(authHeader);
     return this.favouritesService.toggleFavourite(userId, productId);
   }
 
@@ -83,20 +59,19 @@ export class FavouritesController {
    */
   @Get()
   async getUserFavourites(
-    @Headers('authorization') authHeader: string | undefined,
+    @CurrentUser('id') userId: string,
     @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
     @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+    @Query('cursor') cursor?: string,
   ) {
-    const userId = await this.getUserId(authHeader);
-    return this.favouritesService.getUserFavourites(userId, page, limit);
+    return this.favouritesService.getUserFavourites(userId, page, limit, cursor);
   }
 
   /**
    * Get favourites count
    */
   @Get('count')
-  async getFavouritesCount(@Headers('authorization') authHeader?: string) {
-    const userId = await this.getUserId(authHeader);
+  async getFavouritesCount(@CurrentUser('id') userId: string) {
     const count = await this.favouritesService.getFavouritesCount(userId);
     return { count };
   }
@@ -107,10 +82,12 @@ export class FavouritesController {
   @Get('check/:productId')
   async checkFavourite(
     @Param('productId') productId: string,
-    @Headers('authorization') authHeader?: string,
+    @CurrentUser('id') userId: string,
   ) {
-    const userId = await this.getUserId(authHeader);
-    const isFavourited = await this.favouritesService.isFavourited(userId, productId);
+    const isFavourited = await this.favouritesService.isFavourited(
+      userId,
+      productId,
+    );
     return { productId, isFavourited };
   }
 
@@ -123,9 +100,8 @@ export class FavouritesController {
   @HttpCode(HttpStatus.OK)
   async checkFavouriteBatch(
     @Body() body: { productIds: string[] },
-    @Headers('authorization') authHeader?: string,
+    @CurrentUser('id') userId: string,
   ) {
-    const userId = await this.getUserId(authHeader);
     const favouritedIds = await this.favouritesService.getFavouritedProductIds(
       userId,
       body.productIds || [],
@@ -138,8 +114,7 @@ export class FavouritesController {
    */
   @Delete()
   @HttpCode(HttpStatus.OK)
-  async clearAllFavourites(@Headers('authorization') authHeader?: string) {
-    const userId = await this.getUserId(authHeader);
+  async clearAllFavourites(@CurrentUser('id') userId: string) {
     return this.favouritesService.clearAllFavourites(userId);
   }
 }
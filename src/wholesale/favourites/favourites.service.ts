@@ -1,5 +1,14 @@
-import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
 import { SupabaseService } from '../../supabase/supabase.service';
+import {
+  ListingSort,
+  listingPage,
+  paginateListing,
+} from '../../supabase/cursor-pagination';
 
 @Injectable()
 export class FavouritesService {
@@ -136,22 +145,32 @@ export class FavouritesService {
   /**
    * Get all favourited products for a user with pagination
    */
-  async getUserFavourites(userId: string, page = 1, limit = 20) {
+  async getUserFavourites(
+    userId: string,
+    page = 1,
+    limit = 20,
+    cursor?: string,
+  ) {
     const serviceClient = this.supabaseService.getServiceClient();
-    const offset = (page - 1) * limit;
-
-    // Get total count
-    const { count, error: countError } = await serviceClient
-      .from('wholesale_favourites')
-      .select('*', { count: 'exact', head: true })
-      .eq('user_id', userId);
-
-    if (countError) {
-      throw new BadRequestException(`Failed to count favourites: ${countError.message}`);
+    const pageRequest = { page, limit, cursor };
+    const sort: ListingSort = { column: 'created_at', ascending: false };
+
+    // Get total count (page-based requests only)
+    let count: number | null = null;
+    if (!cursor) {
+      const { count: total, error: countError } = await serviceClient
+        .from('wholesale_favourites')
+        .select('*', { count: 'exact', head: true })
+        .eq('user_id', userId);
+
+      if (countError) {
+        throw new BadRequestException(`Failed to count favourites: ${countError.message}`);
+      }
+      count = total;
     }
 
     // Get favourites with product details
-    const { data: favourites, error } = await serviceClient
+    const query = serviceClient
       .from('wholesale_favourites')
       .select(`
         id,
@@ -171,14 +190,24 @@ export class FavouritesService {
           wholesale_brand_id
         )
       `)
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
+      .eq('user_id', userId);
+    const { data: rows, error } = await paginateListing(
+      query,
+      sort,
+      pageRequest,
+    );
 
     if (error) {
       throw new BadRequestException(`Failed to fetch favourites: ${error.message}`);
     }
 
+    const { items: favourites, pagination } = listingPage(
+      rows,
+      sort,
+      pageRequest,
+      count,
+    );
+
     // Get product IDs to fetch images and brand info
     const productIds = favourites
       ?.map((f: any) => f.product?.id)
@@ -251,12 +280,7 @@ export class FavouritesService {
 
     return {
       favourites: formattedFavourites,
-      pagination: {
-        page,
-        limit,
-        total: count || 0,
-        totalPages: Math.ceil((count || 0) / limit),
-      },
+      pagination,
     };
   }
 
@@ -0,0 +1,327 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { OrderItemDto } from './dto/order.dto';
+
+// A line as re-resolved from the catalog - this is what gets persisted
+export interface PricedOrderLine {
+  productId: string;
+  packSizeId: string | null;
+  productName: string;
+  productSlug: string | null;
+  productImage: string | null;
+  brandName: string | null;
+  packLabel: string | null;
+  packQuantity: number;
+  quantity: number;
+  unitPrice: number;
+  packPrice: number;
+  itemTotal: number;
+  salePercentage: number;
+  selectedVariations: Record<string, number> | null;
+}
+
+// A single field that differs between what the client sent and the catalog
+export interface OrderLineChange {
+  productId: string;
+  packSizeId: string | null;
+  field: 'packPrice' | 'unitPrice' | 'packQuantity';
+  submitted: number | null;
+  current: number;
+}
+
+// A line that cannot be bought as submitted
+export interface OrderLineIssue {
+  productId: string;
+  packSizeId: string | null;
+  reason:
+    | 'product_unavailable'
+    | 'pack_size_unavailable'
+    | 'invalid_variations'
+    | 'min_order_quantity'
+    | 'min_order_amount';
+  message: string;
+  required?: number;
+  submitted?: number;
+}
+
+export interface OrderPricingResult {
+  lines: PricedOrderLine[];
+  changes: OrderLineChange[];
+  issues: OrderLineIssue[];
+  subtotal: number;
+  totalItems: number;
+  totalPieces: number;
+}
+
+const PRICE_TOLERANCE = 0.01;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Packs per combination have to be whole numbers adding up to the line
+// quantity, otherwise stock would be reserved for fewer packs than ordered.
+// place_wholesale_order checks the same
+const variationsIssue = (item: OrderItemDto, productName: string) => {
+  const counts = Object.values(item.selectedVariations || {});
+  if (counts.length === 0) {
+    return null;
+  }
+  if (counts.some((count) => !Number.isInteger(count) || count < 0)) {
+    return `Variation quantities for ${productName} must be whole numbers`;
+  }
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  if (total !== item.quantity) {
+    return `Variation quantities for ${productName} add up to ${total}, not the ordered quantity of ${item.quantity}`;
+  }
+  return null;
+};
+
+@Injectable()
+export class OrdersPricingService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  /**
+   * Re-resolve every submitted line against wholesale_products and
+   * wholesale_product_pack_sizes. Snapshot fields (name, brand, image, label)
+   * always come from the catalog; prices that differ from what the client
+   * submitted are reported in `changes`, and lines that cannot be purchased
+   * (inactive product, unavailable pack, MOQ not met) are reported in `issues`.
+   */
+  async priceItems(items: OrderItemDto[]): Promise<OrderPricingResult> {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const productIds = [...new Set(items.map((item) => item.productId))];
+    const packSizeIds = [
+      ...new Set(
+        items.map((item) => item.packSizeId).filter((id): id is string => !!id),
+      ),
+    ];
+
+    const [productsResult, packSizesResult, imagesResult] = await Promise.all([
+      serviceClient
+        .from('wholesale_products')
+        .select(
+          `
+          id,
+          name,
+          slug,
+          status,
+          deleted_at,
+          wholesale_price,
+          sale_percentage,
+          min_order_quantity,
+          min_order_amount,
+          wholesale_brand:wholesale_brands(display_name, status)
+        `,
+        )
+        .in('id', productIds),
+      packSizeIds.length > 0
+        ? serviceClient
+            .from('wholesale_product_pack_sizes')
+            .select(
+              'id, product_id, label, quantity, pack_price, unit_price, is_available',
+            )
+            .in('id', packSizeIds)
+        : Promise.resolve({ data: [], error: null }),
+      serviceClient
+        .from('wholesale_product_images')
+        .select('product_id, image_url, is_primary, display_order')
+        .in('product_id', productIds)
+        .order('display_order', { ascending: true }),
+    ]);
+
+    if (productsResult.error || packSizesResult.error) {
+      throw new BadRequestException('Failed to verify order items');
+    }
+
+    const productsById = new Map<string, any>(
+      (productsResult.data || []).map((p: any) => [p.id, p] as [string, any]),
+    );
+    const packSizesById = new Map<string, any>(
+      (packSizesResult.data || []).map(
+        (ps: any) => [ps.id, ps] as [string, any],
+      ),
+    );
+    const images = imagesResult.data || [];
+
+    const lines: PricedOrderLine[] = [];
+    const changes: OrderLineChange[] = [];
+    const issues: OrderLineIssue[] = [];
+
+    for (const item of items) {
+      const packSizeId = item.packSizeId || null;
+      const product = productsById.get(item.productId);
+      const brand = Array.isArray(product?.wholesale_brand)
+        ? product.wholesale_brand[0]
+        : product?.wholesale_brand;
+
+      if (
+        !product ||
+        product.deleted_at ||
+        product.status !== 'active' ||
+        brand?.status !== 'approved'
+      ) {
+        issues.push({
+          productId: item.productId,
+          packSizeId,
+          reason: 'product_unavailable',
+          message: `${item.productName} is no longer available`,
+        });
+        continue;
+      }
+
+      let packQuantity = 1;
+      let basePackPrice = parseFloat(product.wholesale_price);
+      let packLabel: string | null = null;
+
+      if (packSizeId) {
+        const packSize = packSizesById.get(packSizeId);
+        if (
+          !packSize ||
+          packSize.product_id !== product.id ||
+          !packSize.is_available
+        ) {
+          issues.push({
+            productId: item.productId,
+            packSizeId,
+            reason: 'pack_size_unavailable',
+            message: `The selected pack for ${product.name} is no longer available`,
+          });
+          continue;
+        }
+
+        packQuantity = packSize.quantity;
+        basePackPrice = parseFloat(packSize.pack_price);
+        packLabel = packSize.label;
+      }
+
+      const variationsMessage = variationsIssue(item, product.name);
+      if (variationsMessage) {
+        issues.push({
+          productId: item.productId,
+          packSizeId,
+          reason: 'invalid_variations',
+          message: variationsMessage,
+          required: item.quantity,
+        });
+        continue;
+      }
+
+      // Sale discount applies on top of the listed pack price
+      const salePercentage = product.sale_percentage || 0;
+      const packPrice = roundCurrency(
+        basePackPrice * (1 - salePercentage / 100),
+      );
+      const unitPrice = roundCurrency(packPrice / packQuantity);
+
+      if (Math.abs(packPrice - item.packPrice) > PRICE_TOLERANCE) {
+        changes.push({
+          productId: item.productId,
+          packSizeId,
+          field: 'packPrice',
+          submitted: item.packPrice,
+          current: packPrice,
+        });
+      }
+      if (Math.abs(unitPrice - item.unitPrice) > PRICE_TOLERANCE) {
+        changes.push({
+          productId: item.productId,
+          packSizeId,
+          field: 'unitPrice',
+          submitted: item.unitPrice,
+          current: unitPrice,
+        });
+      }
+      if (
+        item.packQuantity !== undefined &&
+        item.packQuantity !== packQuantity
+      ) {
+        changes.push({
+          productId: item.productId,
+          packSizeId,
+          field: 'packQuantity',
+          submitted: item.packQuantity,
+          current: packQuantity,
+        });
+      }
+
+      const primaryImage =
+        images.find(
+          (img: any) => img.product_id === product.id && img.is_primary,
+        ) || images.find((img: any) => img.product_id === product.id);
+
+      lines.push({
+        productId: product.id,
+        packSizeId,
+        productName: product.name,
+        productSlug: product.slug || null,
+        productImage: primaryImage?.image_url || null,
+        brandName: brand?.display_name || null,
+        packLabel,
+        packQuantity,
+        quantity: item.quantity,
+        unitPrice,
+        packPrice,
+        itemTotal: roundCurrency(packPrice * item.quantity),
+        salePercentage,
+        selectedVariations: item.selectedVariations || null,
+      });
+    }
+
+    // MOQ is enforced per product across all of its lines (a product can be
+    // ordered in several pack sizes within the same order)
+    for (const productId of productIds) {
+      const product = productsById.get(productId);
+      const productLines = lines.filter((line) => line.productId === productId);
+      if (!product || productLines.length === 0) {
+        continue;
+      }
+
+      const pieces = productLines.reduce(
+        (sum, line) => sum + line.quantity * line.packQuantity,
+        0,
+      );
+      const amount = roundCurrency(
+        productLines.reduce((sum, line) => sum + line.itemTotal, 0),
+      );
+
+      if (product.min_order_quantity && pieces < product.min_order_quantity) {
+        issues.push({
+          productId,
+          packSizeId: null,
+          reason: 'min_order_quantity',
+          message: `${product.name} requires a minimum order of ${product.min_order_quantity} pieces`,
+          required: product.min_order_quantity,
+          submitted: pieces,
+        });
+      }
+
+      const minOrderAmount = product.min_order_amount
+        ? parseFloat(product.min_order_amount)
+        : 0;
+      if (minOrderAmount > 0 && amount < minOrderAmount) {
+        issues.push({
+          productId,
+          packSizeId: null,
+          reason: 'min_order_amount',
+          message: `${product.name} requires a minimum order amount of ${minOrderAmount}`,
+          required: minOrderAmount,
+          submitted: amount,
+        });
+      }
+    }
+
+    return {
+      lines,
+      changes,
+      issues,
+      subtotal: roundCurrency(
+        lines.reduce((sum, line) => sum + line.itemTotal, 0),
+      ),
+      totalItems: lines.reduce((sum, line) => sum + line.quantity, 0),
+      totalPieces: lines.reduce(
+        (sum, line) => sum + line.quantity * line.packQuantity,
+        0,
+      ),
+    };
+  }
+}
@@ -10,13 +10,26 @@ import {
   UnauthorizedException,
   UsePipes,
   ValidationPipe,
-  ForbiddenException,
 } from '@nestjs/common';
 import { OrdersService } from './orders.service';
-import { SupabaseService } from '../../supabase/supabase.service';
-import { BrandsService } from '../brands/brands.service';
+import { BrandMembersService } from '../../brand-members/brand-members.service';
+import { hasBrandPermission } from '../../brand-members/brand-members';
+import { OrderRequester } from '../../orders/order-lifecycle';
+import {
+  PAYMENT_CALLBACK_HEADER,
+  isValidPaymentCallback,
+} from '../../orders/payment-callback';
+import { Public } from '../../auth/decorators/public.decorator';
+import { AdminOnly } from '../../admin/decorators/admin-only.decorator';
+import { BrandMember } from '../../auth/decorators/brand-member.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { CurrentBrand } from '../../auth/decorators/current-brand.decorator';
+import type { AuthUser } from '../../auth/interfaces/auth-user.interface';
+import { MfaService } from '../../auth/mfa/mfa.service';
+import { RateLimit } from '../../rate-limit/rate-limit.decorator';
 import {
   CreateOrderDto,
+  QuoteOrderDto,
   UpdateOrderStatusDto,
   UpdatePaymentStatusDto,
 } from './dto/order.dto';
@@ -25,174 +38,169 @@ import {
 export class OrdersController {
   constructor(
     private readonly ordersService: OrdersService,
-    private readonly supabaseService: SupabaseService,
-    private readonly brandsService: BrandsService,
+    private readonly brandMembersService: BrandMembersService,
+    private readonly mfaService: MfaService,
   ) {}
 
-  private async getUserFromToken(authHeader?: string) {
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) {
-      return null;
-    }
-
-    try {
-      const supabase = this.supabaseService.getClient();
-      const { data: userData, error } = await supabase.auth.getUser(token);
-
-      if (error || !userData.user) {
-        return null;
-      }
-
-      return userData.user;
-    } catch {
-      return null;
+  // Identity used to resolve the caller's role for a specific order
+  private async getOrderRequester(user: AuthUser): Promise<OrderRequester> {
+    if (user.isAdmin) {
+      // Admin powers on a shared route still need the admin MFA step-up
+      await this.mfaService.assertAdminSession(user);
+      return { userId: user.id, isAdmin: true };
     }
-  }
 
-  private async requireAuth(authHeader?: string) {
-    const user = await this.getUserFromToken(authHeader);
-    if (!user) {
-      throw new UnauthorizedException('Authentication required');
-    }
-    return user;
+    // Only team members allowed to fulfil orders act for the brand
+    const membership = await this.brandMembersService.getMembership(
+      user.id,
+      'wholesale',
+    );
+    const canFulfil =
+      membership?.brandStatus === 'approved' &&
+      hasBrandPermission(membership.role, 'orders:fulfil');
+    return {
+      userId: user.id,
+      isAdmin: false,
+      brandId: canFulfil ? membership.brandId : null,
+    };
   }
 
   // Create a new order (works for both logged-in and guest users)
+  @Public()
   @Post()
   @UsePipes(new ValidationPipe({ transform: true }))
   async createOrder(
     @Body() createOrderDto: CreateOrderDto,
-    @Headers('authorization') authHeader?: string,
+    @CurrentUser() user?: AuthUser,
   ) {
-    const user = await this.getUserFromToken(authHeader);
     return this.ordersService.createOrder(createOrderDto, user?.id);
   }
 
+  // Re-price cart lines against the catalog before placing the order
+  @Public()
+  @Post('quote')
+  @UsePipes(new ValidationPipe({ transform: true }))
+  async quoteOrder(@Body() quoteOrderDto: QuoteOrderDto) {
+    return this.ordersService.quoteOrder(quoteOrderDto);
+  }
+
   // Get user's orders (requires authentication)
   @Get()
   async getUserOrders(
-    @Headers('authorization') authHeader: string,
+    @CurrentUser() user: AuthUser,
     @Query('page') page?: string,
     @Query('limit') limit?: string,
+    @Query('cursor') cursor?: string,
   ) {
-    const user = await this.requireAuth(authHeader);
     return this.ordersService.getUserOrders(
       user.id,
       page ? parseInt(page, 10) : 1,
       limit ? parseInt(limit, 10) : 10,
+      cursor,
     );
   }
 
-  // Track order by order number (for guests and logged-in users)
+  // Track order by order number (for guests and logged-in users). Without
+  // the order's email or tracking token only a redacted view is returned.
+  @Public()
   @Get('track/:orderNumber')
+  @RateLimit({ limit: 10, windowMs: 15 * 60 * 1000 })
   async trackOrder(
     @Param('orderNumber') orderNumber: string,
+    @CurrentUser('id') userId?: string,
     @Query('email') email?: string,
+    @Query('token') token?: string,
   ) {
-    return this.ordersService.getOrderByNumber(orderNumber, email);
+    return this.ordersService.getOrderByNumber(orderNumber, {
+      email,
+      token,
+      userId,
+    });
   }
 
-  // Get brand's orders (for brand owners - orders containing their products)
+  // Get brand's orders (for brand team members - orders containing their products)
   @Get('brand/my-orders')
+  @BrandMember('wholesale', 'orders:read')
   async getBrandOrders(
-    @Headers('authorization') authHeader: string,
+    @CurrentBrand('id') brandId: string,
     @Query('page') page?: string,
     @Query('limit') limit?: string,
     @Query('search') search?: string,
     @Query('status') status?: string,
+    @Query('cursor') cursor?: string,
   ) {
-    const user = await this.requireAuth(authHeader);
-
-    // Get the user's brand
-    const brand = await this.brandsService.getMyBrand(user.id);
-    if (!brand) {
-      throw new ForbiddenException('You do not have a registered brand');
-    }
-
-    if (brand.status !== 'approved') {
-      throw new ForbiddenException('Your brand is not approved yet');
-    }
-
     return this.ordersService.getBrandOrders(
-      brand.id,
+      brandId,
       page ? parseInt(page, 10) : 1,
       limit ? parseInt(limit, 10) : 12,
       search,
       status,
+      cursor,
     );
   }
 
-  // Get brand's order by ID (for brand owners - only shows their products)
+  // Get brand's order by ID (for brand team members - only shows their products)
   @Get('brand/my-orders/:id')
+  @BrandMember('wholesale', 'orders:read')
   async getBrandOrderById(
     @Param('id') id: string,
-    @Headers('authorization') authHeader: string,
+    @CurrentBrand('id') brandId: string,
   ) {
-    const user = await this.requireAuth(authHeader);
-
-    // Get the user's brand
-    const brand = await this.brandsService.getMyBrand(user.id);
-    if (!brand) {
-      throw new ForbiddenException('You do not have a registered brand');
-    }
-
-    if (brand.status !== 'approved') {
-      throw new ForbiddenException('Your brand is not approved yet');
-    }
-
-    return this.ordersService.getBrandOrderById(id, brand.id);
+    return this.ordersService.getBrandOrderById(id, brandId);
   }
 
   // Get brand analytics
   @Get('brand/analytics')
+  @BrandMember('wholesale', 'analytics:read')
   async getBrandAnalytics(
-    @Headers('authorization') authHeader: string,
+    @CurrentBrand('id') brandId: string,
     @Query('dateRange') dateRange?: string,
   ) {
-    const user = await this.requireAuth(authHeader);
-
-    // Get the user's brand
-    const brand = await this.brandsService.getMyBrand(user.id);
-    if (!brand) {
-      throw new ForbiddenException('You do not have a registered brand');
-    }
-
-    if (brand.status !== 'approved') {
-      throw new ForbiddenException('Your brand is not approved yet');
-    }
-
-    return this.ordersService.getBrandAnalytics(brand.id, dateRange || 'last-30-days');
+    return this.ordersService.getBrandAnalytics(
+      brandId,
+      dateRange || 'last-30-days',
+    );
   }
 
   // Get order by ID (for logged-in users)
   @Get(':id')
-  async getOrderById(
-    @Param('id') id: string,
-    @Headers('authorization') authHeader: string,
-  ) {
-    const user = await this.requireAuth(authHeader);
+  async getOrderById(@Param('id') id: string, @CurrentUser() user: AuthUser) {
     return this.ordersService.getOrderById(id, user.id);
   }
 
-  // Update order status (admin only - for now simplified)
+  // Update order status (admins; brand owners for orders with their products;
+  // buyers may only cancel their own pending orders)
   @Put(':id/status')
   async updateOrderStatus(
     @Param('id') id: string,
     @Body() updateDto: UpdateOrderStatusDto,
-    @Headers('authorization') authHeader: string,
+    @CurrentUser() user: AuthUser,
   ) {
-    await this.requireAuth(authHeader);
-    return this.ordersService.updateOrderStatus(id, updateDto);
+    const requester = await this.getOrderRequester(user);
+    return this.ordersService.updateOrderStatus(id, updateDto, requester);
   }
 
-  // Update payment status (admin/webhook)
+  // Update payment status (admins)
+  @AdminOnly()
   @Put(':id/payment')
   async updatePaymentStatus(
     @Param('id') id: string,
     @Body() updateDto: UpdatePaymentStatusDto,
-    @Headers('authorization') authHeader: string,
   ) {
-    await this.requireAuth(authHeader);
+    return this.ordersService.updatePaymentStatus(id, updateDto);
+  }
+
+  // Payment provider callback, authenticated by the shared secret only
+  @Public()
+  @Put(':id/payment/callback')
+  async paymentCallback(
+    @Param('id') id: string,
+    @Body() updateDto: UpdatePaymentStatusDto,
+    @Headers(PAYMENT_CALLBACK_HEADER) callbackSecret?: string,
+  ) {
+    if (!isValidPaymentCallback(callbackSecret)) {
+      throw new UnauthorizedException('Invalid payment callback');
+    }
     return this.ordersService.updatePaymentStatus(id, updateDto);
   }
 }
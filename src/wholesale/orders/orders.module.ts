@@ -1,14 +1,25 @@
 import { Module } from '@nestjs/common';
 import { OrdersController } from './orders.controller';
 import { OrdersService } from './orders.service';
+import { OrdersPricingService } from './orders-pricing.service';
 import { SupabaseModule } from '../../supabase/supabase.module';
 import { CartModule } from '../cart/cart.module';
-import { BrandsModule } from '../brands/brands.module';
+import { BrandMembersModule } from '../../brand-members/brand-members.module';
+import { OrderLifecycleModule } from '../../orders/order-lifecycle.module';
+import { UsersModule } from '../../users/users.module';
+import { AuthModule } from '../../auth/auth.module';
 
 @Module({
-  imports: [SupabaseModule, CartModule, BrandsModule],
+  imports: [
+    SupabaseModule,
+    CartModule,
+    BrandMembersModule,
+    OrderLifecycleModule,
+    UsersModule,
+    AuthModule,
+  ],
   controllers: [OrdersController],
-  providers: [OrdersService],
+  providers: [OrdersService, OrdersPricingService],
   exports: [OrdersService],
 })
 export class OrdersModule {}
@@ -1,12 +1,24 @@
 import {
   Injectable,
   BadRequestException,
+  ConflictException,
   NotFoundException,
 } from '@nestjs/common';
 import { SupabaseService } from '../../supabase/supabase.service';
+import { ListingSort, listingPage, paginateListing } from '../../supabase/cursor-pagination';
 import { CartService } from '../cart/cart.service';
+import { OrdersPricingService } from './orders-pricing.service';
+import { OrderLifecycleService } from '../../orders/order-lifecycle.service';
+import { OrderRequester } from '../../orders/order-lifecycle';
+import { AddressesService } from '../../users/addresses.service';
+import {
+  buildTrackingUrl,
+  createTrackingToken,
+  matchesTrackingToken,
+} from '../../orders/order-tracking';
 import {
   CreateOrderDto,
+  QuoteOrderDto,
   UpdateOrderStatusDto,
   UpdatePaymentStatusDto,
 } from './dto/order.dto';
@@ -16,8 +28,32 @@ export class OrdersService {
   constructor(
     private readonly supabaseService: SupabaseService,
     private readonly cartService: CartService,
+    private readonly ordersPricingService: OrdersPricingService,
+    private readonly orderLifecycleService: OrderLifecycleService,
+    private readonly addressesService: AddressesService,
   ) {}
 
+  // Price a prospective order without placing it, so checkout can show
+  // "prices updated" before the buyer submits
+  async quoteOrder(quoteOrderDto: QuoteOrderDto) {
+    if (!quoteOrderDto.items || quoteOrderDto.items.length === 0) {
+      throw new BadRequestException('Order must contain at least one item');
+    }
+
+    const pricing = await this.ordersPricingService.priceItems(
+      quoteOrderDto.items,
+    );
+
+    return {
+      items: pricing.lines,
+      changes: pricing.changes,
+      issues: pricing.issues,
+      subtotal: pricing.subtotal,
+      totalItems: pricing.totalItems,
+      totalPieces: pricing.totalPieces,
+    };
+  }
+
   async createOrder(createOrderDto: CreateOrderDto, userId?: string) {
     const serviceClient = this.supabaseService.getServiceClient();
 
@@ -26,33 +62,49 @@ export class OrdersService {
       throw new BadRequestException('Order must contain at least one item');
     }
 
-    // Calculate totals
-    let calculatedSubtotal = 0;
-    let totalItems = 0;
-    let totalPieces = 0;
+    // Re-price every line from the catalog - client prices are only used to
+    // detect that the checkout UI is showing stale numbers
+    const pricing = await this.ordersPricingService.priceItems(
+      createOrderDto.items,
+    );
 
-    const orderItems = createOrderDto.items.map((item) => {
-      const itemTotal = item.packPrice * item.quantity;
-      calculatedSubtotal += itemTotal;
-      totalItems += item.quantity;
-      totalPieces += (item.packQuantity || 1) * item.quantity;
+    if (pricing.issues.length > 0) {
+      throw new BadRequestException({
+        message: 'Some items in your order cannot be purchased',
+        code: 'ORDER_ITEMS_UNAVAILABLE',
+        issues: pricing.issues,
+      });
+    }
 
-      return {
-        product_id: item.productId,
-        pack_size_id: item.packSizeId || null,
-        product_name: item.productName,
-        product_slug: item.productSlug,
-        product_image: item.productImage,
-        brand_name: item.brandName,
-        pack_label: item.packLabel,
-        pack_quantity: item.packQuantity || 1,
-        quantity: item.quantity,
-        unit_price: item.unitPrice,
-        pack_price: item.packPrice,
-        item_total: itemTotal,
-        selected_variations: item.selectedVariations || null,
-      };
-    });
+    if (pricing.changes.length > 0) {
+      throw new ConflictException({
+        message: 'Prices have been updated since you added these items',
+        code: 'ORDER_PRICES_CHANGED',
+        changes: pricing.changes,
+        items: pricing.lines,
+        subtotal: pricing.subtotal,
+      });
+    }
+
+    const calculatedSubtotal = pricing.subtotal;
+    const totalItems = pricing.totalItems;
+    const totalPieces = pricing.totalPieces;
+
+    const orderItems = pricing.lines.map((line) => ({
+      product_id: line.productId,
+      pack_size_id: line.packSizeId,
+      product_name: line.productName,
+      product_slug: line.productSlug,
+      product_image: line.productImage,
+      brand_name: line.brandName,
+      pack_label: line.packLabel,
+      pack_quantity: line.packQuantity,
+      quantity: line.quantity,
+      unit_price: line.unitPrice,
+      pack_price: line.packPrice,
+      item_total: line.itemTotal,
+      selected_variations: line.selectedVariations,
+    }));
 
     // Verify totals match (with small tolerance for rounding)
     const tolerance = 0.01;
@@ -67,18 +119,27 @@ export class OrdersService {
       throw new BadRequestException('Order total mismatch');
     }
 
+    const addresses = await this.addressesService.resolveOrderAddresses(
+      userId,
+      createOrderDto,
+    );
+
+    // Guests get a tracking token, since they have no account to see the
+    // order in. Only its hash is stored
+    const tracking = userId ? null : createTrackingToken();
+
     // Create the order
     const orderData: any = {
       user_id: userId || null,
-      customer_email: createOrderDto.customerEmail,
+      customer_email: createOrderDto.customerEmail.trim().toLowerCase(),
       customer_name: createOrderDto.customerName,
       customer_phone: createOrderDto.customerPhone || null,
-      shipping_address_line1: createOrderDto.shippingAddress.addressLine1,
-      shipping_address_line2: createOrderDto.shippingAddress.addressLine2 || null,
-      shipping_city: createOrderDto.shippingAddress.city,
-      shipping_state: createOrderDto.shippingAddress.state || null,
-      shipping_postal_code: createOrderDto.shippingAddress.postalCode,
-      shipping_country: createOrderDto.shippingAddress.country || 'Turkey',
+      shipping_address_line1: addresses.shipping.addressLine1,
+      shipping_address_line2: addresses.shipping.addressLine2 || null,
+      shipping_city: addresses.shipping.city,
+      shipping_state: addresses.shipping.state || null,
+      shipping_postal_code: addresses.shipping.postalCode,
+      shipping_country: addresses.shipping.country || 'Turkey',
       billing_same_as_shipping: createOrderDto.billingSameAsShipping,
       subtotal: calculatedSubtotal,
       shipping_cost: shippingCost,
@@ -91,48 +152,55 @@ export class OrdersService {
       payment_status: 'pending',
       payment_method: createOrderDto.paymentMethod || 'cash_on_delivery',
       notes: createOrderDto.notes || null,
+      shipping_address_id: addresses.shippingAddressId,
+      billing_address_id: addresses.billingAddressId,
+      tracking_token_hash: tracking?.hash || null,
     };
 
     // Add billing address if different from shipping
-    if (!createOrderDto.billingSameAsShipping && createOrderDto.billingAddress) {
-      orderData.billing_address_line1 = createOrderDto.billingAddress.addressLine1;
-      orderData.billing_address_line2 = createOrderDto.billingAddress.addressLine2 || null;
-      orderData.billing_city = createOrderDto.billingAddress.city;
-      orderData.billing_state = createOrderDto.billingAddress.state || null;
-      orderData.billing_postal_code = createOrderDto.billingAddress.postalCode;
-      orderData.billing_country = createOrderDto.billingAddress.country || 'Turkey';
+    if (addresses.billing) {
+      orderData.billing_address_line1 = addresses.billing.addressLine1;
+      orderData.billing_address_line2 = addresses.billing.addressLine2 || null;
+      orderData.billing_city = addresses.billing.city;
+      orderData.billing_state = addresses.billing.state || null;
+      orderData.billing_postal_code = addresses.billing.postalCode;
+      orderData.billing_country = addresses.billing.country || 'Turkey';
     }
 
-    // Insert order
-    const { data: order, error: orderError } = await serviceClient
-      .from('wholesale_orders')
-      .insert(orderData)
-      .select()
-      .single();
+    // Reserve stock and insert the order with its items in one transaction
+    const { data: orderId, error: orderError } = await serviceClient.rpc(
+      'place_wholesale_order',
+      {
+        p_order: orderData,
+        p_items: orderItems,
+      },
+    );
 
     if (orderError) {
+      if (orderError.hint === 'insufficient_stock') {
+        throw new ConflictException({
+          message: orderError.message,
+          code: 'ORDER_OUT_OF_STOCK',
+        });
+      }
+      if (orderError.hint === 'invalid_variations') {
+        throw new BadRequestException({
+          message: orderError.message,
+          code: 'ORDER_INVALID_VARIATIONS',
+        });
+      }
       throw new BadRequestException(
         `Failed to create order: ${orderError.message}`,
       );
     }
 
-    // Insert order items
-    const itemsWithOrderId = orderItems.map((item) => ({
-      ...item,
-      order_id: order.id,
-    }));
-
-    const { error: itemsError } = await serviceClient
-      .from('wholesale_order_items')
-      .insert(itemsWithOrderId);
-
-    if (itemsError) {
-      // Rollback: delete the order
-      await serviceClient.from('wholesale_orders').delete().eq('id', order.id);
-      throw new BadRequestException(
-        `Failed to create order items: ${itemsError.message}`,
-      );
-    }
+    await this.orderLifecycleService.recordHistory(
+      'wholesale',
+      orderId,
+      null,
+      'pending',
+      { role: 'buyer', userId: userId || null },
+    );
 
     // Clear the user's cart after successful order
     if (userId) {
@@ -145,7 +213,16 @@ export class OrdersService {
     }
 
     // Return the complete order with items
-    return this.getOrderById(order.id, userId);
+    const order = await this.getOrderById(orderId, userId);
+    if (!tracking) {
+      return order;
+    }
+
+    return {
+      ...order,
+      trackingToken: tracking.token,
+      trackingUrl: buildTrackingUrl(order.orderNumber, tracking.token),
+    };
   }
 
   async getOrderById(orderId: string, userId?: string) {
@@ -179,6 +256,11 @@ export class OrdersService {
       throw new BadRequestException('Failed to fetch order items');
     }
 
+    const history = await this.orderLifecycleService.getHistory(
+      'wholesale',
+      orderId,
+    );
+
     return {
       id: order.id,
       orderNumber: order.order_number,
@@ -239,51 +321,90 @@ export class OrdersService {
         itemTotal: parseFloat(item.item_total),
         selectedVariations: item.selected_variations,
       })),
+      statusHistory: this.mapStatusHistory(history),
     };
   }
 
-  async getOrderByNumber(orderNumber: string, email?: string) {
+  /**
+   * Order tracking. The full order is only returned to its owner, or with the
+   * order's email or tracking token; anyone else with just the number gets
+   * the status timeline without personal details.
+   */
+  async getOrderByNumber(
+    orderNumber: string,
+    credentials: { email?: string; token?: string; userId?: string },
+  ) {
     const serviceClient = this.supabaseService.getServiceClient();
 
-    let query = serviceClient
+    const { data: order } = await serviceClient
       .from('wholesale_orders')
       .select('*')
-      .eq('order_number', orderNumber);
+      .eq('order_number', orderNumber)
+      .maybeSingle();
 
-    // If email provided, verify it matches
-    if (email) {
-      query = query.eq('customer_email', email.toLowerCase());
+    if (!order) {
+      throw new NotFoundException('Order not found');
     }
 
-    const { data: order, error } = await query.single();
+    const { email, token, userId } = credentials;
+    const isVerified =
+      (!!userId && order.user_id === userId) ||
+      (!!email && order.customer_email === email.trim().toLowerCase()) ||
+      (!!token && matchesTrackingToken(token, order.tracking_token_hash));
 
-    if (error || !order) {
-      throw new NotFoundException('Order not found');
+    if (isVerified) {
+      return this.getOrderById(order.id);
     }
 
-    return this.getOrderById(order.id);
+    return {
+      orderNumber: order.order_number,
+      status: order.status,
+      totalItems: order.total_items,
+      createdAt: order.created_at,
+      confirmedAt: order.confirmed_at,
+      shippedAt: order.shipped_at,
+      deliveredAt: order.delivered_at,
+      cancelledAt: order.cancelled_at,
+      redacted: true,
+    };
   }
 
-  async getUserOrders(userId: string, page: number = 1, limit: number = 10) {
+  async getUserOrders(
+    userId: string,
+    page: number = 1,
+    limit: number = 10,
+    cursor?: string,
+  ) {
     const serviceClient = this.supabaseService.getServiceClient();
-
-    const offset = (page - 1) * limit;
+    const pageRequest = { page, limit, cursor };
+    const sort: ListingSort = { column: 'created_at', ascending: false };
 
     // Get orders
-    const { data: orders, error, count } = await serviceClient
+    const query = serviceClient
       .from('wholesale_orders')
-      .select('*', { count: 'exact' })
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
+      .select('*', cursor ? {} : { count: 'exact' })
+      .eq('user_id', userId);
+
+    const { data: rows, error, count } = await paginateListing(
+      query,
+      sort,
+      pageRequest,
+    );
 
     if (error) {
       throw new BadRequestException('Failed to fetch orders');
     }
 
+    const { items: orders, pagination } = listingPage(
+      rows,
+      sort,
+      pageRequest,
+      count,
+    );
+
     // Get items for each order
     const ordersWithItems = await Promise.all(
-      (orders || []).map(async (order: any) => {
+      orders.map(async (order: any) => {
         const { data: items } = await serviceClient
           .from('wholesale_order_items')
           .select('*')
@@ -313,54 +434,42 @@ export class OrdersService {
 
     return {
       orders: ordersWithItems,
-      pagination: {
-        page,
-        limit,
-        total: count || 0,
-        totalPages: Math.ceil((count || 0) / limit),
-      },
+      pagination,
     };
   }
 
   async updateOrderStatus(
     orderId: string,
     updateDto: UpdateOrderStatusDto,
+    requester: OrderRequester,
   ) {
-    const serviceClient = this.supabaseService.getServiceClient();
-
-    const updateData: any = {
-      status: updateDto.status,
-    };
-
-    // Set timestamp based on status
-    switch (updateDto.status) {
-      case 'confirmed':
-        updateData.confirmed_at = new Date().toISOString();
-        break;
-      case 'shipped':
-        updateData.shipped_at = new Date().toISOString();
-        break;
-      case 'delivered':
-        updateData.delivered_at = new Date().toISOString();
-        break;
-      case 'cancelled':
-        updateData.cancelled_at = new Date().toISOString();
-        break;
-    }
+    const order = await this.getOrderRow(orderId);
+
+    const hasBrandProducts = requester.brandId
+      ? await this.orderContainsBrandProducts(orderId, requester.brandId)
+      : false;
+    const actor = this.orderLifecycleService.resolveActor(
+      order,
+      requester,
+      hasBrandProducts,
+    );
 
+    const updates: any = {};
     if (updateDto.adminNotes) {
-      updateData.admin_notes = updateDto.adminNotes;
+      updates.admin_notes = updateDto.adminNotes;
     }
 
-    const { data, error } = await serviceClient
-      .from('wholesale_orders')
-      .update(updateData)
-      .eq('id', orderId)
-      .select()
-      .single();
+    await this.orderLifecycleService.transition(
+      'wholesale',
+      order,
+      updateDto.status,
+      actor,
+      { note: updateDto.note, updates },
+    );
 
-    if (error) {
-      throw new BadRequestException(`Failed to update order: ${error.message}`);
+    // Put reserved stock back when an order is cancelled
+    if (updateDto.status === 'cancelled') {
+      await this.releaseOrderStock(orderId);
     }
 
     return this.getOrderById(orderId);
@@ -380,13 +489,7 @@ export class OrdersService {
       updateData.payment_reference = updateDto.paymentReference;
     }
 
-    // Auto-confirm order when payment is successful
-    if (updateDto.paymentStatus === 'paid') {
-      updateData.status = 'confirmed';
-      updateData.confirmed_at = new Date().toISOString();
-    }
-
-    const { data, error } = await serviceClient
+    const { data: order, error } = await serviceClient
       .from('wholesale_orders')
       .update(updateData)
       .eq('id', orderId)
@@ -397,6 +500,17 @@ export class OrdersService {
       throw new BadRequestException(`Failed to update payment: ${error.message}`);
     }
 
+    // Auto-confirm order when payment is successful
+    if (updateDto.paymentStatus === 'paid' && order.status === 'pending') {
+      await this.orderLifecycleService.transition(
+        'wholesale',
+        order,
+        'confirmed',
+        { role: 'system' },
+        { note: 'Payment received' },
+      );
+    }
+
     return this.getOrderById(orderId);
   }
 
@@ -406,8 +520,11 @@ export class OrdersService {
     limit: number = 12,
     search?: string,
     status?: string,
+    cursor?: string,
   ) {
     const serviceClient = this.supabaseService.getServiceClient();
+    const pageRequest = { page, limit, cursor };
+    const sort: ListingSort = { column: 'created_at', ascending: false };
 
     // First, get product IDs belonging to this brand
     const { data: brandProducts, error: productsError } = await serviceClient
@@ -424,12 +541,7 @@ export class OrdersService {
     if (productIds.length === 0) {
       return {
         orders: [],
-        pagination: {
-          page,
-          limit,
-          total: 0,
-          totalPages: 0,
-        },
+        pagination: listingPage([], sort, pageRequest, 0).pagination,
       };
     }
 
@@ -448,21 +560,15 @@ export class OrdersService {
     if (orderIds.length === 0) {
       return {
         orders: [],
-        pagination: {
-          page,
-          limit,
-          total: 0,
-          totalPages: 0,
-        },
+        pagination: listingPage([], sort, pageRequest, 0).pagination,
       };
     }
 
     // Build the orders query
     let ordersQuery = serviceClient
       .from('wholesale_orders')
-      .select('*', { count: 'exact' })
-      .in('id', orderIds)
-      .order('created_at', { ascending: false });
+      .select('*', cursor ? {} : { count: 'exact' })
+      .in('id', orderIds);
 
     // Apply status filter
     if (status && status !== 'all') {
@@ -476,15 +582,14 @@ export class OrdersService {
       );
     }
 
-    const offset = (page - 1) * limit;
-    ordersQuery = ordersQuery.range(offset, offset + limit - 1);
-
-    const { data: orders, error: ordersError, count } = await ordersQuery;
+    const { data: rows, error: ordersError, count } = await paginateListing(ordersQuery, sort, pageRequest);
 
     if (ordersError) {
       throw new BadRequestException('Failed to fetch orders');
     }
 
+    const { items: orders, pagination } = listingPage(rows, sort, pageRequest, count);
+
     // Get items for each order (only brand's products)
     const ordersWithItems = await Promise.all(
       (orders || []).map(async (order: any) => {
@@ -539,12 +644,7 @@ export class OrdersService {
 
     return {
       orders: ordersWithItems,
-      pagination: {
-        page,
-        limit,
-        total: count || 0,
-        totalPages: Math.ceil((count || 0) / limit),
-      },
+      pagination,
     };
   }
 
@@ -602,6 +702,11 @@ export class OrdersService {
       throw new BadRequestException('Failed to fetch order items');
     }
 
+    const history = await this.orderLifecycleService.getHistory(
+      'wholesale',
+      orderId,
+    );
+
     // Calculate totals for brand's items only
     let brandSubtotal = 0;
     let brandTotalItems = 0;
@@ -660,6 +765,7 @@ export class OrdersService {
         itemTotal: parseFloat(item.item_total),
         selectedVariations: item.selected_variations,
       })),
+      statusHistory: this.mapStatusHistory(history),
     };
   }
 
@@ -870,6 +976,64 @@ export class OrdersService {
     };
   }
 
+  private async getOrderRow(orderId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data: order, error } = await serviceClient
+      .from('wholesale_orders')
+      .select('*')
+      .eq('id', orderId)
+      .single();
+
+    if (error || !order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    return order;
+  }
+
+  private async orderContainsBrandProducts(orderId: string, brandId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data, error } = await serviceClient
+      .from('wholesale_order_items')
+      .select('id, product:wholesale_products!inner(wholesale_brand_id)')
+      .eq('order_id', orderId)
+      .eq('product.wholesale_brand_id', brandId)
+      .limit(1);
+
+    if (error) {
+      throw new BadRequestException('Failed to verify order products');
+    }
+
+    return (data || []).length > 0;
+  }
+
+  private mapStatusHistory(history: any[]) {
+    return history.map((entry: any) => ({
+      id: entry.id,
+      fromStatus: entry.from_status,
+      toStatus: entry.to_status,
+      actorRole: entry.actor_role,
+      actorId: entry.actor_id,
+      note: entry.note,
+      createdAt: entry.created_at,
+    }));
+  }
+
+  private async releaseOrderStock(orderId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { error } = await serviceClient.rpc('release_wholesale_order_stock', {
+      p_order_id: orderId,
+    });
+
+    if (error) {
+      // Log but don't fail the cancellation - release is idempotent and can be retried
+      console.error('Failed to release order stock:', error);
+    }
+  }
+
   private getEmptyAnalytics() {
     return {
       kpis: {
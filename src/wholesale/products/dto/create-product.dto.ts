@@ -1,7 +1,12 @@
-import { IsString, IsOptional, IsNumber, IsBoolean, IsUUID, IsArray, IsObject, ValidateNested, Min, Max, IsEnum } from 'class-validator';
+import { IsString, IsOptional, IsNumber, IsBoolean, IsUUID, IsArray, IsObject, ValidateNested, Min, Max, IsEnum, IsDateString } from 'class-validator';
 import { Type } from 'class-transformer';
 
 export class ProductImageDto {
+  // Child rows sent with their id are updated in place (see updateProduct)
+  @IsOptional()
+  @IsUUID()
+  id?: string;
+
   @IsString()
   imageUrl: string;
 
@@ -19,6 +24,10 @@ export class ProductImageDto {
 }
 
 export class ProductVariationDto {
+  @IsOptional()
+  @IsUUID()
+  id?: string;
+
   @IsString()
   variationType: string;
 
@@ -52,6 +61,10 @@ export class ProductVariationDto {
 
 // Legacy PackVariationDto - kept for backward compatibility
 export class PackVariationDto {
+  @IsOptional()
+  @IsUUID()
+  id?: string;
+
   @IsString()
   variationType: string;
 
@@ -77,6 +90,10 @@ export class PackVariationDto {
 
 // New Trendyol-style variant (Color × Size × Custom combination)
 export class PackVariantDto {
+  @IsOptional()
+  @IsUUID()
+  id?: string;
+
   @IsString()
   color: string;
 
@@ -136,6 +153,10 @@ export class PackVariantDto {
 }
 
 export class ProductPackSizeDto {
+  @IsOptional()
+  @IsUUID()
+  id?: string;
+
   @IsString()
   label: string;
 
@@ -165,7 +186,8 @@ export class ProductPackSizeDto {
   @Min(0)
   displayOrder: number;
 
-  // New Trendyol-style variants (Color × Size combinations)
+  // New Trendyol-style variants (Color × Size combinations). On update, the
+  // child collections below are only replaced when sent
   @IsOptional()
   @IsArray()
   @ValidateNested({ each: true })
@@ -183,6 +205,12 @@ export class ProductPackSizeDto {
   @IsObject()
   stockMatrix?: Record<string, number>;
 
+  // Low-stock threshold per stockMatrix combination; combinations left out
+  // use the product's lowStockThreshold
+  @IsOptional()
+  @IsObject()
+  stockMatrixThresholds?: Record<string, number>;
+
   @IsOptional()
   @IsBoolean()
   hasFixedQuantities?: boolean;
@@ -272,10 +300,34 @@ export class CreateProductDto {
   @Min(0)
   lowStockThreshold?: number;
 
-  // Status
+  // Status. out_of_stock is set by the scheduler only; it is accepted so a
+  // product can be saved back as read, and stored as active
+  @IsOptional()
+  @IsEnum(['draft', 'active', 'inactive', 'archived', 'out_of_stock'])
+  status?: 'draft' | 'active' | 'inactive' | 'archived' | 'out_of_stock';
+
+  // Scheduling (applied by ProductSchedulerService; send null to clear)
+  @IsOptional()
+  @IsDateString()
+  publishAt?: string | null;
+
+  @IsOptional()
+  @IsDateString()
+  unpublishAt?: string | null;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  scheduledSalePercentage?: number | null;
+
+  @IsOptional()
+  @IsDateString()
+  saleStartsAt?: string | null;
+
   @IsOptional()
-  @IsEnum(['draft', 'active', 'inactive', 'archived'])
-  status?: 'draft' | 'active' | 'inactive' | 'archived';
+  @IsDateString()
+  saleEndsAt?: string | null;
 
   @IsOptional()
   @IsBoolean()
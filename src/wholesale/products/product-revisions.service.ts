@@ -0,0 +1,168 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { diffProductSnapshots } from './product-snapshot';
+
+export type RevisionChangeType = 'create' | 'update' | 'restore';
+
+export interface RevisionContext {
+  userId?: string;
+  changeType: RevisionChangeType;
+  restoredFrom?: number;
+}
+
+const mapRevision = (revision: any) => ({
+  revisionNumber: revision.revision_number,
+  changeType: revision.change_type,
+  changedBy: revision.changed_by
+    ? {
+        id: revision.changed_by,
+        fullName: revision.users?.full_name || null,
+      }
+    : null,
+  restoredFrom: revision.restored_from,
+  changes: revision.changes,
+  createdAt: revision.created_at,
+});
+
+// The product_revisions log of wholesale products
+@Injectable()
+export class ProductRevisionsService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  /**
+   * Store a revision after a save. `before` is the snapshot from before the
+   * change (null on create); updates that changed nothing are not recorded.
+   * Failures are logged - the save itself already happened.
+   */
+  async record(
+    productId: string,
+    before: any,
+    after: any,
+    context: RevisionContext,
+  ) {
+    const changes = before ? diffProductSnapshots(before, after) : null;
+    if (before && !changes && context.changeType === 'update') {
+      return;
+    }
+
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    // Two saves racing for the same number: the loser retries once
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const { data: latest } = await serviceClient
+        .from('product_revisions')
+        .select('revision_number')
+        .eq('product_id', productId)
+        .order('revision_number', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const { error } = await serviceClient.from('product_revisions').insert({
+        product_id: productId,
+        revision_number: (latest?.revision_number || 0) + 1,
+        change_type: context.changeType,
+        changed_by: context.userId || null,
+        restored_from: context.restoredFrom ?? null,
+        changes,
+        snapshot: after,
+      });
+
+      if (!error) {
+        return;
+      }
+      if (error.code !== '23505') {
+        console.error('Failed to record product revision:', error);
+        return;
+      }
+    }
+
+    console.error('Failed to record product revision: revision number taken');
+  }
+
+  async getRevisions(
+    productId: string,
+    brandId: string,
+    page: number = 1,
+    limit: number = 20,
+  ) {
+    await this.assertOwnership(productId, brandId);
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const offset = (page - 1) * limit;
+    const { data, error, count } = await serviceClient
+      .from('product_revisions')
+      .select(
+        'revision_number, change_type, changed_by, restored_from, changes, created_at, users(full_name)',
+        { count: 'exact' },
+      )
+      .eq('product_id', productId)
+      .order('revision_number', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch revisions: ${error.message || 'Unknown error'}`,
+      );
+    }
+
+    return {
+      data: (data || []).map(mapRevision),
+      pagination: {
+        page,
+        limit,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / limit),
+      },
+    };
+  }
+
+  async getRevision(
+    productId: string,
+    brandId: string,
+    revisionNumber: number,
+  ) {
+    await this.assertOwnership(productId, brandId);
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data, error } = await serviceClient
+      .from('product_revisions')
+      .select('*, users(full_name)')
+      .eq('product_id', productId)
+      .eq('revision_number', revisionNumber)
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch revision: ${error.message || 'Unknown error'}`,
+      );
+    }
+    if (!data) {
+      throw new NotFoundException('Revision not found.');
+    }
+
+    return { ...mapRevision(data), snapshot: data.snapshot };
+  }
+
+  private async assertOwnership(productId: string, brandId: string) {
+    const { data: product } = await this.supabaseService
+      .getServiceClient()
+      .from('wholesale_products')
+      .select('wholesale_brand_id')
+      .eq('id', productId)
+      .maybeSingle();
+
+    if (!product) {
+      throw new NotFoundException('Product not found.');
+    }
+    if (product.wholesale_brand_id !== brandId) {
+      throw new UnauthorizedException(
+        'You do not have permission to access this product.',
+      );
+    }
+  }
+}
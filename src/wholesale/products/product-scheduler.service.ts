@@ -0,0 +1,73 @@
+import {
+  Injectable,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { SupabaseService } from '../../supabase/supabase.service';
+
+/**
+ * Runs run_wholesale_product_schedules() every PRODUCT_SCHEDULER_INTERVAL_MS
+ * (default one minute): due publish/unpublish dates and sale windows, and
+ * moving tracked products in and out of out_of_stock. Every instance runs
+ * it; the function is safe to run concurrently. Set
+ * PRODUCT_SCHEDULER_ENABLED=false to turn it off on an instance.
+ */
+@Injectable()
+export class ProductSchedulerService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly enabled = process.env.PRODUCT_SCHEDULER_ENABLED !== 'false';
+  private readonly intervalMs =
+    parseInt(process.env.PRODUCT_SCHEDULER_INTERVAL_MS || '', 10) || 60 * 1000;
+
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  onApplicationBootstrap() {
+    if (!this.enabled) {
+      return;
+    }
+
+    this.timer = setInterval(() => void this.runOnce(), this.intervalMs);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref();
+  }
+
+  onApplicationShutdown() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Apply everything that is due now. Skipped while a previous run is still
+   * in progress. Returns the per-step counts, or null if nothing ran.
+   */
+  async runOnce(): Promise<Record<string, number> | null> {
+    if (this.running) {
+      return null;
+    }
+
+    this.running = true;
+    try {
+      const { data, error } = await this.supabaseService
+        .getServiceClient()
+        .rpc('run_wholesale_product_schedules');
+
+      if (error) {
+        console.error('Failed to run product schedules:', error);
+        return null;
+      }
+
+      return data as Record<string, number>;
+    } catch (error) {
+      console.error('Failed to run product schedules:', error);
+      return null;
+    } finally {
+      this.running = false;
+    }
+  }
+}
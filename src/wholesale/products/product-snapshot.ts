@@ -0,0 +1,162 @@
+import type { UpdateProductDto } from './dto/update-product.dto';
+
+// Empty values are kept as null (not left out) so restoring a snapshot
+// clears fields that were empty at the time
+const num = (value: any): any =>
+  value === null || value === undefined || value === '' ? null : Number(value);
+
+const opt = (value: any): any => value ?? null;
+
+/**
+ * A product as returned by ProductsService.getProductComplete, turned back
+ * into an update payload (with child row ids). Stored as revision snapshots
+ * and used to restore them. Publish and sale schedules are left out: they
+ * are cleared once they fire, and restoring a past date would fire it again.
+ */
+export const buildProductSnapshot = (product: any): UpdateProductDto => ({
+  name: product.name,
+  slug: product.slug,
+  sku: opt(product.sku),
+  description: opt(product.description),
+  shortDescription: opt(product.short_description),
+  categoryId: product.category_id,
+  subcategoryId: opt(product.subcategory_id),
+  wholesalePrice: num(product.wholesale_price),
+  salePercentage: num(product.sale_percentage),
+  retailPrice: num(product.retail_price),
+  barcode: opt(product.barcode),
+  vatRate: num(product.vat_rate),
+  modelCode: opt(product.model_code),
+  minOrderQuantity: num(product.min_order_quantity),
+  minOrderAmount: num(product.min_order_amount),
+  stockQuantity: num(product.stock_quantity),
+  trackInventory: product.track_inventory,
+  lowStockThreshold: num(product.low_stock_threshold),
+  status: product.status,
+  isFeatured: product.is_featured,
+  condition: product.condition,
+  shippingInfo: opt(product.shipping_info),
+  isShippingFree: product.is_shipping_free,
+  shippingCost: num(product.shipping_cost),
+  estimatedDeliveryDays: num(product.estimated_delivery_days),
+  productDetails: opt(product.product_details),
+  sizeChart: opt(product.size_chart),
+  metaTitle: opt(product.meta_title),
+  metaDescription: opt(product.meta_description),
+  metaKeywords: opt(product.meta_keywords),
+  images: (product.images || []).map((image: any) => ({
+    id: image.id,
+    imageUrl: image.image_url,
+    altText: opt(image.alt_text),
+    displayOrder: image.display_order,
+    isPrimary: image.is_primary,
+  })),
+  variations: (product.variations || []).map((variation: any) => ({
+    id: variation.id,
+    variationType: variation.variation_type,
+    name: variation.name,
+    value: opt(variation.value),
+    priceOverride: num(variation.price_override),
+    stockQuantity: num(variation.stock_quantity),
+    trackStock: variation.track_stock,
+    isAvailable: variation.is_available,
+    displayOrder: variation.display_order,
+  })),
+  packSizes: (product.packSizes || []).map((pack: any) => {
+    const rows: any[] = pack.variations || [];
+    const isVariantFormat = rows.some((row) => row.color && row.size);
+
+    return {
+      id: pack.id,
+      label: pack.label,
+      quantity: pack.quantity,
+      packPrice: num(pack.pack_price),
+      unitPrice: num(pack.unit_price),
+      isPopular: pack.is_popular,
+      isBestValue: pack.is_best_value,
+      isAvailable: pack.is_available,
+      displayOrder: pack.display_order,
+      hasFixedQuantities: pack.has_fixed_quantities,
+      variants: isVariantFormat
+        ? rows.map((row) => ({
+            id: row.id,
+            color: row.color,
+            colorValue: opt(row.color_value),
+            size: row.size,
+            customValues: opt(row.custom_values),
+            barcode: opt(row.barcode),
+            stock: row.stock || 0,
+            fixedQuantity: row.fixed_qty || 0,
+            vatRate: num(row.vat_rate),
+            otvRate: num(row.otv_rate),
+            stockCode: opt(row.stock_code),
+            lotInfo: opt(row.lot_info),
+            imageIndex: opt(row.image_index),
+            displayOrder: row.display_order,
+          }))
+        : undefined,
+      variations: isVariantFormat
+        ? undefined
+        : rows.map((row) => ({
+            id: row.id,
+            variationType: row.variation_type,
+            name: row.name,
+            value: opt(row.value),
+            imageIndex: opt(row.image_index),
+            isAvailable: row.is_available,
+            displayOrder: row.display_order,
+          })),
+      stockMatrix: pack.stockMatrix || {},
+      stockMatrixThresholds: pack.stockMatrixThresholds || {},
+      fixedQuantities: pack.fixedQuantities || {},
+    };
+  }),
+});
+
+const COLLECTIONS = ['images', 'variations', 'packSizes'] as const;
+
+const same = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * What changed between two snapshots: changed fields with their old and new
+ * values, and the ids of added/updated/removed images, variations and pack
+ * sizes (a pack counts as updated when any of its variants changed).
+ */
+export const diffProductSnapshots = (before: any, after: any) => {
+  const fields: Record<string, { from: any; to: any }> = {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if ((COLLECTIONS as readonly string[]).includes(key)) {
+      continue;
+    }
+    if (!same(before[key] ?? null, after[key] ?? null)) {
+      fields[key] = { from: before[key] ?? null, to: after[key] ?? null };
+    }
+  }
+
+  const collections: Record<
+    string,
+    { added: string[]; updated: string[]; removed: string[] }
+  > = {};
+  for (const key of COLLECTIONS) {
+    const old = new Map<string, any>(
+      (before[key] || []).map((item: any) => [item.id, item]),
+    );
+    const current = new Map<string, any>(
+      (after[key] || []).map((item: any) => [item.id, item]),
+    );
+
+    const added = [...current.keys()].filter((id) => !old.has(id));
+    const removed = [...old.keys()].filter((id) => !current.has(id));
+    const updated = [...current.keys()].filter(
+      (id) => old.has(id) && !same(old.get(id), current.get(id)),
+    );
+
+    if (added.length || updated.length || removed.length) {
+      collections[key] = { added, updated, removed };
+    }
+  }
+
+  const changed =
+    Object.keys(fields).length > 0 || Object.keys(collections).length > 0;
+  return changed ? { fields, ...collections } : null;
+};
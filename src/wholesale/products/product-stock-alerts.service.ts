@@ -0,0 +1,190 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { SupabaseService } from '../../supabase/supabase.service';
+
+export type LowStockSource = 'product' | 'matrix' | 'variant';
+export type StockAlertStatus = 'open' | 'resolved' | 'all';
+
+const mapLowStockItem = (item: any) => ({
+  source: item.source,
+  sourceId: item.source_id,
+  productId: item.product_id,
+  productName: item.product_name,
+  productSlug: item.product_slug,
+  sku: item.sku,
+  productStatus: item.product_status,
+  packSizeId: item.pack_size_id,
+  packLabel: item.pack_label,
+  combinationKey: item.combination_key,
+  stockQuantity: item.stock_quantity,
+  threshold: item.threshold,
+  // How many to order to get back above the threshold
+  shortfall: Math.max(0, item.threshold - item.stock_quantity + 1),
+});
+
+const mapAlert = (alert: any) => ({
+  id: alert.id,
+  source: alert.source,
+  alertType: alert.alert_type,
+  productId: alert.product_id,
+  productName: alert.wholesale_products?.name || null,
+  productSlug: alert.wholesale_products?.slug || null,
+  packSizeId: alert.pack_size_id,
+  packLabel: alert.wholesale_product_pack_sizes?.label || null,
+  combinationKey: alert.combination_key,
+  stockQuantity: alert.stock_quantity,
+  threshold: alert.threshold,
+  createdAt: alert.created_at,
+  updatedAt: alert.updated_at,
+  readAt: alert.read_at,
+  resolvedAt: alert.resolved_at,
+});
+
+/**
+ * Replenishment dashboard of a wholesale brand: what is at or below its
+ * low-stock threshold right now (wholesale_low_stock_items), and the alerts
+ * the database raises when stock crosses a threshold (wholesale_stock_alerts).
+ */
+@Injectable()
+export class ProductStockAlertsService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async getLowStockItems(
+    brandId: string,
+    page: number = 1,
+    limit: number = 20,
+    source?: LowStockSource,
+  ) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const offset = (page - 1) * limit;
+    let query = serviceClient
+      .from('wholesale_low_stock_items')
+      .select('*', { count: 'exact' })
+      .eq('wholesale_brand_id', brandId);
+
+    if (source) {
+      query = query.eq('source', source);
+    }
+
+    const { data, error, count } = await query
+      .order('stock_quantity', { ascending: true })
+      .order('product_name', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to fetch low-stock items: ${error.message || 'Unknown error'}`,
+      );
+    }
+
+    return {
+      data: (data || []).map(mapLowStockItem),
+      pagination: {
+        page,
+        limit,
+        total: count || 0,
+        totalPages: Math.ceil((count || 0) / limit),
+      },
+    };
+  }
+
+  async getAlerts(
+    brandId: string,
+    page: number = 1,
+    limit: number = 20,
+    status: StockAlertStatus = 'open',
+  ) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const offset = (page - 1) * limit;
+    let query = serviceClient
+      .from('wholesale_stock_alerts')
+      .select(
+        '*, wholesale_products(name, slug), wholesale_product_pack_sizes(label)',
+        { count: 'exact' },
+      )
+      .eq('wholesale_brand_id', brandId);
+
+    if (status === 'open') {
+      query = query.is('resolved_at', null);
+    } else if (status === 'resolved') {
+      query = query.not('resolved_at', 'is', null);
+    }
+
+    const [alertsResult, unreadResult] = await Promise.all([
+      query
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1),
+      serviceClient
+        .from('wholesale_stock_alerts')
+        .select('id', { count: 'exact', head: true })
+        .eq('wholesale_brand_id', brandId)
+        .is('read_at', null)
+        .is('resolved_at', null),
+    ]);
+
+    if (alertsResult.error) {
+      throw new BadRequestException(
+        `Failed to fetch stock alerts: ${alertsResult.error.message || 'Unknown error'}`,
+      );
+    }
+
+    const total = alertsResult.count || 0;
+    return {
+      data: (alertsResult.data || []).map(mapAlert),
+      unreadCount: unreadResult.count || 0,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async markAlertRead(alertId: string, brandId: string) {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('wholesale_stock_alerts')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', alertId)
+      .eq('wholesale_brand_id', brandId)
+      .select(
+        '*, wholesale_products(name, slug), wholesale_product_pack_sizes(label)',
+      )
+      .maybeSingle();
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to update stock alert: ${error.message || 'Unknown error'}`,
+      );
+    }
+    if (!data) {
+      throw new NotFoundException('Stock alert not found.');
+    }
+
+    return mapAlert(data);
+  }
+
+  async markAllAlertsRead(brandId: string) {
+    const { data, error } = await this.supabaseService
+      .getServiceClient()
+      .from('wholesale_stock_alerts')
+      .update({ read_at: new Date().toISOString() })
+      .eq('wholesale_brand_id', brandId)
+      .is('read_at', null)
+      .select('id');
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to update stock alerts: ${error.message || 'Unknown error'}`,
+      );
+    }
+
+    return { updated: (data || []).length };
+  }
+}
@@ -0,0 +1,255 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { SupabaseService } from '../../supabase/supabase.service';
+import {
+  ImportColumn,
+  PRODUCT_IMPORT_COLUMNS,
+} from './products-import.template';
+import { writeCsv, writeXlsx } from './spreadsheet';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'json'];
+
+// Supabase caps selects at 1000 rows, `in` filters are kept short
+const PAGE_SIZE = 1000;
+const IN_CHUNK = 200;
+
+// DTO fields whose column isn't just the snake_case name
+const DB_COLUMNS: Record<string, string> = {
+  fixedQuantity: 'fixed_qty',
+};
+
+const toSnakeCase = (field: string) =>
+  DB_COLUMNS[field] || field.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`);
+
+export interface ExportFile {
+  buffer: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+/**
+ * A brand's whole wholesale catalog (products, pack sizes, variants and
+ * stock) as a file. CSV/XLSX use the import template's columns, one row per
+ * variant, so an export can be edited and imported again; JSON is nested
+ * like the create product payload.
+ */
+@Injectable()
+export class ProductsExportService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  async exportProducts(
+    brandId: string,
+    format: ExportFormat,
+    status?: string,
+  ): Promise<ExportFile> {
+    const products = await this.loadCatalog(brandId, status);
+    const date = new Date().toISOString().slice(0, 10);
+    const fileName = `wholesale-products-${date}.${format}`;
+
+    if (format === 'json') {
+      return {
+        buffer: Buffer.from(
+          JSON.stringify(
+            { exportedAt: new Date().toISOString(), products },
+            null,
+            2,
+          ),
+        ),
+        contentType: 'application/json; charset=utf-8',
+        fileName,
+      };
+    }
+
+    const header = PRODUCT_IMPORT_COLUMNS.map((column) => column.name);
+    const rows = this.toRows(products);
+
+    if (format === 'csv') {
+      return {
+        buffer: Buffer.from(
+          writeCsv([
+            header,
+            ...rows.map((row) =>
+              row.map((value) => (value === null ? '' : String(value))),
+            ),
+          ]),
+        ),
+        contentType: 'text/csv; charset=utf-8',
+        fileName,
+      };
+    }
+
+    return {
+      buffer: await writeXlsx([header, ...rows], 'Products'),
+      contentType:
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      fileName,
+    };
+  }
+
+  // Products with their images, pack sizes and variants, in DTO shape
+  private async loadCatalog(brandId: string, status?: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const products: any[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = serviceClient
+        .from('wholesale_products')
+        .select('*, categories(slug), subcategories(slug)')
+        .eq('wholesale_brand_id', brandId)
+        .is('deleted_at', null)
+        .order('created_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (status && status !== 'all') {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        throw new BadRequestException(
+          `Failed to fetch products: ${error.message || 'Unknown error'}`,
+        );
+      }
+      products.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    const productIds = products.map((p) => p.id);
+    const [images, packSizes] = await Promise.all([
+      this.selectIn('wholesale_product_images', 'product_id', productIds),
+      this.selectIn('wholesale_product_pack_sizes', 'product_id', productIds),
+    ]);
+    const packVariants = await this.selectIn(
+      'wholesale_pack_variations',
+      'pack_size_id',
+      packSizes.map((pack) => pack.id),
+    );
+
+    return products.map((product) => ({
+      id: product.id,
+      ...this.pick(product, 'product'),
+      categoryId: product.categories?.slug || product.category_id,
+      subcategoryId:
+        product.subcategories?.slug || product.subcategory_id || undefined,
+      images: images
+        .filter((image) => image.product_id === product.id)
+        .map((image) => ({
+          imageUrl: image.image_url,
+          altText: image.alt_text || undefined,
+          displayOrder: image.display_order,
+          isPrimary: image.is_primary,
+        })),
+      packSizes: packSizes
+        .filter((pack) => pack.product_id === product.id)
+        .map((pack) => ({
+          ...this.pick(pack, 'pack'),
+          variants: packVariants
+            .filter((variant) => variant.pack_size_id === pack.id)
+            // Legacy pack variations have no color/size and no import columns;
+            // like stock matrices and fixed quantities, an import leaves them
+            // as they are
+            .filter((variant) => variant.color && variant.size)
+            .map((variant) => this.pick(variant, 'variant')),
+        })),
+    }));
+  }
+
+  private async selectIn(table: string, column: string, ids: string[]) {
+    const serviceClient = this.supabaseService.getServiceClient();
+    const rows: any[] = [];
+
+    for (let i = 0; i < ids.length; i += IN_CHUNK) {
+      const { data, error } = await serviceClient
+        .from(table)
+        .select('*')
+        .in(column, ids.slice(i, i + IN_CHUNK))
+        .order('display_order', { ascending: true });
+
+      if (error) {
+        throw new BadRequestException(
+          `Failed to fetch products: ${error.message || 'Unknown error'}`,
+        );
+      }
+      rows.push(...(data || []));
+    }
+
+    return rows;
+  }
+
+  // DTO fields of one scope that have an import column, read from a row
+  private pick(row: any, scope: ImportColumn['scope']) {
+    const values: Record<string, any> = {};
+    for (const column of PRODUCT_IMPORT_COLUMNS) {
+      if (column.scope !== scope || column.type === 'list') {
+        continue;
+      }
+      const value = row[toSnakeCase(column.field)];
+      if (value !== null && value !== undefined && value !== '') {
+        values[column.field] = value;
+      }
+    }
+    return values;
+  }
+
+  // One row per variant, per variant-less pack, or per pack-less product
+  private toRows(products: any[]) {
+    const rows: (string | number | null)[][] = [];
+
+    const toRow = (product: any, pack?: any, variant?: any) =>
+      PRODUCT_IMPORT_COLUMNS.map((column) => {
+        const source =
+          column.scope === 'product'
+            ? product
+            : column.scope === 'pack'
+              ? pack
+              : variant;
+        return this.cellValue(column, source?.[column.field]);
+      });
+
+    for (const product of products) {
+      const productRow = {
+        ...product,
+        images: product.images.map((image: any) => image.imageUrl),
+      };
+
+      if (product.packSizes.length === 0) {
+        rows.push(toRow(productRow));
+        continue;
+      }
+
+      for (const pack of product.packSizes) {
+        if (pack.variants.length === 0) {
+          rows.push(toRow(productRow, pack));
+          continue;
+        }
+        for (const variant of pack.variants) {
+          rows.push(toRow(productRow, pack, variant));
+        }
+      }
+    }
+
+    return rows;
+  }
+
+  private cellValue(column: ImportColumn, value: any): string | number | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    switch (column.type) {
+      case 'number':
+      case 'integer':
+        return Number(value);
+      case 'boolean':
+        return value ? 'true' : 'false';
+      case 'list':
+        return (value as string[]).join('|');
+      case 'json':
+        return Object.keys(value).length > 0 ? JSON.stringify(value) : null;
+      default:
+        return String(value);
+    }
+  }
+}
@@ -0,0 +1,195 @@
+import { SupabaseService } from '../../supabase/supabase.service';
+import {
+  ImportRowError,
+  ProductsImportService,
+} from './products-import.service';
+import { ProductsService } from './products.service';
+import { SpreadsheetRow } from './spreadsheet';
+
+const CATEGORY_ID = '5b0c7f1e-3d2a-4c55-9a0e-2f6c1d8e4b71';
+
+// Answers every query on a table with its rows, whatever the filters
+const supabaseWith = (tables: Record<string, Record<string, unknown>[]>) => {
+  const from = (table: string) => {
+    const query = {
+      select: () => query,
+      eq: () => query,
+      is: () => query,
+      in: () => query,
+      order: () => query,
+      range: () => query,
+      then: (resolve: (result: { data: unknown[]; error: null }) => unknown) =>
+        resolve({ data: tables[table] || [], error: null }),
+    };
+    return query;
+  };
+  return {
+    getServiceClient: () => ({ from }),
+  } as unknown as SupabaseService;
+};
+
+const csvFile = (lines: string[]) =>
+  ({
+    originalname: 'products.csv',
+    mimetype: 'text/csv',
+    buffer: Buffer.from(lines.join('\n'), 'utf8'),
+  }) as Express.Multer.File;
+
+const sheetRows: SpreadsheetRow[] = [
+  {
+    row: 2,
+    values: {
+      sku: 'TSH-1',
+      name: 'Shirt',
+      pack_label: '6-pack',
+      pack_quantity: '6',
+      pack_price: '59,90',
+      variant_color: 'Red',
+      variant_size: 'S',
+      variant_stock: '5',
+    },
+  },
+  {
+    row: 3,
+    values: {
+      sku: 'TSH-1',
+      name: 'Read from the first row only',
+      pack_label: '6-pack',
+      pack_quantity: '12',
+      variant_color: 'Red',
+      variant_size: 'M',
+      variant_stock: '3',
+    },
+  },
+  {
+    row: 4,
+    values: {
+      sku: 'TSH-1',
+      pack_label: '12-pack',
+      pack_quantity: '12',
+      pack_price: '110',
+    },
+  },
+  { row: 5, values: { barcode: '8690000000011', name: 'Cap' } },
+  { row: 6, values: { name: 'No sku or barcode' } },
+];
+
+describe('ProductsImportService', () => {
+  let service: ProductsImportService;
+
+  beforeEach(() => {
+    service = new ProductsImportService(
+      supabaseWith({
+        categories: [{ id: CATEGORY_ID, slug: 'clothing', is_active: true }],
+        wholesale_products: [
+          {
+            id: 'product-2',
+            sku: 'TSH-2',
+            barcode: null,
+            wholesale_brand_id: 'brand-1',
+            slug: 'shirt',
+          },
+        ],
+      }),
+      {} as ProductsService,
+    );
+  });
+
+  describe('groupRows', () => {
+    it('groups rows into products by sku or barcode, and into packs by label', () => {
+      const errors: ImportRowError[] = [];
+      const groups = service['groupRows'](sheetRows, errors);
+
+      expect(groups).toEqual([
+        {
+          key: 'TSH-1',
+          row: 2,
+          rows: [2, 3, 4],
+          values: { sku: 'TSH-1', name: 'Shirt' },
+          packs: [
+            {
+              row: 2,
+              values: { label: '6-pack', quantity: 6, packPrice: 59.9 },
+              variants: [
+                { row: 2, values: { color: 'Red', size: 'S', stock: 5 } },
+                { row: 3, values: { color: 'Red', size: 'M', stock: 3 } },
+              ],
+            },
+            {
+              row: 4,
+              values: { label: '12-pack', quantity: 12, packPrice: 110 },
+              variants: [],
+            },
+          ],
+        },
+        {
+          key: '8690000000011',
+          row: 5,
+          rows: [5],
+          values: { barcode: '8690000000011', name: 'Cap' },
+          packs: [],
+        },
+      ]);
+      expect(errors).toEqual([
+        { row: 6, column: 'sku', message: 'Each row needs a sku or a barcode' },
+      ]);
+    });
+  });
+
+  describe('locate', () => {
+    it.each([
+      [['name'], 2, 'name'],
+      [['images', '1', 'imageUrl'], 2, 'image_urls'],
+      [['packSizes', '1', 'packPrice'], 4, 'pack_price'],
+      [['packSizes', '0', 'variants', '1', 'stock'], 3, 'variant_stock'],
+      [['packSizes', '0', 'stockMatrix'], 2, undefined],
+    ])('maps %j to row %i, column %s', (path, row, column) => {
+      const [group] = service['groupRows'](sheetRows, []);
+
+      expect(service['locate'](group, path)).toEqual({ row, column });
+    });
+  });
+
+  describe('importProducts', () => {
+    it('reports DTO errors at the row and column they came from', async () => {
+      const file = csvFile([
+        'sku;name;category;wholesale_price;pack_label;pack_quantity;pack_price;variant_color;variant_size;variant_stock',
+        'TSH-1;Shirt;clothing;12,5;6-pack;6;60;Red;S;5',
+        'TSH-1;;;;6-pack;;;Red;M;-1',
+        'TSH-2;Shirt 2;;;;;;;;',
+        'TSH-3;Shirt 3;clothing;10;;;;;;',
+      ]);
+
+      const result = await service.importProducts(file, 'brand-1', true);
+
+      expect(result.summary).toEqual({
+        rows: 4,
+        products: 3,
+        toCreate: 2,
+        toUpdate: 1,
+        invalid: 1,
+        created: 0,
+        updated: 0,
+        failed: 0,
+      });
+      expect(
+        result.results.map(({ rows, action, status }) => [
+          rows,
+          action,
+          status,
+        ]),
+      ).toEqual([
+        [[2, 3], 'create', 'invalid'],
+        [[4], 'update', 'valid'],
+        [[5], 'create', 'valid'],
+      ]);
+      expect(result.errors).toEqual([
+        {
+          row: 3,
+          column: 'variant_stock',
+          message: 'stock must not be less than 0',
+        },
+      ]);
+    });
+  });
+});
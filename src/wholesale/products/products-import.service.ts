@@ -0,0 +1,572 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { SupabaseService } from '../../supabase/supabase.service';
+import { ProductsService } from './products.service';
+import { CreateProductDto } from './dto/create-product.dto';
+import { UpdateProductDto } from './dto/update-product.dto';
+import { readSpreadsheet, SpreadsheetRow } from './spreadsheet';
+import {
+  ImportColumn,
+  ImportColumnScope,
+  PRODUCT_IMPORT_COLUMNS,
+} from './products-import.template';
+
+export const MAX_IMPORT_ROWS = 5000;
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface ImportRowError {
+  row: number;
+  column?: string;
+  message: string;
+}
+
+type ImportAction = 'create' | 'update';
+
+export interface ImportProductResult {
+  rows: number[];
+  sku: string | null;
+  barcode: string | null;
+  action: ImportAction;
+  productId?: string;
+  status: 'valid' | 'invalid' | 'imported' | 'failed';
+}
+
+interface ImportVariant {
+  row: number;
+  values: Record<string, any>;
+}
+
+interface ImportPack {
+  row: number;
+  values: Record<string, any>;
+  variants: ImportVariant[];
+}
+
+// The rows of one product in the file
+interface ImportGroup {
+  key: string;
+  row: number;
+  rows: number[];
+  values: Record<string, any>;
+  packs: ImportPack[];
+}
+
+const columnsOf = (scope: ImportColumnScope) =>
+  PRODUCT_IMPORT_COLUMNS.filter((column) => column.scope === scope);
+
+const TRUE_VALUES = ['true', 'yes', '1', 'evet', 'y'];
+const FALSE_VALUES = ['false', 'no', '0', 'hayır', 'hayir', 'n'];
+
+// Cell text to the type the DTO expects. Unparseable values are passed on as
+// they are, so the DTO rules report them.
+const parseCell = (column: ImportColumn, raw: string): any => {
+  switch (column.type) {
+    case 'number':
+    case 'integer': {
+      const normalized = raw.replace(/\s/g, '').replace(',', '.');
+      const value = Number(normalized);
+      return normalized === '' || isNaN(value) ? raw : value;
+    }
+    case 'boolean': {
+      const value = raw.toLowerCase();
+      if (TRUE_VALUES.includes(value)) return true;
+      if (FALSE_VALUES.includes(value)) return false;
+      return raw;
+    }
+    case 'list':
+      return raw
+        .split('|')
+        .map((item) => item.trim())
+        .filter(Boolean);
+    case 'json':
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return raw;
+      }
+    default:
+      return raw;
+  }
+};
+
+const readValues = (row: SpreadsheetRow, scope: ImportColumnScope) => {
+  const values: Record<string, any> = {};
+  for (const column of columnsOf(scope)) {
+    const raw = row.values[column.name];
+    if (raw) {
+      values[column.field] = parseCell(column, raw);
+    }
+  }
+  return values;
+};
+
+const slugify = (text: string) =>
+  text
+    .toLocaleLowerCase('tr')
+    .replace(/ı/g, 'i')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/**
+ * Bulk create/update of a brand's wholesale products from a CSV/XLSX file
+ * laid out as in products-import.template.ts. Rows are grouped into
+ * products, validated with the same DTOs as the single product endpoints and
+ * upserted by SKU, then barcode. With dryRun nothing is written and the
+ * result shows what would happen.
+ */
+@Injectable()
+export class ProductsImportService {
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly productsService: ProductsService,
+  ) {}
+
+  async importProducts(
+    file: Express.Multer.File,
+    brandId: string,
+    dryRun: boolean,
+    userId?: string,
+  ) {
+    const rows = await readSpreadsheet(file);
+
+    if (rows.length === 0) {
+      throw new BadRequestException('The file has no product rows');
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(
+        `Files can have at most ${MAX_IMPORT_ROWS} rows`,
+      );
+    }
+
+    const errors: ImportRowError[] = [];
+    const groups = this.groupRows(rows, errors);
+
+    const existing = await this.findExistingProducts(groups, brandId);
+    const categories = await this.loadCategories();
+    const takenSlugs = new Set(existing.brandSlugs);
+
+    const results: ImportProductResult[] = [];
+
+    for (const group of groups) {
+      const groupErrors: ImportRowError[] = [];
+      const match = this.matchExisting(group, existing, groupErrors);
+      const action: ImportAction = match ? 'update' : 'create';
+
+      const dto = this.buildDto(group, action, categories, groupErrors);
+      if (action === 'create' && !dto.slug && dto.name) {
+        dto.slug = this.uniqueSlug(dto.name, group.key, takenSlugs);
+      }
+
+      if (groupErrors.length === 0) {
+        groupErrors.push(...(await this.validateDto(group, dto, action)));
+      }
+
+      const result: ImportProductResult = {
+        rows: group.rows,
+        sku: dto.sku || null,
+        barcode: dto.barcode || null,
+        action,
+        productId: match?.id,
+        status: groupErrors.length > 0 ? 'invalid' : 'valid',
+      };
+      results.push(result);
+      errors.push(...groupErrors);
+
+      if (dryRun || groupErrors.length > 0) {
+        continue;
+      }
+
+      // Products are written one by one; a failure doesn't stop the rest
+      try {
+        const product = match
+          ? await this.productsService.updateProduct(
+              match.id,
+              dto as UpdateProductDto,
+              brandId,
+              userId,
+            )
+          : await this.productsService.createProduct(
+              dto as CreateProductDto,
+              brandId,
+              userId,
+            );
+        result.productId = product?.id;
+        result.status = 'imported';
+      } catch (error) {
+        result.status = 'failed';
+        errors.push({
+          row: group.row,
+          message: error.message || 'Failed to import product',
+        });
+      }
+    }
+
+    const count = (status: string, action?: string) =>
+      results.filter(
+        (result) =>
+          result.status === status && (!action || result.action === action),
+      ).length;
+
+    return {
+      dryRun,
+      summary: {
+        rows: rows.length,
+        products: groups.length,
+        toCreate: results.filter((result) => result.action === 'create').length,
+        toUpdate: results.filter((result) => result.action === 'update').length,
+        invalid: count('invalid'),
+        created: count('imported', 'create'),
+        updated: count('imported', 'update'),
+        failed: count('failed'),
+      },
+      results,
+      errors: errors.sort((a, b) => a.row - b.row),
+    };
+  }
+
+  private groupRows(rows: SpreadsheetRow[], errors: ImportRowError[]) {
+    const groups = new Map<string, ImportGroup>();
+
+    for (const row of rows) {
+      const sku = row.values.sku;
+      const barcode = row.values.barcode;
+      if (!sku && !barcode) {
+        errors.push({
+          row: row.row,
+          column: 'sku',
+          message: 'Each row needs a sku or a barcode',
+        });
+        continue;
+      }
+
+      const key = sku ? `sku:${sku}` : `barcode:${barcode}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          key: sku || barcode,
+          row: row.row,
+          rows: [],
+          values: readValues(row, 'product'),
+          packs: [],
+        };
+        groups.set(key, group);
+      }
+      group.rows.push(row.row);
+
+      const label = row.values.pack_label;
+      if (!label) {
+        continue;
+      }
+
+      let pack = group.packs.find((p) => p.values.label === label);
+      if (!pack) {
+        pack = { row: row.row, values: readValues(row, 'pack'), variants: [] };
+        group.packs.push(pack);
+      }
+
+      const variant = readValues(row, 'variant');
+      if (Object.keys(variant).length > 0) {
+        pack.variants.push({ row: row.row, values: variant });
+      }
+    }
+
+    return [...groups.values()];
+  }
+
+  private async findExistingProducts(groups: ImportGroup[], brandId: string) {
+    const serviceClient = this.supabaseService.getServiceClient();
+    const skus = groups.map((g) => g.values.sku).filter(Boolean);
+    const barcodes = groups.map((g) => g.values.barcode).filter(Boolean);
+
+    const bySku = new Map<string, any>();
+    const byBarcode = new Map<string, any>();
+
+    // SKUs and barcodes are unique across brands, so look everywhere and
+    // refuse the ones another brand owns. Deleted products are never updated
+    for (let i = 0; i < skus.length; i += 200) {
+      const { data, error } = await serviceClient
+        .from('wholesale_products')
+        .select('id, sku, barcode, wholesale_brand_id')
+        .is('deleted_at', null)
+        .in('sku', skus.slice(i, i + 200));
+      if (error) {
+        throw new BadRequestException(
+          `Failed to look up existing products: ${error.message}`,
+        );
+      }
+      (data || []).forEach((product) => bySku.set(product.sku, product));
+    }
+
+    for (let i = 0; i < barcodes.length; i += 200) {
+      const { data, error } = await serviceClient
+        .from('wholesale_products')
+        .select('id, sku, barcode, wholesale_brand_id')
+        .is('deleted_at', null)
+        .in('barcode', barcodes.slice(i, i + 200));
+      if (error) {
+        throw new BadRequestException(
+          `Failed to look up existing products: ${error.message}`,
+        );
+      }
+      (data || []).forEach((product) =>
+        byBarcode.set(product.barcode, product),
+      );
+    }
+
+    // Deleted products keep their slugs, so new slugs must avoid them too
+    const brandSlugs: string[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await serviceClient
+        .from('wholesale_products')
+        .select('slug')
+        .eq('wholesale_brand_id', brandId)
+        .order('id', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+      if (error) {
+        throw new BadRequestException(
+          `Failed to look up existing products: ${error.message}`,
+        );
+      }
+      brandSlugs.push(...(data || []).map((product) => product.slug));
+      if (!data || data.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return { brandId, bySku, byBarcode, brandSlugs };
+  }
+
+  private matchExisting(
+    group: ImportGroup,
+    existing: Awaited<
+      ReturnType<ProductsImportService['findExistingProducts']>
+    >,
+    errors: ImportRowError[],
+  ): { id: string } | null {
+    const { sku, barcode } = group.values;
+    const bySku = sku ? existing.bySku.get(sku) : undefined;
+    const byBarcode = barcode ? existing.byBarcode.get(barcode) : undefined;
+
+    if (bySku && bySku.wholesale_brand_id !== existing.brandId) {
+      errors.push({
+        row: group.row,
+        column: 'sku',
+        message: 'This SKU is used by another brand',
+      });
+      return null;
+    }
+    if (byBarcode && byBarcode.wholesale_brand_id !== existing.brandId) {
+      errors.push({
+        row: group.row,
+        column: 'barcode',
+        message: 'This barcode is used by another brand',
+      });
+      return null;
+    }
+    if (bySku && byBarcode && bySku.id !== byBarcode.id) {
+      errors.push({
+        row: group.row,
+        column: 'barcode',
+        message: 'This barcode belongs to a different product than the SKU',
+      });
+      return null;
+    }
+
+    // A barcode-only row must not update a product that has another SKU
+    const match = bySku || byBarcode;
+    if (match && sku && match.sku && match.sku !== sku) {
+      errors.push({
+        row: group.row,
+        column: 'barcode',
+        message: 'This barcode belongs to a product with a different SKU',
+      });
+      return null;
+    }
+
+    return match ? { id: match.id } : null;
+  }
+
+  private async loadCategories() {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const [{ data: categories }, { data: subcategories }] = await Promise.all([
+      serviceClient.from('categories').select('id, slug, is_active'),
+      serviceClient
+        .from('subcategories')
+        .select('id, slug, category_id, is_active'),
+    ]);
+
+    return {
+      categories: categories || [],
+      subcategories: subcategories || [],
+    };
+  }
+
+  private buildDto(
+    group: ImportGroup,
+    action: ImportAction,
+    { categories, subcategories }: { categories: any[]; subcategories: any[] },
+    errors: ImportRowError[],
+  ): Record<string, any> {
+    const dto: Record<string, any> = { ...group.values };
+
+    // Category and subcategory may be given as id or slug
+    if (dto.categoryId) {
+      const category = categories.find((c) =>
+        UUID_PATTERN.test(dto.categoryId)
+          ? c.id === dto.categoryId
+          : c.slug === dto.categoryId.toLowerCase(),
+      );
+      if (!category || !category.is_active) {
+        errors.push({
+          row: group.row,
+          column: 'category',
+          message: category
+            ? 'Category is not active'
+            : `Unknown category: ${dto.categoryId}`,
+        });
+      } else {
+        dto.categoryId = category.id;
+      }
+    }
+    if (dto.subcategoryId) {
+      const subcategory = subcategories.find(
+        (s) =>
+          (UUID_PATTERN.test(dto.subcategoryId)
+            ? s.id === dto.subcategoryId
+            : s.slug === dto.subcategoryId.toLowerCase()) &&
+          (!dto.categoryId || s.category_id === dto.categoryId),
+      );
+      if (!subcategory || !subcategory.is_active) {
+        errors.push({
+          row: group.row,
+          column: 'subcategory',
+          message: subcategory
+            ? 'Subcategory is not active'
+            : `Unknown subcategory: ${dto.subcategoryId}`,
+        });
+      } else {
+        dto.subcategoryId = subcategory.id;
+      }
+    }
+
+    if (Array.isArray(dto.images)) {
+      dto.images = dto.images.map((imageUrl: string, index: number) => ({
+        imageUrl,
+        displayOrder: index,
+        isPrimary: index === 0,
+      }));
+    }
+
+    // Packs replace the product's packs, but variants only replace a pack's
+    // variants when the file lists some; the stock matrix, fixed quantities
+    // and legacy variations have no columns and are never sent
+    if (group.packs.length > 0) {
+      dto.packSizes = group.packs.map((pack, index) => ({
+        isPopular: false,
+        isBestValue: false,
+        isAvailable: true,
+        displayOrder: index,
+        ...pack.values,
+        variants: pack.variants.length
+          ? pack.variants.map((variant, vIndex) => ({
+              displayOrder: vIndex,
+              ...variant.values,
+            }))
+          : undefined,
+      }));
+    }
+
+    if (action === 'create') {
+      dto.minOrderQuantity ??= 1;
+      dto.trackInventory ??= true;
+      dto.stockQuantity ??= group.packs
+        .flatMap((pack) => pack.variants)
+        .reduce(
+          (sum, variant) =>
+            sum +
+            (typeof variant.values.stock === 'number'
+              ? variant.values.stock
+              : 0),
+          0,
+        );
+    }
+
+    return dto;
+  }
+
+  private uniqueSlug(name: string, key: string, taken: Set<string>) {
+    let slug = slugify(name) || slugify(key);
+    if (taken.has(slug)) {
+      slug = `${slug}-${slugify(key)}`;
+    }
+    for (let n = 2; taken.has(slug); n++) {
+      slug = `${slugify(name)}-${slugify(key)}-${n}`;
+    }
+    taken.add(slug);
+    return slug;
+  }
+
+  // The DTO rules of POST/PUT wholesale-products, reported per row and column
+  private async validateDto(
+    group: ImportGroup,
+    dto: Record<string, any>,
+    action: ImportAction,
+  ): Promise<ImportRowError[]> {
+    const instance = plainToInstance(
+      action === 'create' ? CreateProductDto : UpdateProductDto,
+      dto,
+    );
+    const validationErrors = await validate(instance, {
+      whitelist: true,
+    });
+
+    const errors: ImportRowError[] = [];
+    const visit = (error: ValidationError, path: string[]) => {
+      const fullPath = [...path, error.property];
+      if (error.constraints) {
+        const { row, column } = this.locate(group, fullPath);
+        for (const message of Object.values(error.constraints)) {
+          errors.push({ row, column, message });
+        }
+      }
+      error.children?.forEach((child) => visit(child, fullPath));
+    };
+    validationErrors.forEach((error) => visit(error, []));
+
+    return errors;
+  }
+
+  // Map a DTO property path (e.g. packSizes.0.variants.2.stock) back to the
+  // spreadsheet row and column it came from
+  private locate(group: ImportGroup, path: string[]) {
+    const field = path[path.length - 1];
+    let scope: ImportColumnScope = 'product';
+    let row = group.row;
+
+    if (path[0] === 'packSizes' && path.length > 2) {
+      const pack = group.packs[Number(path[1])];
+      scope = 'pack';
+      row = pack?.row ?? row;
+
+      if (path[2] === 'variants' && path.length > 4) {
+        scope = 'variant';
+        row = pack?.variants[Number(path[3])]?.row ?? row;
+      }
+    }
+
+    const column = PRODUCT_IMPORT_COLUMNS.find(
+      (c) =>
+        c.scope === scope &&
+        c.field === (path[0] === 'images' ? 'images' : field),
+    );
+    return { row, column: column?.name };
+  }
+}
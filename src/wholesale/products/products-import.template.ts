@@ -0,0 +1,393 @@
+import { writeCsv } from './spreadsheet';
+
+/**
+ * Column template for bulk product imports. One row per variant (or per
+ * pack, or per product when a product has neither): rows sharing a `sku`
+ * (or `barcode` when there is no sku) make up one product, and rows of that
+ * product sharing a `pack_label` make up one pack size. Product columns are
+ * read from the first row of each product, pack columns from the first row
+ * of each pack.
+ */
+export type ImportColumnScope = 'product' | 'pack' | 'variant';
+export type ImportColumnType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'list'
+  | 'json';
+
+export interface ImportColumn {
+  name: string;
+  scope: ImportColumnScope;
+  // Property of CreateProductDto / ProductPackSizeDto / PackVariantDto
+  field: string;
+  type: ImportColumnType;
+  description: string;
+  example?: string;
+}
+
+export const PRODUCT_IMPORT_COLUMNS: ImportColumn[] = [
+  {
+    name: 'sku',
+    scope: 'product',
+    field: 'sku',
+    type: 'string',
+    description: 'Product SKU; existing products with this SKU are updated',
+    example: 'TSH-001',
+  },
+  {
+    name: 'barcode',
+    scope: 'product',
+    field: 'barcode',
+    type: 'string',
+    description: 'Product barcode; used to match products without a SKU',
+    example: '8690000000011',
+  },
+  {
+    name: 'name',
+    scope: 'product',
+    field: 'name',
+    type: 'string',
+    description: 'Required for new products',
+    example: 'Basic Cotton T-Shirt',
+  },
+  {
+    name: 'slug',
+    scope: 'product',
+    field: 'slug',
+    type: 'string',
+    description: 'Optional; generated from the name for new products',
+  },
+  {
+    name: 'category',
+    scope: 'product',
+    field: 'categoryId',
+    type: 'string',
+    description: 'Category id or slug; required for new products',
+    example: 'clothing',
+  },
+  {
+    name: 'subcategory',
+    scope: 'product',
+    field: 'subcategoryId',
+    type: 'string',
+    description: 'Subcategory id or slug',
+  },
+  {
+    name: 'description',
+    scope: 'product',
+    field: 'description',
+    type: 'string',
+    description: 'Long description',
+  },
+  {
+    name: 'short_description',
+    scope: 'product',
+    field: 'shortDescription',
+    type: 'string',
+    description: 'Short description',
+  },
+  {
+    name: 'wholesale_price',
+    scope: 'product',
+    field: 'wholesalePrice',
+    type: 'number',
+    description: 'Unit wholesale price; required for new products',
+    example: '120',
+  },
+  {
+    name: 'sale_percentage',
+    scope: 'product',
+    field: 'salePercentage',
+    type: 'number',
+    description: 'Discount percentage, 0-100',
+  },
+  {
+    name: 'retail_price',
+    scope: 'product',
+    field: 'retailPrice',
+    type: 'number',
+    description: 'Suggested retail price',
+  },
+  {
+    name: 'vat_rate',
+    scope: 'product',
+    field: 'vatRate',
+    type: 'number',
+    description: 'VAT percentage, 0-100',
+    example: '10',
+  },
+  {
+    name: 'model_code',
+    scope: 'product',
+    field: 'modelCode',
+    type: 'string',
+    description: 'Model code',
+  },
+  {
+    name: 'min_order_quantity',
+    scope: 'product',
+    field: 'minOrderQuantity',
+    type: 'integer',
+    description: 'Minimum order quantity; defaults to 1 for new products',
+    example: '1',
+  },
+  {
+    name: 'min_order_amount',
+    scope: 'product',
+    field: 'minOrderAmount',
+    type: 'number',
+    description: 'Minimum order amount',
+  },
+  {
+    name: 'stock_quantity',
+    scope: 'product',
+    field: 'stockQuantity',
+    type: 'integer',
+    description:
+      'Product stock; defaults to the sum of variant stock for new products',
+  },
+  {
+    name: 'track_inventory',
+    scope: 'product',
+    field: 'trackInventory',
+    type: 'boolean',
+    description: 'true/false; defaults to true for new products',
+  },
+  {
+    name: 'low_stock_threshold',
+    scope: 'product',
+    field: 'lowStockThreshold',
+    type: 'integer',
+    description: 'Low stock warning level',
+  },
+  {
+    name: 'status',
+    scope: 'product',
+    field: 'status',
+    type: 'string',
+    description:
+      'draft, active, inactive or archived; defaults to draft. out_of_stock (as exported) is imported as active',
+    example: 'draft',
+  },
+  {
+    name: 'condition',
+    scope: 'product',
+    field: 'condition',
+    type: 'string',
+    description: 'new, used or refurbished',
+  },
+  {
+    name: 'is_featured',
+    scope: 'product',
+    field: 'isFeatured',
+    type: 'boolean',
+    description: 'true/false',
+  },
+  {
+    name: 'is_shipping_free',
+    scope: 'product',
+    field: 'isShippingFree',
+    type: 'boolean',
+    description: 'true/false',
+  },
+  {
+    name: 'shipping_cost',
+    scope: 'product',
+    field: 'shippingCost',
+    type: 'number',
+    description: 'Shipping cost',
+  },
+  {
+    name: 'estimated_delivery_days',
+    scope: 'product',
+    field: 'estimatedDeliveryDays',
+    type: 'integer',
+    description: 'Estimated delivery in days',
+  },
+  {
+    name: 'shipping_info',
+    scope: 'product',
+    field: 'shippingInfo',
+    type: 'string',
+    description: 'Shipping notes',
+  },
+  {
+    name: 'meta_title',
+    scope: 'product',
+    field: 'metaTitle',
+    type: 'string',
+    description: 'SEO title',
+  },
+  {
+    name: 'meta_description',
+    scope: 'product',
+    field: 'metaDescription',
+    type: 'string',
+    description: 'SEO description',
+  },
+  {
+    name: 'meta_keywords',
+    scope: 'product',
+    field: 'metaKeywords',
+    type: 'string',
+    description: 'SEO keywords',
+  },
+  {
+    name: 'image_urls',
+    scope: 'product',
+    field: 'images',
+    type: 'list',
+    description:
+      'Image URLs separated by |; the first one is the primary image',
+  },
+  {
+    name: 'pack_label',
+    scope: 'pack',
+    field: 'label',
+    type: 'string',
+    description: 'Pack size label; when given, replaces the pack sizes',
+    example: 'Series of 6',
+  },
+  {
+    name: 'pack_quantity',
+    scope: 'pack',
+    field: 'quantity',
+    type: 'integer',
+    description: 'Pieces per pack',
+    example: '6',
+  },
+  {
+    name: 'pack_price',
+    scope: 'pack',
+    field: 'packPrice',
+    type: 'number',
+    description: 'Price of the whole pack',
+    example: '720',
+  },
+  {
+    name: 'pack_unit_price',
+    scope: 'pack',
+    field: 'unitPrice',
+    type: 'number',
+    description: 'Price per piece; defaults to pack price / quantity',
+  },
+  {
+    name: 'pack_is_popular',
+    scope: 'pack',
+    field: 'isPopular',
+    type: 'boolean',
+    description: 'true/false',
+  },
+  {
+    name: 'pack_is_best_value',
+    scope: 'pack',
+    field: 'isBestValue',
+    type: 'boolean',
+    description: 'true/false',
+  },
+  {
+    name: 'pack_is_available',
+    scope: 'pack',
+    field: 'isAvailable',
+    type: 'boolean',
+    description: 'true/false; defaults to true',
+  },
+  {
+    name: 'pack_has_fixed_quantities',
+    scope: 'pack',
+    field: 'hasFixedQuantities',
+    type: 'boolean',
+    description: 'true when each variant has a fixed quantity in the pack',
+  },
+  {
+    name: 'variant_color',
+    scope: 'variant',
+    field: 'color',
+    type: 'string',
+    description: 'Variant color',
+    example: 'Black',
+  },
+  {
+    name: 'variant_color_value',
+    scope: 'variant',
+    field: 'colorValue',
+    type: 'string',
+    description: 'Hex color code',
+    example: '#000000',
+  },
+  {
+    name: 'variant_size',
+    scope: 'variant',
+    field: 'size',
+    type: 'string',
+    description: 'Variant size',
+    example: 'M',
+  },
+  {
+    name: 'variant_barcode',
+    scope: 'variant',
+    field: 'barcode',
+    type: 'string',
+    description: 'Variant barcode',
+  },
+  {
+    name: 'variant_stock',
+    scope: 'variant',
+    field: 'stock',
+    type: 'integer',
+    description: 'Variant stock',
+    example: '50',
+  },
+  {
+    name: 'variant_fixed_quantity',
+    scope: 'variant',
+    field: 'fixedQuantity',
+    type: 'integer',
+    description: 'Pieces of this variant per pack',
+    example: '2',
+  },
+  {
+    name: 'variant_stock_code',
+    scope: 'variant',
+    field: 'stockCode',
+    type: 'string',
+    description: 'Variant stock code',
+  },
+  {
+    name: 'variant_vat_rate',
+    scope: 'variant',
+    field: 'vatRate',
+    type: 'number',
+    description: 'Variant VAT percentage, 0-100',
+  },
+  {
+    name: 'variant_otv_rate',
+    scope: 'variant',
+    field: 'otvRate',
+    type: 'number',
+    description: 'Variant ÖTV (special consumption tax) percentage, 0-100',
+  },
+  {
+    name: 'variant_lot_info',
+    scope: 'variant',
+    field: 'lotInfo',
+    type: 'string',
+    description: 'Lot/batch information',
+  },
+  {
+    name: 'variant_custom_values',
+    scope: 'variant',
+    field: 'customValues',
+    type: 'json',
+    description: 'Other variant attributes as JSON, e.g. {"Material":"Cotton"}',
+  },
+];
+
+// Header plus one example row, served as the downloadable template
+export const buildImportTemplateCsv = () =>
+  writeCsv([
+    PRODUCT_IMPORT_COLUMNS.map((column) => column.name),
+    PRODUCT_IMPORT_COLUMNS.map((column) => column.example || ''),
+  ]);
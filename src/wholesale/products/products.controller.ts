@@ -3,10 +3,10 @@ import {
   Post,
   Get,
   Put,
+  Patch,
   Delete,
   Body,
   Param,
-  Headers,
   Query,
   HttpCode,
   HttpStatus,
@@ -18,75 +18,251 @@ import {
   UploadedFile,
   UsePipes,
   ValidationPipe,
+  Header,
+  StreamableFile,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { ProductsService } from './products.service';
 import { ProductsUploadService } from './products-upload.service';
+import { ProductsImportService } from './products-import.service';
+import { ProductRevisionsService } from './product-revisions.service';
+import {
+  LowStockSource,
+  ProductStockAlertsService,
+  StockAlertStatus,
+} from './product-stock-alerts.service';
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  ProductsExportService,
+} from './products-export.service';
+import {
+  PRODUCT_IMPORT_COLUMNS,
+  buildImportTemplateCsv,
+} from './products-import.template';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
 import { SupabaseService } from '../../supabase/supabase.service';
+import { Public } from '../../auth/decorators/public.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import { CurrentBrand } from '../../auth/decorators/current-brand.decorator';
+import { BrandMember } from '../../auth/decorators/brand-member.decorator';
+import type { AuthUser } from '../../auth/interfaces/auth-user.interface';
+import { BrandMembersService } from '../../brand-members/brand-members.service';
+import { RateLimit } from '../../rate-limit/rate-limit.decorator';
 
 @Controller('wholesale-products')
 export class ProductsController {
   constructor(
     private readonly productsService: ProductsService,
     private readonly productsUploadService: ProductsUploadService,
+    private readonly productsImportService: ProductsImportService,
+    private readonly productsExportService: ProductsExportService,
+    private readonly productRevisionsService: ProductRevisionsService,
+    private readonly productStockAlertsService: ProductStockAlertsService,
     private readonly supabaseService: SupabaseService,
+    private readonly brandMembersService: BrandMembersService,
   ) {}
 
-  private async getUserFromToken(authHeader?: string) {
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) {
-      throw new UnauthorizedException('Authentication required');
-    }
-
-    const supabase = this.supabaseService.getClient();
-    const { data: userData, error } = await supabase.auth.getUser(token);
-
-    if (error || !userData.user) {
-      throw new UnauthorizedException('Invalid or expired token');
-    }
-
-    return userData.user;
-  }
-
   @Post()
   @HttpCode(HttpStatus.CREATED)
-  @UsePipes(new ValidationPipe({ 
-    transform: true, 
-    whitelist: true,
-    forbidNonWhitelisted: false,
-    transformOptions: {
-      enableImplicitConversion: true, // Auto convert string to number, etc.
-    },
-  }))
+  @BrandMember('wholesale', 'catalog:write')
+  @UsePipes(
+    new ValidationPipe({
+      transform: true,
+      whitelist: true,
+      forbidNonWhitelisted: false,
+      transformOptions: {
+        enableImplicitConversion: true, // Auto convert string to number, etc.
+      },
+    }),
+  )
   async createProduct(
     @Body() createProductDto: CreateProductDto,
-    @Headers('authorization') authHeader?: string,
+    @CurrentBrand('id') brandId: string,
+    @CurrentUser('id') userId: string,
   ) {
     try {
-      const user = await this.getUserFromToken(authHeader);
-      return await this.productsService.createProduct(createProductDto, user.id);
+      return await this.productsService.createProduct(
+        createProductDto,
+        brandId,
+        userId,
+      );
     } catch (error) {
       console.error('Error in createProduct controller:', error);
       throw error; // Re-throw to let NestJS handle it
     }
   }
 
+  // Bulk create/update from a CSV/XLSX file laid out as the import template.
+  // With ?dryRun=true nothing is written; the result lists row errors and
+  // what would be created or updated.
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  @BrandMember('wholesale', 'catalog:write')
+  @RateLimit({ limit: 30, windowMs: 60 * 60 * 1000, by: 'user' })
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: {
+        fileSize: 10 * 1024 * 1024, // 10MB limit
+      },
+    }),
+  )
+  async importProducts(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @CurrentBrand('id') brandId: string,
+    @CurrentUser('id') userId: string,
+    @Query('dryRun') dryRun?: string,
+  ) {
+    if (!file) {
+      throw new BadRequestException(
+        'No file provided. Please select a CSV or XLSX file.',
+      );
+    }
+
+    return this.productsImportService.importProducts(
+      file,
+      brandId,
+      dryRun === 'true',
+      userId,
+    );
+  }
+
+  @Get('import/template')
+  @BrandMember('wholesale')
+  @Header('Content-Type', 'text/csv; charset=utf-8')
+  @Header(
+    'Content-Disposition',
+    'attachment; filename="product-import-template.csv"',
+  )
+  getImportTemplate() {
+    return buildImportTemplateCsv();
+  }
+
+  // What each template column means
+  @Get('import/columns')
+  @BrandMember('wholesale')
+  getImportColumns() {
+    return PRODUCT_IMPORT_COLUMNS.map(
+      ({ name, type, description, example }) => ({
+        name,
+        type,
+        description,
+        example: example || null,
+      }),
+    );
+  }
+
   @Get('my-products')
+  @BrandMember('wholesale')
   async getMyProducts(
-    @Headers('authorization') authHeader?: string,
+    @CurrentBrand('id') brandId: string,
     @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number = 1,
     @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number = 20,
     @Query('search') search?: string,
     @Query('categoryId') categoryId?: string,
     @Query('status') status?: string,
+    @Query('cursor') cursor?: string,
+  ) {
+    return this.productsService.getMyProducts(
+      brandId,
+      page,
+      limit,
+      search,
+      categoryId,
+      status,
+      cursor,
+    );
+  }
+
+  // The whole catalog as CSV/XLSX (import template columns) or JSON
+  @Get('my-products/export')
+  @BrandMember('wholesale')
+  @RateLimit({ limit: 20, windowMs: 60 * 60 * 1000, by: 'user' })
+  async exportMyProducts(
+    @CurrentBrand('id') brandId: string,
+    @Query('format', new DefaultValuePipe('csv')) format: string,
+    @Query('status') status?: string,
   ) {
-    const user = await this.getUserFromToken(authHeader);
-    return this.productsService.getMyProducts(user.id, page, limit, search, categoryId, status);
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      throw new BadRequestException(
+        `Format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+      );
+    }
+
+    const file = await this.productsExportService.exportProducts(
+      brandId,
+      format as ExportFormat,
+      status,
+    );
+
+    return new StreamableFile(file.buffer, {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.fileName}"`,
+    });
+  }
+
+  // Replenishment: what is at or below its low-stock threshold
+  @Get('my-products/low-stock')
+  @BrandMember('wholesale')
+  async getLowStockItems(
+    @CurrentBrand('id') brandId: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number = 1,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number = 20,
+    @Query('source') source?: string,
+  ) {
+    if (source && !['product', 'matrix', 'variant'].includes(source)) {
+      throw new BadRequestException(
+        'Source must be one of: product, matrix, variant',
+      );
+    }
+    return this.productStockAlertsService.getLowStockItems(
+      brandId,
+      page,
+      limit,
+      source as LowStockSource,
+    );
+  }
+
+  @Get('my-products/stock-alerts')
+  @BrandMember('wholesale')
+  async getStockAlerts(
+    @CurrentBrand('id') brandId: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number = 1,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number = 20,
+    @Query('status', new DefaultValuePipe('open')) status: string,
+  ) {
+    if (!['open', 'resolved', 'all'].includes(status)) {
+      throw new BadRequestException(
+        'Status must be one of: open, resolved, all',
+      );
+    }
+    return this.productStockAlertsService.getAlerts(
+      brandId,
+      page,
+      limit,
+      status as StockAlertStatus,
+    );
+  }
+
+  @Post('my-products/stock-alerts/read-all')
+  @HttpCode(HttpStatus.OK)
+  @BrandMember('wholesale')
+  async markAllStockAlertsRead(@CurrentBrand('id') brandId: string) {
+    return this.productStockAlertsService.markAllAlertsRead(brandId);
+  }
+
+  @Patch('my-products/stock-alerts/:alertId/read')
+  @BrandMember('wholesale')
+  async markStockAlertRead(
+    @Param('alertId') alertId: string,
+    @CurrentBrand('id') brandId: string,
+  ) {
+    return this.productStockAlertsService.markAlertRead(alertId, brandId);
   }
 
   // Public endpoints (no auth required)
+  @Public()
   @Get('popular')
   async getPopularProducts(
     @Query('limit', new DefaultValuePipe(24), ParseIntPipe) limit: number = 24,
@@ -94,6 +270,7 @@ export class ProductsController {
     return this.productsService.getPopularProducts(limit);
   }
 
+  @Public()
   @Get('new-arrivals')
   async getNewArrivals(
     @Query('limit', new DefaultValuePipe(24), ParseIntPipe) limit: number = 24,
@@ -101,6 +278,7 @@ export class ProductsController {
     return this.productsService.getNewArrivals(limit);
   }
 
+  @Public()
   @Get('sale')
   async getSaleProducts(
     @Query('limit', new DefaultValuePipe(24), ParseIntPipe) limit: number = 24,
@@ -108,17 +286,25 @@ export class ProductsController {
     return this.productsService.getSaleProducts(limit);
   }
 
+  @Public()
   @Get('search-suggestions')
+  @RateLimit({ limit: 60, windowMs: 60 * 1000 })
   async getSearchSuggestions(
     @Query('q') query: string,
     @Query('limit', new DefaultValuePipe(8), ParseIntPipe) limit: number = 8,
+    @CurrentUser('id') userId?: string,
   ) {
     if (!query || query.trim().length < 2) {
       return { suggestions: [] };
     }
-    return this.productsService.getSearchSuggestions(query.trim(), limit);
+    return this.productsService.getSearchSuggestions(
+      query.trim(),
+      limit,
+      userId,
+    );
   }
 
+  @Public()
   @Get('categories')
   async getCategories() {
     // Public endpoint - no auth required
@@ -142,6 +328,7 @@ export class ProductsController {
     }));
   }
 
+  @Public()
   @Get('subcategories')
   async getSubcategories(
     @Query('categoryId') categoryId?: string,
@@ -174,12 +361,15 @@ export class ProductsController {
     }));
   }
 
+  @Public()
   @Get('category-filters')
   async getCategoryFilters(
     @Query('categoryId') categoryId?: string,
+    @Query('subcategoryId') subcategoryId?: string,
   ) {
     // Public endpoint - no auth required
-    // Returns filter configuration for a specific category
+    // Returns filter configuration for a specific category; with a subcategory,
+    // the category's filters it inherits plus (or replaced by) its own
     const serviceClient = this.supabaseService.getServiceClient();
     
     if (!categoryId || categoryId === 'all') {
@@ -187,9 +377,11 @@ export class ProductsController {
     }
 
     const { data, error } = await serviceClient
-      .from('category_filter_config')
+      .rpc('effective_category_filters', {
+        p_category_id: categoryId,
+        p_subcategory_id: subcategoryId && subcategoryId !== 'all' ? subcategoryId : null,
+      })
       .select('*')
-      .eq('category_id', categoryId)
       .eq('is_active', true)
       .order('display_order', { ascending: true });
 
@@ -209,6 +401,7 @@ export class ProductsController {
     }));
   }
 
+  @Public()
   @Get('brands')
   async getBrands() {
     // Public endpoint - returns all approved brands for filtering
@@ -232,14 +425,21 @@ export class ProductsController {
     }));
   }
 
+  @Public()
   @Get('slug/:slug')
   async getProductBySlug(
     @Param('slug') slug: string,
-    @Headers('authorization') authHeader?: string,
+    @CurrentUser() user?: AuthUser,
   ) {
     try {
-      const user = authHeader ? await this.getUserFromToken(authHeader) : null;
-      return await this.productsService.getProductBySlug(slug, user?.id);
+      // Team members may preview their brand's inactive products
+      const membership = user
+        ? await this.brandMembersService.getMembership(user.id, 'wholesale')
+        : null;
+      return await this.productsService.getProductBySlug(
+        slug,
+        membership?.brandId,
+      );
     } catch (error) {
       console.error('Error in getProductBySlug controller:', error);
       throw error;
@@ -247,14 +447,15 @@ export class ProductsController {
   }
 
   @Get(':id')
+  @BrandMember('wholesale')
   async getProduct(
     @Param('id') productId: string,
-    @Headers('authorization') authHeader?: string,
+    @CurrentBrand('id') brandId: string,
   ) {
-    const user = await this.getUserFromToken(authHeader);
-    return this.productsService.getProductById(productId, user.id);
+    return this.productsService.getProductById(productId, brandId);
   }
 
+  @Public()
   @Get()
   async getAllProducts(
     @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number = 1,
@@ -280,6 +481,9 @@ export class ProductsController {
     @Query('features') features?: string,
     // Dynamic filters - can be any category-specific filter
     @Query('filters') dynamicFilters?: string,
+    // Opaque cursor from a previous page (pagination.nextCursor)
+    @Query('cursor') cursor?: string,
+    @CurrentUser('id') userId?: string,
   ) {
     const priceMinNum = priceMin ? parseFloat(priceMin) : undefined;
     const priceMaxNum = priceMax ? parseFloat(priceMax) : undefined;
@@ -331,33 +535,71 @@ export class ProductsController {
       styleArray,
       featuresArray,
       parsedDynamicFilters,
+      cursor,
+      userId,
     );
   }
 
   @Put(':id')
   @HttpCode(HttpStatus.OK)
+  @BrandMember('wholesale', 'catalog:write')
   @UsePipes(new ValidationPipe({ transform: true, whitelist: true }))
   async updateProduct(
     @Param('id') productId: string,
     @Body() updateProductDto: UpdateProductDto,
-    @Headers('authorization') authHeader?: string,
+    @CurrentBrand('id') brandId: string,
+    @CurrentUser('id') userId: string,
+  ) {
+    return this.productsService.updateProduct(productId, updateProductDto, brandId, userId);
+  }
+
+  // Change history
+  @Get(':id/revisions')
+  @BrandMember('wholesale')
+  async getRevisions(
+    @Param('id') productId: string,
+    @CurrentBrand('id') brandId: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number = 1,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number = 20,
+  ) {
+    return this.productRevisionsService.getRevisions(productId, brandId, page, limit);
+  }
+
+  @Get(':id/revisions/:revision')
+  @BrandMember('wholesale')
+  async getRevision(
+    @Param('id') productId: string,
+    @Param('revision', ParseIntPipe) revisionNumber: number,
+    @CurrentBrand('id') brandId: string,
+  ) {
+    return this.productRevisionsService.getRevision(productId, brandId, revisionNumber);
+  }
+
+  @Post(':id/revisions/:revision/restore')
+  @HttpCode(HttpStatus.OK)
+  @BrandMember('wholesale', 'catalog:write')
+  async restoreRevision(
+    @Param('id') productId: string,
+    @Param('revision', ParseIntPipe) revisionNumber: number,
+    @CurrentBrand('id') brandId: string,
+    @CurrentUser('id') userId: string,
   ) {
-    const user = await this.getUserFromToken(authHeader);
-    return this.productsService.updateProduct(productId, updateProductDto, user.id);
+    return this.productsService.restoreRevision(productId, revisionNumber, brandId, userId);
   }
 
   @Delete(':id')
   @HttpCode(HttpStatus.OK)
+  @BrandMember('wholesale', 'catalog:write')
   async deleteProduct(
     @Param('id') productId: string,
-    @Headers('authorization') authHeader?: string,
+    @CurrentBrand('id') brandId: string,
   ) {
-    const user = await this.getUserFromToken(authHeader);
-    return this.productsService.deleteProduct(productId, user.id);
+    return this.productsService.deleteProduct(productId, brandId);
   }
 
   @Post(':id/upload-image')
   @HttpCode(HttpStatus.OK)
+  @BrandMember('wholesale', 'catalog:write')
   @UseInterceptors(FileInterceptor('image', {
     limits: {
       fileSize: 50 * 1024 * 1024, // 50MB limit
@@ -366,18 +608,18 @@ export class ProductsController {
   async uploadProductImage(
     @Param('id') productId: string,
     @UploadedFile() file: Express.Multer.File | undefined,
-    @Headers('authorization') authHeader?: string,
+    @CurrentUser() user: AuthUser,
+    @CurrentBrand('id') brandId: string,
     @Query('displayOrder', new DefaultValuePipe(0), ParseIntPipe) displayOrder: number = 0,
   ) {
     if (!file) {
       throw new BadRequestException('No file provided. Please select an image file.');
     }
 
-    const user = await this.getUserFromToken(authHeader);
 
-    // Verify product exists and user owns it
+    // Verify product exists and belongs to the caller's brand
     try {
-      await this.productsService.getProductById(productId, user.id);
+      await this.productsService.getProductById(productId, brandId);
     } catch (error) {
       if (error instanceof UnauthorizedException || error instanceof BadRequestException) {
         throw error;
@@ -2,12 +2,27 @@ import { Module } from '@nestjs/common';
 import { ProductsController } from './products.controller';
 import { ProductsService } from './products.service';
 import { ProductsUploadService } from './products-upload.service';
+import { ProductsImportService } from './products-import.service';
+import { ProductsExportService } from './products-export.service';
+import { ProductRevisionsService } from './product-revisions.service';
+import { ProductSchedulerService } from './product-scheduler.service';
+import { ProductStockAlertsService } from './product-stock-alerts.service';
 import { SupabaseModule } from '../../supabase/supabase.module';
+import { BrandMembersModule } from '../../brand-members/brand-members.module';
+import { SearchModule } from '../../search/search.module';
 
 @Module({
-  imports: [SupabaseModule],
+  imports: [SupabaseModule, BrandMembersModule, SearchModule],
   controllers: [ProductsController],
-  providers: [ProductsService, ProductsUploadService],
+  providers: [
+    ProductsService,
+    ProductsUploadService,
+    ProductsImportService,
+    ProductsExportService,
+    ProductRevisionsService,
+    ProductSchedulerService,
+    ProductStockAlertsService,
+  ],
   exports: [ProductsService],
 })
 export class ProductsModule {}
@@ -5,41 +5,60 @@ import {
   UnauthorizedException,
 } from '@nestjs/common';
 import { SupabaseService } from '../../supabase/supabase.service';
+import { ListingSort, listingPage, paginateListing } from '../../supabase/cursor-pagination';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
+import {
+  ProductRevisionsService,
+  RevisionContext,
+} from './product-revisions.service';
+import { buildProductSnapshot } from './product-snapshot';
+import {
+  ProductSearchService,
+  RELEVANCE_SORT,
+} from '../../search/product-search.service';
+import { SearchAnalyticsService } from '../../search/search-analytics.service';
+
+// Identifies a pack variant (color × size × custom values) within its pack
+const variantKey = (color: string, size: string, customValues?: Record<string, string> | null) =>
+  [color, size, ...Object.entries(customValues || {}).sort().map(([k, v]) => `${k}:${v}`)].join('|');
+
+// out_of_stock is only ever set by the product scheduler, so a product saved
+// with it (as read, or from an export) goes back to active; the next scheduler
+// run moves it back to out_of_stock if it is still sold out
+const writableStatus = (status: NonNullable<CreateProductDto['status']>) =>
+  status === 'out_of_stock' ? 'active' : status;
+
+// Loose comparison of a stored column with the value about to be written;
+// numeric columns come back as numbers or strings
+const sameValue = (stored: any, value: any) => {
+  if (typeof value === 'number') {
+    return stored !== null && Number(stored) === value;
+  }
+  if (value && typeof value === 'object') {
+    return JSON.stringify(stored) === JSON.stringify(value);
+  }
+  return (stored ?? null) === (value ?? null);
+};
 
 @Injectable()
 export class ProductsService {
-  constructor(private readonly supabaseService: SupabaseService) {}
-
-  async createProduct(createProductDto: CreateProductDto, userId: string) {
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly productRevisionsService: ProductRevisionsService,
+    private readonly productSearchService: ProductSearchService,
+    private readonly searchAnalyticsService: SearchAnalyticsService,
+  ) {}
+
+  // brandId is the approved brand resolved from the caller's team membership
+  async createProduct(createProductDto: CreateProductDto, brandId: string, userId?: string) {
     const serviceClient = this.supabaseService.getServiceClient();
 
-    // Verify user has an approved brand
-    const { data: brand, error: brandError } = await serviceClient
-      .from('wholesale_brands')
-      .select('id, status')
-      .eq('user_id', userId)
-      .eq('status', 'approved')
-      .maybeSingle();
-
-    if (brandError) {
-      throw new BadRequestException(
-        `Failed to verify brand: ${brandError.message || 'Unknown error'}`,
-      );
-    }
-
-    if (!brand) {
-      throw new UnauthorizedException(
-        'You must have an approved brand to create products.',
-      );
-    }
-
     // Check if slug already exists for this brand
     const { data: existingProduct, error: slugCheckError } = await serviceClient
       .from('wholesale_products')
       .select('id')
-      .eq('wholesale_brand_id', brand.id)
+      .eq('wholesale_brand_id', brandId)
       .eq('slug', createProductDto.slug)
       .maybeSingle();
 
@@ -139,7 +158,7 @@ export class ProductsService {
 
     // Prepare product data for insertion
     const productData: any = {
-      wholesale_brand_id: brand.id,
+      wholesale_brand_id: brandId,
       category_id: createProductDto.categoryId,
       subcategory_id: createProductDto.subcategoryId || null,
       name: createProductDto.name,
@@ -158,7 +177,7 @@ export class ProductsService {
       stock_quantity: createProductDto.stockQuantity,
       track_inventory: createProductDto.trackInventory,
       low_stock_threshold: createProductDto.lowStockThreshold || null,
-      status: createProductDto.status || 'draft',
+      status: writableStatus(createProductDto.status || 'draft'),
       is_featured: createProductDto.isFeatured || false,
       condition: createProductDto.condition || 'new',
       shipping_info: createProductDto.shippingInfo || null,
@@ -170,8 +189,15 @@ export class ProductsService {
       meta_title: createProductDto.metaTitle || null,
       meta_description: createProductDto.metaDescription || null,
       meta_keywords: createProductDto.metaKeywords || null,
+      publish_at: createProductDto.publishAt || null,
+      unpublish_at: createProductDto.unpublishAt || null,
+      scheduled_sale_percentage: createProductDto.scheduledSalePercentage ?? null,
+      sale_starts_at: createProductDto.saleStartsAt || null,
+      sale_ends_at: createProductDto.saleEndsAt || null,
     };
 
+    this.assertValidSchedule(productData);
+
     // Create product
     const { data: product, error: productError } = await serviceClient
       .from('wholesale_products')
@@ -320,6 +346,7 @@ export class ProductsService {
             pack_size_id: packSize.id,
             combination_key: key,
             stock_quantity: quantity,
+            low_stock_threshold: pack.stockMatrixThresholds?.[key] ?? null,
           }));
 
           const { error: stockMatrixError } = await serviceClient
@@ -351,14 +378,19 @@ export class ProductsService {
     }
 
     // Fetch complete product with relations
-    return this.getProductById(product.id, userId);
+    const created = await this.getProductById(product.id, brandId);
+    await this.productRevisionsService.record(product.id, null, buildProductSnapshot(created), {
+      userId,
+      changeType: 'create',
+    });
+    return created;
   }
 
-  async getProductById(productId: string, userId: string) {
-    return this.getProductComplete(productId, userId, true);
+  async getProductById(productId: string, brandId: string) {
+    return this.getProductComplete(productId, brandId, true);
   }
 
-  async getProductComplete(productId: string, userId?: string, verifyOwnership = false) {
+  async getProductComplete(productId: string, ownerBrandId?: string, verifyOwnership = false) {
     const serviceClient = this.supabaseService.getServiceClient();
 
     // Get product with brand info (parallel queries)
@@ -401,8 +433,8 @@ export class ProductsService {
       throw new NotFoundException('Product not found.');
     }
 
-    // Verify user owns the brand if required
-    if (verifyOwnership && userId && product.wholesale_brands && product.wholesale_brands.user_id !== userId) {
+    // Verify the product belongs to the caller's brand if required
+    if (verifyOwnership && ownerBrandId && product.wholesale_brand_id !== ownerBrandId) {
       throw new UnauthorizedException('You do not have permission to access this product.');
     }
 
@@ -538,6 +570,12 @@ export class ProductsService {
             acc[item.combination_key] = item.stock_quantity;
             return acc;
           }, {} as Record<string, number>),
+        stockMatrixThresholds: stockMatrix
+          .filter(s => s.pack_size_id === pack.id && s.low_stock_threshold !== null && s.low_stock_threshold !== undefined)
+          .reduce((acc, item) => {
+            acc[item.combination_key] = item.low_stock_threshold;
+            return acc;
+          }, {} as Record<string, number>),
         fixedQuantities: packFixedQuantities,
         // Ensure has_fixed_quantities reflects actual data
         has_fixed_quantities: pack.has_fixed_quantities || Object.keys(packFixedQuantities).length > 0,
@@ -566,48 +604,28 @@ export class ProductsService {
   }
 
   async getMyProducts(
-    userId: string,
+    brandId: string,
     page: number = 1,
     limit: number = 20,
     search?: string,
     categoryId?: string,
     status?: string,
+    cursor?: string,
   ) {
     const serviceClient = this.supabaseService.getServiceClient();
 
-    // Get user's brand
-    const { data: brand, error: brandError } = await serviceClient
-      .from('wholesale_brands')
-      .select('id')
-      .eq('user_id', userId)
-      .maybeSingle();
-
-    if (brandError || !brand) {
-      return {
-        products: [],
-        pagination: {
-          page,
-          limit,
-          total: 0,
-          totalPages: 0,
-        },
-      };
-    }
-
-    const offset = (page - 1) * limit;
-
     // Build query for products count
     let countQuery = serviceClient
       .from('wholesale_products')
       .select('*', { count: 'exact', head: true })
-      .eq('wholesale_brand_id', brand.id)
+      .eq('wholesale_brand_id', brandId)
       .is('deleted_at', null);
 
     // Build query for products
     let productsQuery = serviceClient
       .from('wholesale_products')
       .select('*')
-      .eq('wholesale_brand_id', brand.id)
+      .eq('wholesale_brand_id', brandId)
       .is('deleted_at', null);
 
     // Apply search filter
@@ -629,19 +647,23 @@ export class ProductsService {
       productsQuery = productsQuery.eq('status', status);
     }
 
-    // Get products count
-    const { count, error: countError } = await countQuery;
+    // Get products count (page-based requests only)
+    let count: number | null = null;
+    if (!cursor) {
+      const { count: total, error: countError } = await countQuery;
 
-    if (countError) {
-      throw new BadRequestException(
-        `Failed to count products: ${countError.message || 'Unknown error'}`,
-      );
+      if (countError) {
+        throw new BadRequestException(
+          `Failed to count products: ${countError.message || 'Unknown error'}`,
+        );
+      }
+      count = total;
     }
 
     // Get products
-    const { data: products, error: productsError } = await productsQuery
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
+    const pageRequest = { page, limit, cursor };
+    const sort: ListingSort = { column: 'created_at', ascending: false };
+    const { data: rows, error: productsError } = await paginateListing(productsQuery, sort, pageRequest);
 
     if (productsError) {
       throw new BadRequestException(
@@ -649,6 +671,8 @@ export class ProductsService {
       );
     }
 
+    const { items: products, pagination } = listingPage(rows, sort, pageRequest, count);
+
     // Get images for all products in one query
     const productIds = (products || []).map(p => p.id);
     let productImages: any[] = [];
@@ -671,29 +695,83 @@ export class ProductsService {
 
     return {
       products: productsWithImages,
-      pagination: {
-        page,
-        limit,
-        total: count || 0,
-        totalPages: Math.ceil((count || 0) / limit),
-      },
+      pagination,
     };
   }
 
   async updateProduct(
     productId: string,
     updateProductDto: UpdateProductDto,
-    userId: string,
+    brandId: string,
+    userId?: string,
+  ) {
+    return this.saveProduct(productId, updateProductDto, brandId, {
+      userId,
+      changeType: 'update',
+    });
+  }
+
+  /**
+   * Bring a product back to how it was at `revisionNumber`. Stock levels are
+   * operational, not catalog content, so they stay as they are now.
+   */
+  async restoreRevision(
+    productId: string,
+    revisionNumber: number,
+    brandId: string,
+    userId?: string,
+  ) {
+    const revision = await this.productRevisionsService.getRevision(
+      productId,
+      brandId,
+      revisionNumber,
+    );
+    const current = buildProductSnapshot(
+      await this.getProductComplete(productId),
+    );
+    const snapshot: UpdateProductDto = revision.snapshot;
+
+    const currentPacks = new Map(
+      (current.packSizes || []).map((pack) => [pack.id, pack]),
+    );
+    const currentStock = new Map(
+      (current.packSizes || [])
+        .flatMap((pack) => pack.variants || [])
+        .map((variant) => [variant.id, variant.stock]),
+    );
+
+    const restored: UpdateProductDto = {
+      ...snapshot,
+      stockQuantity: current.stockQuantity,
+      packSizes: snapshot.packSizes?.map((pack) => ({
+        ...pack,
+        variants: pack.variants?.map((variant) => ({
+          ...variant,
+          stock: currentStock.get(variant.id) ?? 0,
+        })),
+        stockMatrix: currentPacks.get(pack.id)?.stockMatrix || {},
+      })),
+    };
+
+    return this.saveProduct(productId, restored, brandId, {
+      userId,
+      changeType: 'restore',
+      restoredFrom: revisionNumber,
+    });
+  }
+
+  private async saveProduct(
+    productId: string,
+    updateProductDto: UpdateProductDto,
+    brandId: string,
+    revision: RevisionContext,
   ) {
     const serviceClient = this.supabaseService.getServiceClient();
 
-    // Verify product exists and user owns it
+    // Verify product exists and belongs to the caller's brand
     const { data: product, error: productError } = await serviceClient
       .from('wholesale_products')
-      .select(`
-        *,
-        wholesale_brands!inner(user_id, status)
-      `)
+      .select('*')
       .eq('id', productId)
       .single();
 
@@ -701,14 +779,17 @@ export class ProductsService {
       throw new NotFoundException('Product not found.');
     }
 
-    if (product.wholesale_brands.user_id !== userId) {
-      throw new UnauthorizedException('You do not have permission to update this product.');
+    if (product.wholesale_brand_id !== brandId) {
+      throw new UnauthorizedException(
+        'You do not have permission to update this product.',
+      );
     }
 
     // Prepare update data
     const updateData: any = {};
 
-    if (updateProductDto.name !== undefined) updateData.name = updateProductDto.name;
+    if (updateProductDto.name !== undefined)
+      updateData.name = updateProductDto.name;
     if (updateProductDto.slug !== undefined) {
       // Check slug uniqueness
       const { data: existingProduct } = await serviceClient
@@ -720,7 +801,9 @@ export class ProductsService {
         .maybeSingle();
 
       if (existingProduct) {
-        throw new BadRequestException('A product with this slug already exists for your brand.');
+        throw new BadRequestException(
+          'A product with this slug already exists for your brand.',
+        );
       }
 
       updateData.slug = updateProductDto.slug;
@@ -736,13 +819,17 @@ export class ProductsService {
           .maybeSingle();
 
         if (existingSku) {
-          throw new BadRequestException('A product with this SKU already exists.');
+          throw new BadRequestException(
+            'A product with this SKU already exists.',
+          );
         }
       }
       updateData.sku = updateProductDto.sku || null;
     }
-    if (updateProductDto.description !== undefined) updateData.description = updateProductDto.description || null;
-    if (updateProductDto.shortDescription !== undefined) updateData.short_description = updateProductDto.shortDescription || null;
+    if (updateProductDto.description !== undefined)
+      updateData.description = updateProductDto.description || null;
+    if (updateProductDto.shortDescription !== undefined)
+      updateData.short_description = updateProductDto.shortDescription || null;
     if (updateProductDto.categoryId !== undefined) {
       // Verify category
       const { data: category } = await serviceClient
@@ -776,25 +863,87 @@ export class ProductsService {
       }
       updateData.subcategory_id = updateProductDto.subcategoryId || null;
     }
-    if (updateProductDto.wholesalePrice !== undefined) updateData.wholesale_price = updateProductDto.wholesalePrice;
-    if (updateProductDto.salePercentage !== undefined) updateData.sale_percentage = updateProductDto.salePercentage || 0;
-    if (updateProductDto.minOrderQuantity !== undefined) updateData.min_order_quantity = updateProductDto.minOrderQuantity;
-    if (updateProductDto.minOrderAmount !== undefined) updateData.min_order_amount = updateProductDto.minOrderAmount || null;
-    if (updateProductDto.stockQuantity !== undefined) updateData.stock_quantity = updateProductDto.stockQuantity;
-    if (updateProductDto.trackInventory !== undefined) updateData.track_inventory = updateProductDto.trackInventory;
-    if (updateProductDto.lowStockThreshold !== undefined) updateData.low_stock_threshold = updateProductDto.lowStockThreshold || null;
-    if (updateProductDto.status !== undefined) updateData.status = updateProductDto.status;
-    if (updateProductDto.isFeatured !== undefined) updateData.is_featured = updateProductDto.isFeatured;
-    if (updateProductDto.condition !== undefined) updateData.condition = updateProductDto.condition;
-    if (updateProductDto.shippingInfo !== undefined) updateData.shipping_info = updateProductDto.shippingInfo || null;
-    if (updateProductDto.isShippingFree !== undefined) updateData.is_shipping_free = updateProductDto.isShippingFree;
-    if (updateProductDto.shippingCost !== undefined) updateData.shipping_cost = updateProductDto.shippingCost || null;
-    if (updateProductDto.estimatedDeliveryDays !== undefined) updateData.estimated_delivery_days = updateProductDto.estimatedDeliveryDays || null;
-    if (updateProductDto.productDetails !== undefined) updateData.product_details = updateProductDto.productDetails || null;
-    if (updateProductDto.sizeChart !== undefined) updateData.size_chart = updateProductDto.sizeChart || null;
-    if (updateProductDto.metaTitle !== undefined) updateData.meta_title = updateProductDto.metaTitle || null;
-    if (updateProductDto.metaDescription !== undefined) updateData.meta_description = updateProductDto.metaDescription || null;
-    if (updateProductDto.metaKeywords !== undefined) updateData.meta_keywords = updateProductDto.metaKeywords || null;
+    if (updateProductDto.barcode !== undefined) {
+      // Check barcode uniqueness
+      if (updateProductDto.barcode) {
+        const { data: existingBarcode } = await serviceClient
+          .from('wholesale_products')
+          .select('id')
+          .eq('barcode', updateProductDto.barcode)
+          .neq('id', productId)
+          .maybeSingle();
+
+        if (existingBarcode) {
+          throw new BadRequestException(
+            'A product with this barcode already exists.',
+          );
+        }
+      }
+      updateData.barcode = updateProductDto.barcode || null;
+    }
+    if (updateProductDto.wholesalePrice !== undefined)
+      updateData.wholesale_price = updateProductDto.wholesalePrice;
+    if (updateProductDto.retailPrice !== undefined)
+      updateData.retail_price = updateProductDto.retailPrice || null;
+    if (updateProductDto.vatRate !== undefined)
+      updateData.vat_rate = updateProductDto.vatRate || null;
+    if (updateProductDto.modelCode !== undefined)
+      updateData.model_code = updateProductDto.modelCode || null;
+    if (updateProductDto.salePercentage !== undefined)
+      updateData.sale_percentage = updateProductDto.salePercentage || 0;
+    if (updateProductDto.minOrderQuantity !== undefined)
+      updateData.min_order_quantity = updateProductDto.minOrderQuantity;
+    if (updateProductDto.minOrderAmount !== undefined)
+      updateData.min_order_amount = updateProductDto.minOrderAmount || null;
+    if (updateProductDto.stockQuantity !== undefined)
+      updateData.stock_quantity = updateProductDto.stockQuantity;
+    if (updateProductDto.trackInventory !== undefined)
+      updateData.track_inventory = updateProductDto.trackInventory;
+    if (updateProductDto.lowStockThreshold !== undefined)
+      updateData.low_stock_threshold =
+        updateProductDto.lowStockThreshold || null;
+    if (updateProductDto.status !== undefined)
+      updateData.status = writableStatus(updateProductDto.status);
+    if (updateProductDto.isFeatured !== undefined)
+      updateData.is_featured = updateProductDto.isFeatured;
+    if (updateProductDto.condition !== undefined)
+      updateData.condition = updateProductDto.condition;
+    if (updateProductDto.shippingInfo !== undefined)
+      updateData.shipping_info = updateProductDto.shippingInfo || null;
+    if (updateProductDto.isShippingFree !== undefined)
+      updateData.is_shipping_free = updateProductDto.isShippingFree;
+    if (updateProductDto.shippingCost !== undefined)
+      updateData.shipping_cost = updateProductDto.shippingCost || null;
+    if (updateProductDto.estimatedDeliveryDays !== undefined)
+      updateData.estimated_delivery_days =
+        updateProductDto.estimatedDeliveryDays || null;
+    if (updateProductDto.productDetails !== undefined)
+      updateData.product_details = updateProductDto.productDetails || null;
+    if (updateProductDto.sizeChart !== undefined)
+      updateData.size_chart = updateProductDto.sizeChart || null;
+    if (updateProductDto.metaTitle !== undefined)
+      updateData.meta_title = updateProductDto.metaTitle || null;
+    if (updateProductDto.metaDescription !== undefined)
+      updateData.meta_description = updateProductDto.metaDescription || null;
+    if (updateProductDto.metaKeywords !== undefined)
+      updateData.meta_keywords = updateProductDto.metaKeywords || null;
+    if (updateProductDto.publishAt !== undefined)
+      updateData.publish_at = updateProductDto.publishAt || null;
+    if (updateProductDto.unpublishAt !== undefined)
+      updateData.unpublish_at = updateProductDto.unpublishAt || null;
+    if (updateProductDto.scheduledSalePercentage !== undefined)
+      updateData.scheduled_sale_percentage =
+        updateProductDto.scheduledSalePercentage ?? null;
+    if (updateProductDto.saleStartsAt !== undefined)
+      updateData.sale_starts_at = updateProductDto.saleStartsAt || null;
+    if (updateProductDto.saleEndsAt !== undefined)
+      updateData.sale_ends_at = updateProductDto.saleEndsAt || null;
+
+    this.assertValidSchedule({ ...product, ...updateData });
+
+    const before = buildProductSnapshot(
+      await this.getProductComplete(productId),
+    );
 
     // Update product
     const { data: updatedProduct, error: updateError } = await serviceClient
@@ -810,232 +959,366 @@ export class ProductsService {
       );
     }
 
-    // Handle images update if provided
+    // Child rows are synced in place so their ids survive for carts, order
+    // items and stock reservations
     if (updateProductDto.images !== undefined) {
-      // Delete existing images
-      await serviceClient
-        .from('wholesale_product_images')
-        .delete()
-        .eq('product_id', productId);
-
-      // Insert new images
-      if (updateProductDto.images.length > 0) {
-        const imageRecords = updateProductDto.images.map((image, index) => ({
-          product_id: productId,
-          image_url: image.imageUrl,
-          alt_text: image.altText || null,
-          display_order: image.displayOrder !== undefined ? image.displayOrder : index,
-          is_primary: image.isPrimary ?? index === 0,
-        }));
-
-        const { error: imagesError } = await serviceClient
-          .from('wholesale_product_images')
-          .insert(imageRecords);
-
-        if (imagesError) {
-          console.error('Failed to update product images:', imagesError);
-        }
-      }
+      await this.syncChildRows(
+        'wholesale_product_images',
+        { column: 'product_id', id: productId },
+        updateProductDto.images.map((image, index) => ({
+          id: image.id,
+          key: image.imageUrl,
+          record: {
+            image_url: image.imageUrl,
+            alt_text: image.altText || null,
+            display_order:
+              image.displayOrder !== undefined ? image.displayOrder : index,
+            is_primary: image.isPrimary ?? index === 0,
+          },
+        })),
+        (row) => row.image_url,
+      );
     }
 
     // Handle product-level variations update if provided
     if (updateProductDto.variations !== undefined) {
-      // Delete existing variations
-      await serviceClient
-        .from('wholesale_product_variations')
-        .delete()
-        .eq('product_id', productId);
-
-      // Insert new variations
-      if (updateProductDto.variations.length > 0) {
-        const variationRecords = updateProductDto.variations.map((variation, index) => ({
-          product_id: productId,
-          variation_type: variation.variationType,
-          name: variation.name,
-          value: variation.value || null,
-          is_available: variation.isAvailable,
-          display_order: variation.displayOrder !== undefined ? variation.displayOrder : index,
-        }));
-
-        const { error: variationsError } = await serviceClient
-          .from('wholesale_product_variations')
-          .insert(variationRecords);
-
-        if (variationsError) {
-          console.error('Failed to update product variations:', variationsError);
-        }
-      }
+      await this.syncChildRows(
+        'wholesale_product_variations',
+        { column: 'product_id', id: productId },
+        updateProductDto.variations.map((variation, index) => ({
+          id: variation.id,
+          key: `${variation.variationType}:${variation.name}`,
+          record: {
+            variation_type: variation.variationType,
+            name: variation.name,
+            value: variation.value || null,
+            is_available: variation.isAvailable,
+            display_order:
+              variation.displayOrder !== undefined
+                ? variation.displayOrder
+                : index,
+          },
+        })),
+        (row) => `${row.variation_type}:${row.name}`,
+      );
     }
 
     // Handle pack sizes update if provided
     if (updateProductDto.packSizes !== undefined) {
-      // Get existing pack size IDs to delete their variations and stock matrix
-      const { data: existingPackSizes } = await serviceClient
-        .from('wholesale_product_pack_sizes')
-        .select('id')
-        .eq('product_id', productId);
+      const packs = updateProductDto.packSizes;
+      const packSizeIds = await this.syncChildRows(
+        'wholesale_product_pack_sizes',
+        { column: 'product_id', id: productId },
+        packs.map((pack, index) => ({
+          id: pack.id,
+          key: pack.label,
+          record: {
+            label: pack.label,
+            quantity: pack.quantity,
+            pack_price: pack.packPrice,
+            unit_price: pack.unitPrice || pack.packPrice / pack.quantity,
+            is_popular: pack.isPopular,
+            is_best_value: pack.isBestValue,
+            is_available: pack.isAvailable,
+            display_order:
+              pack.displayOrder !== undefined ? pack.displayOrder : index,
+            has_fixed_quantities: pack.hasFixedQuantities || false,
+          },
+        })),
+        (row) => row.label,
+      );
 
-      const existingPackSizeIds = (existingPackSizes || []).map(p => p.id);
+      for (let index = 0; index < packs.length; index++) {
+        const pack = packs[index];
+        const packSizeId = packSizeIds[index];
+        if (!packSizeId) {
+          continue;
+        }
+        const parent = { column: 'pack_size_id', id: packSizeId };
+
+        // Child collections a pack leaves out are kept as they are, so
+        // callers that don't know about them (like spreadsheet imports, which
+        // have no columns for the legacy ones) don't wipe them
+        if (pack.variants !== undefined || pack.variations !== undefined) {
+          // Trendyol-style variants (Color × Size combinations), or the legacy
+          // pack variations (old format)
+          await this.syncChildRows(
+            'wholesale_pack_variations',
+            parent,
+            pack.variants && pack.variants.length > 0
+              ? pack.variants.map((variant, vIndex) => ({
+                  id: variant.id,
+                  key: variantKey(
+                    variant.color,
+                    variant.size,
+                    variant.customValues,
+                  ),
+                  record: {
+                    color: variant.color,
+                    color_value: variant.colorValue || null,
+                    size: variant.size,
+                    custom_values:
+                      variant.customValues &&
+                      Object.keys(variant.customValues).length > 0
+                        ? variant.customValues
+                        : null,
+                    barcode: variant.barcode || null,
+                    stock: variant.stock || 0,
+                    fixed_qty: variant.fixedQuantity || 0, // Per-variant fixed quantity
+                    vat_rate: variant.vatRate || null,
+                    otv_rate: variant.otvRate || null,
+                    stock_code: variant.stockCode || null,
+                    lot_info: variant.lotInfo || null,
+                    image_index:
+                      variant.imageIndex !== undefined
+                        ? variant.imageIndex
+                        : null,
+                    display_order:
+                      variant.displayOrder !== undefined
+                        ? variant.displayOrder
+                        : vIndex,
+                    // Legacy fields for compatibility
+                    variation_type: 'color_size',
+                    name: `${variant.color} - ${variant.size}`,
+                    value: variant.colorValue || null,
+                    is_available: true,
+                  },
+                }))
+              : (pack.variations || []).map((variation, vIndex) => ({
+                  id: variation.id,
+                  key: `${variation.variationType}:${variation.name}`,
+                  record: {
+                    variation_type: variation.variationType,
+                    name: variation.name,
+                    value: variation.value || null,
+                    image_index:
+                      variation.imageIndex !== undefined
+                        ? variation.imageIndex
+                        : null,
+                    is_available: variation.isAvailable,
+                    display_order:
+                      variation.displayOrder !== undefined
+                        ? variation.displayOrder
+                        : vIndex,
+                  },
+                })),
+            (row) =>
+              row.color && row.size
+                ? variantKey(row.color, row.size, row.custom_values)
+                : `${row.variation_type}:${row.name}`,
+          );
+        }
 
-      // Delete existing stock matrix and fixed quantities entries for these pack sizes
-      if (existingPackSizeIds.length > 0) {
-        await serviceClient
-          .from('wholesale_pack_stock_matrix')
-          .delete()
-          .in('pack_size_id', existingPackSizeIds);
+        if (pack.stockMatrix !== undefined) {
+          // Legacy: stock matrix (old format)
+          await this.syncChildRows(
+            'wholesale_pack_stock_matrix',
+            parent,
+            Object.entries(pack.stockMatrix || {}).map(([key, quantity]) => ({
+              key,
+              record: {
+                combination_key: key,
+                stock_quantity: quantity,
+                // Thresholds are kept as they are when the pack doesn't send them
+                ...(pack.stockMatrixThresholds !== undefined && {
+                  low_stock_threshold: pack.stockMatrixThresholds[key] ?? null,
+                }),
+              },
+            })),
+            (row) => row.combination_key,
+          );
+        }
 
-        // Delete existing fixed quantities for these pack sizes
-        await serviceClient
-          .from('wholesale_pack_fixed_quantities')
-          .delete()
-          .in('pack_size_id', existingPackSizeIds);
+        if (
+          pack.fixedQuantities !== undefined ||
+          pack.hasFixedQuantities === false
+        ) {
+          // Legacy: fixed quantities, only kept while hasFixedQuantities is true
+          await this.syncChildRows(
+            'wholesale_pack_fixed_quantities',
+            parent,
+            Object.entries(
+              pack.hasFixedQuantities ? pack.fixedQuantities || {} : {},
+            ).map(([key, quantity]) => ({
+              key,
+              record: { combination_key: key, fixed_quantity: quantity },
+            })),
+            (row) => row.combination_key,
+          );
+        }
+      }
+    }
 
-        // Delete existing pack variations for these pack sizes
-        await serviceClient
-          .from('wholesale_pack_variations')
-          .delete()
-          .in('pack_size_id', existingPackSizeIds);
+    const updated = await this.getProductById(productId, brandId);
+    await this.productRevisionsService.record(
+      productId,
+      before,
+      buildProductSnapshot(updated),
+      revision,
+    );
+    return updated;
+  }
+  // Checks the schedule columns of a product row as it is about to be saved
+  private assertValidSchedule(product: any) {
+    const time = (value: any) => (value ? new Date(value).getTime() : null);
+    const publishAt = time(product.publish_at);
+    const unpublishAt = time(product.unpublish_at);
+    const saleStartsAt = time(product.sale_starts_at);
+    const saleEndsAt = time(product.sale_ends_at);
+
+    if (
+      publishAt !== null &&
+      unpublishAt !== null &&
+      unpublishAt <= publishAt
+    ) {
+      throw new BadRequestException('unpublishAt must be after publishAt.');
+    }
+    if (
+      (product.scheduled_sale_percentage ?? null) === null &&
+      (saleStartsAt !== null || saleEndsAt !== null)
+    ) {
+      throw new BadRequestException(
+        'scheduledSalePercentage is required to schedule a sale.',
+      );
+    }
+    if (
+      (product.scheduled_sale_percentage ?? null) !== null &&
+      saleStartsAt === null
+    ) {
+      throw new BadRequestException(
+        'saleStartsAt is required to schedule a sale.',
+      );
+    }
+    if (
+      saleStartsAt !== null &&
+      saleEndsAt !== null &&
+      saleEndsAt <= saleStartsAt
+    ) {
+      throw new BadRequestException('saleEndsAt must be after saleStartsAt.');
+    }
+  }
+
+  /**
+   * Make the child rows of a product (or pack) match `desired` without
+   * replacing them: rows are matched by id, then by `key`, updated only when
+   * something changed, and just the leftovers are deleted or inserted.
+   * Returns the row id for each desired entry.
+   */
+  private async syncChildRows(
+    table: string,
+    parent: { column: string; id: string },
+    desired: { id?: string; key: string; record: Record<string, any> }[],
+    keyOf: (row: any) => string,
+  ): Promise<(string | undefined)[]> {
+    const serviceClient = this.supabaseService.getServiceClient();
+
+    const { data: existingRows, error } = await serviceClient
+      .from(table)
+      .select('*')
+      .eq(parent.column, parent.id);
+
+    if (error) {
+      throw new BadRequestException(
+        `Failed to load ${table}: ${error.message || 'Unknown error'}`,
+      );
+    }
+
+    const unmatched = new Map<string, any>(
+      (existingRows || []).map((row) => [row.id, row]),
+    );
+    const matches: any[] = desired.map((entry) => {
+      const row = entry.id ? unmatched.get(entry.id) : undefined;
+      if (row) {
+        unmatched.delete(row.id);
+      }
+      return row;
+    });
+    desired.forEach((entry, index) => {
+      if (matches[index]) {
+        return;
+      }
+      const row = [...unmatched.values()].find(
+        (candidate) => keyOf(candidate) === entry.key,
+      );
+      if (row) {
+        unmatched.delete(row.id);
+        matches[index] = row;
       }
+    });
 
-      // Delete existing pack sizes
-      await serviceClient
-        .from('wholesale_product_pack_sizes')
+    // Deletes first, so unique keys are free for the inserts
+    if (unmatched.size > 0) {
+      const { error: deleteError } = await serviceClient
+        .from(table)
         .delete()
-        .eq('product_id', productId);
-
-      // Insert new pack sizes with their variations and stock matrix
-      if (updateProductDto.packSizes.length > 0) {
-        for (let index = 0; index < updateProductDto.packSizes.length; index++) {
-          const pack = updateProductDto.packSizes[index];
-
-          // Insert pack size
-          const { data: packSize, error: packSizeError } = await serviceClient
-            .from('wholesale_product_pack_sizes')
-            .insert({
-              product_id: productId,
-              label: pack.label,
-              quantity: pack.quantity,
-              pack_price: pack.packPrice,
-              unit_price: pack.unitPrice || pack.packPrice / pack.quantity,
-              is_popular: pack.isPopular,
-              is_best_value: pack.isBestValue,
-              is_available: pack.isAvailable,
-              display_order: pack.displayOrder !== undefined ? pack.displayOrder : index,
-              has_fixed_quantities: pack.hasFixedQuantities || false,
-            })
-            .select()
-            .single();
-
-          if (packSizeError) {
-            console.error('Failed to update product pack size:', packSizeError);
-            continue;
-          }
+        .in('id', [...unmatched.keys()]);
 
-          // Insert new Trendyol-style variants if provided (Color × Size combinations)
-          if (pack.variants && pack.variants.length > 0) {
-            const variantRecords = pack.variants.map((variant, vIndex) => ({
-              pack_size_id: packSize.id,
-              color: variant.color,
-              color_value: variant.colorValue || null,
-              size: variant.size,
-              custom_values: variant.customValues && Object.keys(variant.customValues).length > 0 
-                ? variant.customValues 
-                : null,
-              barcode: variant.barcode || null,
-              stock: variant.stock || 0,
-              fixed_qty: variant.fixedQuantity || 0, // Per-variant fixed quantity
-              vat_rate: variant.vatRate || null,
-              otv_rate: variant.otvRate || null,
-              stock_code: variant.stockCode || null,
-              lot_info: variant.lotInfo || null,
-              image_index: variant.imageIndex !== undefined ? variant.imageIndex : null,
-              display_order: variant.displayOrder !== undefined ? variant.displayOrder : vIndex,
-              // Legacy fields for compatibility
-              variation_type: 'color_size',
-              name: `${variant.color} - ${variant.size}`,
-              value: variant.colorValue || null,
-              is_available: true,
-            }));
-
-            const { error: variantsError } = await serviceClient
-              .from('wholesale_pack_variations')
-              .insert(variantRecords);
-
-            if (variantsError) {
-              console.error('Failed to update pack variants:', variantsError);
-            }
-          }
-          // Legacy: Insert pack variations if provided (old format)
-          else if (pack.variations && pack.variations.length > 0) {
-            const variationRecords = pack.variations.map((variation, vIndex) => ({
-              pack_size_id: packSize.id,
-              variation_type: variation.variationType,
-              name: variation.name,
-              value: variation.value || null,
-              image_index: variation.imageIndex !== undefined ? variation.imageIndex : null,
-              is_available: variation.isAvailable,
-              display_order: variation.displayOrder !== undefined ? variation.displayOrder : vIndex,
-            }));
-
-            const { error: variationsError } = await serviceClient
-              .from('wholesale_pack_variations')
-              .insert(variationRecords);
-
-            if (variationsError) {
-              console.error('Failed to update pack variations:', variationsError);
-            }
-          }
+      if (deleteError) {
+        throw new BadRequestException(
+          `Failed to delete ${table} rows: ${deleteError.message || 'Unknown error'}`,
+        );
+      }
+    }
 
-          // Legacy: Insert stock matrix if provided (old format)
-          if (pack.stockMatrix && Object.keys(pack.stockMatrix).length > 0) {
-            const stockMatrixRecords = Object.entries(pack.stockMatrix).map(([key, quantity]) => ({
-              pack_size_id: packSize.id,
-              combination_key: key,
-              stock_quantity: quantity,
-            }));
-
-            const { error: stockMatrixError } = await serviceClient
-              .from('wholesale_pack_stock_matrix')
-              .insert(stockMatrixRecords);
-
-            if (stockMatrixError) {
-              console.error('Failed to update stock matrix:', stockMatrixError);
-            }
-          }
+    for (let index = 0; index < desired.length; index++) {
+      const row = matches[index];
+      const { record } = desired[index];
+      if (
+        !row ||
+        Object.entries(record).every(([column, value]) =>
+          sameValue(row[column], value),
+        )
+      ) {
+        continue;
+      }
 
-          // Legacy: Insert fixed quantities if provided and hasFixedQuantities is true (old format)
-          if (pack.hasFixedQuantities && pack.fixedQuantities && Object.keys(pack.fixedQuantities).length > 0) {
-            const fixedQuantityRecords = Object.entries(pack.fixedQuantities).map(([key, quantity]) => ({
-              pack_size_id: packSize.id,
-              combination_key: key,
-              fixed_quantity: quantity,
-            }));
-
-            const { error: fixedQuantitiesError } = await serviceClient
-              .from('wholesale_pack_fixed_quantities')
-              .insert(fixedQuantityRecords);
-
-            if (fixedQuantitiesError) {
-              console.error('Failed to update fixed quantities:', fixedQuantitiesError);
-            }
-          }
-        }
+      const { error: updateError } = await serviceClient
+        .from(table)
+        .update(record)
+        .eq('id', row.id);
+
+      if (updateError) {
+        throw new BadRequestException(
+          `Failed to update ${table} row: ${updateError.message || 'Unknown error'}`,
+        );
       }
     }
 
-    return this.getProductById(productId, userId);
+    const ids: (string | undefined)[] = matches.map((row) => row?.id);
+    const inserts = desired
+      .map((entry, index) => ({
+        index,
+        record: { ...entry.record, [parent.column]: parent.id },
+      }))
+      .filter(({ index }) => !matches[index]);
+
+    if (inserts.length > 0) {
+      const { data: inserted, error: insertError } = await serviceClient
+        .from(table)
+        .insert(inserts.map(({ record }) => record))
+        .select('id');
+
+      if (insertError) {
+        throw new BadRequestException(
+          `Failed to insert ${table} rows: ${insertError.message || 'Unknown error'}`,
+        );
+      }
+
+      inserts.forEach(({ index }, i) => {
+        ids[index] = inserted?.[i]?.id;
+      });
+    }
+
+    return ids;
   }
 
-  async deleteProduct(productId: string, userId: string) {
+  async deleteProduct(productId: string, brandId: string) {
     const serviceClient = this.supabaseService.getServiceClient();
 
-    // Verify product exists and user owns it
+    // Verify product exists and belongs to the caller's brand
     const { data: product, error: productError } = await serviceClient
       .from('wholesale_products')
-      .select(`
-        *,
-        wholesale_brands!inner(user_id)
-      `)
+      .select('*')
       .eq('id', productId)
       .single();
 
@@ -1043,7 +1326,7 @@ export class ProductsService {
       throw new NotFoundException('Product not found.');
     }
 
-    if (product.wholesale_brands.user_id !== userId) {
+    if (product.wholesale_brand_id !== brandId) {
       throw new UnauthorizedException('You do not have permission to delete this product.');
     }
 
@@ -1198,297 +1481,116 @@ export class ProductsService {
     style?: string[],
     features?: string[],
     dynamicFilters?: Record<string, string[]>,
+    cursor?: string,
+    userId?: string,
   ) {
     const serviceClient = this.supabaseService.getServiceClient();
-    const offset = (page - 1) * limit;
 
-    // First, get product IDs that match pack variant filters (colors, sizes)
-    let filteredProductIds: string[] | null = null;
-
-    // Filter by colors from pack variants
-    if (colors && colors.length > 0) {
-      const { data: packVariants } = await serviceClient
-        .from('wholesale_pack_variations')
-        .select('pack_size_id')
-        .in('color', colors);
-      
-      if (packVariants && packVariants.length > 0) {
-        const packSizeIds = [...new Set(packVariants.map(v => v.pack_size_id))];
-        
-        const { data: packSizes } = await serviceClient
-          .from('wholesale_product_pack_sizes')
-          .select('product_id')
-          .in('id', packSizeIds);
-        
-        if (packSizes) {
-          const productIdsByColor = [...new Set(packSizes.map(p => p.product_id))];
-          if (filteredProductIds !== null) {
-            const currentFilteredIds = filteredProductIds as string[];
-            filteredProductIds = currentFilteredIds.filter(id => productIdsByColor.includes(id));
-          } else {
-            filteredProductIds = productIdsByColor;
-          }
-        }
-      } else {
-        // No products match the color filter
-        filteredProductIds = [];
-      }
-    }
-
-    // Filter by sizes from pack variants
-    if (sizes && sizes.length > 0 && (filteredProductIds === null || filteredProductIds.length > 0)) {
-      const { data: packVariants } = await serviceClient
-        .from('wholesale_pack_variations')
-        .select('pack_size_id')
-        .in('size', sizes);
-      
-      if (packVariants && packVariants.length > 0) {
-        const packSizeIds = [...new Set(packVariants.map(v => v.pack_size_id))];
-        
-        const { data: packSizes } = await serviceClient
-          .from('wholesale_product_pack_sizes')
-          .select('product_id')
-          .in('id', packSizeIds);
-        
-        if (packSizes) {
-          const productIdsBySize = [...new Set(packSizes.map(p => p.product_id))];
-          if (filteredProductIds !== null) {
-            const currentFilteredIds = filteredProductIds as string[];
-            filteredProductIds = currentFilteredIds.filter(id => productIdsBySize.includes(id));
-          } else {
-            filteredProductIds = productIdsBySize;
-          }
-        }
-      } else {
-        filteredProductIds = [];
-      }
-    }
-
-    // Filter by materials from variations
-    if (materials && materials.length > 0 && (filteredProductIds === null || filteredProductIds.length > 0)) {
-      const { data: variations } = await serviceClient
-        .from('wholesale_product_variations')
-        .select('product_id')
-        .eq('variation_type', 'material')
-        .in('name', materials);
-      
-      if (variations && variations.length > 0) {
-        const productIdsByMaterial = [...new Set(variations.map(v => v.product_id))];
-        if (filteredProductIds !== null) {
-          const currentFilteredIds = filteredProductIds as string[];
-          filteredProductIds = currentFilteredIds.filter(id => productIdsByMaterial.includes(id));
-        } else {
-          filteredProductIds = productIdsByMaterial;
-        }
-      } else {
-        filteredProductIds = [];
+    // Option filters (facets), keyed as in category_filter_config; the
+    // database resolves where each one is read from
+    const selected: Record<string, string[]> = {};
+    const optionFilters: Record<string, unknown> = {
+      ...(dynamicFilters || {}),
+      brandIds,
+      colors,
+      sizes,
+      materials,
+      gender,
+      productType,
+      style,
+      features,
+    };
+    for (const [filterKey, filterValues] of Object.entries(optionFilters)) {
+      if (Array.isArray(filterValues) && filterValues.length > 0) {
+        selected[filterKey] = filterValues.map(value => String(value));
       }
     }
 
-    // Build query for products count
-    let countQuery = serviceClient
-      .from('active_wholesale_products')
-      .select('*', { count: 'exact', head: true });
-
-    // Build query for products
-    let productsQuery = serviceClient
-      .from('active_wholesale_products')
-      .select('*');
-
-    // Apply product ID filter from pack variant/variation filters
-    if (filteredProductIds !== null) {
-      if (filteredProductIds.length === 0) {
-        // No products match, return empty result
-        return {
-          products: [],
-          pagination: {
-            page,
-            limit,
-            total: 0,
-            totalPages: 0,
-          },
-        };
-      }
-      countQuery = countQuery.in('id', filteredProductIds);
-      productsQuery = productsQuery.in('id', filteredProductIds);
-    }
+    // Search rules first: synonyms rewrite the term, a redirect replaces the
+    // listing. With a search term, the rows come back most relevant first
+    const resolvedSearch = await this.productSearchService.resolveQuery(search);
+    const searchTerm = resolvedSearch?.resolvedQuery ?? null;
+
+    const filters = {
+      search: searchTerm,
+      categoryId: categoryId && categoryId !== 'all' ? categoryId : null,
+      subcategoryId: subcategoryId && subcategoryId !== 'all' ? subcategoryId : null,
+      priceMin: priceMin ?? null,
+      priceMax: priceMax ?? null,
+      minOrder: minOrder ?? null,
+      rating: rating ?? null,
+      inStock: inStock ?? null,
+      freeShipping: freeShipping === true,
+      onSale: filter === 'sale',
+      selected,
+    };
 
-    // Apply filter (popular, new-arrivals, sale)
+    // Filter (popular, new-arrivals, sale) determines the sort order, then sortBy
+    let sort: ListingSort;
     if (filter === 'popular') {
-      // Popular: order by total_sold DESC
-      productsQuery = productsQuery.order('total_sold', { ascending: false });
+      sort = { column: 'total_sold', ascending: false };
     } else if (filter === 'new-arrivals') {
-      // New Arrivals: order by created_at DESC
-      productsQuery = productsQuery.order('created_at', { ascending: false });
+      sort = { column: 'created_at', ascending: false };
     } else if (filter === 'sale') {
-      // Sale: only products with sale_percentage > 0, ordered by sale_percentage DESC
-      countQuery = countQuery.gt('sale_percentage', 0);
-      productsQuery = productsQuery.gt('sale_percentage', 0).order('sale_percentage', { ascending: false });
-    }
-
-    // Apply search filter
-    if (search && search.trim()) {
-      const searchTerm = `%${search.trim()}%`;
-      countQuery = countQuery.or(`name.ilike.${searchTerm},sku.ilike.${searchTerm},description.ilike.${searchTerm}`);
-      productsQuery = productsQuery.or(`name.ilike.${searchTerm},sku.ilike.${searchTerm},description.ilike.${searchTerm}`);
-    }
-
-    // Apply category filter
-    if (categoryId && categoryId !== 'all') {
-      countQuery = countQuery.eq('category_id', categoryId);
-      productsQuery = productsQuery.eq('category_id', categoryId);
-    }
-
-    // Apply subcategory filter
-    if (subcategoryId && subcategoryId !== 'all') {
-      countQuery = countQuery.eq('subcategory_id', subcategoryId);
-      productsQuery = productsQuery.eq('subcategory_id', subcategoryId);
-    }
-
-    // Apply brand filter
-    if (brandIds && brandIds.length > 0) {
-      countQuery = countQuery.in('wholesale_brand_id', brandIds);
-      productsQuery = productsQuery.in('wholesale_brand_id', brandIds);
-    }
-
-    // Apply rating filter
-    if (rating !== undefined && rating !== null) {
-      countQuery = countQuery.gte('rating', rating);
-      productsQuery = productsQuery.gte('rating', rating);
-    }
-
-    // Apply stock filter
-    if (inStock === true) {
-      countQuery = countQuery.gt('stock_quantity', 0);
-      productsQuery = productsQuery.gt('stock_quantity', 0);
-    } else if (inStock === false) {
-      countQuery = countQuery.eq('stock_quantity', 0);
-      productsQuery = productsQuery.eq('stock_quantity', 0);
-    }
-
-    // Apply free shipping filter
-    if (freeShipping === true) {
-      countQuery = countQuery.eq('is_shipping_free', true);
-      productsQuery = productsQuery.eq('is_shipping_free', true);
-    }
-
-    // Apply price range filter
-    if (priceMin !== undefined && priceMin !== null) {
-      countQuery = countQuery.gte('wholesale_price', priceMin);
-      productsQuery = productsQuery.gte('wholesale_price', priceMin);
-    }
-    if (priceMax !== undefined && priceMax !== null) {
-      countQuery = countQuery.lte('wholesale_price', priceMax);
-      productsQuery = productsQuery.lte('wholesale_price', priceMax);
-    }
-
-    // Apply minimum order quantity filter
-    if (minOrder !== undefined && minOrder !== null) {
-      if (minOrder >= 24) {
-        // 24+ means min_order_quantity >= 24
-        countQuery = countQuery.gte('min_order_quantity', 24);
-        productsQuery = productsQuery.gte('min_order_quantity', 24);
-      } else {
-        // Exact match for 1, 6, 12
-        countQuery = countQuery.eq('min_order_quantity', minOrder);
-        productsQuery = productsQuery.eq('min_order_quantity', minOrder);
-      }
-    }
-
-    // Apply product_details JSONB filters
-    // Gender filter
-    if (gender && gender.length > 0) {
-      // Use OR logic for multiple gender values
-      const genderConditions = gender.map(g => `product_details->>'Gender'.eq.${g}`).join(',');
-      countQuery = countQuery.or(genderConditions);
-      productsQuery = productsQuery.or(genderConditions);
-    }
-
-    // Product Type filter
-    if (productType && productType.length > 0) {
-      const productTypeConditions = productType.map(pt => `product_details->>'ProductType'.eq.${pt}`).join(',');
-      countQuery = countQuery.or(productTypeConditions);
-      productsQuery = productsQuery.or(productTypeConditions);
-    }
-
-    // Style filter
-    if (style && style.length > 0) {
-      const styleConditions = style.map(s => `product_details->>'Style'.eq.${s}`).join(',');
-      countQuery = countQuery.or(styleConditions);
-      productsQuery = productsQuery.or(styleConditions);
-    }
-
-    // Features filter (array in product_details)
-    if (features && features.length > 0) {
-      // Features is stored as JSON array, use contains
-      for (const feature of features) {
-        countQuery = countQuery.contains('product_details', { Features: [feature] });
-        productsQuery = productsQuery.contains('product_details', { Features: [feature] });
-      }
-    }
-
-    // Apply dynamic filters from product_details
-    if (dynamicFilters && Object.keys(dynamicFilters).length > 0) {
-      for (const [filterKey, filterValues] of Object.entries(dynamicFilters)) {
-        if (filterValues && filterValues.length > 0) {
-          // Convert filterKey from camelCase to the actual JSON path
-          const jsonPath = filterKey.charAt(0).toUpperCase() + filterKey.slice(1);
-          
-          // Check if it's an array field (Features, Ingredients, Connectivity, etc.)
-          const arrayFields = ['Features', 'Ingredients', 'Connectivity', 'SpecialFeatures', 'Dietary', 'Allergens', 'Usage', 'SafetyStandards', 'SpecialNeeds', 'Certifications', 'SpecialDiet', 'SpecialEdition'];
-          
-          if (arrayFields.includes(jsonPath)) {
-            // For array fields, use contains
-            for (const value of filterValues) {
-              countQuery = countQuery.contains('product_details', { [jsonPath]: [value] });
-              productsQuery = productsQuery.contains('product_details', { [jsonPath]: [value] });
-            }
-          } else {
-            // For single-value fields, use OR logic
-            const conditions = filterValues.map(v => `product_details->>'${jsonPath}'.eq.${v}`).join(',');
-            countQuery = countQuery.or(conditions);
-            productsQuery = productsQuery.or(conditions);
-          }
-        }
-      }
-    }
-
-    // Apply sorting (only if filter is not set, as filter determines the sort order)
-    if (!filter) {
-      if (sortBy === 'price-asc') {
-        productsQuery = productsQuery.order('wholesale_price', { ascending: true });
-      } else if (sortBy === 'price-desc') {
-        productsQuery = productsQuery.order('wholesale_price', { ascending: false });
-      } else if (sortBy === 'newest') {
-        productsQuery = productsQuery.order('created_at', { ascending: false });
-      } else if (sortBy === 'popular') {
-        productsQuery = productsQuery.order('total_sold', { ascending: false });
-      } else if (sortBy === 'rating') {
-        productsQuery = productsQuery.order('rating', { ascending: false, nullsFirst: false });
-      } else {
-        // Default: order by created_at desc
-        productsQuery = productsQuery.order('created_at', { ascending: false });
-      }
+      sort = { column: 'sale_percentage', ascending: false };
+    } else if (sortBy === 'price-asc') {
+      sort = { column: 'wholesale_price', ascending: true };
+    } else if (sortBy === 'price-desc') {
+      sort = { column: 'wholesale_price', ascending: false };
+    } else if (sortBy === 'newest') {
+      sort = { column: 'created_at', ascending: false };
+    } else if (sortBy === 'popular') {
+      sort = { column: 'total_sold', ascending: false };
+    } else if (sortBy === 'rating') {
+      sort = { column: 'rating', ascending: false, nullsFirst: false };
+    } else if (searchTerm && (!sortBy || sortBy === RELEVANCE_SORT)) {
+      // Relevance (default with a search term): keep the search order
+      sort = null;
+    } else {
+      // Default: order by created_at desc
+      sort = { column: 'created_at', ascending: false };
+    }
+
+    // All filters are applied in a single query (filter_wholesale_products);
+    // cursor pages are not counted
+    const pageRequest = { page, limit, cursor };
+    const firstPage = page === 1 && !cursor;
+
+    if (resolvedSearch?.redirect) {
+      return {
+        products: [],
+        facets: {},
+        pagination: listingPage([], sort, pageRequest, 0).pagination,
+        search: await this.searchAnalyticsService.recordListingSearch(
+          { catalog: 'wholesale', source: 'listing', search: resolvedSearch, filters, resultCount: 0, userId },
+          firstPage,
+        ),
+      };
     }
+    const productsQuery = serviceClient
+      .rpc('filter_wholesale_products', { p_filters: filters }, cursor ? {} : { count: 'exact' })
+      .select('*');
 
-    // Get products count
-    const { count, error: countError } = await countQuery;
+    // Get the page, and the facet counts alongside
+    const [productsResult, facetsResult] = await Promise.all([
+      paginateListing(productsQuery, sort, pageRequest),
+      serviceClient.rpc('get_wholesale_product_facets', { p_filters: filters }),
+    ]);
+    const { data: rows, count, error: productsError } = productsResult;
 
-    if (countError) {
+    if (productsError) {
       throw new BadRequestException(
-        `Failed to fetch products count: ${countError.message || 'Unknown error'}`,
+        `Failed to fetch products: ${productsError.message || 'Unknown error'}`,
       );
     }
 
-    // Get products with pagination
-    const { data: products, error: productsError } = await productsQuery
-      .range(offset, offset + limit - 1);
+    const { items: products, pagination } = listingPage(rows, sort, pageRequest, count);
 
-    if (productsError) {
-      throw new BadRequestException(
-        `Failed to fetch products: ${productsError.message || 'Unknown error'}`,
-      );
+    // Facets are a nice-to-have, the listing still works without them
+    if (facetsResult.error) {
+      console.error('Error fetching product facets:', facetsResult.error);
     }
+    const facets: Record<string, { value: string; count: number }[]> = facetsResult.data || {};
 
     // Get images for all products
     const productIds = (products || []).map(p => p.id);
@@ -1510,29 +1612,43 @@ export class ProductsService {
       images: productImages.filter(img => img.product_id === product.id),
     }));
 
-    const totalPages = Math.ceil((count || 0) / limit);
-
     return {
       products: productsWithImages,
-      pagination: {
-        page,
-        limit,
-        total: count || 0,
-        totalPages,
-      },
+      facets,
+      pagination,
+      search: resolvedSearch
+        ? await this.searchAnalyticsService.recordListingSearch(
+            { catalog: 'wholesale', source: 'listing', search: resolvedSearch, filters, resultCount: count || 0, userId },
+            firstPage,
+          )
+        : null,
     };
   }
 
-  async getSearchSuggestions(query: string, limit: number = 8) {
+  async getSearchSuggestions(query: string, limit: number = 8, userId?: string) {
     const serviceClient = this.supabaseService.getServiceClient();
-    const searchTerm = `%${query}%`;
+    const resolvedSearch = await this.productSearchService.resolveQuery(query);
 
-    // Get matching products ordered by total_sold (most popular first)
-    const { data: products, error: productsError } = await serviceClient
-      .from('active_wholesale_products')
-      .select('id, name, slug, brand_name, wholesale_price, total_sold')
-      .or(`name.ilike.${searchTerm},brand_name.ilike.${searchTerm}`)
-      .order('total_sold', { ascending: false })
+    if (!resolvedSearch) {
+      return { suggestions: [], query };
+    }
+
+    // A redirect term suggests its target only
+    if (resolvedSearch.redirect) {
+      void this.searchAnalyticsService.recordSearch({
+        catalog: 'wholesale',
+        source: 'suggestions',
+        search: resolvedSearch,
+        resultCount: 0,
+        userId,
+      });
+      return { suggestions: [], query, redirect: resolvedSearch.redirect };
+    }
+    const searchTerm = resolvedSearch.resolvedQuery!;
+
+    // Get matching products, most relevant first
+    const { data: products, error: productsError } = await this.productSearchService
+      .products('wholesale', searchTerm, 'id, name, slug, brand_name, wholesale_price, total_sold')
       .limit(limit);
 
     if (productsError) {
@@ -1554,21 +1670,10 @@ export class ProductsService {
       productImages = images || [];
     }
 
-    // Get matching categories
-    const { data: categories } = await serviceClient
-      .from('categories')
-      .select('id, name, slug')
-      .ilike('name', searchTerm)
-      .eq('is_active', true)
-      .limit(3);
-
-    // Get matching brands
-    const { data: brands } = await serviceClient
-      .from('wholesale_brands')
-      .select('id, display_name, slug')
-      .ilike('display_name', searchTerm)
-      .eq('status', 'approved')
-      .limit(3);
+    // Get matching categories and brands
+    const names = await this.productSearchService.matchCatalogNames(searchTerm, 3);
+    const categories = names.filter(name => name.kind === 'category');
+    const brands = names.filter(name => name.kind === 'brand');
 
     // Map images to products
     const productSuggestions = (products || []).map(product => {
@@ -1594,21 +1699,34 @@ export class ProductsService {
     const brandSuggestions = (brands || []).map(brand => ({
       type: 'brand' as const,
       id: brand.id,
-      name: brand.display_name,
+      name: brand.name,
       slug: brand.slug,
     }));
 
+    const suggestions = [
+      ...productSuggestions,
+      ...categorySuggestions,
+      ...brandSuggestions,
+    ];
+
+    // Not awaited: suggestions are fetched per keystroke
+    void this.searchAnalyticsService.recordSearch({
+      catalog: 'wholesale',
+      source: 'suggestions',
+      search: resolvedSearch,
+      resultCount: suggestions.length,
+      userId,
+    });
+
     return {
-      suggestions: [
-        ...productSuggestions,
-        ...categorySuggestions,
-        ...brandSuggestions,
-      ],
+      suggestions,
       query,
     };
   }
 
-  async getProductBySlug(slug: string, userId?: string) {
+  // brandId is the caller's brand (if any), allowing previews of its own
+  // inactive products
+  async getProductBySlug(slug: string, brandId?: string) {
     const serviceClient = this.supabaseService.getServiceClient();
 
     // First try to get from active_wholesale_products view (only active products with approved brands)
@@ -1626,19 +1744,16 @@ export class ProductsService {
 
     // If product found and active, get complete product data with relations
     if (product) {
-      return this.getProductComplete(product.id, userId, false);
+      return this.getProductComplete(product.id, brandId, false);
     }
 
-    // If not found in active products and we have a user ID, check if user owns this product
-    if (userId) {
+    // If not found in active products, check if it belongs to the caller's brand
+    if (brandId) {
       const { data: ownedProduct, error: ownedError } = await serviceClient
         .from('wholesale_products')
-        .select(`
-          *,
-          wholesale_brands!inner(user_id, status)
-        `)
+        .select('*')
         .eq('slug', slug)
-        .eq('wholesale_brands.user_id', userId)
+        .eq('wholesale_brand_id', brandId)
         .maybeSingle();
 
       if (ownedError) {
@@ -1649,7 +1764,7 @@ export class ProductsService {
 
       if (ownedProduct) {
         // Return complete product data for owned products
-        return this.getProductComplete(ownedProduct.id, userId, false);
+        return this.getProductComplete(ownedProduct.id, brandId, false);
       }
     }
 
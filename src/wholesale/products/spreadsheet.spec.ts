@@ -0,0 +1,108 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  detectSpreadsheetFormat,
+  parseCsv,
+  readSpreadsheet,
+  writeCsv,
+  writeXlsx,
+} from './spreadsheet';
+
+const XLSX_MIME =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const upload = (
+  originalname: string,
+  content: string | Buffer,
+  mimetype = '',
+) =>
+  ({
+    originalname,
+    mimetype,
+    buffer: Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf8'),
+  }) as Express.Multer.File;
+
+describe('spreadsheet', () => {
+  describe('detectSpreadsheetFormat', () => {
+    it.each([
+      ['products.CSV', '', 'csv'],
+      ['upload', 'text/csv', 'csv'],
+      ['products.xlsx', '', 'xlsx'],
+      ['upload', XLSX_MIME, 'xlsx'],
+      ['products.xls', 'application/vnd.ms-excel', null],
+    ])('reads %s (%s) as %s', (name, mimetype, format) => {
+      expect(detectSpreadsheetFormat(upload(name, '', mimetype))).toBe(format);
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('splits on commas by default', () => {
+      expect(parseCsv('sku,name\nTSH-1,Shirt\n')).toEqual([
+        ['sku', 'name'],
+        ['TSH-1', 'Shirt'],
+      ]);
+    });
+
+    it('takes semicolons from the header line', () => {
+      expect(parseCsv('sku;name;price\r\nTSH-1;Shirt, blue;12,5\r\n')).toEqual([
+        ['sku', 'name', 'price'],
+        ['TSH-1', 'Shirt, blue', '12,5'],
+      ]);
+    });
+
+    it('keeps quoted delimiters, quotes and line breaks', () => {
+      expect(parseCsv('\uFEFFsku,name\n"TSH,1","A ""big""\nshirt"')).toEqual([
+        ['sku', 'name'],
+        ['TSH,1', 'A "big"\nshirt'],
+      ]);
+    });
+
+    it('reads back what writeCsv writes', () => {
+      const rows = [
+        ['sku', 'name'],
+        ['TSH;1', 'Say "hi", twice'],
+      ];
+
+      expect(parseCsv(writeCsv(rows))).toEqual(rows);
+    });
+  });
+
+  describe('readSpreadsheet', () => {
+    it('keys CSV rows by lowercased header and skips blank rows', async () => {
+      const file = upload(
+        'products.csv',
+        ' SKU ,Name,\nTSH-1, Shirt ,ignored\n,,\nTSH-2,Cap\n',
+      );
+
+      expect(await readSpreadsheet(file)).toEqual([
+        { row: 2, values: { sku: 'TSH-1', name: 'Shirt' } },
+        { row: 4, values: { sku: 'TSH-2', name: 'Cap' } },
+      ]);
+    });
+
+    it('reads the first sheet of an XLSX file', async () => {
+      const buffer = await writeXlsx([
+        ['sku', 'barcode', 'stock'],
+        ['TSH-1', 8690000000011, 5],
+        [],
+        ['TSH-2', null, 0],
+      ]);
+
+      expect(await readSpreadsheet(upload('products.xlsx', buffer))).toEqual([
+        {
+          row: 2,
+          values: { sku: 'TSH-1', barcode: '8690000000011', stock: '5' },
+        },
+        { row: 4, values: { sku: 'TSH-2', barcode: '', stock: '0' } },
+      ]);
+    });
+
+    it('rejects other file types and unreadable workbooks', async () => {
+      await expect(
+        readSpreadsheet(upload('products.txt', 'sku\nTSH-1')),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        readSpreadsheet(upload('products.xlsx', 'not a zip')),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
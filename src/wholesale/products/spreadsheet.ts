@@ -0,0 +1,182 @@
+import { BadRequestException } from '@nestjs/common';
+import ExcelJS from 'exceljs';
+
+// A data row keyed by lowercased header, plus its 1-based row in the sheet
+export interface SpreadsheetRow {
+  row: number;
+  values: Record<string, string>;
+}
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export const detectSpreadsheetFormat = (
+  file: Express.Multer.File,
+): SpreadsheetFormat | null => {
+  const name = file.originalname.toLowerCase();
+  if (name.endsWith('.csv') || file.mimetype === 'text/csv') {
+    return 'csv';
+  }
+  if (
+    name.endsWith('.xlsx') ||
+    file.mimetype ===
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ) {
+    return 'xlsx';
+  }
+  return null;
+};
+
+/**
+ * Parse CSV text (RFC 4180 quoting). Spreadsheet apps with a Turkish locale
+ * export with semicolons, so the delimiter is taken from the header line.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const headerLine = content.split(/\r?\n/, 1)[0];
+  const delimiter =
+    headerLine.split(';').length > headerLine.split(',').length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+// Cell values as text, keeping long numbers such as barcodes intact
+const cellText = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    if ('richText' in value) {
+      return value.richText.map((part) => part.text).join('');
+    }
+    if ('text' in value) {
+      return String(value.text);
+    }
+    if ('result' in value) {
+      return cellText(value.result as ExcelJS.CellValue);
+    }
+    return '';
+  }
+  return String(value);
+};
+
+const parseXlsx = async (buffer: Buffer): Promise<string[][]> => {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+  } catch {
+    throw new BadRequestException('Could not read the spreadsheet file');
+  }
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    return [];
+  }
+
+  const rows: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(cellText(row.getCell(column).value));
+    }
+    rows[rowNumber - 1] = cells;
+  });
+  return Array.from(rows, (cells) => cells || []);
+};
+
+/**
+ * Read the first sheet of an uploaded CSV/XLSX file. The first row holds
+ * the column names; blank rows are skipped.
+ */
+export const readSpreadsheet = async (
+  file: Express.Multer.File,
+): Promise<SpreadsheetRow[]> => {
+  const format = detectSpreadsheetFormat(file);
+  if (!format) {
+    throw new BadRequestException('File must be a .csv or .xlsx spreadsheet');
+  }
+
+  const rows =
+    format === 'csv'
+      ? parseCsv(file.buffer.toString('utf8'))
+      : await parseXlsx(file.buffer);
+
+  const [header = [], ...dataRows] = rows;
+  const columns = header.map((name) => name.trim().toLowerCase());
+
+  return dataRows
+    .map((cells, index) => ({
+      row: index + 2,
+      values: Object.fromEntries(
+        columns
+          .map((column, i) => [column, (cells[i] || '').trim()])
+          .filter(([column]) => column),
+      ),
+    }))
+    .filter((row) => Object.values(row.values).some(Boolean));
+};
+
+const csvField = (value: string) =>
+  /[",;\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Rows to CSV text, with a BOM so Excel reads it as UTF-8
+export const writeCsv = (rows: string[][]) =>
+  '\uFEFF' +
+  rows.map((row) => row.map(csvField).join(',')).join('\r\n') +
+  '\r\n';
+
+// Rows to a single-sheet workbook; the first row is bold as the header
+export const writeXlsx = async (
+  rows: (string | number | null)[][],
+  sheetName = 'Sheet1',
+): Promise<Buffer> => {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+  rows.forEach((row) => sheet.addRow(row));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
@@ -7,53 +7,18 @@ import {
   Param,
   Body,
   Query,
-  Headers,
   HttpCode,
   HttpStatus,
-  UnauthorizedException,
   ParseIntPipe,
   DefaultValuePipe,
 } from '@nestjs/common';
 import { ReviewsService } from './reviews.service';
-import { SupabaseService } from '../../supabase/supabase.service';
+import { Public } from '../../auth/decorators/public.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
 
 @Controller('wholesale/reviews')
 export class ReviewsController {
-  constructor(
-    private readonly reviewsService: ReviewsService,
-    private readonly supabaseService: SupabaseService,
-  ) {}
-
-  private async getUserId(authHeader?: string): Promise<string> {
-    const token = authHeader?.replace('Bearer ', '');
-    if (!token) {
-      throw new UnauthorizedException('Authentication required');
-    }
-
-    const supabase = this.supabaseService.getClient();
-    const { data: userData, error } = await supabase.auth.getUser(token);
-
-    if (error || !userData.user) {
-      throw new UnauthorizedException('Invalid or expired token');
-    }
-
-    return userData.user.id;
-  }
-
-  private async getOptionalUserId(authHeader?: string): Promise<string | null> {
-    if (!authHeader) return null;
-
-    try {
-      const token = authHeader.replace('Bearer ', '');
-      const supabase = this.supabaseService.getClient();
-      const { data: userData, error } = await supabase.auth.getUser(token);
-
-      if (error || !userData.user) return null;
-      return userData.user.id;
-    } catch {
-      return null;
-    }
-  }
+  constructor(private readonly reviewsService: ReviewsService) {}
 
   /**
    * Create a new review
@@ -70,34 +35,39 @@ export class ReviewsController {
       qualityRating?: number;
       valueRating?: number;
     },
-    @Headers('authorization') authHeader?: string,
+    @CurrentUser('id') userId: string,
   ) {
-    const userId = await this.getUserId(authHeader);
     return this.reviewsService.createReview(userId, body);
   }
 
   /**
    * Get reviews for a product (public)
    */
+  @Public()
   @Get('product/:productId')
   async getProductReviews(
     @Param('productId') productId: string,
     @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
     @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number,
+    @Query('cursor') cursor?: string,
   ) {
-    return this.reviewsService.getProductReviews(productId, page, limit);
+    return this.reviewsService.getProductReviews(
+      productId,
+      page,
+      limit,
+      cursor,
+    );
   }
 
   /**
    * Check if current user has reviewed a product
    */
+  @Public()
   @Get('check/:productId')
   async checkUserReview(
     @Param('productId') productId: string,
-    @Headers('authorization') authHeader?: string,
+    @CurrentUser('id') userId?: string,
   ) {
-    const userId = await this.getOptionalUserId(authHeader);
-
     if (!userId) {
       return { hasReviewed: false, review: null };
     }
@@ -127,9 +97,8 @@ export class ReviewsController {
       qualityRating?: number;
       valueRating?: number;
     },
-    @Headers('authorization') authHeader?: string,
+    @CurrentUser('id') userId: string,
   ) {
-    const userId = await this.getUserId(authHeader);
     return this.reviewsService.updateReview(userId, reviewId, body);
   }
 
@@ -140,15 +109,15 @@ export class ReviewsController {
   @HttpCode(HttpStatus.OK)
   async deleteReview(
     @Param('reviewId') reviewId: string,
-    @Headers('authorization') authHeader?: string,
+    @CurrentUser('id') userId: string,
   ) {
-    const userId = await this.getUserId(authHeader);
     return this.reviewsService.deleteReview(userId, reviewId);
   }
 
   /**
    * Mark a review as helpful
    */
+  @Public()
   @Post(':reviewId/helpful')
   @HttpCode(HttpStatus.OK)
   async markHelpful(@Param('reviewId') reviewId: string) {
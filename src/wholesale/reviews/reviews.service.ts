@@ -1,5 +1,15 @@
-import { Injectable, BadRequestException, NotFoundException, ConflictException } from '@nestjs/common';
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+  ConflictException,
+} from '@nestjs/common';
 import { SupabaseService } from '../../supabase/supabase.service';
+import {
+  ListingSort,
+  listingPage,
+  paginateListing,
+} from '../../supabase/cursor-pagination';
 
 interface CreateReviewDto {
   productId: string;
@@ -129,36 +139,59 @@ export class ReviewsService {
   /**
    * Get reviews for a product with pagination
    */
-  async getProductReviews(productId: string, page = 1, limit = 10) {
+  async getProductReviews(
+    productId: string,
+    page = 1,
+    limit = 10,
+    cursor?: string,
+  ) {
     const serviceClient = this.supabaseService.getServiceClient();
-    const offset = (page - 1) * limit;
+    const pageRequest = { page, limit, cursor };
+    const sort: ListingSort = { column: 'created_at', ascending: false };
 
-    // Get total count
-    const { count, error: countError } = await serviceClient
-      .from('wholesale_product_reviews')
-      .select('*', { count: 'exact', head: true })
-      .eq('product_id', productId)
-      .eq('is_approved', true);
+    // Get total count (page-based requests only)
+    let count: number | null = null;
+    if (!cursor) {
+      const { count: total, error: countError } = await serviceClient
+        .from('wholesale_product_reviews')
+        .select('*', { count: 'exact', head: true })
+        .eq('product_id', productId)
+        .eq('is_approved', true);
 
-    if (countError) {
-      throw new BadRequestException(`Failed to count reviews: ${countError.message}`);
+      if (countError) {
+        throw new BadRequestException(`Failed to count reviews: ${countError.message}`);
+      }
+      count = total;
     }
 
     // Get reviews
-    const { data: reviews, error } = await serviceClient
+    const query = serviceClient
       .from('wholesale_product_reviews')
       .select('*')
       .eq('product_id', productId)
-      .eq('is_approved', true)
-      .order('created_at', { ascending: false })
-      .range(offset, offset + limit - 1);
+      .eq('is_approved', true);
+    const { data: rows, error } = await paginateListing(
+      query,
+      sort,
+      pageRequest,
+    );
 
     if (error) {
       throw new BadRequestException(`Failed to fetch reviews: ${error.message}`);
     }
 
+    const { items: reviews, pagination } = listingPage(
+      rows,
+      sort,
+      pageRequest,
+      count,
+    );
+
     // Get user info for reviews
-    const userIds = [...new Set((reviews || []).map((r: any) => r.user_id))];
+    // user_id is null for reviews of deleted accounts
+    const userIds = [
+      ...new Set((reviews || []).map((r: any) => r.user_id).filter(Boolean)),
+    ];
     let usersMap = new Map<string, any>();
 
     if (userIds.length > 0) {
@@ -213,15 +246,10 @@ export class ReviewsService {
       reviews: formattedReviews,
       stats: {
         averageRating: Math.round(averageRating * 10) / 10,
-        totalReviews: count || 0,
+        totalReviews: ratingStats?.length || 0,
         ratingDistribution,
       },
-      pagination: {
-        page,
-        limit,
-        total: count || 0,
-        totalPages: Math.ceil((count || 0) / limit),
-      },
+      pagination,
     };
   }
 